@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
+/** Names the service worker's cache, so each build caches its own assets. */
+const buildId = process.env.HABIT_TRACKER_BUILD_ID ?? Date.now().toString(36);
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: { NEXT_PUBLIC_BUILD_ID: buildId },
 };
 
 export default nextConfig;
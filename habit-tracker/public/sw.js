@@ -0,0 +1,123 @@
+// Keeps the app shell available offline and shows reminders on behalf of the app.
+
+const PARAMS = new URL(self.location.href).searchParams;
+// Each build registers the worker under its own id, so a deploy installs a fresh cache and the
+// previous build's hashed assets are deleted with its cache once this one activates.
+const SHELL_CACHE = `ritual-rhythm-shell-${PARAMS.get("build") ?? "v1"}`;
+const SHELL_URLS = [
+  "/",
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/apple-touch-icon.png",
+];
+// Development builds change constantly, so caching is switched off there.
+const CACHING = !PARAMS.has("dev");
+
+/** Hashed build assets referenced by a page, which Next never changes in place. */
+function buildAssetsIn(html) {
+  return Array.from(new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) ?? []));
+}
+
+/** Caches each URL on its own, so one that fails to load is skipped rather than failing all. */
+async function addEach(cache, urls) {
+  await Promise.all(urls.map((url) => cache.add(url).catch(() => undefined)));
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await addEach(cache, SHELL_URLS.filter((url) => url !== "/"));
+  const response = await fetch("/", { cache: "reload" }).catch(() => undefined);
+  if (response?.ok) {
+    const html = await response.clone().text();
+    await cache.put("/", response);
+    await addEach(cache, buildAssetsIn(html));
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil((CACHING ? precacheShell() : Promise.resolve()).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith("ritual-rhythm-") && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+/** Serves the cached page at once and refreshes it, plus its assets, in the background. */
+async function staleWhileRevalidate(request, event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match("/");
+  const refresh = fetch(request)
+    .then(async (response) => {
+      if (response.ok) {
+        const html = await response.clone().text();
+        await cache.put("/", response.clone());
+        await addEach(cache, buildAssetsIn(html));
+      }
+      return response;
+    })
+    .catch(() => undefined);
+  if (cached) {
+    event.waitUntil(refresh);
+    return cached;
+  }
+  return (await refresh) ?? Response.error();
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (!CACHING || event.request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+  if (event.request.mode === "navigate" && url.pathname === "/") {
+    event.respondWith(staleWhileRevalidate(event.request, event));
+  } else if (url.pathname.startsWith("/_next/static/") || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(event.request));
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  const { reminderId } = event.notification.data ?? {};
+  event.notification.close();
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      if (event.action === "snooze") {
+        for (const client of windows) {
+          client.postMessage({ type: "reminder-snooze", reminderId });
+        }
+        return;
+      }
+      const open = windows[0];
+      if (open) {
+        await open.focus();
+      } else {
+        await self.clients.openWindow("/");
+      }
+    })(),
+  );
+});
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { validateCredentials } from "../../../../lib/auth";
+import { login } from "../../../../lib/server/accounts";
+
+export async function POST(request: Request) {
+  const checked = validateCredentials(await request.json().catch(() => null));
+  // Any well-formed attempt gets the same answer, so usernames cannot be probed.
+  const session = checked.ok ? await login(checked.credentials) : null;
+  if (!session) {
+    return NextResponse.json({ error: "Wrong username or password." }, { status: 401 });
+  }
+  return NextResponse.json(session);
+}
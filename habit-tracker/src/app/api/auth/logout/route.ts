@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { bearerToken } from "../../../../lib/auth";
+import { logout } from "../../../../lib/server/accounts";
+
+export async function POST(request: Request) {
+  const token = bearerToken(request.headers.get("Authorization"));
+  if (token) {
+    await logout(token);
+  }
+  return new NextResponse(null, { status: 204 });
+}
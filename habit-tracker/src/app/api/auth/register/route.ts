@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { validateCredentials } from "../../../../lib/auth";
+import { registerUser } from "../../../../lib/server/accounts";
+
+export async function POST(request: Request) {
+  const checked = validateCredentials(await request.json().catch(() => null));
+  if (!checked.ok) {
+    return NextResponse.json({ error: checked.error }, { status: 400 });
+  }
+  const result = await registerUser(checked.credentials);
+  if (result === "closed") {
+    return NextResponse.json(
+      { error: "This server does not accept new accounts." },
+      { status: 403 },
+    );
+  }
+  if (result === "taken") {
+    return NextResponse.json({ error: "That username is already taken." }, { status: 409 });
+  }
+  return NextResponse.json(result, { status: 201 });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { authenticate, isRegistrationOpen } from "../../../../lib/server/accounts";
+
+/** Who the token belongs to, so a device can refresh the entitlement it shows. */
+export async function GET(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return NextResponse.json(
+      { error: "Not signed in.", registrationOpen: isRegistrationOpen() },
+      { status: 401 },
+    );
+  }
+  return NextResponse.json({ account });
+}
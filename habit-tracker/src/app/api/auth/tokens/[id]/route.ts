@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { authenticate, revokeApiToken } from "../../../../../lib/server/accounts";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: Request, { params }: Params) {
+  const account = await authenticate(request);
+  if (!account) {
+    return NextResponse.json({ error: "Sign in to manage API tokens." }, { status: 401 });
+  }
+  if (!(await revokeApiToken(account.id, (await params).id))) {
+    return NextResponse.json({ error: "No such API token." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authenticate, createApiToken, listApiTokens } from "../../../../lib/server/accounts";
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign in to manage API tokens." }, { status: 401 });
+}
+
+export async function GET(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return unauthorized();
+  }
+  return NextResponse.json({ tokens: await listApiTokens(account.id) });
+}
+
+/** Makes a token for scripts calling `/api/v1`. The response is the only place it appears. */
+export async function POST(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return unauthorized();
+  }
+  const body: unknown = await request.json().catch(() => null);
+  const label =
+    typeof body === "object" && body !== null && "label" in body && typeof body.label === "string"
+      ? body.label
+      : "";
+  return NextResponse.json(await createApiToken(account.id, label), { status: 201 });
+}
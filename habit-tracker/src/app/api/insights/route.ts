@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import type { InsightContext } from "../../../lib/insights";
+import { authenticate } from "../../../lib/server/accounts";
+import { isLlmConfigured, LlmError, requestLlmInsights } from "../../../lib/server/llmInsights";
+
+export async function GET() {
+  return NextResponse.json({ available: isLlmConfigured() });
+}
+
+export async function POST(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return NextResponse.json({ error: "Sign in to use model insights." }, { status: 401 });
+  }
+  if (!account.premium) {
+    return NextResponse.json(
+      { error: "Model insights are part of Premium for this account." },
+      { status: 403 },
+    );
+  }
+  const body: unknown = await request.json().catch(() => null);
+  const context =
+    typeof body === "object" && body !== null && "context" in body ? body.context : null;
+  if (
+    typeof context !== "object" ||
+    context === null ||
+    !Array.isArray((context as InsightContext).habits)
+  ) {
+    return NextResponse.json({ error: "Expected an insight context." }, { status: 400 });
+  }
+
+  try {
+    const insights = await requestLlmInsights(context as InsightContext);
+    return NextResponse.json({ insights });
+  } catch (error) {
+    if (error instanceof LlmError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: isLlmConfigured() ? 502 : 501 },
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "../../../../lib/server/accounts";
+import { revokeShare, type RevokeAccess } from "../../../../lib/server/shareStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * Revokes a share link. The account that made it may do so when signed in;
+ * anyone else needs the revoke key handed out when it was made, in the body.
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  const body: unknown = await request.json().catch(() => null);
+  const revokeKey =
+    typeof body === "object" && body !== null && "revokeKey" in body ? body.revokeKey : null;
+  let access: RevokeAccess;
+  if (typeof revokeKey === "string" && revokeKey.length > 0) {
+    access = { revokeKey };
+  } else {
+    const account = await authenticate(request);
+    if (!account) {
+      return NextResponse.json(
+        { error: "Sign in as the link's owner or give its revoke key." },
+        { status: 401 },
+      );
+    }
+    access = { ownerId: account.id };
+  }
+
+  const result = await revokeShare((await params).id, access);
+  if (result === "missing") {
+    return NextResponse.json({ error: "No such share link." }, { status: 404 });
+  }
+  if (result === "forbidden") {
+    return NextResponse.json(
+      { error: "revokeKey" in access ? "That revoke key does not match." : "Not your share link." },
+      { status: 403 },
+    );
+  }
+  return new NextResponse(null, { status: 204 });
+}
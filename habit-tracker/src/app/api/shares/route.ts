@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "../../../lib/server/accounts";
+import { createShare, listShares } from "../../../lib/server/shareStore";
+import { readServerState, withStateLock } from "../../../lib/server/stateStore";
+import { buildShareSnapshot, validateShareOptions } from "../../../lib/share";
+
+/** The share links the signed-in account has made. */
+export async function GET(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return NextResponse.json({ error: "Sign in to see your share links." }, { status: 401 });
+  }
+  return NextResponse.json({ shares: await listShares(account.id) });
+}
+
+/**
+ * Creates a share link from the account's synced state, so a link can only
+ * show data the account really has. The body carries just the share options.
+ */
+export async function POST(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return NextResponse.json({ error: "Sign in to create share links." }, { status: 401 });
+  }
+  const body: unknown = await request.json().catch(() => null);
+  const item = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+  const options = validateShareOptions(item.options);
+  if (!options) {
+    return NextResponse.json(
+      { error: "Expected habits to share, a date range and an expiry." },
+      { status: 400 },
+    );
+  }
+
+  const state = await withStateLock(() => readServerState(account.id));
+  if (!state) {
+    return NextResponse.json(
+      { error: "Turn on sync so the server has your habits before sharing them." },
+      { status: 409 },
+    );
+  }
+  if (!options.habitIds.every((id) => state.habits.some((habit) => habit.id === id))) {
+    return NextResponse.json(
+      { error: "Some of the chosen habits have not synced yet." },
+      { status: 400 },
+    );
+  }
+
+  const snapshot = buildShareSnapshot(state, options, new Date().toISOString());
+  return NextResponse.json(await createShare(snapshot, options.expiresInDays, account.id), {
+    status: 201,
+  });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { defaultState, migrateState, serializeState } from "../../../lib/persistence";
+import { authenticate } from "../../../lib/server/accounts";
+import { readServerState, withStateLock, writeServerState } from "../../../lib/server/stateStore";
+import { mergeStates } from "../../../lib/sync";
+
+function stateResponse(body: string) {
+  return new NextResponse(body, { headers: { "Content-Type": "application/json" } });
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign in to sync." }, { status: 401 });
+}
+
+export async function GET(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return unauthorized();
+  }
+  const state = await withStateLock(() => readServerState(account.id));
+  return stateResponse(serializeState({ ...(state ?? defaultState), premium: account.premium }));
+}
+
+export async function POST(request: Request) {
+  const account = await authenticate(request);
+  if (!account) {
+    return unauthorized();
+  }
+  let incoming;
+  try {
+    incoming = migrateState(await request.json()).state;
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid state payload." },
+      { status: 400 },
+    );
+  }
+
+  const merged = await withStateLock(async () => {
+    const stored = await readServerState(account.id);
+    // Premium is the account's entitlement, never what the device claims.
+    const next = { ...mergeStates(incoming, stored ?? defaultState), premium: account.premium };
+    await writeServerState(account.id, next);
+    return next;
+  });
+  return stateResponse(serializeState(merged));
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { appReducer } from "../../../../lib/actions";
+import { parseGratitudeEntry, type ApiResult } from "../../../../lib/api";
+import { apiError, readJson, withAccount } from "../../../../lib/server/api";
+import { updateServerState } from "../../../../lib/server/stateStore";
+import type { GratitudeEntry } from "../../../../lib/types";
+
+/** Adds a journal entry; a day can hold several. */
+export async function POST(request: Request) {
+  return withAccount(request, async (account) => {
+    const body = await readJson(request);
+    const result = await updateServerState<ApiResult<GratitudeEntry>>(account.id, (state, at) => {
+      const entry = parseGratitudeEntry(body, state, at);
+      if (!entry.ok) {
+        return { state, result: entry };
+      }
+      return {
+        state: appReducer(state, { type: "gratitude/save", entry: entry.value }),
+        result: entry,
+      };
+    });
+    if (!result.ok) {
+      return apiError(400, result.error);
+    }
+    return NextResponse.json({ entry: result.value }, { status: 201 });
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { appReducer } from "../../../../../lib/actions";
+import { parseHabitChanges, type ApiResult } from "../../../../../lib/api";
+import { apiError, readJson, withAccount } from "../../../../../lib/server/api";
+import {
+  readServerState,
+  updateServerState,
+  withStateLock,
+} from "../../../../../lib/server/stateStore";
+import type { Habit } from "../../../../../lib/types";
+
+type Params = { params: Promise<{ habitId: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  return withAccount(request, async (account) => {
+    const { habitId } = await params;
+    const state = await withStateLock(() => readServerState(account.id));
+    const habit = state?.habits.find((item) => item.id === habitId);
+    return habit ? NextResponse.json({ habit }) : apiError(404, "No such habit.");
+  });
+}
+
+/** Changes only the fields sent; the rest keep their values. */
+export async function PATCH(request: Request, { params }: Params) {
+  return withAccount(request, async (account) => {
+    const { habitId } = await params;
+    const body = await readJson(request);
+    const result = await updateServerState<ApiResult<Habit> | null>(account.id, (state, at) => {
+      const existing = state.habits.find((item) => item.id === habitId);
+      if (!existing) {
+        return { state, result: null };
+      }
+      const changes = parseHabitChanges(body, state, existing);
+      if (!changes.ok) {
+        return { state, result: changes };
+      }
+      const next = appReducer(state, { type: "habit/update", habitId, changes: changes.value });
+      const habit = next.habits.find((item) => item.id === habitId)!;
+      // Stamping skips records that did not change, so an empty update keeps the old timestamp.
+      const changed = JSON.stringify(habit) !== JSON.stringify(existing);
+      return {
+        state: next,
+        result: { ok: true, value: changed ? { ...habit, updatedAt: at } : existing },
+      };
+    });
+    if (!result) {
+      return apiError(404, "No such habit.");
+    }
+    if (!result.ok) {
+      return apiError(400, result.error);
+    }
+    return NextResponse.json({ habit: result.value });
+  });
+}
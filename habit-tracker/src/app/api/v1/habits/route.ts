@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { appReducer } from "../../../../lib/actions";
+import { parseHabitChanges, type ApiResult } from "../../../../lib/api";
+import { dayKeyAt } from "../../../../lib/dates";
+import { createHabit } from "../../../../lib/habits";
+import { orderHabits } from "../../../../lib/routines";
+import { apiError, readJson, withAccount } from "../../../../lib/server/api";
+import {
+  readServerState,
+  updateServerState,
+  withStateLock,
+} from "../../../../lib/server/stateStore";
+import type { Habit } from "../../../../lib/types";
+
+/** Every habit, archived ones included, in routine order. */
+export async function GET(request: Request) {
+  return withAccount(request, async (account) => {
+    const state = await withStateLock(() => readServerState(account.id));
+    return NextResponse.json({
+      habits: state ? orderHabits(state.habits, state.routines) : [],
+    });
+  });
+}
+
+export async function POST(request: Request) {
+  return withAccount(request, async (account) => {
+    const body = await readJson(request);
+    const result = await updateServerState<ApiResult<Habit>>(account.id, (state, at) => {
+      const changes = parseHabitChanges(body, state, null);
+      if (!changes.ok) {
+        return { state, result: changes };
+      }
+      const today = dayKeyAt(new Date(at), state.settings);
+      const habit = createHabit(changes.value, state.habits, at, today);
+      return {
+        state: appReducer(state, { type: "habit/add", habit }),
+        result: { ok: true, value: habit },
+      };
+    });
+    if (!result.ok) {
+      return apiError(400, result.error);
+    }
+    return NextResponse.json({ habit: result.value }, { status: 201 });
+  });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { appReducer } from "../../../../../lib/actions";
+import { isCalendarDate, parseLogUpsert, type ApiResult } from "../../../../../lib/api";
+import { apiError, readJson, withAccount } from "../../../../../lib/server/api";
+import {
+  readServerState,
+  updateServerState,
+  withStateLock,
+} from "../../../../../lib/server/stateStore";
+import type { AppState, HabitLog } from "../../../../../lib/types";
+
+type Params = { params: Promise<{ date: string }> };
+
+function logsOn(state: AppState | null, date: string): HabitLog[] {
+  return state ? state.logs.filter((log) => log.date === date) : [];
+}
+
+export async function GET(request: Request, { params }: Params) {
+  return withAccount(request, async (account) => {
+    const { date } = await params;
+    if (!isCalendarDate(date)) {
+      return apiError(400, 'The date must be a "YYYY-MM-DD" day.');
+    }
+    const state = await withStateLock(() => readServerState(account.id));
+    return NextResponse.json({ date, logs: logsOn(state, date) });
+  });
+}
+
+/**
+ * Sets the day's log for each habit sent, replacing what was there, so
+ * sending the same export twice gives the same result. Other habits are untouched.
+ */
+export async function PUT(request: Request, { params }: Params) {
+  return withAccount(request, async (account) => {
+    const { date } = await params;
+    if (!isCalendarDate(date)) {
+      return apiError(400, 'The date must be a "YYYY-MM-DD" day.');
+    }
+    const body = await readJson(request);
+    const result = await updateServerState<ApiResult<HabitLog[]>>(account.id, (state, at) => {
+      const actions = parseLogUpsert(body, state, date, at);
+      if (!actions.ok) {
+        return { state, result: actions };
+      }
+      const next = actions.value.reduce(appReducer, state);
+      return { state: next, result: { ok: true, value: logsOn(next, date) } };
+    });
+    if (!result.ok) {
+      return apiError(400, result.error);
+    }
+    return NextResponse.json({ date, logs: result.value });
+  });
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { OPENAPI_DOCUMENT } from "../../../../lib/openapi";
+
+/** Public, so API clients and doc viewers can read it without a token. */
+export async function GET() {
+  return NextResponse.json(OPENAPI_DOCUMENT);
+}
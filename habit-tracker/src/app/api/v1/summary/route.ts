@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { parseRange } from "../../../../lib/api";
+import { dayKeyAt } from "../../../../lib/dates";
+import { defaultState } from "../../../../lib/persistence";
+import { summarizeRange } from "../../../../lib/reports";
+import { apiError, withAccount } from "../../../../lib/server/api";
+import { readServerState, withStateLock } from "../../../../lib/server/stateStore";
+
+/** The same summary the report builder shows, for `?start=YYYY-MM-DD&end=YYYY-MM-DD`. */
+export async function GET(request: Request) {
+  return withAccount(request, async (account) => {
+    const params = new URL(request.url).searchParams;
+    const state = (await withStateLock(() => readServerState(account.id))) ?? defaultState;
+    const todayKey = dayKeyAt(new Date(), state.settings);
+    const range = parseRange(params, todayKey);
+    if (!range.ok) {
+      return apiError(400, range.error);
+    }
+    const summary = summarizeRange({
+      logs: state.logs,
+      habits: state.habits,
+      routines: state.routines,
+      gratitude: state.gratitude,
+      label: params.get("label")?.trim().slice(0, 60) || "Summary",
+      ...range.value,
+      todayKey,
+    });
+    return NextResponse.json({ range: range.value, summary });
+  });
+}
@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 
@@ -16,6 +16,19 @@ export const metadata: Metadata = {
   title: "Ritual Rhythm Habit Tracker",
   description:
     "Track daily habits, capture gratitude reflections, and unlock AI-powered insights with Ritual Rhythm.",
+  applicationName: "Ritual Rhythm",
+  appleWebApp: {
+    capable: true,
+    title: "Ritual Rhythm",
+    statusBarStyle: "black-translucent",
+  },
+  icons: {
+    apple: "/icons/apple-touch-icon.png",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#020617",
 };
 
 export default function RootLayout({
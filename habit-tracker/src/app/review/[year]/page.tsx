@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import YearReview from "../../../components/YearReview";
+import { parseReviewYear } from "../../../lib/review";
+
+type Params = { params: Promise<{ year: string }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { year } = await params;
+  return { title: `${year} Year in Review · Ritual Rhythm` };
+}
+
+export default async function ReviewPage({ params }: Params) {
+  const year = parseReviewYear((await params).year);
+  if (year === null) {
+    notFound();
+  }
+  return <YearReview year={year} />;
+}
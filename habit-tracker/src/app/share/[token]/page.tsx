@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import SharedSnapshot from "../../../components/SharedSnapshot";
+import { lookupShare } from "../../../lib/server/shareStore";
+
+type Params = { params: Promise<{ token: string }> };
+
+// Revoking a link has to take effect on the next request, so nothing here is cached.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Shared progress · Ritual Rhythm",
+  robots: { index: false, follow: false },
+};
+
+export default async function SharePage({ params }: Params) {
+  const share = await lookupShare((await params).token);
+  if (share.status === "missing") {
+    notFound();
+  }
+  if (share.status !== "active") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-950 px-4 text-slate-100">
+        <div className="max-w-md rounded-3xl bg-slate-900/60 p-8 text-center ring-1 ring-slate-800">
+          <h1 className="text-xl font-semibold text-white">
+            {share.status === "revoked" ? "This link was revoked" : "This link has expired"}
+          </h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Ask the person who shared it for a fresh link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+  return <SharedSnapshot snapshot={share.snapshot} expiresAt={share.expiresAt} />;
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useState } from "react";
+import type { SignInMode } from "../hooks/useProfiles";
+import { MIN_PASSWORD_LENGTH, type AccountInfo, type Credentials } from "../lib/auth";
+import { DEFAULT_PROFILE_ID, type Profile } from "../lib/profiles";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+export default function AccountPanel({
+  profiles,
+  profile,
+  account,
+  premium,
+  busy,
+  error,
+  onSignIn,
+  onSignOut,
+  onSwitchProfile,
+  onCreateProfile,
+  onRenameProfile,
+  onRemoveProfile,
+}: {
+  profiles: Profile[];
+  profile: Profile;
+  account: AccountInfo | null;
+  /** The entitlement last confirmed by the server. */
+  premium: boolean;
+  busy: boolean;
+  error: string | null;
+  onSignIn: (mode: SignInMode, credentials: Credentials) => Promise<void>;
+  onSignOut: () => Promise<void>;
+  onSwitchProfile: (profileId: string) => void;
+  onCreateProfile: (name: string) => void;
+  onRenameProfile: (profileId: string, name: string) => void;
+  onRemoveProfile: (profileId: string) => Promise<void>;
+}) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [newProfile, setNewProfile] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const submit = async (mode: SignInMode) => {
+    await onSignIn(mode, { username, password });
+    setPassword("");
+  };
+
+  const addProfile = () => {
+    if (!newProfile.trim()) {
+      return;
+    }
+    onCreateProfile(newProfile);
+    setNewProfile("");
+  };
+
+  const saveRename = () => {
+    if (renaming) {
+      onRenameProfile(renaming.id, renaming.name);
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800 md:col-span-2">
+      <h2 className="text-xl font-semibold text-white">Profiles &amp; Account</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Everyone in the household can keep their own profile on this device. Sign a profile in to
+        an account on your server to sync it and to use the features your account includes.
+      </p>
+
+      <div className="mt-4 grid gap-6 md:grid-cols-2">
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Profiles on this device
+          </h3>
+          <ul className="mt-2 space-y-2">
+            {profiles.map((item) => (
+              <li
+                key={item.id}
+                className="flex flex-wrap items-center gap-2 rounded-2xl bg-slate-950/60 p-3 text-sm"
+              >
+                {renaming?.id === item.id ? (
+                  <input
+                    value={renaming.name}
+                    onChange={(event) => setRenaming({ ...renaming, name: event.target.value })}
+                    onKeyDown={(event) => event.key === "Enter" && saveRename()}
+                    onBlur={saveRename}
+                    aria-label="Profile name"
+                    maxLength={30}
+                    autoFocus
+                    className={`min-w-0 flex-1 ${inputClass}`}
+                  />
+                ) : (
+                  <button
+                    onClick={() => setRenaming({ id: item.id, name: item.name })}
+                    title="Rename"
+                    className="min-w-0 flex-1 truncate text-left font-semibold text-slate-200 hover:text-white"
+                  >
+                    {item.name}
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      {item.session
+                        ? `@${item.session.username}`
+                        : item.owner
+                          ? `@${item.owner.username} · signed out`
+                          : "Not signed in"}
+                    </span>
+                  </button>
+                )}
+                {item.id === profile.id ? (
+                  <span className="rounded-full bg-emerald-500/10 px-3 py-1 text-xs font-semibold text-emerald-300">
+                    Active
+                  </span>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onSwitchProfile(item.id)}
+                      className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+                    >
+                      Switch
+                    </button>
+                    {item.id !== DEFAULT_PROFILE_ID &&
+                      (removingId === item.id ? (
+                        <button
+                          onClick={() => {
+                            setRemovingId(null);
+                            void onRemoveProfile(item.id);
+                          }}
+                          className="rounded-full bg-rose-500/20 px-3 py-1 text-xs font-semibold text-rose-200 hover:bg-rose-500/30"
+                        >
+                          Delete its data?
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setRemovingId(item.id)}
+                          title="Removes the profile and everything it saved on this device"
+                          className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-rose-300 hover:bg-rose-500/20"
+                        >
+                          Remove
+                        </button>
+                      ))}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex gap-2">
+            <input
+              value={newProfile}
+              onChange={(event) => setNewProfile(event.target.value)}
+              onKeyDown={(event) => event.key === "Enter" && addProfile()}
+              placeholder="Name"
+              aria-label="New profile name"
+              maxLength={30}
+              className={`min-w-0 flex-1 ${inputClass}`}
+            />
+            <button
+              onClick={addProfile}
+              className="rounded-2xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-400"
+            >
+              Add profile
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Account for {profile.name}
+          </h3>
+          {profile.session ? (
+            <div className="mt-2 space-y-3 rounded-2xl bg-slate-950/60 p-4 text-sm">
+              <p className="text-slate-300">
+                Signed in as{" "}
+                <span className="font-semibold text-white">{profile.session.username}</span>
+              </p>
+              <p className="text-xs text-slate-500">
+                {premium
+                  ? "This account includes Premium Insights."
+                  : "This account is on the core plan. Ask whoever runs the server to enable Premium Insights."}
+                {!account && " Not confirmed with the server yet."}
+              </p>
+              <button
+                onClick={() => void onSignOut()}
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+              >
+                Sign out
+              </button>
+            </div>
+          ) : (
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                void submit("login");
+              }}
+              className="mt-2 grid gap-3"
+            >
+              {profile.owner && (
+                <p className="text-xs text-slate-500">
+                  This profile holds the data of{" "}
+                  <span className="text-slate-300">@{profile.owner.username}</span>, so only that
+                  account can sign in here. Add a profile to use another account.
+                </p>
+              )}
+              <input
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                placeholder="Username"
+                aria-label="Username"
+                autoComplete="username"
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+                aria-label="Password"
+                autoComplete="current-password"
+                className={inputClass}
+              />
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="submit"
+                  disabled={busy || !username || !password}
+                  className="rounded-2xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-40"
+                >
+                  Sign in
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void submit("register")}
+                  disabled={busy || !username || !password}
+                  className="rounded-2xl bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+                >
+                  Create account
+                </button>
+              </div>
+            </form>
+          )}
+          {error && <p className="mt-3 text-xs text-rose-300">{error}</p>}
+        </div>
+      </div>
+    </section>
+  );
+}
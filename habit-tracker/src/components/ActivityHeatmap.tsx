@@ -0,0 +1,150 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { addDays, parseDate } from "../lib/dates";
+import { buildHeatmap, type HeatmapCell, type HeatmapMetric } from "../lib/heatmap";
+import type { Habit, HabitLog } from "../lib/types";
+
+const LEVEL_STYLES: Record<HeatmapCell["level"], string> = {
+  0: "bg-slate-800/70",
+  1: "bg-emerald-900",
+  2: "bg-emerald-700",
+  3: "bg-emerald-500",
+  4: "bg-emerald-300",
+};
+
+const ROW_LABELS = ["Mon", "", "Wed", "", "Fri", "", ""];
+
+function describeCell(cell: HeatmapCell, metric: HeatmapMetric) {
+  const day = parseDate(cell.date).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return metric === "minutes"
+    ? `${day}: ${cell.value} min`
+    : `${day}: ${Math.round(cell.value * 100)}% of targets`;
+}
+
+export default function ActivityHeatmap({
+  habits,
+  logs,
+  todayKey,
+  selectedDate,
+  onSelectDate,
+}: {
+  habits: Habit[];
+  logs: HabitLog[];
+  todayKey: string;
+  selectedDate?: string;
+  onSelectDate?: (dateKey: string) => void;
+}) {
+  const [habitId, setHabitId] = useState("");
+  const [metric, setMetric] = useState<HeatmapMetric>("minutes");
+  const [period, setPeriod] = useState("past-year");
+
+  const years = useMemo(() => {
+    const found = new Set(logs.map((log) => log.date.slice(0, 4)));
+    found.add(todayKey.slice(0, 4));
+    return Array.from(found).sort().reverse();
+  }, [logs, todayKey]);
+
+  const { weeks } = useMemo(() => {
+    const [startKey, endKey] =
+      period === "past-year"
+        ? [addDays(todayKey, -364), todayKey]
+        : [`${period}-01-01`, `${period}-12-31` < todayKey ? `${period}-12-31` : todayKey];
+    return buildHeatmap({
+      habits,
+      logs,
+      habitId: habitId || undefined,
+      startKey,
+      endKey,
+      metric,
+    });
+  }, [habits, logs, habitId, metric, period, todayKey]);
+
+  const selectClass =
+    "rounded-xl border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-200 focus:border-amber-400 focus:outline-none";
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={habitId}
+          onChange={(event) => setHabitId(event.target.value)}
+          aria-label="Habit"
+          className={selectClass}
+        >
+          <option value="">All habits</option>
+          {habits.map((habit) => (
+            <option key={habit.id} value={habit.id}>
+              {habit.name}
+              {habit.archived ? " (archived)" : ""}
+            </option>
+          ))}
+        </select>
+        <select
+          value={metric}
+          onChange={(event) => setMetric(event.target.value as HeatmapMetric)}
+          aria-label="Intensity"
+          className={selectClass}
+        >
+          <option value="minutes">Minutes logged</option>
+          <option value="completion">Target completion</option>
+        </select>
+        <select
+          value={period}
+          onChange={(event) => setPeriod(event.target.value)}
+          aria-label="Period"
+          className={selectClass}
+        >
+          <option value="past-year">Past 12 months</option>
+          {years.map((year) => (
+            <option key={year} value={year}>
+              {year}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-4 flex gap-1 overflow-x-auto pb-2">
+        <div className="grid shrink-0 grid-rows-7 gap-1 pr-1 text-[10px] leading-3 text-slate-500">
+          {ROW_LABELS.map((label, index) => (
+            <span key={index} className="h-3">
+              {label}
+            </span>
+          ))}
+        </div>
+        {weeks.map((week) => (
+          <div key={week[0]!.date} className="grid shrink-0 grid-rows-7 gap-1">
+            {week.map((cell) =>
+              cell.inRange ? (
+                <button
+                  key={cell.date}
+                  type="button"
+                  title={describeCell(cell, metric)}
+                  aria-label={describeCell(cell, metric)}
+                  disabled={!onSelectDate}
+                  onClick={() => onSelectDate?.(cell.date)}
+                  className={`h-3 w-3 rounded-sm ${LEVEL_STYLES[cell.level]} ${cell.date === selectedDate ? "ring-2 ring-amber-400" : ""} ${onSelectDate ? "hover:ring-1 hover:ring-slate-300" : ""}`}
+                />
+              ) : (
+                <span key={cell.date} className="h-3 w-3" />
+              ),
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 flex items-center justify-end gap-1 text-[10px] text-slate-500">
+        <span>Less</span>
+        {([0, 1, 2, 3, 4] as const).map((level) => (
+          <span key={level} className={`h-3 w-3 rounded-sm ${LEVEL_STYLES[level]}`} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from "react";
+import { useApiTokens } from "../hooks/useApiTokens";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+/** Tokens for scripts that call `/api/v1`. Only shown while the profile is signed in. */
+export default function ApiTokenPanel({ username }: { username: string }) {
+  const apiTokens = useApiTokens();
+  const { created } = apiTokens;
+  const [label, setLabel] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const createToken = async () => {
+    setCopied(false);
+    await apiTokens.create(label);
+    setLabel("");
+  };
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    setCopied(true);
+  };
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800 md:col-span-2">
+      <h2 className="text-xl font-semibold text-white">API Tokens</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Let scripts read and log habits for <span className="text-slate-200">{username}</span>{" "}
+        through <code className="text-slate-300">/api/v1</code>. The API is described at{" "}
+        <a href="/api/v1/openapi.json" className="text-amber-300 hover:text-amber-200">
+          /api/v1/openapi.json
+        </a>
+        . A token works until you revoke it.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <input
+          value={label}
+          onChange={(event) => setLabel(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && void createToken()}
+          placeholder="What will use it, e.g. fitness export"
+          aria-label="Token label"
+          maxLength={60}
+          className={`min-w-0 flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={() => void createToken()}
+          className="rounded-2xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-400"
+        >
+          Create token
+        </button>
+      </div>
+
+      {created && (
+        <div className="mt-4 rounded-2xl border border-amber-500/40 bg-amber-400/10 p-4 text-sm">
+          <p className="text-amber-100">Copy this token now. It will not be shown again.</p>
+          <code className="mt-2 block break-all rounded-xl bg-slate-950 px-3 py-2 text-xs text-slate-100">
+            {created.token}
+          </code>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={() => void copyToken(created.token)}
+              className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+            >
+              {copied ? "Copied" : "Copy"}
+            </button>
+            <button
+              onClick={apiTokens.dismissCreated}
+              className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+      {apiTokens.error && <p className="mt-3 text-xs text-rose-300">{apiTokens.error}</p>}
+
+      {apiTokens.tokens.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {apiTokens.tokens.map((token) => (
+            <li
+              key={token.id}
+              className="flex flex-wrap items-center gap-3 rounded-2xl bg-slate-950/60 p-3 text-sm"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-semibold text-slate-200">{token.label}</p>
+                <p className="text-xs text-slate-500">
+                  Created {new Date(token.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => void apiTokens.revoke(token.id)}
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-rose-300 hover:bg-rose-500/20"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import Link from "next/link";
+import type { SyncStatus } from "../hooks/useAppStorage";
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  disabled: "Sync off",
+  offline: "Offline - changes saved locally",
+  syncing: "Syncing…",
+  synced: "Synced",
+  "signed-out": "Signed out - sign in to sync",
+  error: "Sync server unreachable",
+};
+
+export default function AppHeader({
+  profileName,
+  premium,
+  todayKey,
+  online,
+  syncEnabled,
+  syncStatus,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+}: {
+  profileName: string;
+  premium: boolean;
+  todayKey: string;
+  online: boolean;
+  syncEnabled: boolean;
+  syncStatus: SyncStatus;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}) {
+  return (
+    <header className="rounded-3xl bg-slate-900/60 p-8 ring-1 ring-slate-800 backdrop-blur">
+      <div className="flex flex-col gap-6 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight text-white md:text-4xl">
+            Ritual Rhythm Habit Tracker
+          </h1>
+          <p className="mt-2 max-w-2xl text-sm text-slate-300 md:text-base">
+            Map your habits, capture daily gratitude, and surface actionable insights that power
+            weekly, monthly, and year-end reflections.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={onUndo}
+            disabled={!undoLabel}
+            title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+            className="rounded-full bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!redoLabel}
+            title={
+              redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"
+            }
+            className="rounded-full bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+          >
+            Redo
+          </button>
+          <Link
+            href={`/review/${todayKey.slice(0, 4)}`}
+            className="rounded-full bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 hover:bg-slate-700"
+          >
+            Year in Review
+          </Link>
+          <div
+            className={`rounded-full px-4 py-2 text-xs font-medium ${premium ? "bg-amber-400 text-slate-900 shadow-lg shadow-amber-400/40" : "bg-slate-800 text-slate-300"}`}
+          >
+            {profileName} · {premium ? "Premium Active" : "Core Mode"}
+          </div>
+          {!online ? (
+            <div
+              role="status"
+              className="rounded-full bg-amber-400/10 px-4 py-2 text-xs font-medium text-amber-200 ring-1 ring-amber-400/40"
+            >
+              {SYNC_STATUS_LABELS.offline}
+            </div>
+          ) : (
+            syncEnabled && (
+              <div className="rounded-full bg-slate-800 px-4 py-2 text-xs font-medium text-slate-300">
+                {SYNC_STATUS_LABELS[syncStatus]}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </header>
+  );
+}
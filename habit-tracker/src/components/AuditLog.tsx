@@ -0,0 +1,112 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { parseDate } from "../lib/dates";
+import { isSuperseded, type AuditEntry } from "../lib/history";
+import type { AppState } from "../lib/types";
+
+function formatDay(dateKey: string) {
+  return parseDate(dateKey).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export default function AuditLog({
+  entries,
+  state,
+  selectedDate,
+  onRevert,
+  onClear,
+}: {
+  entries: AuditEntry[];
+  state: AppState;
+  /** The day picked in the control center, offered as a filter. */
+  selectedDate: string;
+  onRevert: (entryId: string) => void;
+  onClear: () => void;
+}) {
+  const [onlySelectedDate, setOnlySelectedDate] = useState(false);
+  const visible = useMemo(
+    () =>
+      onlySelectedDate ? entries.filter((entry) => entry.dates.includes(selectedDate)) : entries,
+    [entries, onlySelectedDate, selectedDate],
+  );
+  const superseded = useMemo(
+    () => new Set(visible.filter((entry) => isSuperseded(entry, state)).map((entry) => entry.id)),
+    [visible, state],
+  );
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800 md:col-span-2">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Change History</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            The last {entries.length === 1 ? "change" : `${entries.length} changes`} made on this
+            device. Revert any of them to put back what it replaced.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={onlySelectedDate}
+              onChange={(event) => setOnlySelectedDate(event.target.checked)}
+              className="h-4 w-4 accent-emerald-500"
+            />
+            Only {formatDay(selectedDate)}
+          </label>
+          {entries.length > 0 && (
+            <button
+              onClick={onClear}
+              className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="mt-4 rounded-2xl border border-dashed border-slate-700 p-6 text-center text-sm text-slate-400">
+          {onlySelectedDate
+            ? `Nothing logged for ${formatDay(selectedDate)} has changed yet.`
+            : "Changes you make will show up here."}
+        </p>
+      ) : (
+        <ul className="mt-4 max-h-96 space-y-2 overflow-y-auto pr-1">
+          {visible.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-start gap-3 rounded-2xl bg-slate-950/60 p-3 text-sm"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-slate-200">{entry.summary}</p>
+                <p className="mt-1 text-xs text-slate-500">
+                  {new Date(entry.at).toLocaleString(undefined, {
+                    dateStyle: "medium",
+                    timeStyle: "short",
+                  })}
+                  {entry.dates.length > 0 && <> · for {entry.dates.map(formatDay).join(", ")}</>}
+                </p>
+                {superseded.has(entry.id) && (
+                  <p className="mt-1 text-xs text-amber-300">
+                    Edited again since; reverting also undoes those later edits.
+                  </p>
+                )}
+              </div>
+              {entry.changes.length > 0 ? (
+                <button
+                  onClick={() => onRevert(entry.id)}
+                  className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+                >
+                  Revert
+                </button>
+              ) : (
+                <span className="text-xs text-slate-500">Undo only</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { CHART_HEIGHT, CHART_PADDING, CHART_WIDTH, formatBucketLabel } from "../lib/charts";
+
+const AXIS_COLOR = "#334155";
+const LABEL_COLOR = "#94a3b8";
+const MAX_X_LABELS = 6;
+
+/** Gridlines and labels shared by the charts; colours are attributes so exported SVGs keep them. */
+export default function ChartAxes({ max, keys }: { max: number; keys: string[] }) {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const slot = plotWidth / Math.max(1, keys.length);
+  const every = Math.max(1, Math.ceil(keys.length / MAX_X_LABELS));
+  return (
+    <g fontSize={10} fill={LABEL_COLOR}>
+      {[0, 0.5, 1].map((fraction) => {
+        const y = CHART_PADDING.top + plotHeight * (1 - fraction);
+        return (
+          <g key={fraction}>
+            <line
+              x1={CHART_PADDING.left}
+              x2={CHART_WIDTH - CHART_PADDING.right}
+              y1={y}
+              y2={y}
+              stroke={AXIS_COLOR}
+              strokeWidth={1}
+            />
+            <text x={CHART_PADDING.left - 6} y={y + 3} textAnchor="end">
+              {Math.round(max * fraction)}
+            </text>
+          </g>
+        );
+      })}
+      {keys.map((key, index) =>
+        index % every === 0 ? (
+          <text
+            key={key}
+            x={CHART_PADDING.left + slot * (index + 0.5)}
+            y={CHART_HEIGHT - 8}
+            textAnchor="middle"
+          >
+            {formatBucketLabel(key)}
+          </text>
+        ) : null,
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { UNGROUPED_SECTION, useCollapsedRoutines } from "../hooks/useCollapsedRoutines";
+import { useHabitTimers } from "../hooks/useHabitTimers";
+import { dayKeyAt, formatClockTime, parseDate } from "../lib/dates";
+import { formatAmount } from "../lib/kinds";
+import {
+  groupByRoutine,
+  groupProgress,
+  orderHabits,
+  ROUTINE_SLOT_LABELS,
+  type DropTarget,
+} from "../lib/routines";
+import { formatStreak, type Streak } from "../lib/streaks";
+import { formatTarget, judgeDay, type TargetStatus } from "../lib/targets";
+import type { AppState, HabitKind, HabitSession } from "../lib/types";
+import RoutineSection from "./RoutineSection";
+import SessionLogger from "./SessionLogger";
+import ValueLogger from "./ValueLogger";
+
+const DAILY_PROMPTS: Record<HabitKind, string> = {
+  duration: "Log sessions practiced today",
+  checkbox: "Tick it off once it's done",
+  count: "Count what you managed today",
+  avoid: "Log a slip if it happened; an empty day counts as a win",
+};
+
+const TARGET_STATUS_STYLES: Record<TargetStatus, string> = {
+  met: "bg-emerald-400/15 text-emerald-300",
+  partial: "bg-amber-400/15 text-amber-300",
+  missed: "bg-slate-800 text-slate-400",
+};
+
+/** Logging for one day, grouped by routine, with drag-to-reorder and timers. */
+export default function DailyControlCenter({
+  state,
+  streaks,
+  selectedDate,
+  todayKey,
+  onSelectDate,
+  onMoveHabit,
+  onCompleteRoutine,
+  onAddSession,
+  onRemoveSession,
+  onSetValue,
+}: {
+  state: Pick<AppState, "habits" | "routines" | "logs" | "settings">;
+  streaks: Map<string, Streak>;
+  selectedDate: string;
+  todayKey: string;
+  onSelectDate: (dateKey: string) => void;
+  onMoveHabit: (habitId: string, target: DropTarget) => void;
+  onCompleteRoutine: (routineId: string, date: string) => void;
+  onAddSession: (habitId: string, date: string, session: Omit<HabitSession, "id">) => void;
+  onRemoveSession: (habitId: string, date: string, sessionId: string) => void;
+  onSetValue: (habitId: string, date: string, value: number) => void;
+}) {
+  const timers = useHabitTimers();
+  const collapsedRoutines = useCollapsedRoutines();
+  const [draggedHabitId, setDraggedHabitId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const activeHabits = useMemo(
+    () => orderHabits(state.habits, state.routines).filter((habit) => !habit.archived),
+    [state.habits, state.routines],
+  );
+  const routineGroups = useMemo(
+    () => groupByRoutine(activeHabits, state.routines),
+    [activeHabits, state.routines],
+  );
+  const logsForSelectedDate = useMemo(
+    () => state.logs.filter((log) => log.date === selectedDate),
+    [state.logs, selectedDate],
+  );
+  const selectedDateNice = parseDate(selectedDate).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+  });
+
+  const handleDragOverHabit = (target: DropTarget) => {
+    // dragover fires continuously, so only re-render when the landing spot moves.
+    if (
+      draggedHabitId &&
+      (dropTarget?.routineId !== target.routineId ||
+        dropTarget?.beforeHabitId !== target.beforeHabitId)
+    ) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleDropHabit = (target: DropTarget) => {
+    if (draggedHabitId) {
+      onMoveHabit(draggedHabitId, target);
+    }
+    setDraggedHabitId(null);
+    setDropTarget(null);
+  };
+
+  const handleStopTimer = (habitId: string) => {
+    const span = timers.stop(habitId);
+    if (!span) {
+      return;
+    }
+    onAddSession(habitId, dayKeyAt(span.startedAt, state.settings), {
+      minutes: span.minutes,
+      startTime: formatClockTime(span.startedAt, state.settings.timeZone),
+    });
+  };
+
+  return (
+    <div
+      id="daily-control-center"
+      className="scroll-mt-6 rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800"
+    >
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Daily Control Center</h2>
+          <p className="text-xs uppercase tracking-[0.4em] text-slate-500">
+            {selectedDateNice}
+          </p>
+        </div>
+        <input
+          type="date"
+          value={selectedDate}
+          onChange={(event) => onSelectDate(event.target.value)}
+          max={todayKey}
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        />
+      </div>
+
+      <div className="mt-6 space-y-4">
+        {activeHabits.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-slate-800 bg-slate-900/40 p-6 text-center text-sm text-slate-400">
+            Add habits to start logging your daily reps.
+          </p>
+        ) : (
+          routineGroups.map((group) => {
+            const routine = group.routine;
+            const routineId = routine?.id ?? null;
+            const sectionId = routineId ?? UNGROUPED_SECTION;
+            const tally = groupProgress(group.habits, state.logs, selectedDate);
+            return (
+              <RoutineSection
+                key={sectionId}
+                title={
+                  routine?.name ?? (routineGroups.length > 1 ? "Other habits" : "All habits")
+                }
+                slotLabel={routine ? ROUTINE_SLOT_LABELS[routine.slot] : null}
+                metCount={tally.met}
+                scheduledCount={tally.scheduled}
+                collapsed={collapsedRoutines.isCollapsed(sectionId)}
+                dropActive={draggedHabitId !== null && dropTarget?.routineId === routineId}
+                onToggle={() => collapsedRoutines.toggle(sectionId)}
+                onComplete={routine ? () => onCompleteRoutine(routine.id, selectedDate) : undefined}
+                onDragOver={() => handleDragOverHabit({ routineId, beforeHabitId: null })}
+                onDrop={() => handleDropHabit({ routineId, beforeHabitId: null })}
+              >
+                {group.habits.length === 0 ? (
+                  <p className="rounded-2xl border border-dashed border-slate-800 p-4 text-center text-xs text-slate-500">
+                    Drag habits here to add them to this routine.
+                  </p>
+                ) : (
+                  group.habits.map((habit) => {
+                    const existing = logsForSelectedDate.find(
+                      (log) => log.habitId === habit.id,
+                    );
+                    const streak = streaks.get(habit.id);
+                    const progress = judgeDay(habit, state.logs, selectedDate);
+                    return (
+                      <div
+                        key={`${habit.id}-${selectedDate}`}
+                        onDragOver={(event) => {
+                          event.preventDefault();
+                          event.stopPropagation();
+                          handleDragOverHabit({ routineId, beforeHabitId: habit.id });
+                        }}
+                        onDrop={(event) => {
+                          event.preventDefault();
+                          event.stopPropagation();
+                          handleDropHabit({ routineId, beforeHabitId: habit.id });
+                        }}
+                        className={`rounded-2xl border bg-slate-900/40 p-4 ${draggedHabitId === habit.id ? "opacity-50" : ""} ${dropTarget?.beforeHabitId === habit.id && draggedHabitId !== habit.id ? "border-amber-400" : "border-slate-800"}`}
+                      >
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span
+                                draggable
+                                onDragStart={(event) => {
+                                  event.dataTransfer.effectAllowed = "move";
+                                  event.dataTransfer.setData("text/plain", habit.id);
+                                  setDraggedHabitId(habit.id);
+                                }}
+                                onDragEnd={() => {
+                                  setDraggedHabitId(null);
+                                  setDropTarget(null);
+                                }}
+                                title="Drag to reorder or move to another routine"
+                                className="cursor-grab select-none text-slate-600 hover:text-slate-300"
+                              >
+                                ⠿
+                              </span>
+                              <h3 className="text-base font-semibold text-white">{habit.name}</h3>
+                              {streak && streak.current > 0 && (
+                                <span className="rounded-full bg-amber-400/15 px-2 py-0.5 text-xs font-semibold text-amber-300">
+                                  🔥 {formatStreak(streak.current, streak.unit)}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-slate-500">
+                              {DAILY_PROMPTS[habit.kind]}{" "}
+                              {habit.target ? `(target ${formatTarget(habit)})` : ""}
+                            </p>
+                            {habit.target ? (
+                              <p className="mt-1 flex items-center gap-2 text-xs">
+                                <span
+                                  className={`rounded-full px-2 py-0.5 font-semibold ${TARGET_STATUS_STYLES[progress.status]}`}
+                                >
+                                  {progress.status === "met"
+                                    ? "Target met"
+                                    : progress.status === "partial"
+                                      ? `${progress.percent}% of target`
+                                      : "Not started"}
+                                </span>
+                                {habit.targetPeriod === "week" && (
+                                  <span className="text-slate-500">
+                                    {progress.amount}/{formatAmount(habit, progress.goal ?? 0)} this
+                                    week
+                                  </span>
+                                )}
+                              </p>
+                            ) : null}
+                          </div>
+                          <div className="shrink-0 text-right">
+                            {habit.kind === "duration" ? (
+                              <>
+                                <div className="text-lg font-semibold text-emerald-400">
+                                  {existing?.minutes ?? 0} min
+                                </div>
+                                <div className="text-xs text-slate-500">
+                                  {existing?.sessions.length ?? 0}{" "}
+                                  {existing?.sessions.length === 1 ? "session" : "sessions"}
+                                </div>
+                              </>
+                            ) : habit.kind === "avoid" ? (
+                              <div
+                                className={`text-lg font-semibold ${progress.status === "met" ? "text-emerald-400" : "text-rose-300"}`}
+                              >
+                                {progress.status === "met"
+                                  ? "Clean"
+                                  : formatAmount(habit, progress.amount)}
+                              </div>
+                            ) : (
+                              <div className="text-lg font-semibold text-emerald-400">
+                                {habit.kind === "checkbox"
+                                  ? existing
+                                    ? "Done"
+                                    : "-"
+                                  : formatAmount(habit, existing?.value ?? 0)}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        {habit.kind === "duration" ? (
+                          <SessionLogger
+                            sessions={existing?.sessions ?? []}
+                            elapsedSeconds={timers.elapsedSeconds(habit.id)}
+                            canTime={selectedDate === todayKey}
+                            onStartTimer={() => timers.start(habit.id)}
+                            onStopTimer={() => handleStopTimer(habit.id)}
+                            onAddSession={(session) =>
+                              onAddSession(habit.id, selectedDate, session)
+                            }
+                            onRemoveSession={(sessionId) =>
+                              onRemoveSession(habit.id, selectedDate, sessionId)
+                            }
+                          />
+                        ) : (
+                          <ValueLogger
+                            habit={habit}
+                            value={existing?.value ?? 0}
+                            onChange={(value) => onSetValue(habit.id, selectedDate, value)}
+                          />
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </RoutineSection>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import {
+  exportGratitudeAsCsv,
+  exportLogsAsCsv,
+  exportStateAsJson,
+  ImportError,
+  parseImportFile,
+  planImport,
+  type ConflictResolution,
+  type ImportData,
+  type ImportMode,
+} from "../lib/transfer";
+import type { AppState } from "../lib/types";
+
+function downloadFile(prefix: string, extension: string, contents: string, mimeType: string) {
+  const fileName = `${prefix}-${new Date().toISOString().split("T")[0]}.${extension}`;
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function DataTransferPanel({
+  state,
+  onImport,
+}: {
+  state: AppState;
+  onImport: (next: AppState) => void;
+}) {
+  const [pending, setPending] = useState<{ fileName: string; data: ImportData } | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [resolution, setResolution] = useState<ConflictResolution>("keep-existing");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const preview = useMemo(() => {
+    if (!pending) return null;
+    try {
+      return planImport(state, pending.data, mode, resolution);
+    } catch (planError) {
+      return planError instanceof ImportError ? planError : null;
+    }
+  }, [state, pending, mode, resolution]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const data = parseImportFile(await file.text());
+      setPending({ fileName: file.name, data });
+      setMode("merge");
+    } catch (parseError) {
+      setPending(null);
+      setError(parseError instanceof ImportError ? parseError.message : "Could not read that file.");
+    }
+  };
+
+  const handleApply = () => {
+    if (!pending || !preview || preview instanceof ImportError) {
+      return;
+    }
+    onImport(preview.next);
+    setNotice(`Imported ${pending.fileName}.`);
+    setPending(null);
+  };
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <h2 className="text-xl font-semibold text-white">Backup &amp; Transfer</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Export everything as JSON to move browsers, or as CSV for spreadsheets. Imports are
+        previewed before anything changes.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-3">
+        <button
+          onClick={() =>
+            downloadFile("ritual-rhythm", "json", exportStateAsJson(state), "application/json")
+          }
+          className="rounded-2xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => downloadFile("habit-logs", "csv", exportLogsAsCsv(state), "text/csv")}
+          className="rounded-2xl bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-700"
+        >
+          Habit logs CSV
+        </button>
+        <button
+          onClick={() =>
+            downloadFile("gratitude", "csv", exportGratitudeAsCsv(state), "text/csv")
+          }
+          className="rounded-2xl bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-700"
+        >
+          Gratitude CSV
+        </button>
+        <label className="cursor-pointer rounded-2xl border border-dashed border-slate-700 px-4 py-2 text-sm font-semibold text-slate-300 transition hover:border-amber-400">
+          Import file…
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void handleFile(file);
+              }
+            }}
+          />
+        </label>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-rose-300">{error}</p>}
+      {notice && <p className="mt-4 text-sm text-emerald-300">{notice}</p>}
+
+      {pending && (
+        <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-950/40 p-5">
+          <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <h3 className="text-base font-semibold text-white">Preview: {pending.fileName}</h3>
+            <div className="flex gap-2 text-xs">
+              {(["merge", "replace"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  disabled={option === "replace" && pending.data.source === "csv"}
+                  className={`rounded-full px-3 py-1 font-semibold transition disabled:opacity-40 ${mode === option ? "bg-amber-400 text-slate-900" : "bg-slate-800 text-slate-300 hover:bg-slate-700"}`}
+                >
+                  {option === "merge" ? "Merge by id/date" : "Replace everything"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {preview instanceof ImportError ? (
+            <p className="mt-4 text-sm text-rose-300">{preview.message}</p>
+          ) : (
+            preview && (
+              <>
+                <dl className="mt-4 grid gap-3 text-sm text-slate-300 md:grid-cols-3">
+                  {(["habits", "logs", "gratitude"] as const).map((kind) => (
+                    <div key={kind} className="rounded-xl bg-slate-900/60 px-4 py-3">
+                      <dt className="text-xs uppercase tracking-widest text-slate-500">{kind}</dt>
+                      <dd className="mt-1">
+                        {preview[kind].added} new · {preview[kind].updated} updated ·{" "}
+                        {preview[kind].unchanged} unchanged
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+                {preview.mode === "replace" && (
+                  <p className="mt-3 text-xs text-amber-200">
+                    Replacing discards all {state.habits.length} habits, {state.logs.length} logs
+                    and {state.gratitude.length} reflections currently saved.
+                  </p>
+                )}
+                {preview.rejected > 0 && (
+                  <p className="mt-3 text-xs text-amber-200">
+                    {preview.rejected} invalid {preview.rejected === 1 ? "row" : "rows"} in the
+                    file will be skipped.
+                  </p>
+                )}
+                {preview.conflicts.length > 0 && (
+                  <div className="mt-4">
+                    <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                      <p className="text-sm font-semibold text-amber-300">
+                        {preview.conflicts.length}{" "}
+                        {preview.conflicts.length === 1 ? "conflict" : "conflicts"}
+                      </p>
+                      {preview.mode === "merge" && (
+                        <select
+                          value={resolution}
+                          onChange={(event) =>
+                            setResolution(event.target.value as ConflictResolution)
+                          }
+                          className="rounded-xl border border-slate-700 bg-slate-950 px-3 py-1 text-xs text-slate-200"
+                        >
+                          <option value="keep-existing">Keep saved values</option>
+                          <option value="use-imported">Use values from file</option>
+                        </select>
+                      )}
+                    </div>
+                    <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto text-xs text-slate-400">
+                      {preview.conflicts.map((conflict, index) => (
+                        <li key={`${conflict.kind}-${conflict.key}-${index}`}>{conflict.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )
+          )}
+
+          <div className="mt-5 flex justify-end gap-2">
+            <button
+              onClick={() => setPending(null)}
+              className="rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!preview || preview instanceof ImportError}
+              className="rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-40"
+            >
+              Apply import
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useMemo } from "react";
+import { deviceTimeZone } from "../lib/dates";
+import type { Settings } from "../lib/types";
+
+const DEVICE_ZONE = "device";
+const DAY_START_HOURS = Array.from({ length: 12 }, (_, hour) => hour);
+
+function formatHour(hour: number) {
+  return hour === 0 ? "Midnight" : `${String(hour).padStart(2, "0")}:00`;
+}
+
+export default function DaySettings({
+  settings,
+  onChange,
+}: {
+  settings: Settings;
+  onChange: (settings: Pick<Settings, "timeZone" | "dayStartHour">) => void;
+}) {
+  const device = deviceTimeZone();
+  const zones = useMemo(() => {
+    const supported = Intl.supportedValuesOf("timeZone");
+    return settings.timeZone && !supported.includes(settings.timeZone)
+      ? [settings.timeZone, ...supported]
+      : supported;
+  }, [settings.timeZone]);
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <h2 className="text-xl font-semibold text-white">Day &amp; Time Zone</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Pin your home time zone so travelling never shifts your days, and let late nights count
+        toward the day they started.
+      </p>
+
+      <div className="mt-4 grid gap-2">
+        <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+          Home time zone
+        </label>
+        <select
+          value={settings.timeZone ?? DEVICE_ZONE}
+          onChange={(event) =>
+            onChange({
+              timeZone: event.target.value === DEVICE_ZONE ? null : event.target.value,
+              dayStartHour: settings.dayStartHour,
+            })
+          }
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        >
+          <option value={DEVICE_ZONE}>Follow this device ({device})</option>
+          {zones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-4 grid gap-2">
+        <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+          Day starts at
+        </label>
+        <select
+          value={settings.dayStartHour}
+          onChange={(event) =>
+            onChange({ timeZone: settings.timeZone, dayStartHour: Number(event.target.value) })
+          }
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        >
+          {DAY_START_HOURS.map((hour) => (
+            <option key={hour} value={hour}>
+              {formatHour(hour)}
+            </option>
+          ))}
+        </select>
+        {settings.dayStartHour > 0 && (
+          <p className="text-xs text-slate-500">
+            Anything logged before {formatHour(settings.dayStartHour)} counts for the previous day.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { ENERGY_LABELS, MOOD_LABELS, type Score } from "../lib/mood";
+import type { GratitudeEntry } from "../lib/types";
+import HighlightedText from "./HighlightedText";
+
+export default function GratitudeEntryCard({
+  entry,
+  promptText,
+  highlight,
+  onEdit,
+  onDelete,
+}: {
+  entry: GratitudeEntry;
+  promptText: string;
+  /** Search text to mark in the response and tags. */
+  highlight?: string;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}) {
+  return (
+    <div className="rounded-xl border border-amber-500/40 bg-amber-400/10 px-4 py-3">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-xs text-amber-200/70">{promptText}</p>
+        {(onEdit || onDelete) && (
+          <div className="flex shrink-0 gap-2">
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+              >
+                Edit
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={onDelete}
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-rose-300 hover:bg-slate-700"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {entry.response && (
+        <p className="mt-2 whitespace-pre-line text-sm leading-relaxed text-amber-100">
+          <HighlightedText text={entry.response} query={highlight} />
+        </p>
+      )}
+      {(entry.mood !== undefined || entry.energy !== undefined || entry.tags.length > 0) && (
+        <div className="mt-2 flex flex-wrap gap-1 text-[10px] font-semibold uppercase tracking-widest">
+          {entry.mood !== undefined && (
+            <span className="rounded-full bg-slate-900/60 px-2 py-0.5 text-amber-200">
+              Mood {entry.mood} · {MOOD_LABELS[entry.mood as Score]}
+            </span>
+          )}
+          {entry.energy !== undefined && (
+            <span className="rounded-full bg-slate-900/60 px-2 py-0.5 text-amber-200">
+              Energy {entry.energy} · {ENERGY_LABELS[entry.energy as Score]}
+            </span>
+          )}
+          {entry.tags.map((tag) => (
+            <span key={tag} className="rounded-full bg-slate-900/60 px-2 py-0.5 text-slate-400">
+              <HighlightedText text={tag} query={highlight} />
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import type { GratitudeForm } from "../hooks/useGratitudeForm";
+import { ENERGY_LABELS, MOOD_LABELS } from "../lib/mood";
+import { resolvePromptText } from "../lib/prompts";
+import type { GratitudePrompt } from "../lib/types";
+import GratitudeEntryCard from "./GratitudeEntryCard";
+import ScorePicker from "./ScorePicker";
+
+export default function GratitudePulse({
+  journal,
+  prompts,
+  manualPrompts,
+}: {
+  journal: GratitudeForm;
+  prompts: GratitudePrompt[];
+  /** Whether the prompt is picked by hand rather than rotated. */
+  manualPrompts: boolean;
+}) {
+  return (
+    <div className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Gratitude Pulse</h2>
+          <p className="text-xs uppercase tracking-[0.4em] text-slate-500">
+            {journal.prompt.text}
+          </p>
+          {manualPrompts && journal.promptChoices.length > 0 && (
+            <select
+              value={journal.prompt.id}
+              onChange={(event) =>
+                journal.pickPrompt(event.target.value)
+              }
+              aria-label="Choose a prompt"
+              className="mt-2 w-full max-w-md rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+            >
+              {!journal.promptChoices.some((prompt) => prompt.id === journal.prompt.id) && (
+                <option value={journal.prompt.id}>{journal.prompt.text}</option>
+              )}
+              {journal.promptChoices.map((prompt) => (
+                <option key={prompt.id} value={prompt.id}>
+                  {prompt.text}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {journal.form.entryId && (
+            <button
+              onClick={journal.reset}
+              className="rounded-2xl bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={journal.save}
+            className="rounded-2xl bg-amber-400 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-amber-300"
+          >
+            {journal.form.entryId ? "Update Entry" : "Add Entry"}
+          </button>
+        </div>
+      </div>
+      <textarea
+        value={journal.form.text}
+        onChange={(event) => journal.update({ text: event.target.value })}
+        placeholder="Capture a moment, a person, or a habit that created gratitude today..."
+        rows={5}
+        className="mt-4 w-full rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm leading-relaxed text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+      />
+      <div className="mt-3 grid gap-3">
+        <ScorePicker
+          label="Mood"
+          labels={MOOD_LABELS}
+          value={journal.form.mood}
+          onChange={(mood) => journal.update({ mood })}
+        />
+        <ScorePicker
+          label="Energy"
+          labels={ENERGY_LABELS}
+          value={journal.form.energy}
+          onChange={(energy) => journal.update({ energy })}
+        />
+        <input
+          value={journal.form.tags}
+          onChange={(event) => journal.update({ tags: event.target.value })}
+          placeholder="Tags, comma separated"
+          aria-label="Entry tags"
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        />
+      </div>
+      {journal.entries.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {journal.entries.map((entry) => (
+            <GratitudeEntryCard
+              key={entry.id}
+              entry={entry}
+              promptText={resolvePromptText(entry, prompts)}
+              onEdit={() => journal.edit(entry)}
+              onDelete={() => journal.remove(entry.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import type { HabitChanges } from "../lib/actions";
+import {
+  changesFromDraft,
+  clampImportance,
+  countLogsByHabit,
+  createHabit,
+  draftFromHabit,
+  EMPTY_HABIT_DRAFT,
+  NO_ROUTINE,
+  type HabitDraft,
+} from "../lib/habits";
+import { hasTarget } from "../lib/kinds";
+import { orderHabits, orderRoutines, ROUTINE_SLOT_LABELS } from "../lib/routines";
+import { describeSchedule } from "../lib/schedule";
+import { formatStreak, type Streak } from "../lib/streaks";
+import { formatTarget } from "../lib/targets";
+import type { AppState, Habit } from "../lib/types";
+import KindFields from "./KindFields";
+import ReminderFields from "./ReminderFields";
+import ScheduleFields from "./ScheduleFields";
+
+export default function HabitBlueprint({
+  state,
+  streaks,
+  todayKey,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: {
+  state: Pick<AppState, "habits" | "routines" | "logs">;
+  streaks: Map<string, Streak>;
+  todayKey: string;
+  onAdd: (habit: Habit) => void;
+  onUpdate: (habitId: string, changes: HabitChanges) => void;
+  onDelete: (habitId: string, deleteLogs: boolean) => void;
+}) {
+  const [newHabitDraft, setNewHabitDraft] = useState<HabitDraft>(EMPTY_HABIT_DRAFT);
+  const [editingHabitId, setEditingHabitId] = useState<string | null>(null);
+  const [habitDraft, setHabitDraft] = useState<HabitDraft>(EMPTY_HABIT_DRAFT);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const habitsOrdered = useMemo(
+    () => orderHabits(state.habits, state.routines),
+    [state.habits, state.routines],
+  );
+  const activeHabits = habitsOrdered.filter((habit) => !habit.archived);
+  const archivedHabits = habitsOrdered.filter((habit) => habit.archived);
+  const routinesOrdered = useMemo(() => orderRoutines(state.routines), [state.routines]);
+  const logCountsByHabit = useMemo(() => countLogsByHabit(state.logs), [state.logs]);
+
+  const updateNewHabitDraft = (changes: Partial<HabitDraft>) => {
+    setNewHabitDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleAddHabit = () => {
+    const changes = changesFromDraft(newHabitDraft, state, null);
+    if (!changes) {
+      return;
+    }
+    onAdd(createHabit(changes, state.habits, new Date().toISOString(), todayKey));
+    // Keep the routine so a stack can be filled one habit after another.
+    setNewHabitDraft({ ...EMPTY_HABIT_DRAFT, routineId: newHabitDraft.routineId });
+  };
+
+  const startEditingHabit = (habit: Habit) => {
+    setEditingHabitId(habit.id);
+    setPendingDeleteId(null);
+    setHabitDraft(draftFromHabit(habit));
+  };
+
+  const handleSaveHabit = () => {
+    const habit = state.habits.find((item) => item.id === editingHabitId);
+    const changes = habit ? changesFromDraft(habitDraft, state, habit) : null;
+    if (!habit || !changes) {
+      return;
+    }
+    onUpdate(habit.id, changes);
+    setEditingHabitId(null);
+  };
+
+  const handleDeleteHabit = (habitId: string, deleteLogs: boolean) => {
+    onDelete(habitId, deleteLogs);
+    setPendingDeleteId(null);
+    if (editingHabitId === habitId) {
+      setEditingHabitId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <h2 className="text-xl font-semibold text-white">Habit Blueprint</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Define your habits and stack them into routines. Optional targets help you calibrate
+        focused effort.
+      </p>
+      <div className="mt-4 space-y-4">
+        <div className="grid gap-3">
+          <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Habit Name
+          </label>
+          <input
+            value={newHabitDraft.name}
+            onChange={(event) => updateNewHabitDraft({ name: event.target.value })}
+            placeholder="Morning workout, journaling, mindfulness..."
+            className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+          />
+        </div>
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="grid gap-2">
+            <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+              Importance (1-5)
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={5}
+              value={newHabitDraft.importance}
+              onChange={(event) =>
+                updateNewHabitDraft({
+                  importance: clampImportance(Number(event.target.value)),
+                })
+              }
+              className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+            />
+          </div>
+          {hasTarget(newHabitDraft.kind) && (
+            <div className="grid gap-2">
+              <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+                {newHabitDraft.kind === "duration" ? "Target Minutes" : "Target Count"}{" "}
+                (optional)
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={newHabitDraft.target}
+                  onChange={(event) => updateNewHabitDraft({ target: event.target.value })}
+                  placeholder={newHabitDraft.kind === "duration" ? "e.g. 30" : "e.g. 8"}
+                  className="w-full min-w-0 rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                />
+                <select
+                  value={newHabitDraft.targetPeriod}
+                  onChange={(event) =>
+                    updateNewHabitDraft({
+                      targetPeriod: event.target.value as Habit["targetPeriod"],
+                    })
+                  }
+                  aria-label="Target period"
+                  className="rounded-2xl border border-slate-700 bg-slate-950 px-3 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                >
+                  <option value="day">/ day</option>
+                  <option value="week">/ week</option>
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="grid gap-2">
+          <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Measured As
+          </label>
+          <KindFields
+            kind={newHabitDraft.kind}
+            unit={newHabitDraft.unit}
+            onChange={(kind, unit) => updateNewHabitDraft({ kind, unit })}
+          />
+        </div>
+        <div className="grid gap-2">
+          <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Schedule
+          </label>
+          <ScheduleFields
+            schedule={newHabitDraft.schedule}
+            onChange={(schedule) => updateNewHabitDraft({ schedule })}
+          />
+        </div>
+        {routinesOrdered.length > 0 && (
+          <div className="grid gap-2">
+            <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+              Routine
+            </label>
+            <select
+              value={newHabitDraft.routineId}
+              onChange={(event) => updateNewHabitDraft({ routineId: event.target.value })}
+              className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+            >
+              <option value={NO_ROUTINE}>No routine</option>
+              {routinesOrdered.map((routine) => (
+                <option key={routine.id} value={routine.id}>
+                  {routine.name} ({ROUTINE_SLOT_LABELS[routine.slot]})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="grid gap-2">
+          <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Reminders (optional)
+          </label>
+          <ReminderFields
+            reminders={newHabitDraft.reminders}
+            onChange={(reminders) => updateNewHabitDraft({ reminders })}
+          />
+        </div>
+        <button
+          onClick={handleAddHabit}
+          className="w-full rounded-2xl bg-emerald-500 px-4 py-3 text-sm font-semibold tracking-wide text-slate-950 transition hover:bg-emerald-400"
+        >
+          Add Habit To Stack
+        </button>
+      </div>
+
+      <div className="mt-6 space-y-4">
+        {habitsOrdered.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-slate-800 bg-slate-900/40 p-6 text-center text-sm text-slate-400">
+            Once you add habits, they will appear here in routine order.
+          </p>
+        ) : (
+          [...activeHabits, ...archivedHabits].map((habit, index) => {
+            const isEditing = editingHabitId === habit.id;
+            const isPendingDelete = pendingDeleteId === habit.id;
+            const logCount = logCountsByHabit.get(habit.id) ?? 0;
+            const streak = streaks.get(habit.id);
+            const routine = state.routines.find((item) => item.id === habit.routineId);
+            return (
+              <div key={habit.id}>
+                {index === activeHabits.length && (
+                  <p className="mb-3 text-xs font-semibold uppercase tracking-widest text-slate-500">
+                    Archived
+                  </p>
+                )}
+                <div
+                  className={`rounded-2xl border border-slate-800 p-4 ${habit.archived ? "bg-slate-900/20 opacity-70" : "bg-slate-900/40"}`}
+                >
+                  {isEditing ? (
+                    <div className="grid gap-3">
+                      <input
+                        value={habitDraft.name}
+                        onChange={(event) =>
+                          setHabitDraft((prev) => ({ ...prev, name: event.target.value }))
+                        }
+                        aria-label="Habit name"
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                      />
+                      <div className="grid gap-3 md:grid-cols-2">
+                        <input
+                          type="number"
+                          min={1}
+                          max={5}
+                          value={habitDraft.importance}
+                          onChange={(event) =>
+                            setHabitDraft((prev) => ({
+                              ...prev,
+                              importance: clampImportance(Number(event.target.value)),
+                            }))
+                          }
+                          aria-label="Importance"
+                          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                        />
+                        {hasTarget(habitDraft.kind) && (
+                          <input
+                            type="number"
+                            min={0}
+                            value={habitDraft.target}
+                            onChange={(event) =>
+                              setHabitDraft((prev) => ({
+                                ...prev,
+                                target: event.target.value,
+                              }))
+                            }
+                            placeholder={
+                              habitDraft.kind === "duration" ? "Target minutes" : "Target count"
+                            }
+                            aria-label="Target"
+                            className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                          />
+                        )}
+                      </div>
+                      <KindFields
+                        kind={habitDraft.kind}
+                        unit={habitDraft.unit}
+                        onChange={(kind, unit) =>
+                          setHabitDraft((prev) => ({ ...prev, kind, unit }))
+                        }
+                      />
+                      {hasTarget(habitDraft.kind) && (
+                        <select
+                          value={habitDraft.targetPeriod}
+                          onChange={(event) =>
+                            setHabitDraft((prev) => ({
+                              ...prev,
+                              targetPeriod: event.target.value as Habit["targetPeriod"],
+                            }))
+                          }
+                          aria-label="Target period"
+                          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                        >
+                          <option value="day">Target per day</option>
+                          <option value="week">Target per week</option>
+                        </select>
+                      )}
+                      <ScheduleFields
+                        schedule={habitDraft.schedule}
+                        onChange={(schedule) =>
+                          setHabitDraft((prev) => ({ ...prev, schedule }))
+                        }
+                      />
+                      {routinesOrdered.length > 0 && (
+                        <select
+                          value={habitDraft.routineId}
+                          onChange={(event) =>
+                            setHabitDraft((prev) => ({
+                              ...prev,
+                              routineId: event.target.value,
+                            }))
+                          }
+                          aria-label="Routine"
+                          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                        >
+                          <option value={NO_ROUTINE}>No routine</option>
+                          {routinesOrdered.map((routine) => (
+                            <option key={routine.id} value={routine.id}>
+                              {routine.name} ({ROUTINE_SLOT_LABELS[routine.slot]})
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <ReminderFields
+                        reminders={habitDraft.reminders}
+                        onChange={(reminders) =>
+                          setHabitDraft((prev) => ({ ...prev, reminders }))
+                        }
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setEditingHabitId(null)}
+                          className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSaveHabit}
+                          className="rounded-full bg-emerald-500 px-3 py-1 text-xs font-semibold text-slate-950 hover:bg-emerald-400"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h3 className="text-base font-semibold text-white">{habit.name}</h3>
+                        <p className="mt-1 text-xs text-slate-400">
+                          Importance score {habit.importance}
+                          {habit.target ? ` - Target: ${formatTarget(habit)}` : ""}
+                        </p>
+                        <p className="mt-1 text-xs text-slate-500">
+                          {describeSchedule(habit.schedule)}
+                          {routine && ` - ${routine.name}`}
+                          {habit.reminders.length > 0 &&
+                            ` - 🔔 ${habit.reminders.join(", ")}`}
+                          {streak &&
+                            ` - Streak ${formatStreak(streak.current, streak.unit)} (best ${formatStreak(streak.longest, streak.unit)})`}
+                        </p>
+                      </div>
+                      <span className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300">
+                        {habit.archived ? "Archived" : `Priority ${habit.importance}`}
+                      </span>
+                    </div>
+                  )}
+                  {!isEditing && !isPendingDelete && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      <button
+                        onClick={() => startEditingHabit(habit)}
+                        className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => onUpdate(habit.id, { archived: !habit.archived })}
+                        className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+                      >
+                        {habit.archived ? "Unarchive" : "Archive"}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setPendingDeleteId(habit.id);
+                          setEditingHabitId(null);
+                        }}
+                        className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-rose-300 hover:bg-rose-500/20"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                  {isPendingDelete && (
+                    <div className="mt-3 rounded-xl border border-rose-500/40 bg-rose-500/10 p-3">
+                      <p className="text-xs text-rose-100">
+                        Delete &quot;{habit.name}&quot;? It has {logCount} logged{" "}
+                        {logCount === 1 ? "day" : "days"}.
+                      </p>
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        <button
+                          onClick={() => handleDeleteHabit(habit.id, true)}
+                          className="rounded-full bg-rose-500 px-3 py-1 text-xs font-semibold text-slate-950 hover:bg-rose-400"
+                        >
+                          Delete habit and logs
+                        </button>
+                        <button
+                          onClick={() => handleDeleteHabit(habit.id, false)}
+                          className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-200 hover:bg-slate-700"
+                        >
+                          Delete habit, keep logs
+                        </button>
+                        <button
+                          onClick={() => setPendingDeleteId(null)}
+                          className="rounded-full px-3 py-1 text-xs font-semibold text-slate-400 hover:text-slate-200"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useMemo, useRef, useState } from "react";
+import {
+  bucketTarget,
+  buildMinuteBuckets,
+  CHART_COLORS,
+  ROLLING_WINDOWS,
+  rollingAverage,
+  type ChartGranularity,
+} from "../lib/charts";
+import { daysBetween } from "../lib/dates";
+import type { DateRange } from "../lib/reports";
+import type { Habit, HabitLog } from "../lib/types";
+import HabitMixChart from "./HabitMixChart";
+import TrendChart from "./TrendChart";
+
+const ALL_HABITS = "all";
+/** Longer ranges default to weekly buckets so bars stay readable. */
+const MAX_DAILY_BUCKETS = 62;
+
+const selectClass =
+  "rounded-xl border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-200 focus:border-amber-400 focus:outline-none";
+
+function downloadSvg(container: HTMLElement | null, name: string) {
+  const svg = container?.querySelector("svg");
+  if (!svg) {
+    return;
+  }
+  const url = URL.createObjectURL(new Blob([svg.outerHTML], { type: "image/svg+xml" }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = `${name}-${new Date().toISOString().split("T")[0]}.svg`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function HabitCharts({
+  habits,
+  logs,
+  range,
+  rangeLabel,
+}: {
+  habits: Habit[];
+  logs: HabitLog[];
+  range: DateRange;
+  rangeLabel: string;
+}) {
+  const [habitId, setHabitId] = useState(ALL_HABITS);
+  const [pickedGranularity, setPickedGranularity] = useState<ChartGranularity | null>(null);
+  const trendRef = useRef<HTMLDivElement>(null);
+  const mixRef = useRef<HTMLDivElement>(null);
+
+  const granularity =
+    pickedGranularity ??
+    (daysBetween(range.startKey, range.endKey) + 1 > MAX_DAILY_BUCKETS ? "week" : "day");
+  const durationHabits = useMemo(
+    () => habits.filter((habit) => habit.kind === "duration"),
+    [habits],
+  );
+  const colors = useMemo(
+    () =>
+      new Map(
+        durationHabits.map((habit, index) => [
+          habit.id,
+          CHART_COLORS[index % CHART_COLORS.length]!,
+        ]),
+      ),
+    [durationHabits],
+  );
+  const selected = durationHabits.find((habit) => habit.id === habitId);
+
+  const buckets = useMemo(
+    () => buildMinuteBuckets({ habits: durationHabits, logs, range, granularity }),
+    [durationHabits, logs, range, granularity],
+  );
+  const values = buckets.map((bucket) =>
+    selected ? (bucket.minutesByHabit[selected.id] ?? 0) : bucket.total,
+  );
+  const average = rollingAverage(values, ROLLING_WINDOWS[granularity]);
+  const targets = (selected ? [selected] : durationHabits.filter((habit) => !habit.archived))
+    .map((habit) => bucketTarget(habit, granularity))
+    .filter((target): target is number => target !== null);
+  const target = targets.length > 0 ? targets.reduce((acc, value) => acc + value, 0) : null;
+
+  const totals = durationHabits
+    .map((habit) => ({
+      habit,
+      minutes: buckets.reduce((acc, bucket) => acc + (bucket.minutesByHabit[habit.id] ?? 0), 0),
+    }))
+    .filter((entry) => entry.minutes > 0);
+  const grandTotal = totals.reduce((acc, entry) => acc + entry.minutes, 0);
+  const unit = granularity === "week" ? "week" : "day";
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Trends</h2>
+          <p className="text-sm text-slate-400">
+            Minutes over the report period ({rangeLabel}), with a rolling average and your
+            targets.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={selected ? selected.id : ALL_HABITS}
+            onChange={(event) => setHabitId(event.target.value)}
+            aria-label="Chart habit"
+            className={selectClass}
+          >
+            <option value={ALL_HABITS}>All timed habits</option>
+            {durationHabits.map((habit) => (
+              <option key={habit.id} value={habit.id}>
+                {habit.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={granularity}
+            onChange={(event) => setPickedGranularity(event.target.value as ChartGranularity)}
+            aria-label="Chart granularity"
+            className={selectClass}
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+          </select>
+        </div>
+      </div>
+
+      {durationHabits.length === 0 ? (
+        <p className="mt-4 rounded-2xl border border-dashed border-slate-700 p-6 text-center text-sm text-slate-400">
+          Charts track timed habits. Add a duration habit to see trends here.
+        </p>
+      ) : (
+        <div className="mt-4 grid gap-6">
+          <div ref={trendRef}>
+            <div className="mb-2 flex items-center justify-between text-xs text-slate-400">
+              <span>
+                Minutes per {unit} · white line is the {ROLLING_WINDOWS[granularity]}-{unit}{" "}
+                average
+                {target !== null ? " · dashed line is the target" : ""}
+              </span>
+              <button
+                onClick={() => downloadSvg(trendRef.current, "habit-trend")}
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+              >
+                Download SVG
+              </button>
+            </div>
+            <TrendChart
+              keys={buckets.map((bucket) => bucket.startKey)}
+              values={values}
+              average={average}
+              target={target}
+              color={selected ? colors.get(selected.id)! : CHART_COLORS[0]!}
+              title={`${selected?.name ?? "All timed habits"}: minutes per ${unit}, ${rangeLabel}`}
+            />
+          </div>
+
+          <div ref={mixRef}>
+            <div className="mb-2 flex items-center justify-between text-xs text-slate-400">
+              <span>How your time divides between habits</span>
+              <button
+                onClick={() => downloadSvg(mixRef.current, "habit-mix")}
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+              >
+                Download SVG
+              </button>
+            </div>
+            <HabitMixChart
+              buckets={buckets}
+              habits={durationHabits}
+              colors={colors}
+              title={`Habit mix per ${unit}, ${rangeLabel}`}
+            />
+            {totals.length > 0 && (
+              <ul className="mt-3 flex flex-wrap gap-3 text-xs text-slate-300">
+                {totals.map(({ habit, minutes }) => (
+                  <li key={habit.id} className="flex items-center gap-2">
+                    <span
+                      className="h-3 w-3 rounded-sm"
+                      style={{ backgroundColor: colors.get(habit.id) }}
+                    />
+                    {habit.name} · {minutes} min · {Math.round((minutes / grandTotal) * 100)}%
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
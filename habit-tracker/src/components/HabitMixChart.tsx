@@ -0,0 +1,71 @@
+'use client';
+
+import {
+  CHART_HEIGHT,
+  CHART_PADDING,
+  CHART_WIDTH,
+  formatBucketLabel,
+  niceCeiling,
+  type MinutesBucket,
+} from "../lib/charts";
+import type { Habit } from "../lib/types";
+import ChartAxes from "./ChartAxes";
+
+/** Minutes per bucket stacked by habit, bottom to top in the order of `habits`. */
+export default function HabitMixChart({
+  buckets,
+  habits,
+  colors,
+  title,
+}: {
+  buckets: MinutesBucket[];
+  habits: Habit[];
+  colors: Map<string, string>;
+  title: string;
+}) {
+  const max = niceCeiling(Math.max(...buckets.map((bucket) => bucket.total)));
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const slot = plotWidth / Math.max(1, buckets.length);
+  const scale = (minutes: number) => (plotHeight * minutes) / max;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={title}
+      className="h-auto w-full"
+      fontFamily="system-ui, sans-serif"
+    >
+      <title>{title}</title>
+      <ChartAxes max={max} keys={buckets.map((bucket) => bucket.startKey)} />
+      {buckets.map((bucket, index) => {
+        let base = CHART_PADDING.top + plotHeight;
+        return (
+          <g key={bucket.startKey}>
+            {habits.map((habit) => {
+              const minutes = bucket.minutesByHabit[habit.id] ?? 0;
+              if (minutes === 0) {
+                return null;
+              }
+              base -= scale(minutes);
+              return (
+                <rect
+                  key={habit.id}
+                  x={CHART_PADDING.left + slot * index + slot * 0.15}
+                  y={base}
+                  width={slot * 0.7}
+                  height={scale(minutes)}
+                  fill={colors.get(habit.id)}
+                >
+                  <title>{`${formatBucketLabel(bucket.startKey)} · ${habit.name}: ${minutes} min`}</title>
+                </rect>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+/** Renders `text` with case-insensitive matches of `query` marked. */
+export default function HighlightedText({ text, query }: { text: string; query?: string }) {
+  const needle = query?.trim().toLowerCase();
+  if (!needle) {
+    return <>{text}</>;
+  }
+  const parts: { text: string; match: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let index = 0;
+  while (index < text.length) {
+    const found = haystack.indexOf(needle, index);
+    if (found === -1) {
+      parts.push({ text: text.slice(index), match: false });
+      break;
+    }
+    if (found > index) {
+      parts.push({ text: text.slice(index, found), match: false });
+    }
+    parts.push({ text: text.slice(found, found + needle.length), match: true });
+    index = found + needle.length;
+  }
+  return (
+    <>
+      {parts.map((part, position) =>
+        part.match ? (
+          <mark key={position} className="rounded bg-amber-400/30 text-inherit">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={position}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { HABIT_KIND_LABELS } from "../lib/kinds";
+import type { HabitKind } from "../lib/types";
+
+export default function KindFields({
+  kind,
+  unit,
+  onChange,
+}: {
+  kind: HabitKind;
+  unit: string;
+  onChange: (kind: HabitKind, unit: string) => void;
+}) {
+  return (
+    <div className="grid gap-2 md:grid-cols-2">
+      <select
+        value={kind}
+        onChange={(event) => onChange(event.target.value as HabitKind, unit)}
+        aria-label="Habit kind"
+        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+      >
+        {(Object.keys(HABIT_KIND_LABELS) as HabitKind[]).map((option) => (
+          <option key={option} value={option}>
+            {HABIT_KIND_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      {kind === "count" && (
+        <input
+          value={unit}
+          onChange={(event) => onChange(kind, event.target.value)}
+          placeholder="Unit, e.g. glasses"
+          aria-label="Unit"
+          maxLength={24}
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        />
+      )}
+    </div>
+  );
+}
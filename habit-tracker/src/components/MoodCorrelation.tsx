@@ -0,0 +1,92 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { addDays } from "../lib/dates";
+import { correlateMood } from "../lib/mood";
+import type { GratitudeEntry, Habit, HabitLog } from "../lib/types";
+
+const WINDOWS = [30, 90, 365];
+/** Below this many days on either side, an average says little. */
+const MIN_DAYS = 3;
+
+function formatMood(value: number | null) {
+  return value === null ? "–" : value.toFixed(1);
+}
+
+export default function MoodCorrelation({
+  habits,
+  logs,
+  gratitude,
+  todayKey,
+}: {
+  habits: Habit[];
+  logs: HabitLog[];
+  gratitude: GratitudeEntry[];
+  todayKey: string;
+}) {
+  const [days, setDays] = useState(90);
+  const rows = useMemo(
+    () => correlateMood(habits, logs, gratitude, addDays(todayKey, -(days - 1)), todayKey),
+    [habits, logs, gratitude, todayKey, days],
+  );
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Mood &amp; Habits</h2>
+          <p className="text-sm text-slate-400">
+            Your average mood on days you did each habit, against scheduled days you didn&apos;t.
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(event) => setDays(Number(event.target.value))}
+          aria-label="Correlation window"
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        >
+          {WINDOWS.map((window) => (
+            <option key={window} value={window}>
+              Last {window} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="mt-4 rounded-2xl border border-dashed border-slate-700 p-6 text-center text-sm text-slate-400">
+          Rate your mood in the journal to see how it moves with your habits.
+        </p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {rows.map((row) => {
+            const reliable = row.daysDone >= MIN_DAYS && row.daysSkipped >= MIN_DAYS;
+            return (
+              <li
+                key={row.habitId}
+                className="flex flex-col gap-1 rounded-2xl bg-slate-950/60 px-4 py-3 text-sm md:flex-row md:items-center md:justify-between"
+              >
+                <span className="font-semibold text-white">{row.name}</span>
+                <span className="text-slate-300">
+                  Did it: mood {formatMood(row.moodWhenDone)}{" "}
+                  <span className="text-slate-500">({row.daysDone}d)</span> · Skipped:{" "}
+                  {formatMood(row.moodWhenSkipped)}{" "}
+                  <span className="text-slate-500">({row.daysSkipped}d)</span>
+                  {row.difference !== null && (
+                    <span
+                      className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${!reliable ? "bg-slate-800 text-slate-400" : row.difference >= 0 ? "bg-emerald-400/15 text-emerald-300" : "bg-rose-400/15 text-rose-300"}`}
+                      title={reliable ? undefined : "Too few days on one side to read much into"}
+                    >
+                      {row.difference >= 0 ? "+" : ""}
+                      {row.difference.toFixed(1)}
+                    </span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
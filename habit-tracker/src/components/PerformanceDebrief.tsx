@@ -0,0 +1,88 @@
+'use client';
+
+import { useMemo } from "react";
+import { useInsights } from "../hooks/useInsights";
+import { habitLabel } from "../lib/habits";
+import { buildInsightContext, type InsightSeverity, type InsightType } from "../lib/insights";
+import type { AppState } from "../lib/types";
+
+const INSIGHT_ICONS: Record<InsightType, string> = {
+  highlight: "⭐",
+  opportunity: "🎯",
+  consistency: "🧠",
+  gratitude: "💬",
+  suggestion: "💡",
+};
+
+const INSIGHT_SEVERITY_STYLES: Record<InsightSeverity, string> = {
+  positive: "border-emerald-500/40 bg-emerald-400/10",
+  info: "border-slate-800 bg-slate-900/60",
+  warning: "border-amber-500/40 bg-amber-400/10",
+};
+
+/** The premium week in review, from the built-in rules or a language model. */
+export default function PerformanceDebrief({
+  state,
+  todayKey,
+}: {
+  state: Pick<AppState, "habits" | "logs" | "gratitude">;
+  todayKey: string;
+}) {
+  const { habits, logs, gratitude } = state;
+  const context = useMemo(
+    () => buildInsightContext({ habits, logs, gratitude }, todayKey),
+    [habits, logs, gratitude, todayKey],
+  );
+  const insights = useInsights(context);
+
+  return (
+    <section className="rounded-3xl bg-gradient-to-br from-amber-400 to-rose-500 p-[1px]">
+      <div className="h-full w-full rounded-[calc(1.5rem-1px)] bg-slate-950 p-6">
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <h2 className="text-xl font-semibold text-white">Performance Debrief</h2>
+          <select
+            value={insights.providerId}
+            onChange={(event) =>
+              insights.changeProvider(event.target.value === "llm" ? "llm" : "rules")
+            }
+            aria-label="Insight source"
+            className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+          >
+            <option value="rules">Built-in rules</option>
+            <option
+              value="llm"
+              disabled={!insights.llmAvailable && insights.providerId !== "llm"}
+            >
+              Language model{insights.llmAvailable ? "" : " (not configured)"}
+            </option>
+          </select>
+        </div>
+        {insights.error && (
+          <p className="mt-3 text-xs text-amber-200">
+            {insights.error} Showing the built-in insights instead.
+          </p>
+        )}
+        {insights.loading ? (
+          <p className="mt-4 text-sm text-slate-400">Analysing your week…</p>
+        ) : (
+          <ul className="mt-4 space-y-2">
+            {insights.insights?.map((insight, index) => (
+              <li
+                key={`${insight.type}-${index}`}
+                className={`rounded-xl border px-4 py-3 text-sm text-slate-200 ${INSIGHT_SEVERITY_STYLES[insight.severity]}`}
+              >
+                <span className="mr-2">{INSIGHT_ICONS[insight.type]}</span>
+                {insight.habitId && (
+                  <span className="mr-2 font-semibold text-white">
+                    {habitLabel(state.habits, insight.habitId)}:
+                  </span>
+                )}
+                {insight.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo } from "react";
+import { formatAmount } from "../lib/kinds";
+import { formatMoodChange } from "../lib/mood";
+import { dashboardSummaries } from "../lib/reports";
+import type { AppState } from "../lib/types";
+
+/** The weekly, monthly and year-to-date pulse cards. */
+export default function PeriodSummaries({
+  state,
+  todayKey,
+}: {
+  state: Pick<AppState, "logs" | "habits" | "routines" | "gratitude">;
+  todayKey: string;
+}) {
+  const { logs, habits, routines, gratitude } = state;
+  const summaries = useMemo(
+    () => dashboardSummaries({ logs, habits, routines, gratitude }, todayKey),
+    [logs, habits, routines, gratitude, todayKey],
+  );
+
+  return (
+    <section className="grid gap-6 md:grid-cols-3">
+      {summaries.map((summary) => (
+        <div
+          key={summary.label}
+          className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800"
+        >
+          <h3 className="text-lg font-semibold text-white">{summary.label}</h3>
+          <p className="text-xs uppercase tracking-[0.4em] text-slate-500">
+            {summary.dateLabel}
+          </p>
+          <dl className="mt-4 space-y-3 text-sm text-slate-300">
+            <div className="flex items-center justify-between">
+              <dt>Total minutes logged</dt>
+              <dd className="text-base font-semibold text-emerald-400">
+                {summary.totalMinutes}
+              </dd>
+            </div>
+            <div className="flex items-center justify-between">
+              <dt>Average minutes per habit</dt>
+              <dd>{summary.averageMinutesPerHabit}</dd>
+            </div>
+            <div className="flex items-center justify-between">
+              <dt>Active days</dt>
+              <dd>{summary.activeDays}</dd>
+            </div>
+            <div className="flex items-center justify-between">
+              <dt>Completion rate</dt>
+              <dd>{Math.round(summary.completionRate * 100)}%</dd>
+            </div>
+            <div className="flex items-center justify-between">
+              <dt>Average mood</dt>
+              <dd>
+                {summary.mood.averageMood === null
+                  ? "Not rated"
+                  : `${summary.mood.averageMood.toFixed(1)} / 5${formatMoodChange(summary.mood.moodChange)}`}
+              </dd>
+            </div>
+            {summary.mood.averageEnergy !== null && (
+              <div className="flex items-center justify-between">
+                <dt>Average energy</dt>
+                <dd>{summary.mood.averageEnergy.toFixed(1)} / 5</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-slate-400">
+                {summary.topHabit ? "Top habit" : "Add logs for highlights"}
+              </dt>
+              {summary.topHabit && (
+                <dd className="mt-1 font-semibold text-white">
+                  {summary.topHabit.name} - {Math.round(summary.topHabit.completionRate * 100)}%
+                  of target, {summary.topHabit.amountLabel}
+                </dd>
+              )}
+            </div>
+            {summary.routineBreakdown.length > 0 && (
+              <div>
+                <dt className="text-slate-400">Per routine</dt>
+                <dd>
+                  <ul className="mt-1 space-y-1 text-xs">
+                    {summary.routineBreakdown.map((entry) => (
+                      <li key={entry.routineId} className="flex justify-between gap-2">
+                        <span className="truncate">{entry.name}</span>
+                        <span className="shrink-0 text-slate-400">
+                          {entry.totalMinutes} min ·{" "}
+                          {Math.round(entry.completionRate * 100)}% · {entry.habitCount}{" "}
+                          {entry.habitCount === 1 ? "habit" : "habits"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </dd>
+              </div>
+            )}
+            {summary.habitBreakdown.length > 0 && (
+              <div>
+                <dt className="text-slate-400">Per habit</dt>
+                <dd>
+                  <ul className="mt-1 space-y-1 text-xs">
+                    {summary.habitBreakdown.map((entry) => (
+                      <li key={entry.habitId} className="flex justify-between gap-2">
+                        <span className="truncate">{entry.name}</span>
+                        <span className="shrink-0 text-slate-400">
+                          {formatAmount(entry, entry.amount)} ·{" "}
+                          {Math.round(entry.completionRate * 100)}% · {entry.hitCount}/
+                          {entry.periods} {entry.hitUnit === "week" ? "weeks" : "days"} hit
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </dd>
+              </div>
+            )}
+          </dl>
+          <p className="mt-4 text-xs text-slate-400">{summary.suggestedFocus}</p>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useState } from "react";
+import { createId } from "../lib/ids";
+import { normalizeTags, PROMPT_ROTATION_LABELS, promptTags } from "../lib/prompts";
+import type { GratitudePrompt, PromptRotation, Settings } from "../lib/types";
+
+const ALL_TAGS = "all";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+type PromptDraft = { text: string; tags: string };
+
+const EMPTY_DRAFT: PromptDraft = { text: "", tags: "" };
+
+export default function PromptLibrary({
+  prompts,
+  settings,
+  onChangePrompts,
+  onChangeSettings,
+}: {
+  prompts: GratitudePrompt[];
+  settings: Settings;
+  onChangePrompts: (prompts: GratitudePrompt[]) => void;
+  onChangeSettings: (settings: Pick<Settings, "promptRotation" | "promptTag">) => void;
+}) {
+  const [draft, setDraft] = useState<PromptDraft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<(PromptDraft & { id: string }) | null>(null);
+  const tags = promptTags(prompts);
+  const enabledCount = prompts.filter((prompt) => prompt.enabled).length;
+
+  const updatePrompt = (id: string, changes: Partial<Omit<GratitudePrompt, "id">>) => {
+    onChangePrompts(
+      prompts.map((prompt) => (prompt.id === id ? { ...prompt, ...changes } : prompt)),
+    );
+  };
+
+  const addPrompt = () => {
+    const text = draft.text.trim();
+    if (!text) {
+      return;
+    }
+    onChangePrompts([
+      ...prompts,
+      {
+        id: createId(),
+        text,
+        tags: normalizeTags(draft.tags),
+        enabled: true,
+        updatedAt: new Date().toISOString(),
+      },
+    ]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveEdit = () => {
+    if (!editing) {
+      return;
+    }
+    const text = editing.text.trim();
+    if (text) {
+      updatePrompt(editing.id, { text, tags: normalizeTags(editing.tags) });
+    }
+    setEditing(null);
+  };
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800 md:col-span-2">
+      <h2 className="text-xl font-semibold text-white">Gratitude Prompts</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Write your own prompts, tag them, and choose how each day&apos;s prompt is picked. Past
+        reflections keep the prompt they answered, even after it is edited or removed.
+      </p>
+
+      <div className="mt-4 grid gap-3 md:grid-cols-2">
+        <label className="grid gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+          Rotation
+          <select
+            value={settings.promptRotation}
+            onChange={(event) =>
+              onChangeSettings({
+                promptRotation: event.target.value as PromptRotation,
+                promptTag: settings.promptTag,
+              })
+            }
+            className={`py-3 normal-case tracking-normal ${inputClass}`}
+          >
+            {Object.entries(PROMPT_ROTATION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+          Draw from
+          <select
+            value={settings.promptTag ?? ALL_TAGS}
+            onChange={(event) =>
+              onChangeSettings({
+                promptRotation: settings.promptRotation,
+                promptTag: event.target.value === ALL_TAGS ? null : event.target.value,
+              })
+            }
+            className={`py-3 normal-case tracking-normal ${inputClass}`}
+          >
+            <option value={ALL_TAGS}>All enabled prompts</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                Tagged &quot;{tag}&quot;
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {enabledCount === 0 && (
+        <p className="mt-3 text-xs text-amber-300">
+          Every prompt is disabled, so each day falls back to a general reflection.
+        </p>
+      )}
+
+      <ul className="mt-4 max-h-80 space-y-2 overflow-y-auto pr-1">
+        {prompts.map((prompt) =>
+          editing?.id === prompt.id ? (
+            <li key={prompt.id} className="grid gap-2 rounded-2xl bg-slate-950/60 p-3">
+              <input
+                value={editing.text}
+                onChange={(event) => setEditing({ ...editing, text: event.target.value })}
+                aria-label="Prompt text"
+                className={inputClass}
+              />
+              <div className="flex gap-2">
+                <input
+                  value={editing.tags}
+                  onChange={(event) => setEditing({ ...editing, tags: event.target.value })}
+                  placeholder="Tags, comma separated"
+                  aria-label="Prompt tags"
+                  className={`min-w-0 flex-1 ${inputClass}`}
+                />
+                <button
+                  onClick={saveEdit}
+                  className="rounded-full bg-amber-400 px-3 py-1 text-xs font-semibold text-slate-900 hover:bg-amber-300"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditing(null)}
+                  className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+                >
+                  Cancel
+                </button>
+              </div>
+            </li>
+          ) : (
+            <li
+              key={prompt.id}
+              className="flex items-start gap-3 rounded-2xl bg-slate-950/60 p-3 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={prompt.enabled}
+                onChange={(event) => updatePrompt(prompt.id, { enabled: event.target.checked })}
+                aria-label={prompt.enabled ? "Disable prompt" : "Enable prompt"}
+                className="mt-1 h-4 w-4 accent-emerald-500"
+              />
+              <div className="min-w-0 flex-1">
+                <p className={prompt.enabled ? "text-slate-200" : "text-slate-500 line-through"}>
+                  {prompt.text}
+                </p>
+                {prompt.tags.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {prompt.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="rounded-full bg-slate-800 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-widest text-slate-400"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() =>
+                  setEditing({ id: prompt.id, text: prompt.text, tags: prompt.tags.join(", ") })
+                }
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => onChangePrompts(prompts.filter((item) => item.id !== prompt.id))}
+                className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-rose-300 hover:bg-slate-700"
+              >
+                Remove
+              </button>
+            </li>
+          ),
+        )}
+      </ul>
+
+      <div className="mt-4 flex flex-col gap-2 md:flex-row">
+        <input
+          value={draft.text}
+          onChange={(event) => setDraft({ ...draft, text: event.target.value })}
+          placeholder="Write a new prompt"
+          aria-label="New prompt"
+          className={`min-w-0 flex-[2] ${inputClass}`}
+        />
+        <input
+          value={draft.tags}
+          onChange={(event) => setDraft({ ...draft, tags: event.target.value })}
+          placeholder="Tags, comma separated"
+          aria-label="New prompt tags"
+          className={`min-w-0 flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={addPrompt}
+          disabled={!draft.text.trim()}
+          className="rounded-2xl bg-slate-800 px-4 py-2 text-xs font-semibold text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+        >
+          Add prompt
+        </button>
+      </div>
+    </section>
+  );
+}
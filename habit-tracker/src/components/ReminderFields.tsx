@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from "react";
+
+export default function ReminderFields({
+  reminders,
+  onChange,
+}: {
+  reminders: string[];
+  onChange: (reminders: string[]) => void;
+}) {
+  const [time, setTime] = useState("");
+
+  const addTime = () => {
+    if (!time || reminders.includes(time)) {
+      return;
+    }
+    onChange([...reminders, time].sort());
+    setTime("");
+  };
+
+  return (
+    <div className="grid gap-2">
+      {reminders.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {reminders.map((reminder) => (
+            <span
+              key={reminder}
+              className="flex items-center gap-1 rounded-full bg-slate-800 py-1 pl-3 pr-1 text-xs font-semibold text-slate-300"
+            >
+              🔔 {reminder}
+              <button
+                type="button"
+                onClick={() => onChange(reminders.filter((item) => item !== reminder))}
+                aria-label={`Remove ${reminder} reminder`}
+                className="rounded-full px-1.5 text-slate-500 hover:text-rose-300"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="time"
+          value={time}
+          onChange={(event) => setTime(event.target.value)}
+          aria-label="Reminder time"
+          className="min-w-0 flex-1 rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        />
+        <button
+          type="button"
+          onClick={addTime}
+          disabled={!time}
+          className="rounded-2xl bg-slate-800 px-4 py-2 text-xs font-semibold text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+        >
+          Add reminder
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import type { ReminderPermission } from "../hooks/useReminders";
+import type { Settings } from "../lib/types";
+
+const DEFAULT_DIGEST_TIME = "21:00";
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+const timeInputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+export default function ReminderSettings({
+  settings,
+  onChange,
+  permission,
+  onRequestPermission,
+}: {
+  settings: Settings;
+  onChange: (settings: Pick<Settings, "digestTime" | "quietHours">) => void;
+  permission: ReminderPermission;
+  onRequestPermission: () => Promise<void>;
+}) {
+  const { digestTime, quietHours } = settings;
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <h2 className="text-xl font-semibold text-white">Reminders</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Set reminder times on each habit. They arrive on scheduled days while the app is open in
+        any tab, and never during quiet hours.
+      </p>
+      <p className="mt-1 text-xs text-slate-500">
+        Closing every tab pauses reminders. Ones you missed show up the next time you open the app
+        that day.
+      </p>
+
+      <div className="mt-4">
+        {permission === "granted" ? (
+          <p className="text-xs text-emerald-300">Notifications are on for this device.</p>
+        ) : permission === "denied" ? (
+          <p className="text-xs text-rose-300">
+            Notifications are blocked. Allow them in your browser&apos;s site settings.
+          </p>
+        ) : permission === "unsupported" ? (
+          <p className="text-xs text-slate-500">This browser cannot show notifications.</p>
+        ) : (
+          <button
+            onClick={() => void onRequestPermission()}
+            className="rounded-full bg-amber-400 px-4 py-2 text-xs font-semibold text-slate-900 hover:bg-amber-300"
+          >
+            Turn on notifications
+          </button>
+        )}
+      </div>
+
+      <div className="mt-4 grid gap-2">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={digestTime !== null}
+            onChange={(event) =>
+              onChange({
+                digestTime: event.target.checked ? DEFAULT_DIGEST_TIME : null,
+                quietHours,
+              })
+            }
+            className="h-4 w-4 accent-emerald-500"
+          />
+          End-of-day digest of unlogged habits
+        </label>
+        {digestTime !== null && (
+          <input
+            type="time"
+            value={digestTime}
+            onChange={(event) => {
+              if (event.target.value) {
+                onChange({ digestTime: event.target.value, quietHours });
+              }
+            }}
+            aria-label="Digest time"
+            className={timeInputClass}
+          />
+        )}
+      </div>
+
+      <div className="mt-4 grid gap-2">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={quietHours !== null}
+            onChange={(event) =>
+              onChange({
+                digestTime,
+                quietHours: event.target.checked ? DEFAULT_QUIET_HOURS : null,
+              })
+            }
+            className="h-4 w-4 accent-emerald-500"
+          />
+          Quiet hours
+        </label>
+        {quietHours !== null && (
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            <input
+              type="time"
+              value={quietHours.start}
+              onChange={(event) => {
+                const start = event.target.value;
+                if (start && start !== quietHours.end) {
+                  onChange({ digestTime, quietHours: { ...quietHours, start } });
+                }
+              }}
+              aria-label="Quiet hours start"
+              className={`min-w-0 flex-1 ${timeInputClass}`}
+            />
+            to
+            <input
+              type="time"
+              value={quietHours.end}
+              onChange={(event) => {
+                const end = event.target.value;
+                if (end && end !== quietHours.start) {
+                  onChange({ digestTime, quietHours: { ...quietHours, end } });
+                }
+              }}
+              aria-label="Quiet hours end"
+              className={`min-w-0 flex-1 ${timeInputClass}`}
+            />
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,345 @@
+'use client';
+
+import { useMemo } from "react";
+import { parseDate } from "../lib/dates";
+import { formatAmount } from "../lib/kinds";
+import {
+  compareHabits,
+  REPORT_PRESET_LABELS,
+  summarizeRange,
+  type DateRange,
+  type ReportPreset,
+  type ReportSelection,
+  type ResolvedReport,
+  type Summary,
+} from "../lib/reports";
+import { ROUTINE_SLOT_LABELS } from "../lib/routines";
+import type { GratitudeEntry, Habit, HabitLog, Routine } from "../lib/types";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+type Metric = {
+  label: string;
+  value: (summary: Summary) => number | null;
+  format: (value: number) => string;
+};
+
+const METRICS: Metric[] = [
+  {
+    label: "Total minutes",
+    value: (summary) => summary.totalMinutes,
+    format: (value) => `${Math.round(value)}`,
+  },
+  {
+    label: "Minutes per habit",
+    value: (summary) => summary.averageMinutesPerHabit,
+    format: (value) => value.toFixed(1),
+  },
+  {
+    label: "Completion rate",
+    value: (summary) => summary.completionRate * 100,
+    format: (value) => `${Math.round(value)}%`,
+  },
+  {
+    label: "Active days",
+    value: (summary) => summary.activeDays,
+    format: (value) => `${value}`,
+  },
+  {
+    label: "Average mood",
+    value: (summary) => summary.mood.averageMood,
+    format: (value) => value.toFixed(1),
+  },
+  {
+    label: "Average energy",
+    value: (summary) => summary.mood.averageEnergy,
+    format: (value) => value.toFixed(1),
+  },
+];
+
+function formatRange({ startKey, endKey }: DateRange) {
+  const format = (dateKey: string) =>
+    parseDate(dateKey).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  return startKey === endKey ? format(startKey) : `${format(startKey)} → ${format(endKey)}`;
+}
+
+/** Every metric here is better when higher, so rises are green and falls are red. */
+function Delta({ change, format }: { change: number; format: (value: number) => string }) {
+  if (format(Math.abs(change)) === format(0)) {
+    return <span className="text-xs text-slate-500">no change</span>;
+  }
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-xs font-semibold ${change > 0 ? "bg-emerald-400/15 text-emerald-300" : "bg-rose-400/15 text-rose-300"}`}
+    >
+      {change > 0 ? "▲" : "▼"} {format(Math.abs(change))}
+    </span>
+  );
+}
+
+export default function ReportBuilder({
+  habits,
+  routines,
+  logs,
+  gratitude,
+  todayKey,
+  selection,
+  period,
+  onChangeSelection,
+}: {
+  habits: Habit[];
+  routines: Routine[];
+  logs: HabitLog[];
+  gratitude: GratitudeEntry[];
+  todayKey: string;
+  selection: ReportSelection;
+  period: ResolvedReport;
+  onChangeSelection: (selection: ReportSelection) => void;
+}) {
+  const { preset, month, custom, compare } = selection;
+
+  const report = useMemo(() => {
+    const { range, previous } = period;
+    const current = summarizeRange({
+      logs,
+      habits,
+      routines,
+      gratitude,
+      label: REPORT_PRESET_LABELS[preset],
+      ...range,
+      todayKey,
+    });
+    const before = summarizeRange({
+      logs,
+      habits,
+      routines,
+      gratitude,
+      label: "Previous period",
+      ...previous,
+      todayKey,
+    });
+    return { range, previous, current, before, rows: compareHabits(current, before) };
+  }, [preset, period, logs, habits, routines, gratitude, todayKey]);
+
+  const update = (changes: Partial<ReportSelection>) =>
+    onChangeSelection({ ...selection, ...changes });
+
+  const updateCustom = (changes: Partial<DateRange>) => {
+    const next = { ...custom, ...changes };
+    update({
+      custom:
+        next.startKey <= next.endKey ? next : { startKey: next.endKey, endKey: next.startKey },
+    });
+  };
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Report Builder</h2>
+          <p className="text-sm text-slate-400">
+            Pick any period for a retro and compare it with the one before.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+          <select
+            value={preset}
+            onChange={(event) => update({ preset: event.target.value as ReportPreset })}
+            aria-label="Report period"
+            className={inputClass}
+          >
+            {Object.entries(REPORT_PRESET_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {preset === "month" && (
+            <input
+              type="month"
+              value={month}
+              max={todayKey.slice(0, 7)}
+              onChange={(event) => event.target.value && update({ month: event.target.value })}
+              aria-label="Month"
+              className={inputClass}
+            />
+          )}
+          {preset === "custom" && (
+            <>
+              <input
+                type="date"
+                value={custom.startKey}
+                max={todayKey}
+                onChange={(event) =>
+                  event.target.value && updateCustom({ startKey: event.target.value })
+                }
+                aria-label="Report start"
+                className={inputClass}
+              />
+              to
+              <input
+                type="date"
+                value={custom.endKey}
+                max={todayKey}
+                onChange={(event) =>
+                  event.target.value && updateCustom({ endKey: event.target.value })
+                }
+                aria-label="Report end"
+                className={inputClass}
+              />
+            </>
+          )}
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={compare}
+              onChange={(event) => update({ compare: event.target.checked })}
+              className="h-4 w-4 accent-emerald-500"
+            />
+            Compare
+          </label>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs uppercase tracking-[0.3em] text-slate-500">
+        {formatRange(report.range)}
+        {compare && <> vs {formatRange(report.previous)}</>}
+      </p>
+
+      <dl className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {METRICS.map((metric) => {
+          const value = metric.value(report.current);
+          const before = metric.value(report.before);
+          return (
+            <div key={metric.label} className="rounded-2xl bg-slate-950/60 px-4 py-3">
+              <dt className="text-xs text-slate-400">{metric.label}</dt>
+              <dd className="mt-1 flex items-baseline justify-between gap-2">
+                <span className="text-lg font-semibold text-white">
+                  {value === null ? "–" : metric.format(value)}
+                </span>
+                {compare && (
+                  <span className="flex items-center gap-2 text-xs text-slate-500">
+                    was {before === null ? "–" : metric.format(before)}
+                    {value !== null && before !== null && (
+                      <Delta change={value - before} format={metric.format} />
+                    )}
+                  </span>
+                )}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+
+      {report.current.routineBreakdown.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-widest text-slate-500">
+              <tr>
+                <th className="py-2 pr-4 font-semibold">Routine</th>
+                <th className="py-2 pr-4 font-semibold">Minutes</th>
+                <th className="py-2 pr-4 font-semibold">Completion</th>
+                {compare && <th className="py-2 font-semibold">Change</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800 text-slate-300">
+              {report.current.routineBreakdown.map((routine) => {
+                const previous = report.before.routineBreakdown.find(
+                  (entry) => entry.routineId === routine.routineId,
+                );
+                return (
+                  <tr key={routine.routineId}>
+                    <td className="py-2 pr-4">
+                      <span className="font-semibold text-white">{routine.name}</span>
+                      <span className="text-xs text-slate-500">
+                        {" "}
+                        {ROUTINE_SLOT_LABELS[routine.slot]} · {routine.habitCount}{" "}
+                        {routine.habitCount === 1 ? "habit" : "habits"}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4">{routine.totalMinutes}</td>
+                    <td className="py-2 pr-4">{Math.round(routine.completionRate * 100)}%</td>
+                    {compare && (
+                      <td className="py-2">
+                        {previous ? (
+                          <Delta
+                            change={(routine.completionRate - previous.completionRate) * 100}
+                            format={(value) => `${Math.round(value)} pts`}
+                          />
+                        ) : (
+                          <span className="text-xs text-slate-500">new</span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.rows.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-widest text-slate-500">
+              <tr>
+                <th className="py-2 pr-4 font-semibold">Habit</th>
+                <th className="py-2 pr-4 font-semibold">Amount</th>
+                <th className="py-2 pr-4 font-semibold">Completion</th>
+                <th className="py-2 pr-4 font-semibold">Targets hit</th>
+                {compare && <th className="py-2 font-semibold">Change</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800 text-slate-300">
+              {report.rows.map((row) => {
+                const { current, previous } = row;
+                return (
+                  <tr key={row.habitId}>
+                    <td className="py-2 pr-4 font-semibold text-white">{row.name}</td>
+                    <td className="py-2 pr-4">
+                      {current ? formatAmount(current, current.amount) : "–"}
+                      {compare && previous && (
+                        <span className="text-xs text-slate-500">
+                          {" "}
+                          (was {formatAmount(previous, previous.amount)})
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {current ? `${Math.round(current.completionRate * 100)}%` : "–"}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {current
+                        ? `${current.hitCount}/${current.periods} ${current.hitUnit === "week" ? "weeks" : "days"}`
+                        : "–"}
+                    </td>
+                    {compare && (
+                      <td className="py-2">
+                        {current && previous ? (
+                          <Delta
+                            change={(current.completionRate - previous.completionRate) * 100}
+                            format={(value) => `${Math.round(value)} pts`}
+                          />
+                        ) : (
+                          <span className="text-xs text-slate-500">
+                            {current ? "new" : "not in this period"}
+                          </span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from "react";
+import type { RoutineChanges } from "../lib/actions";
+import { orderRoutines, ROUTINE_SLOT_LABELS, ROUTINE_SLOTS } from "../lib/routines";
+import type { Habit, Routine, RoutineSlot } from "../lib/types";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+export default function RoutineManager({
+  routines,
+  habits,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: {
+  routines: Routine[];
+  habits: Habit[];
+  onAdd: (name: string, slot: RoutineSlot) => void;
+  onUpdate: (routineId: string, changes: RoutineChanges) => void;
+  onDelete: (routineId: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [slot, setSlot] = useState<RoutineSlot>("morning");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const addRoutine = () => {
+    if (!name.trim()) {
+      return;
+    }
+    onAdd(name.trim(), slot);
+    setName("");
+  };
+
+  const saveRename = () => {
+    if (renaming && renaming.name.trim()) {
+      onUpdate(renaming.id, { name: renaming.name.trim() });
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <h2 className="text-xl font-semibold text-white">Routines</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Stack habits into routines for a time of day. Drag habits in the Daily Control Center to
+        move them between routines or change their order.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && addRoutine()}
+          placeholder="Morning launch, wind-down..."
+          aria-label="Routine name"
+          maxLength={40}
+          className={`min-w-0 flex-1 ${inputClass}`}
+        />
+        <select
+          value={slot}
+          onChange={(event) => setSlot(event.target.value as RoutineSlot)}
+          aria-label="Time of day"
+          className={inputClass}
+        >
+          {ROUTINE_SLOTS.map((value) => (
+            <option key={value} value={value}>
+              {ROUTINE_SLOT_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addRoutine}
+          className="rounded-2xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-400"
+        >
+          Add
+        </button>
+      </div>
+
+      {routines.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {orderRoutines(routines).map((routine) => {
+            const habitCount = habits.filter((habit) => habit.routineId === routine.id).length;
+            return (
+              <li
+                key={routine.id}
+                className="flex flex-wrap items-center gap-2 rounded-2xl bg-slate-950/60 p-3 text-sm"
+              >
+                {renaming?.id === routine.id ? (
+                  <input
+                    value={renaming.name}
+                    onChange={(event) => setRenaming({ ...renaming, name: event.target.value })}
+                    onKeyDown={(event) => event.key === "Enter" && saveRename()}
+                    onBlur={saveRename}
+                    aria-label="Routine name"
+                    maxLength={40}
+                    autoFocus
+                    className={`min-w-0 flex-1 ${inputClass}`}
+                  />
+                ) : (
+                  <button
+                    onClick={() => setRenaming({ id: routine.id, name: routine.name })}
+                    title="Rename"
+                    className="min-w-0 flex-1 truncate text-left font-semibold text-slate-200 hover:text-white"
+                  >
+                    {routine.name}
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      {habitCount} {habitCount === 1 ? "habit" : "habits"}
+                    </span>
+                  </button>
+                )}
+                <select
+                  value={routine.slot}
+                  onChange={(event) =>
+                    onUpdate(routine.id, { slot: event.target.value as RoutineSlot })
+                  }
+                  aria-label={`Time of day for ${routine.name}`}
+                  className="rounded-full border border-slate-700 bg-slate-950 px-3 py-1 text-xs text-slate-200 focus:border-amber-400 focus:outline-none"
+                >
+                  {ROUTINE_SLOTS.map((value) => (
+                    <option key={value} value={value}>
+                      {ROUTINE_SLOT_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onDelete(routine.id)}
+                  title="Its habits are kept and become ungrouped"
+                  className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-rose-300 hover:bg-rose-500/20"
+                >
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
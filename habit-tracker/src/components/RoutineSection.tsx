@@ -0,0 +1,83 @@
+'use client';
+
+import type { ReactNode } from "react";
+
+/**
+ * One collapsible routine in the Daily Control Center. It accepts dropped
+ * habits anywhere in the section; dropping on a habit card is handled by the
+ * card so the habit lands before it instead of at the end.
+ */
+export default function RoutineSection({
+  title,
+  slotLabel,
+  metCount,
+  scheduledCount,
+  collapsed,
+  dropActive,
+  onToggle,
+  onComplete,
+  onDragOver,
+  onDrop,
+  children,
+}: {
+  title: string;
+  slotLabel: string | null;
+  /** Scheduled habits whose target is met on the selected day. */
+  metCount: number;
+  scheduledCount: number;
+  collapsed: boolean;
+  /** Whether a habit is being dragged over this section. */
+  dropActive: boolean;
+  onToggle: () => void;
+  /** Left out for the ungrouped section, which has no routine to complete. */
+  onComplete?: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  children: ReactNode;
+}) {
+  const done = scheduledCount > 0 && metCount === scheduledCount;
+
+  return (
+    <section
+      onDragOver={(event) => {
+        event.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(event) => {
+        event.preventDefault();
+        onDrop();
+      }}
+      className={`rounded-2xl border p-3 transition ${dropActive ? "border-amber-400/60 bg-amber-400/5" : "border-slate-800"}`}
+    >
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onToggle}
+          aria-expanded={!collapsed}
+          className="flex min-w-0 flex-1 items-center gap-2 text-left"
+        >
+          <span className="text-xs text-slate-500">{collapsed ? "▸" : "▾"}</span>
+          <span className="truncate text-sm font-semibold text-white">{title}</span>
+          {slotLabel && (
+            <span className="text-xs uppercase tracking-widest text-slate-500">{slotLabel}</span>
+          )}
+        </button>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-semibold ${done ? "bg-emerald-400/15 text-emerald-300" : "bg-slate-800 text-slate-400"}`}
+        >
+          {metCount}/{scheduledCount} done
+        </span>
+        {onComplete && (
+          <button
+            onClick={onComplete}
+            disabled={done || scheduledCount === 0}
+            title="Log each remaining habit's target for this day"
+            className="rounded-full bg-emerald-500 px-3 py-1 text-xs font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-40"
+          >
+            Complete routine
+          </button>
+        )}
+      </div>
+      {!collapsed && <div className="mt-3 space-y-4">{children}</div>}
+    </section>
+  );
+}
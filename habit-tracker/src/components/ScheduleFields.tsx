@@ -0,0 +1,77 @@
+'use client';
+
+import { WEEKDAY_LABELS } from "../lib/schedule";
+import type { HabitSchedule } from "../lib/types";
+
+export default function ScheduleFields({
+  schedule,
+  onChange,
+}: {
+  schedule: HabitSchedule;
+  onChange: (schedule: HabitSchedule) => void;
+}) {
+  return (
+    <div className="grid gap-2">
+      <select
+        value={schedule.type}
+        onChange={(event) => {
+          const type = event.target.value as HabitSchedule["type"];
+          if (type === "weekdays") {
+            onChange({ type, days: [1, 2, 3, 4, 5] });
+          } else if (type === "weekly") {
+            onChange({ type, timesPerWeek: 3 });
+          } else {
+            onChange({ type: "daily" });
+          }
+        }}
+        aria-label="Schedule"
+        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+      >
+        <option value="daily">Every day</option>
+        <option value="weekdays">Specific weekdays</option>
+        <option value="weekly">Times per week</option>
+      </select>
+      {schedule.type === "weekdays" && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const selected = schedule.days.includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                aria-pressed={selected}
+                onClick={() => {
+                  const days = selected
+                    ? schedule.days.filter((item) => item !== day)
+                    : [...schedule.days, day].sort((a, b) => a - b);
+                  if (days.length > 0) {
+                    onChange({ type: "weekdays", days });
+                  }
+                }}
+                className={`rounded-full px-3 py-1 text-xs font-semibold transition ${selected ? "bg-amber-400 text-slate-900" : "bg-slate-800 text-slate-400 hover:bg-slate-700"}`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {schedule.type === "weekly" && (
+        <input
+          type="number"
+          min={1}
+          max={7}
+          value={schedule.timesPerWeek}
+          onChange={(event) => {
+            const value = Math.round(Number(event.target.value));
+            if (value >= 1 && value <= 7) {
+              onChange({ type: "weekly", timesPerWeek: value });
+            }
+          }}
+          aria-label="Times per week"
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { SCORES, type Score } from "../lib/mood";
+
+/** A row of 1–5 buttons; picking the current score again clears it. */
+export default function ScorePicker({
+  label,
+  labels,
+  value,
+  onChange,
+}: {
+  label: string;
+  labels: Record<Score, string>;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="w-14 text-xs font-semibold uppercase tracking-widest text-slate-500">
+        {label}
+      </span>
+      {SCORES.map((score) => (
+        <button
+          key={score}
+          type="button"
+          onClick={() => onChange(value === score ? undefined : score)}
+          aria-pressed={value === score}
+          title={labels[score]}
+          className={`h-8 w-8 rounded-full text-xs font-semibold transition ${value === score ? "bg-amber-400 text-slate-900" : "bg-slate-800 text-slate-300 hover:bg-slate-700"}`}
+        >
+          {score}
+        </button>
+      ))}
+      {value !== undefined && (
+        <span className="text-xs text-slate-400">{labels[value as Score]}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from "react";
+import { asMinutes } from "../lib/sessions";
+import type { HabitSession } from "../lib/types";
+
+function formatElapsed(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+export default function SessionLogger({
+  sessions,
+  elapsedSeconds,
+  canTime,
+  onStartTimer,
+  onStopTimer,
+  onAddSession,
+  onRemoveSession,
+}: {
+  sessions: HabitSession[];
+  elapsedSeconds: number | null;
+  canTime: boolean;
+  onStartTimer: () => void;
+  onStopTimer: () => void;
+  onAddSession: (session: Omit<HabitSession, "id">) => void;
+  onRemoveSession: (sessionId: string) => void;
+}) {
+  const [minutes, setMinutes] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [note, setNote] = useState("");
+
+  const handleAdd = () => {
+    const parsed = asMinutes(minutes);
+    if (parsed <= 0) {
+      return;
+    }
+    onAddSession({
+      minutes: parsed,
+      startTime: startTime || undefined,
+      note: note.trim() || undefined,
+    });
+    setMinutes("");
+    setStartTime("");
+    setNote("");
+  };
+
+  const inputClass =
+    "rounded-xl border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-400";
+
+  return (
+    <div className="mt-3 space-y-3">
+      {sessions.length > 0 && (
+        <ul className="space-y-1 text-xs text-slate-300">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-3 rounded-xl bg-slate-950/60 px-3 py-2"
+            >
+              <span className="min-w-0 truncate">
+                <span className="font-semibold text-slate-200">
+                  {session.startTime ?? "--:--"}
+                </span>{" "}
+                · {session.minutes} min
+                {session.note ? <span className="text-slate-500"> · {session.note}</span> : null}
+              </span>
+              <button
+                onClick={() => onRemoveSession(session.id)}
+                aria-label="Remove session"
+                className="shrink-0 rounded-full px-2 text-slate-500 hover:text-rose-300"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          value={minutes}
+          onChange={(event) => setMinutes(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && handleAdd()}
+          placeholder="Minutes"
+          aria-label="Session minutes"
+          className={`w-24 ${inputClass}`}
+        />
+        <input
+          type="time"
+          value={startTime}
+          onChange={(event) => setStartTime(event.target.value)}
+          aria-label="Session start time"
+          className={inputClass}
+        />
+        <input
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && handleAdd()}
+          placeholder="Note (optional)"
+          aria-label="Session note"
+          maxLength={500}
+          className={`min-w-0 flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={handleAdd}
+          className="rounded-xl bg-emerald-500 px-3 py-2 text-xs font-semibold text-slate-950 transition hover:bg-emerald-400"
+        >
+          Add
+        </button>
+        {elapsedSeconds !== null ? (
+          <button
+            onClick={onStopTimer}
+            className="rounded-xl bg-rose-500 px-3 py-2 font-mono text-xs font-semibold text-slate-950 transition hover:bg-rose-400"
+          >
+            ■ {formatElapsed(elapsedSeconds)}
+          </button>
+        ) : (
+          canTime && (
+            <button
+              onClick={onStartTimer}
+              className="rounded-xl bg-slate-800 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:bg-slate-700"
+            >
+              ▶ Start timer
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { useShareLinks } from "../hooks/useShareLinks";
+import { addDays, parseDate } from "../lib/dates";
+import type { DateRange } from "../lib/reports";
+import { orderHabits } from "../lib/routines";
+import {
+  SHARE_EXPIRY_DAYS,
+  SHARE_GRATITUDE_LABELS,
+  type ShareGratitude,
+  type ShareLinkInfo,
+} from "../lib/share";
+import type { AppState } from "../lib/types";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+function formatDay(dateKey: string) {
+  return parseDate(dateKey).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function linkStatus(link: ShareLinkInfo, now: number): { live: boolean; text: string } {
+  if (link.revokedAt) {
+    return { live: false, text: "Revoked" };
+  }
+  const expiresAt = new Date(link.expiresAt);
+  return expiresAt.getTime() <= now
+    ? { live: false, text: "Expired" }
+    : {
+        live: true,
+        text: `Expires ${expiresAt.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`,
+      };
+}
+
+export default function SharePanel({ state, todayKey }: { state: AppState; todayKey: string }) {
+  const shares = useShareLinks();
+  const [label, setLabel] = useState("");
+  // Null shares every active habit, including ones added later.
+  const [habitIds, setHabitIds] = useState<string[] | null>(null);
+  const [range, setRange] = useState<DateRange>(() => ({
+    startKey: addDays(todayKey, -29),
+    endKey: todayKey,
+  }));
+  const [gratitude, setGratitude] = useState<ShareGratitude>("none");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  const activeHabits = useMemo(
+    () => orderHabits(state.habits, state.routines).filter((habit) => !habit.archived),
+    [state.habits, state.routines],
+  );
+  const chosen = activeHabits
+    .map((habit) => habit.id)
+    .filter((habitId) => habitIds === null || habitIds.includes(habitId));
+
+  const toggleHabit = (habitId: string) => {
+    setHabitIds(
+      chosen.includes(habitId) ? chosen.filter((id) => id !== habitId) : [...chosen, habitId],
+    );
+  };
+
+  const updateRange = (changes: Partial<DateRange>) => {
+    const next = { ...range, ...changes };
+    setRange(next.startKey <= next.endKey ? next : { startKey: next.endKey, endKey: next.startKey });
+  };
+
+  const copyLink = async (link: ShareLinkInfo) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/share/${link.token}`);
+    setCopiedId(link.id);
+  };
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800 md:col-span-2">
+      <h2 className="text-xl font-semibold text-white">Share Progress</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Make a read-only link for a coach or accountability partner. It shows a snapshot of the
+        habits and dates you pick, as last synced, until it expires or you revoke it. Reflections
+        stay private unless you choose otherwise.
+      </p>
+
+      <div className="mt-4 grid gap-4 md:grid-cols-2">
+        <div className="grid content-start gap-3">
+          <label className="grid gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Title
+            <input
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              placeholder="Progress snapshot"
+              maxLength={60}
+              className={`normal-case tracking-normal ${inputClass}`}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="grid gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+              From
+              <input
+                type="date"
+                value={range.startKey}
+                max={todayKey}
+                onChange={(event) =>
+                  event.target.value && updateRange({ startKey: event.target.value })
+                }
+                className={inputClass}
+              />
+            </label>
+            <label className="grid gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+              To
+              <input
+                type="date"
+                value={range.endKey}
+                max={todayKey}
+                onChange={(event) =>
+                  event.target.value && updateRange({ endKey: event.target.value })
+                }
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="grid gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Reflections
+            <select
+              value={gratitude}
+              onChange={(event) => setGratitude(event.target.value as ShareGratitude)}
+              className={`normal-case tracking-normal ${inputClass}`}
+            >
+              {Object.entries(SHARE_GRATITUDE_LABELS).map(([value, text]) => (
+                <option key={value} value={value}>
+                  {text}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="grid gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Link works for
+            <select
+              value={expiresInDays}
+              onChange={(event) => setExpiresInDays(Number(event.target.value))}
+              className={`normal-case tracking-normal ${inputClass}`}
+            >
+              {SHARE_EXPIRY_DAYS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 1 ? "1 day" : `${days} days`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <fieldset className="grid content-start gap-2">
+          <legend className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Habits
+          </legend>
+          {activeHabits.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-400">Add habits before sharing your progress.</p>
+          ) : (
+            <ul className="mt-2 max-h-64 space-y-1 overflow-y-auto pr-1">
+              {activeHabits.map((habit) => (
+                <li key={habit.id}>
+                  <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={chosen.includes(habit.id)}
+                      onChange={() => toggleHabit(habit.id)}
+                      className="h-4 w-4 accent-emerald-500"
+                    />
+                    {habit.name}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </fieldset>
+      </div>
+
+      {gratitude === "full" && (
+        <p className="mt-3 text-xs text-amber-300">
+          Anyone with the link will be able to read what you wrote on these days.
+        </p>
+      )}
+      {shares.error && <p className="mt-3 text-xs text-rose-300">{shares.error}</p>}
+      <button
+        onClick={() => shares.create({ label, habitIds: chosen, range, gratitude, expiresInDays })}
+        disabled={shares.busy || chosen.length === 0}
+        className="mt-4 rounded-2xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-40"
+      >
+        {shares.busy ? "Creating link…" : "Create share link"}
+      </button>
+
+      {shares.links.length > 0 && (
+        <ul className="mt-6 space-y-2">
+          {shares.links.map((link) => {
+            const status = linkStatus(link, now);
+            return (
+              <li
+                key={link.id}
+                className="flex flex-wrap items-center gap-3 rounded-2xl bg-slate-950/60 p-3 text-sm"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-semibold text-slate-200">
+                    {link.label || "Progress snapshot"}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {formatDay(link.range.startKey)} → {formatDay(link.range.endKey)} ·{" "}
+                    {status.text}
+                  </p>
+                </div>
+                {status.live && (
+                  <>
+                    <button
+                      onClick={() => copyLink(link)}
+                      className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+                    >
+                      {copiedId === link.id ? "Copied" : "Copy link"}
+                    </button>
+                    <button
+                      onClick={() => shares.revoke(link.id)}
+                      className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-rose-300 hover:bg-rose-500/20"
+                    >
+                      Revoke
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
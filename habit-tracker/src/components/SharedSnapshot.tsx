@@ -0,0 +1,187 @@
+import { parseDate } from "../lib/dates";
+import { formatAmount } from "../lib/kinds";
+import { ENERGY_LABELS, MOOD_LABELS, type Score } from "../lib/mood";
+import { ROUTINE_SLOT_LABELS } from "../lib/routines";
+import type { ShareSnapshot } from "../lib/share";
+import { formatStreak } from "../lib/streaks";
+
+function formatDay(dateKey: string) {
+  return parseDate(dateKey).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-2xl bg-slate-950/60 px-4 py-3">
+      <dt className="text-xs text-slate-400">{label}</dt>
+      <dd className="mt-1 text-lg font-semibold text-white">{value}</dd>
+      {detail && <dd className="text-xs text-slate-500">{detail}</dd>}
+    </div>
+  );
+}
+
+/** The read-only page behind a share link. Renders on the server from the stored snapshot. */
+export default function SharedSnapshot({
+  snapshot,
+  expiresAt,
+}: {
+  snapshot: ShareSnapshot;
+  expiresAt: string;
+}) {
+  const { summary, range } = snapshot;
+  const streaks = new Map(snapshot.habits.map((habit) => [habit.habitId, habit.streak]));
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
+      <div className="mx-auto flex max-w-4xl flex-col gap-8 px-4">
+        <header className="rounded-3xl bg-slate-900/60 p-8 ring-1 ring-slate-800">
+          <p className="text-xs font-semibold uppercase tracking-[0.4em] text-amber-400">
+            Ritual Rhythm · Shared progress
+          </p>
+          <h1 className="mt-2 text-3xl font-semibold tracking-tight text-white">
+            {snapshot.label}
+          </h1>
+          <p className="mt-1 text-sm text-slate-400">
+            {formatDay(range.startKey)} → {formatDay(range.endKey)}
+          </p>
+          <p className="mt-3 text-xs text-slate-500">
+            A read-only snapshot taken {new Date(snapshot.createdAt).toLocaleDateString()}. This
+            link stops working on {new Date(expiresAt).toLocaleDateString()}.
+          </p>
+        </header>
+
+        <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+          <dl className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <Stat label="Completion rate" value={`${Math.round(summary.completionRate * 100)}%`} />
+            <Stat label="Minutes logged" value={`${summary.totalMinutes}`} />
+            <Stat label="Active days" value={`${summary.activeDays}`} />
+            {snapshot.gratitude === "none" ? (
+              <Stat
+                label="Top habit"
+                value={summary.topHabit?.name ?? "–"}
+                detail={summary.topHabit?.amountLabel}
+              />
+            ) : (
+              <Stat
+                label="Average mood"
+                value={
+                  summary.mood.averageMood === null
+                    ? "Not rated"
+                    : `${summary.mood.averageMood.toFixed(1)} / 5`
+                }
+                detail={
+                  summary.mood.ratedDays > 0 ? `${summary.mood.ratedDays} rated days` : undefined
+                }
+              />
+            )}
+          </dl>
+        </section>
+
+        <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+          <h2 className="text-xl font-semibold text-white">Habits</h2>
+          {summary.habitBreakdown.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-400">Nothing was logged in this period.</p>
+          ) : (
+            <div className="mt-4 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase tracking-widest text-slate-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-semibold">Habit</th>
+                    <th className="py-2 pr-4 font-semibold">Amount</th>
+                    <th className="py-2 pr-4 font-semibold">Completion</th>
+                    <th className="py-2 pr-4 font-semibold">Targets hit</th>
+                    <th className="py-2 font-semibold">Streak</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800 text-slate-300">
+                  {summary.habitBreakdown.map((entry) => {
+                    const streak = streaks.get(entry.habitId);
+                    return (
+                      <tr key={entry.habitId}>
+                        <td className="py-2 pr-4 font-semibold text-white">{entry.name}</td>
+                        <td className="py-2 pr-4">{formatAmount(entry, entry.amount)}</td>
+                        <td className="py-2 pr-4">{Math.round(entry.completionRate * 100)}%</td>
+                        <td className="py-2 pr-4">
+                          {entry.hitCount}/{entry.periods}{" "}
+                          {entry.hitUnit === "week" ? "weeks" : "days"}
+                        </td>
+                        <td className="py-2">
+                          {streak
+                            ? `${formatStreak(streak.current, streak.unit)} (best ${formatStreak(streak.longest, streak.unit)})`
+                            : "–"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {summary.routineBreakdown.length > 0 && (
+          <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+            <h2 className="text-xl font-semibold text-white">Routines</h2>
+            <ul className="mt-4 space-y-2 text-sm">
+              {summary.routineBreakdown.map((routine) => (
+                <li
+                  key={routine.routineId}
+                  className="flex justify-between gap-3 rounded-2xl bg-slate-950/60 px-4 py-3"
+                >
+                  <span>
+                    <span className="font-semibold text-white">{routine.name}</span>{" "}
+                    <span className="text-xs text-slate-500">
+                      {ROUTINE_SLOT_LABELS[routine.slot]}
+                    </span>
+                  </span>
+                  <span className="text-slate-400">
+                    {routine.totalMinutes} min · {Math.round(routine.completionRate * 100)}%
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {snapshot.gratitude !== "none" && (
+          <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+            <h2 className="text-xl font-semibold text-white">Reflections</h2>
+            {snapshot.reflections.length === 0 ? (
+              <p className="mt-2 text-sm text-slate-400">No reflections in this period.</p>
+            ) : (
+              <ul className="mt-4 space-y-3 text-sm">
+                {snapshot.reflections.map((reflection, index) => (
+                  <li
+                    key={`${reflection.date}-${index}`}
+                    className="rounded-2xl bg-slate-950/60 px-4 py-3"
+                  >
+                    <p className="text-xs text-slate-500">
+                      {formatDay(reflection.date)}
+                      {reflection.mood !== undefined &&
+                        ` · Mood ${MOOD_LABELS[reflection.mood as Score]}`}
+                      {reflection.energy !== undefined &&
+                        ` · Energy ${ENERGY_LABELS[reflection.energy as Score]}`}
+                    </p>
+                    {reflection.response && (
+                      <>
+                        <p className="mt-1 text-xs uppercase tracking-widest text-slate-500">
+                          {reflection.prompt}
+                        </p>
+                        <p className="mt-1 whitespace-pre-wrap text-slate-200">
+                          {reflection.response}
+                        </p>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from "react";
+import type { SyncStatus } from "../hooks/useAppStorage";
+import { isIndexedDbAvailable, type StorageBackend } from "../lib/storage";
+
+const BACKEND_LABELS: Record<StorageBackend, string> = {
+  localStorage: "Browser storage (localStorage)",
+  indexedDB: "IndexedDB (better for large histories)",
+};
+
+export default function StorageSettings({
+  backend,
+  onChangeBackend,
+  syncEnabled,
+  onToggleSync,
+  syncStatus,
+  lastSyncedAt,
+  onSyncNow,
+}: {
+  backend: StorageBackend;
+  onChangeBackend: (backend: StorageBackend) => Promise<void>;
+  syncEnabled: boolean;
+  onToggleSync: (enabled: boolean) => void;
+  syncStatus: SyncStatus;
+  lastSyncedAt: string | null;
+  onSyncNow: () => Promise<void>;
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <h2 className="text-xl font-semibold text-white">Storage &amp; Sync</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Everything is saved on this device first. Turn on sync to share it with your other devices
+        through your account on your own server.
+      </p>
+
+      <div className="mt-4 grid gap-2">
+        <label className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+          Device storage
+        </label>
+        <select
+          value={backend}
+          onChange={(event) => {
+            setError(null);
+            onChangeBackend(event.target.value as StorageBackend).catch(() =>
+              setError("Could not copy your data to that storage."),
+            );
+          }}
+          className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        >
+          {(Object.keys(BACKEND_LABELS) as StorageBackend[]).map((option) => (
+            <option
+              key={option}
+              value={option}
+              disabled={option === "indexedDB" && !isIndexedDbAvailable()}
+            >
+              {BACKEND_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={syncEnabled}
+            onChange={(event) => onToggleSync(event.target.checked)}
+            className="h-4 w-4 accent-emerald-500"
+          />
+          Sync with server
+        </label>
+        {syncEnabled && (
+          <button
+            onClick={() => void onSyncNow()}
+            disabled={syncStatus === "syncing"}
+            className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            Sync now
+          </button>
+        )}
+      </div>
+      {syncEnabled && (
+        <p className="mt-2 text-xs text-slate-500">
+          {lastSyncedAt
+            ? `Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}.`
+            : "Not synced yet."}{" "}
+          {syncStatus === "offline" && "You are offline; changes will sync when you reconnect."}
+          {syncStatus === "error" && "The sync server could not be reached."}
+          {syncStatus === "signed-out" && "Sign this profile in to an account to sync."}
+        </p>
+      )}
+      {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useDeferredValue, useMemo, useState } from "react";
+import { parseDate } from "../lib/dates";
+import { habitLabel } from "../lib/habits";
+import { formatAmount, logAmount } from "../lib/kinds";
+import { resolvePromptText } from "../lib/prompts";
+import { orderHabits } from "../lib/routines";
+import { judgeHabitAmount } from "../lib/targets";
+import {
+  EMPTY_TIMELINE_FILTERS,
+  filterTimeline,
+  groupTimeline,
+  timelinePage,
+  type TimelineFilters,
+} from "../lib/timeline";
+import type { AppState } from "../lib/types";
+import GratitudeEntryCard from "./GratitudeEntryCard";
+import HighlightedText from "./HighlightedText";
+import TimelineFilterBar from "./TimelineFilterBar";
+
+export default function TimelineArchive({
+  state,
+}: {
+  state: Pick<AppState, "habits" | "routines" | "logs" | "gratitude" | "prompts">;
+}) {
+  const [filters, setFilters] = useState<TimelineFilters>(EMPTY_TIMELINE_FILTERS);
+  const [page, setPage] = useState(0);
+
+  const habitsOrdered = useMemo(
+    () => orderHabits(state.habits, state.routines),
+    [state.habits, state.routines],
+  );
+  const historyGroups = useMemo(
+    () => groupTimeline(state.logs, state.gratitude, state.habits),
+    [state.logs, state.gratitude, state.habits],
+  );
+  // Typing stays responsive while a long archive is re-filtered.
+  const deferredFilters = useDeferredValue(filters);
+  const filteredHistory = useMemo(
+    () => filterTimeline(historyGroups, deferredFilters, state.habits),
+    [historyGroups, deferredFilters, state.habits],
+  );
+  const visible = timelinePage(filteredHistory, page);
+
+  const changeFilters = (next: TimelineFilters) => {
+    setFilters(next);
+    setPage(0);
+  };
+
+  return (
+    <section className="rounded-3xl bg-slate-900/60 p-6 ring-1 ring-slate-800">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Timeline Archive</h2>
+          <p className="text-sm text-slate-400">
+            Review your habit reps and gratitude reflections across time.
+          </p>
+        </div>
+      </div>
+
+      {historyGroups.length > 0 && (
+        <div className="mt-6">
+          <TimelineFilterBar
+            filters={filters}
+            habits={habitsOrdered}
+            onChange={changeFilters}
+          />
+        </div>
+      )}
+
+      {historyGroups.length === 0 ? (
+        <p className="mt-6 rounded-2xl border border-dashed border-slate-800 bg-slate-900/40 p-6 text-center text-sm text-slate-400">
+          Once you start logging, your daily history will appear here.
+        </p>
+      ) : filteredHistory.length === 0 ? (
+        <p className="mt-6 rounded-2xl border border-dashed border-slate-800 bg-slate-900/40 p-6 text-center text-sm text-slate-400">
+          No days match these filters.
+        </p>
+      ) : (
+        <div className="mt-6 space-y-6">
+          <p className="text-xs text-slate-500">
+            {filteredHistory.length} {filteredHistory.length === 1 ? "day" : "days"}
+            {filteredHistory.length < historyGroups.length
+              ? ` of ${historyGroups.length} match`
+              : ""}
+          </p>
+          {visible.groups.map((group) => (
+            <div
+              key={group.date}
+              className="rounded-2xl border border-slate-800 bg-slate-950/40 p-5"
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-base font-semibold text-white">
+                  {parseDate(group.date).toLocaleDateString(undefined, {
+                    weekday: "short",
+                    month: "short",
+                    day: "numeric",
+                  })}
+                </h3>
+                <span className="text-xs uppercase tracking-[0.4em] text-slate-500">
+                  {group.habits.length} habits logged
+                </span>
+              </div>
+              <div className="mt-3 space-y-2 text-sm text-slate-300">
+                {group.habits.map((log) => {
+                  const habit = state.habits.find((item) => item.id === log.habitId);
+                  return (
+                    <div
+                      key={`${log.habitId}-${log.date}`}
+                      className="flex items-center justify-between rounded-xl border border-slate-800/80 bg-slate-900/60 px-4 py-3"
+                    >
+                      <div>
+                        <p className="font-semibold text-white">
+                          <HighlightedText
+                            text={habitLabel(state.habits, log.habitId)}
+                            query={deferredFilters.query}
+                          />
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {habit ? `Priority ${habit.importance}` : "Priority -"}
+                          {habit?.archived ? " - Archived" : ""}
+                        </p>
+                        {log.sessions.length > 1 || log.sessions.some((s) => s.startTime || s.note) ? (
+                          <ul className="mt-1 space-y-0.5 text-xs text-slate-400">
+                            {log.sessions.map((session) => (
+                              <li key={session.id}>
+                                {session.startTime ?? "--:--"} · {session.minutes} min
+                                {session.note && (
+                                  <>
+                                    {" · "}
+                                    <HighlightedText
+                                      text={session.note}
+                                      query={deferredFilters.query}
+                                    />
+                                  </>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
+                      </div>
+                      <div className="text-right">
+                        <div className="text-sm font-semibold text-emerald-400">
+                          {habit
+                            ? formatAmount(habit, logAmount(habit, log))
+                            : `${log.minutes} min`}
+                        </div>
+                        {habit?.target && habit.targetPeriod === "day" ? (
+                          <div className="text-xs text-slate-500">
+                            {judgeHabitAmount(habit, logAmount(habit, log)).percent}% of{" "}
+                            {formatAmount(habit, habit.target)}
+                          </div>
+                        ) : null}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {group.gratitude.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  <p className="text-xs uppercase tracking-[0.4em] text-amber-300">
+                    Gratitude {group.gratitude.length === 1 ? "Reflection" : "Reflections"}
+                  </p>
+                  {group.gratitude.map((entry) => (
+                    <GratitudeEntryCard
+                      key={entry.id}
+                      entry={entry}
+                      promptText={resolvePromptText(entry, state.prompts)}
+                      highlight={deferredFilters.query}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {visible.pageCount > 1 && (
+            <div className="flex items-center justify-between text-xs text-slate-400">
+              <button
+                onClick={() => setPage(visible.page - 1)}
+                disabled={visible.page === 0}
+                className="rounded-full bg-slate-800 px-3 py-1 font-semibold text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+              >
+                Newer
+              </button>
+              <span>
+                Page {visible.page + 1} of {visible.pageCount}
+              </span>
+              <button
+                onClick={() => setPage(visible.page + 1)}
+                disabled={visible.page === visible.pageCount - 1}
+                className="rounded-full bg-slate-800 px-3 py-1 font-semibold text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+              >
+                Older
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { EMPTY_TIMELINE_FILTERS, hasActiveFilters, type TimelineFilters } from "../lib/timeline";
+import type { Habit } from "../lib/types";
+
+const ANY_HABIT = "any";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-2 text-sm text-slate-100 focus:border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+export default function TimelineFilterBar({
+  filters,
+  habits,
+  onChange,
+}: {
+  filters: TimelineFilters;
+  habits: Habit[];
+  onChange: (filters: TimelineFilters) => void;
+}) {
+  const update = (changes: Partial<TimelineFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="grid gap-3">
+      <input
+        type="search"
+        value={filters.query}
+        onChange={(event) => update({ query: event.target.value })}
+        placeholder="Search reflections, tags, notes and habit names"
+        aria-label="Search the timeline"
+        className={inputClass}
+      />
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+        <input
+          type="date"
+          value={filters.startKey}
+          max={filters.endKey || undefined}
+          onChange={(event) => update({ startKey: event.target.value })}
+          aria-label="From date"
+          className={inputClass}
+        />
+        to
+        <input
+          type="date"
+          value={filters.endKey}
+          min={filters.startKey || undefined}
+          onChange={(event) => update({ endKey: event.target.value })}
+          aria-label="To date"
+          className={inputClass}
+        />
+        <select
+          value={filters.habitId ?? ANY_HABIT}
+          onChange={(event) =>
+            update({ habitId: event.target.value === ANY_HABIT ? null : event.target.value })
+          }
+          aria-label="Habit"
+          className={inputClass}
+        >
+          <option value={ANY_HABIT}>All habits</option>
+          {habits.map((habit) => (
+            <option key={habit.id} value={habit.id}>
+              {habit.name}
+              {habit.archived ? " (archived)" : ""}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.minImportance}
+          onChange={(event) => update({ minImportance: Number(event.target.value) })}
+          aria-label="Importance"
+          className={inputClass}
+        >
+          <option value={1}>Any importance</option>
+          {[2, 3, 4, 5].map((level) => (
+            <option key={level} value={level}>
+              Priority {level}
+              {level < 5 ? "+" : ""}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={filters.gratitudeOnly}
+            onChange={(event) => update({ gratitudeOnly: event.target.checked })}
+            className="h-4 w-4 accent-emerald-500"
+          />
+          Has gratitude
+        </label>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_TIMELINE_FILTERS)}
+            className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import {
+  CHART_HEIGHT,
+  CHART_PADDING,
+  CHART_WIDTH,
+  formatBucketLabel,
+  niceCeiling,
+} from "../lib/charts";
+import ChartAxes from "./ChartAxes";
+
+/** Minutes per bucket as bars, with a rolling-average line and an optional dashed target. */
+export default function TrendChart({
+  keys,
+  values,
+  average,
+  target,
+  color,
+  title,
+}: {
+  keys: string[];
+  values: number[];
+  average: number[];
+  target: number | null;
+  color: string;
+  title: string;
+}) {
+  const max = niceCeiling(Math.max(...values, ...average, target ?? 0));
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const slot = plotWidth / Math.max(1, values.length);
+  const y = (value: number) => CHART_PADDING.top + plotHeight * (1 - value / max);
+  const x = (index: number) => CHART_PADDING.left + slot * (index + 0.5);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={title}
+      className="h-auto w-full"
+      fontFamily="system-ui, sans-serif"
+    >
+      <title>{title}</title>
+      <ChartAxes max={max} keys={keys} />
+      {values.map((value, index) => (
+        <rect
+          key={keys[index]}
+          x={x(index) - slot * 0.35}
+          y={y(value)}
+          width={slot * 0.7}
+          height={Math.max(0, CHART_PADDING.top + plotHeight - y(value))}
+          rx={Math.min(3, slot * 0.2)}
+          fill={color}
+          fillOpacity={0.55}
+        >
+          <title>{`${formatBucketLabel(keys[index]!)}: ${value} min`}</title>
+        </rect>
+      ))}
+      {average.length > 1 && (
+        <polyline
+          points={average.map((value, index) => `${x(index)},${y(value)}`).join(" ")}
+          fill="none"
+          stroke="#f8fafc"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      )}
+      {target !== null && (
+        <g>
+          <line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={y(target)}
+            y2={y(target)}
+            stroke="#fbbf24"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+          <text
+            x={CHART_WIDTH - CHART_PADDING.right}
+            y={y(target) - 4}
+            textAnchor="end"
+            fontSize={10}
+            fill="#fbbf24"
+          >
+            Target {Math.round(target)} min
+          </text>
+        </g>
+      )}
+    </svg>
+  );
+}
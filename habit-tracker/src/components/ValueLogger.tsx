@@ -0,0 +1,82 @@
+'use client';
+
+import type { Habit } from "../lib/types";
+
+/** Daily input for checkbox, count and avoid habits; duration habits use `SessionLogger`. */
+export default function ValueLogger({
+  habit,
+  value,
+  onChange,
+}: {
+  habit: Habit;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  if (habit.kind === "count") {
+    return (
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          onClick={() => onChange(Math.max(0, value - 1))}
+          disabled={value === 0}
+          aria-label="Decrease"
+          className="h-9 w-9 rounded-xl bg-slate-800 text-sm font-semibold text-slate-200 transition hover:bg-slate-700 disabled:opacity-40"
+        >
+          −
+        </button>
+        <input
+          key={value}
+          type="number"
+          min={0}
+          defaultValue={value}
+          onBlur={(event) => {
+            const parsed = Math.round(Number(event.target.value));
+            onChange(Number.isFinite(parsed) && parsed > 0 ? parsed : 0);
+          }}
+          aria-label={habit.unit ? `Number of ${habit.unit}` : "Count"}
+          className="w-20 rounded-xl border border-slate-700 bg-slate-950 px-3 py-2 text-center text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+        />
+        <button
+          onClick={() => onChange(value + 1)}
+          aria-label="Increase"
+          className="h-9 w-9 rounded-xl bg-emerald-500 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400"
+        >
+          +
+        </button>
+        {habit.unit && <span className="text-xs text-slate-500">{habit.unit}</span>}
+      </div>
+    );
+  }
+
+  if (habit.kind === "avoid") {
+    return (
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onChange(value + 1)}
+          className="rounded-xl bg-slate-800 px-3 py-2 text-xs font-semibold text-rose-300 transition hover:bg-rose-500/20"
+        >
+          Log a slip
+        </button>
+        {value > 0 && (
+          <button
+            onClick={() => onChange(value - 1)}
+            className="rounded-xl px-3 py-2 text-xs font-semibold text-slate-400 hover:text-slate-200"
+          >
+            Undo
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => onChange(value > 0 ? 0 : 1)}
+        aria-pressed={value > 0}
+        className={`rounded-xl px-4 py-2 text-xs font-semibold transition ${value > 0 ? "bg-emerald-500 text-slate-950 hover:bg-emerald-400" : "bg-slate-800 text-slate-200 hover:bg-slate-700"}`}
+      >
+        {value > 0 ? "✓ Done" : "Mark as done"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+'use client';
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { useAppStorage } from "../hooks/useAppStorage";
+import { useInsights } from "../hooks/useInsights";
+import { useTodayKey } from "../hooks/useTodayKey";
+import { daysBetween, parseDate } from "../lib/dates";
+import { buildHeatmap, type HeatmapCell } from "../lib/heatmap";
+import { buildInsightContext } from "../lib/insights";
+import { formatAmount } from "../lib/kinds";
+import { MOOD_LABELS, type Score } from "../lib/mood";
+import { resolvePromptText } from "../lib/prompts";
+import type { DateRange } from "../lib/reports";
+import { buildYearReview } from "../lib/review";
+import { ROUTINE_SLOT_LABELS } from "../lib/routines";
+import { formatStreak } from "../lib/streaks";
+import type { Habit, HabitLog } from "../lib/types";
+
+/** Light greens that still read on paper; print CSS keeps the backgrounds. */
+const LEVEL_STYLES: Record<HeatmapCell["level"], string> = {
+  0: "bg-slate-100",
+  1: "bg-emerald-100",
+  2: "bg-emerald-300",
+  3: "bg-emerald-500",
+  4: "bg-emerald-700",
+};
+
+function formatDay(dateKey: string) {
+  return parseDate(dateKey).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function ReviewHeatmap({
+  range,
+  habits,
+  logs,
+}: {
+  range: DateRange;
+  habits: Habit[];
+  logs: HabitLog[];
+}) {
+  const { weeks } = useMemo(
+    () => buildHeatmap({ habits, logs, ...range, metric: "minutes" }),
+    [habits, logs, range],
+  );
+  return (
+    <div className="flex gap-[3px]">
+      {weeks.map((week) => (
+        <div key={week[0]!.date} className="grid grid-rows-7 gap-[3px]">
+          {week.map((cell) => (
+            <span
+              key={cell.date}
+              title={cell.inRange ? `${formatDay(cell.date)}: ${cell.value} min` : undefined}
+              className={`h-2.5 w-2.5 rounded-[2px] ${cell.inRange ? LEVEL_STYLES[cell.level] : ""}`}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-2xl border border-slate-200 px-4 py-3">
+      <dt className="text-xs uppercase tracking-widest text-slate-500">{label}</dt>
+      <dd className="mt-1 text-xl font-semibold text-slate-900">{value}</dd>
+      {detail && <dd className="text-xs text-slate-500">{detail}</dd>}
+    </div>
+  );
+}
+
+export default function YearReview({ year }: { year: number }) {
+  const { state, ready } = useAppStorage();
+  const todayKey = useTodayKey(state.settings);
+  const [omitted, setOmitted] = useState<Set<string>>(() => new Set());
+
+  const review = useMemo(
+    () =>
+      buildYearReview({
+        habits: state.habits,
+        routines: state.routines,
+        logs: state.logs,
+        gratitude: state.gratitude,
+        year,
+        todayKey,
+      }),
+    [state.habits, state.routines, state.logs, state.gratitude, year, todayKey],
+  );
+  const insightContext = useMemo(
+    () =>
+      state.premium && review
+        ? buildInsightContext(
+            state,
+            review.range.endKey,
+            daysBetween(review.range.startKey, review.range.endKey) + 1,
+          )
+        : null,
+    [state, review],
+  );
+  const insights = useInsights(insightContext);
+
+  const currentYear = Number(todayKey.slice(0, 4));
+  const highlights = review?.highlights.filter((entry) => !omitted.has(entry.id)) ?? [];
+  const summary = review?.summary;
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-10 print:bg-white print:py-0">
+      <nav className="mx-auto mb-6 flex max-w-4xl flex-wrap items-center justify-between gap-3 px-4 text-sm print:hidden">
+        <Link href="/" className="font-semibold text-slate-300 hover:text-white">
+          ← Back to tracker
+        </Link>
+        <div className="flex items-center gap-2">
+          <Link
+            href={`/review/${year - 1}`}
+            className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+          >
+            {year - 1}
+          </Link>
+          {year < currentYear && (
+            <Link
+              href={`/review/${year + 1}`}
+              className="rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-300 hover:bg-slate-700"
+            >
+              {year + 1}
+            </Link>
+          )}
+          <button
+            onClick={() => window.print()}
+            disabled={!review}
+            className="rounded-full bg-amber-400 px-4 py-2 text-sm font-semibold text-slate-900 hover:bg-amber-300 disabled:opacity-40"
+          >
+            Print or save as PDF
+          </button>
+        </div>
+      </nav>
+
+      <article className="mx-auto max-w-4xl space-y-8 rounded-3xl bg-white p-10 text-slate-800 shadow-2xl print:max-w-none print:rounded-none print:p-0 print:shadow-none">
+        <header className="border-b border-slate-200 pb-6">
+          <p className="text-xs font-semibold uppercase tracking-[0.4em] text-amber-600">
+            Ritual Rhythm
+          </p>
+          <h1 className="mt-2 text-4xl font-semibold tracking-tight text-slate-900">
+            {year} Year in Review
+          </h1>
+          {review && (
+            <p className="mt-1 text-sm text-slate-500">
+              {formatDay(review.range.startKey)} → {formatDay(review.range.endKey)}
+              {review.range.endKey < `${year}-12-31` ? " (so far)" : ""}
+            </p>
+          )}
+        </header>
+
+        {!ready ? (
+          <p className="text-sm text-slate-500">Loading your history…</p>
+        ) : !review || !summary ? (
+          <p className="text-sm text-slate-500">
+            {year} has not started yet. Come back once there is something to look back on.
+          </p>
+        ) : (
+          <>
+            <section className="break-inside-avoid">
+              <dl className="grid gap-3 sm:grid-cols-3">
+                <Stat label="Minutes logged" value={`${summary.totalMinutes}`} />
+                <Stat label="Active days" value={`${summary.activeDays}`} />
+                <Stat
+                  label="Completion rate"
+                  value={`${Math.round(summary.completionRate * 100)}%`}
+                />
+                <Stat
+                  label="Best month"
+                  value={review.bestMonth?.label ?? "–"}
+                  detail={
+                    review.bestMonth
+                      ? `${Math.round(review.bestMonth.completionRate * 100)}% complete · ${review.bestMonth.totalMinutes} min`
+                      : undefined
+                  }
+                />
+                <Stat
+                  label="Average mood"
+                  value={
+                    summary.mood.averageMood === null
+                      ? "Not rated"
+                      : `${summary.mood.averageMood.toFixed(1)} / 5`
+                  }
+                  detail={
+                    summary.mood.ratedDays > 0 ? `${summary.mood.ratedDays} rated days` : undefined
+                  }
+                />
+                <Stat
+                  label="Top habit"
+                  value={summary.topHabit?.name ?? "–"}
+                  detail={summary.topHabit?.amountLabel}
+                />
+              </dl>
+            </section>
+
+            <section className="break-inside-avoid">
+              <h2 className="text-lg font-semibold text-slate-900">Habits</h2>
+              {review.habits.length === 0 ? (
+                <p className="mt-2 text-sm text-slate-500">No habits were tracked this year.</p>
+              ) : (
+                <table className="mt-3 w-full text-left text-sm">
+                  <thead className="border-b border-slate-200 text-xs uppercase tracking-widest text-slate-500">
+                    <tr>
+                      <th className="py-2 pr-4 font-semibold">Habit</th>
+                      <th className="py-2 pr-4 font-semibold">Total</th>
+                      <th className="py-2 pr-4 font-semibold">Completion</th>
+                      <th className="py-2 pr-4 font-semibold">Targets hit</th>
+                      <th className="py-2 font-semibold">Longest streak</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {review.habits.map((habit) => (
+                      <tr key={habit.habitId}>
+                        <td className="py-2 pr-4 font-semibold text-slate-900">{habit.name}</td>
+                        <td className="py-2 pr-4">{formatAmount(habit, habit.amount)}</td>
+                        <td className="py-2 pr-4">{Math.round(habit.completionRate * 100)}%</td>
+                        <td className="py-2 pr-4">
+                          {habit.hitCount}/{habit.periods}{" "}
+                          {habit.hitUnit === "week" ? "weeks" : "days"}
+                        </td>
+                        <td className="py-2">
+                          {formatStreak(habit.longestStreak.longest, habit.longestStreak.unit)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            {summary.routineBreakdown.length > 0 && (
+              <section className="break-inside-avoid">
+                <h2 className="text-lg font-semibold text-slate-900">Routines</h2>
+                <table className="mt-3 w-full text-left text-sm">
+                  <thead className="border-b border-slate-200 text-xs uppercase tracking-widest text-slate-500">
+                    <tr>
+                      <th className="py-2 pr-4 font-semibold">Routine</th>
+                      <th className="py-2 pr-4 font-semibold">Habits</th>
+                      <th className="py-2 pr-4 font-semibold">Minutes</th>
+                      <th className="py-2 font-semibold">Completion</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {summary.routineBreakdown.map((routine) => (
+                      <tr key={routine.routineId}>
+                        <td className="py-2 pr-4">
+                          <span className="font-semibold text-slate-900">{routine.name}</span>{" "}
+                          <span className="text-xs text-slate-500">
+                            {ROUTINE_SLOT_LABELS[routine.slot]}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4">{routine.habitCount}</td>
+                        <td className="py-2 pr-4">{routine.totalMinutes}</td>
+                        <td className="py-2">{Math.round(routine.completionRate * 100)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            <section className="break-inside-avoid">
+              <h2 className="text-lg font-semibold text-slate-900">Month by month</h2>
+              <table className="mt-3 w-full text-left text-sm">
+                <thead className="border-b border-slate-200 text-xs uppercase tracking-widest text-slate-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-semibold">Month</th>
+                    <th className="py-2 pr-4 font-semibold">Minutes</th>
+                    <th className="py-2 pr-4 font-semibold">Completion</th>
+                    <th className="py-2 font-semibold">Active days</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {review.months.map((month) => (
+                    <tr
+                      key={month.month}
+                      className={
+                        month.month === review.bestMonth?.month
+                          ? "bg-amber-50 font-semibold text-slate-900"
+                          : ""
+                      }
+                    >
+                      <td className="py-1.5 pr-4">{month.label}</td>
+                      <td className="py-1.5 pr-4">{month.totalMinutes}</td>
+                      <td className="py-1.5 pr-4">{Math.round(month.completionRate * 100)}%</td>
+                      <td className="py-1.5">{month.activeDays}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="break-inside-avoid">
+              <h2 className="text-lg font-semibold text-slate-900">Activity</h2>
+              <p className="text-xs text-slate-500">Minutes logged each day, darker is more.</p>
+              <div className="mt-3 overflow-x-auto print:overflow-visible">
+                <ReviewHeatmap range={review.range} habits={state.habits} logs={state.logs} />
+              </div>
+            </section>
+
+            <section>
+              <div className="flex items-baseline justify-between gap-3">
+                <h2 className="text-lg font-semibold text-slate-900">Gratitude highlights</h2>
+                {omitted.size > 0 && (
+                  <button
+                    onClick={() => setOmitted(new Set())}
+                    className="text-xs font-semibold text-amber-700 hover:text-amber-600 print:hidden"
+                  >
+                    Restore {omitted.size} hidden
+                  </button>
+                )}
+              </div>
+              {highlights.length === 0 ? (
+                <p className="mt-2 text-sm text-slate-500">No reflections selected.</p>
+              ) : (
+                <ul className="mt-3 grid gap-3 sm:grid-cols-2">
+                  {highlights.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="break-inside-avoid rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-xs text-amber-800/70">
+                          {formatDay(entry.date)} · {resolvePromptText(entry, state.prompts)}
+                        </p>
+                        <button
+                          onClick={() => setOmitted((prev) => new Set(prev).add(entry.id))}
+                          className="shrink-0 text-xs font-semibold text-slate-400 hover:text-slate-600 print:hidden"
+                        >
+                          Leave out
+                        </button>
+                      </div>
+                      <p className="mt-2 whitespace-pre-line text-sm leading-relaxed text-slate-800">
+                        {entry.response}
+                      </p>
+                      {entry.mood !== undefined && (
+                        <p className="mt-1 text-[10px] font-semibold uppercase tracking-widest text-amber-700">
+                          Mood {entry.mood} · {MOOD_LABELS[entry.mood as Score]}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {state.premium ? (
+              <section className="break-inside-avoid">
+                <h2 className="text-lg font-semibold text-slate-900">Performance evaluation</h2>
+                {insights.loading ? (
+                  <p className="mt-2 text-sm text-slate-500">Analysing your year…</p>
+                ) : (
+                  <ul className="mt-3 list-disc space-y-2 pl-5 text-sm leading-relaxed">
+                    {insights.insights?.map((insight, index) => (
+                      <li key={`${insight.type}-${index}`}>{insight.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            ) : (
+              <p className="text-xs text-slate-500 print:hidden">
+                Unlock Premium Insights in the tracker to add a written evaluation of your year.
+              </p>
+            )}
+
+            <footer className="border-t border-slate-200 pt-4 text-xs text-slate-400">
+              {summary.suggestedFocus}
+            </footer>
+          </>
+        )}
+      </article>
+    </div>
+  );
+}
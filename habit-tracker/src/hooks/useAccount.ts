@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback, useEffect } from "react";
+import type { Credentials } from "../lib/auth";
+import { useProfiles, type SignInMode } from "./useProfiles";
+
+/** The parts of `useAppStorage` that follow the signed-in account. */
+type AccountStorage = {
+  ready: boolean;
+  setEntitlement: (premium: boolean) => void;
+  toggleSync: (enabled: boolean) => void;
+};
+
+/**
+ * Device profiles and the signed-in account, kept in step with storage.
+ * Signing in turns sync on; signing out turns it off and drops premium.
+ */
+export function useAccount({ ready, setEntitlement, toggleSync }: AccountStorage) {
+  const profiles = useProfiles();
+  const { signIn: startSession, signOut: endSession } = profiles;
+  const confirmedPremium = profiles.account?.premium;
+  const signedIn = profiles.profile.session !== null;
+
+  // Show the entitlement the server confirmed once the saved data has loaded. Without a
+  // session there is no account to hold one, whatever the saved data says.
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+    if (!signedIn) {
+      setEntitlement(false);
+    } else if (confirmedPremium !== undefined) {
+      setEntitlement(confirmedPremium);
+    }
+  }, [ready, signedIn, confirmedPremium, setEntitlement]);
+
+  const signIn = useCallback(
+    async (mode: SignInMode, credentials: Credentials) => {
+      const account = await startSession(mode, credentials);
+      if (account) {
+        setEntitlement(account.premium);
+        toggleSync(true);
+      }
+    },
+    [startSession, setEntitlement, toggleSync],
+  );
+
+  const signOut = useCallback(async () => {
+    await endSession();
+    toggleSync(false);
+    setEntitlement(false);
+  }, [endSession, setEntitlement, toggleSync]);
+
+  return { ...profiles, signIn, signOut };
+}
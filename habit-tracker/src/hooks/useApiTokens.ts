@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import type { ApiTokenInfo } from "../lib/auth";
+import { assertOk, failureMessage } from "../lib/http";
+import { authHeaders } from "../lib/profiles";
+
+export type CreatedApiToken = ApiTokenInfo & { token: string };
+
+/** The signed-in account's API tokens, through `/api/auth/tokens`. */
+export function useApiTokens() {
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/auth/tokens", { headers: authHeaders() })
+      .then(async (response) => {
+        await assertOk(response, "Your API tokens could not be loaded.");
+        const body = (await response.json()) as { tokens: ApiTokenInfo[] };
+        if (!cancelled) setTokens(body.tokens);
+      })
+      .catch((loadError: unknown) => {
+        if (cancelled) return;
+        setError(failureMessage(loadError, "The server could not be reached."));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const create = useCallback(async (label: string) => {
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ label }),
+      });
+      await assertOk(response, "The token could not be created.");
+      const token = (await response.json()) as CreatedApiToken;
+      setCreated(token);
+      setTokens((prev) => [
+        ...prev,
+        { id: token.id, label: token.label, createdAt: token.createdAt },
+      ]);
+    } catch (createError) {
+      setError(
+        failureMessage(createError, "The server could not be reached, so no token was made."),
+      );
+    }
+  }, []);
+
+  const revoke = useCallback(async (tokenId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/tokens/${encodeURIComponent(tokenId)}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      if (response.status !== 404) {
+        await assertOk(response, "The token could not be revoked.");
+      }
+      setTokens((prev) => prev.filter((token) => token.id !== tokenId));
+      setCreated((prev) => (prev?.id === tokenId ? null : prev));
+    } catch (revokeError) {
+      setError(
+        failureMessage(revokeError, "The server could not be reached, so the token still works."),
+      );
+    }
+  }, []);
+
+  return { tokens, created, error, create, revoke, dismissCreated: () => setCreated(null) };
+}
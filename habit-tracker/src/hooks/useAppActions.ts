@@ -0,0 +1,59 @@
+'use client';
+
+import { useMemo } from "react";
+import type { AppAction, HabitChanges, RoutineChanges } from "../lib/actions";
+import { createId } from "../lib/ids";
+import type { DropTarget } from "../lib/routines";
+import type {
+  AppState,
+  GratitudePrompt,
+  Habit,
+  HabitSession,
+  RoutineSlot,
+  Settings,
+} from "../lib/types";
+
+/**
+ * Named handlers over `dispatch` for the page's panels. Each stamps the ids
+ * and times its action needs, so panels only pass on what the user chose.
+ */
+export function useAppActions(dispatch: (action: AppAction) => void) {
+  return useMemo(() => {
+    const now = () => new Date().toISOString();
+    return {
+      addHabit: (habit: Habit) => dispatch({ type: "habit/add", habit }),
+      updateHabit: (habitId: string, changes: HabitChanges) =>
+        dispatch({ type: "habit/update", habitId, changes }),
+      deleteHabit: (habitId: string, deleteLogs: boolean) =>
+        dispatch({ type: "habit/delete", habitId, deleteLogs }),
+      moveHabit: (habitId: string, target: DropTarget) =>
+        dispatch({ type: "habit/move", habitId, ...target }),
+      addRoutine: (name: string, slot: RoutineSlot) =>
+        dispatch({
+          type: "routine/add",
+          routine: { id: createId(), name, slot, updatedAt: now() },
+        }),
+      updateRoutine: (routineId: string, changes: RoutineChanges) =>
+        dispatch({ type: "routine/update", routineId, changes }),
+      deleteRoutine: (routineId: string) => dispatch({ type: "routine/delete", routineId }),
+      completeRoutine: (routineId: string, date: string) =>
+        dispatch({ type: "routine/complete", routineId, date, sessionId: createId(), at: now() }),
+      addSession: (habitId: string, date: string, session: Omit<HabitSession, "id">) =>
+        dispatch({
+          type: "session/add",
+          habitId,
+          date,
+          session: { ...session, id: createId() },
+          at: now(),
+        }),
+      removeSession: (habitId: string, date: string, sessionId: string) =>
+        dispatch({ type: "session/remove", habitId, date, sessionId, at: now() }),
+      setValue: (habitId: string, date: string, value: number) =>
+        dispatch({ type: "log/set-value", habitId, date, value, at: now() }),
+      changePrompts: (prompts: GratitudePrompt[]) => dispatch({ type: "prompts/replace", prompts }),
+      changeSettings: (settings: Partial<Omit<Settings, "updatedAt">>) =>
+        dispatch({ type: "settings/update", settings }),
+      importState: (state: AppState) => dispatch({ type: "state/import", state }),
+    };
+  }, [dispatch]);
+}
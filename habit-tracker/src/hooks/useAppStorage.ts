@@ -0,0 +1,199 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { defaultState, readStateFromStorage, serializeState } from "../lib/persistence";
+import { activeProfile, profileKey } from "../lib/profiles";
+import {
+  createRestAdapter,
+  getStorageAdapter,
+  isIndexedDbAvailable,
+  SyncAuthError,
+  type StorageBackend,
+} from "../lib/storage";
+import { mergeStates, stampChanges } from "../lib/sync";
+import type { AppState } from "../lib/types";
+
+const BACKEND_KEY = "habit-tracker-storage-backend";
+const SYNC_KEY = "habit-tracker-sync-enabled";
+const SYNC_DEBOUNCE_MS = 2000;
+const SYNC_INTERVAL_MS = 60000;
+
+export type SyncStatus = "disabled" | "offline" | "syncing" | "synced" | "signed-out" | "error";
+
+type Updater = AppState | ((prev: AppState) => AppState);
+
+function readPreferences(): { backend: StorageBackend; syncEnabled: boolean } {
+  if (typeof window === "undefined") {
+    return { backend: "localStorage", syncEnabled: false };
+  }
+  const backend = window.localStorage.getItem(profileKey(BACKEND_KEY));
+  return {
+    backend: backend === "indexedDB" && isIndexedDbAvailable() ? "indexedDB" : "localStorage",
+    syncEnabled: window.localStorage.getItem(profileKey(SYNC_KEY)) === "true",
+  };
+}
+
+/** The saved entitlement is a cache of the account's, so it lapses with the session. */
+function withCachedEntitlement<T extends { state: AppState }>(load: T): T {
+  return load.state.premium && !activeProfile().session
+    ? { ...load, state: { ...load.state, premium: false } }
+    : load;
+}
+
+/**
+ * Owns the app state and its persistence. `setState` is for user edits and
+ * stamps changed records for sync; merges from the server bypass stamping.
+ */
+export function useAppStorage() {
+  const [initial] = useState(() => {
+    const preferences = readPreferences();
+    // localStorage can be read synchronously, so that backend renders saved data immediately.
+    const load =
+      preferences.backend === "localStorage"
+        ? withCachedEntitlement(readStateFromStorage())
+        : { state: defaultState, warnings: [] };
+    return { ...preferences, ...load };
+  });
+  const [state, setRawState] = useState<AppState>(initial.state);
+  const [warnings, setWarnings] = useState<string[]>(initial.warnings);
+  const [backend, setBackend] = useState<StorageBackend>(initial.backend);
+  const [ready, setReady] = useState(initial.backend === "localStorage");
+  const [syncEnabled, setSyncEnabled] = useState(initial.syncEnabled);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("disabled");
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0);
+  const stateRef = useRef(state);
+  const remote = useMemo(() => createRestAdapter(), []);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  useEffect(() => {
+    if (ready) {
+      return;
+    }
+    let cancelled = false;
+    getStorageAdapter(backend)
+      .load()
+      .then((loaded) => {
+        if (cancelled) return;
+        const result = withCachedEntitlement(loaded);
+        setRawState(result.state);
+        setWarnings((prev) => [...prev, ...result.warnings]);
+        setReady(true);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setWarnings((prev) => [...prev, "Saved data could not be opened from IndexedDB."]);
+        setReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backend, ready]);
+
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+    getStorageAdapter(backend)
+      .save(state)
+      .catch(() => setWarnings((prev) => [...prev, "Your latest change could not be saved."]));
+  }, [state, backend, ready]);
+
+  const setState = useCallback((updater: Updater) => {
+    setRawState((prev) => stampChanges(prev, typeof updater === "function" ? updater(prev) : updater));
+    setRevision((prev) => prev + 1);
+  }, []);
+
+  const runSync = useCallback(async () => {
+    if (!navigator.onLine) {
+      setSyncStatus("offline");
+      return;
+    }
+    setSyncStatus("syncing");
+    try {
+      const merged = await remote.sync(stateRef.current);
+      setRawState((current) => {
+        // The server decides the entitlement; everything else merges as usual.
+        const next = { ...mergeStates(current, merged), premium: merged.premium };
+        return serializeState(next) === serializeState(current) ? current : next;
+      });
+      setSyncStatus("synced");
+      setLastSyncedAt(new Date().toISOString());
+    } catch (error) {
+      setSyncStatus(
+        error instanceof SyncAuthError ? "signed-out" : navigator.onLine ? "error" : "offline",
+      );
+    }
+  }, [remote]);
+
+  // Push local edits shortly after they happen.
+  useEffect(() => {
+    if (!syncEnabled || !ready) {
+      return;
+    }
+    const timer = window.setTimeout(() => void runSync(), revision === 0 ? 0 : SYNC_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [syncEnabled, ready, revision, runSync]);
+
+  // Pull remote edits periodically and as soon as the connection returns.
+  useEffect(() => {
+    if (!syncEnabled || !ready) {
+      return;
+    }
+    const handleOnline = () => void runSync();
+    const handleOffline = () => setSyncStatus("offline");
+    const interval = window.setInterval(() => void runSync(), SYNC_INTERVAL_MS);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncEnabled, ready, runSync]);
+
+  const changeBackend = useCallback(
+    async (next: StorageBackend) => {
+      if (next === backend) {
+        return;
+      }
+      // Carry the current data over so switching never starts from an empty store.
+      await getStorageAdapter(next).save(stateRef.current);
+      window.localStorage.setItem(profileKey(BACKEND_KEY), next);
+      setBackend(next);
+    },
+    [backend],
+  );
+
+  const toggleSync = useCallback((enabled: boolean) => {
+    window.localStorage.setItem(profileKey(SYNC_KEY), String(enabled));
+    setSyncEnabled(enabled);
+    if (!enabled) {
+      setSyncStatus("disabled");
+    }
+  }, []);
+
+  /** Records the premium entitlement the server reported for the signed-in account. */
+  const setEntitlement = useCallback((premium: boolean) => {
+    setRawState((prev) => (prev.premium === premium ? prev : { ...prev, premium }));
+  }, []);
+
+  return {
+    state,
+    setState,
+    ready,
+    warnings,
+    dismissWarnings: () => setWarnings([]),
+    backend,
+    changeBackend,
+    syncEnabled,
+    toggleSync,
+    syncStatus,
+    lastSyncedAt,
+    syncNow: runSync,
+    setEntitlement,
+  };
+}
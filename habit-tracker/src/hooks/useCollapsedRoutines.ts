@@ -0,0 +1,38 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import { profileKey } from "../lib/profiles";
+
+const COLLAPSED_KEY = "habit-tracker-collapsed-routines";
+
+/** The ungrouped section has no routine id, so it is stored under this one. */
+export const UNGROUPED_SECTION = "ungrouped";
+
+function readCollapsed(): string[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(profileKey(COLLAPSED_KEY)) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((id) => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Which Daily Control Center sections are folded away; a device-local view setting. */
+export function useCollapsedRoutines() {
+  const [collapsed, setCollapsed] = useState<string[]>(readCollapsed);
+
+  useEffect(() => {
+    window.localStorage.setItem(profileKey(COLLAPSED_KEY), JSON.stringify(collapsed));
+  }, [collapsed]);
+
+  const toggle = useCallback((sectionId: string) => {
+    setCollapsed((prev) =>
+      prev.includes(sectionId) ? prev.filter((id) => id !== sectionId) : [...prev, sectionId],
+    );
+  }, []);
+
+  return { isCollapsed: (sectionId: string) => collapsed.includes(sectionId), toggle };
+}
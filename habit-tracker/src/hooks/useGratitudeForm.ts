@@ -0,0 +1,81 @@
+'use client';
+
+import { useCallback, useMemo, useState } from "react";
+import type { AppAction } from "../lib/actions";
+import {
+  draftFromEntry,
+  emptyGratitudeDraft,
+  entriesForDay,
+  promptForDraft,
+  saveGratitudeDraft,
+  type GratitudeDraft,
+} from "../lib/gratitude";
+import { rotationPool } from "../lib/prompts";
+import type { AppState, GratitudeEntry } from "../lib/types";
+
+export type GratitudeForm = ReturnType<typeof useGratitudeForm>;
+
+/**
+ * The reflection form for `selectedDate`. Unsaved edits and a hand-picked
+ * prompt only apply to the day they were made on.
+ */
+export function useGratitudeForm(
+  state: AppState,
+  selectedDate: string,
+  dispatch: (action: AppAction) => void,
+) {
+  const [draft, setDraft] = useState<GratitudeDraft | null>(null);
+  const [promptPick, setPromptPick] = useState<{ date: string; promptId: string } | null>(null);
+
+  const form = draft?.date === selectedDate ? draft : emptyGratitudeDraft(selectedDate);
+  const { entryId } = form;
+  const pickedPromptId = promptPick?.date === selectedDate ? promptPick.promptId : null;
+
+  const entries = useMemo(
+    () => entriesForDay(state.gratitude, selectedDate),
+    [state.gratitude, selectedDate],
+  );
+  const prompt = useMemo(
+    () => promptForDraft({ date: selectedDate, entryId }, pickedPromptId, state),
+    [selectedDate, entryId, pickedPromptId, state],
+  );
+  const promptChoices = useMemo(
+    () => rotationPool(state.prompts, state.settings.promptTag),
+    [state.prompts, state.settings.promptTag],
+  );
+
+  const update = (changes: Partial<Omit<GratitudeDraft, "date" | "entryId">>) => {
+    setDraft({ ...form, ...changes });
+  };
+
+  const pickPrompt = (promptId: string) => {
+    setPromptPick({ date: selectedDate, promptId });
+  };
+
+  const reset = useCallback(() => {
+    setDraft(null);
+    setPromptPick(null);
+  }, []);
+
+  const save = () => {
+    const action = saveGratitudeDraft(form, prompt, state.gratitude, new Date().toISOString());
+    if (action) {
+      dispatch(action);
+    }
+    reset();
+  };
+
+  const edit = (entry: GratitudeEntry) => {
+    setDraft(draftFromEntry(entry));
+    setPromptPick(null);
+  };
+
+  const remove = (removedId: string) => {
+    dispatch({ type: "gratitude/delete", entryId: removedId });
+    if (entryId === removedId) {
+      reset();
+    }
+  };
+
+  return { form, prompt, promptChoices, entries, update, pickPrompt, reset, save, edit, remove };
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import { profileKey } from "../lib/profiles";
+
+const TIMERS_KEY = "habit-tracker-running-timers";
+
+/** Start timestamps (ms) of running timers, keyed by habit id. */
+type RunningTimers = Record<string, number>;
+
+function readTimers(): RunningTimers {
+  if (typeof window === "undefined") {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(profileKey(TIMERS_KEY)) ?? "{}");
+    return typeof parsed === "object" && parsed !== null ? (parsed as RunningTimers) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Per-habit stopwatches. Running timers survive reloads because their start
+ * times live in localStorage; they are device-local and never synced.
+ */
+export function useHabitTimers() {
+  const [timers, setTimers] = useState<RunningTimers>(readTimers);
+  const [now, setNow] = useState(() => Date.now());
+  const running = Object.keys(timers).length > 0;
+
+  useEffect(() => {
+    window.localStorage.setItem(profileKey(TIMERS_KEY), JSON.stringify(timers));
+  }, [timers]);
+
+  useEffect(() => {
+    if (!running) {
+      return;
+    }
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [running]);
+
+  const start = useCallback((habitId: string) => {
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimers((prev) => ({ ...prev, [habitId]: startedAt }));
+  }, []);
+
+  /** Stops a timer and returns its span, or null if it was not running. */
+  const stop = useCallback(
+    (habitId: string): { startedAt: Date; minutes: number } | null => {
+      const startedAt = timers[habitId];
+      if (startedAt === undefined) {
+        return null;
+      }
+      setTimers((prev) => {
+        const next = { ...prev };
+        delete next[habitId];
+        return next;
+      });
+      return {
+        startedAt: new Date(startedAt),
+        minutes: Math.max(1, Math.round((Date.now() - startedAt) / 60000)),
+      };
+    },
+    [timers],
+  );
+
+  const elapsedSeconds = (habitId: string) => {
+    const startedAt = timers[habitId];
+    return startedAt === undefined ? null : Math.max(0, Math.floor((now - startedAt) / 1000));
+  };
+
+  return { start, stop, elapsedSeconds };
+}
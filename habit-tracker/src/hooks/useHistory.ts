@@ -0,0 +1,187 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { appReducer, describeAction, type AppAction } from "../lib/actions";
+import {
+  applyChanges,
+  changedDates,
+  compactChange,
+  diffStates,
+  invertChanges,
+  MAX_AUDIT_ENTRIES,
+  MAX_UNDO_STEPS,
+  parseAuditLog,
+  revertEntry,
+  writeAuditLog,
+  type AuditEntry,
+  type RecordChange,
+} from "../lib/history";
+import { createId } from "../lib/ids";
+import { CURRENT_SCHEMA_VERSION } from "../lib/persistence";
+import { profileKey } from "../lib/profiles";
+import type { AppState } from "../lib/types";
+
+const AUDIT_KEY = "habit-tracker-audit-log";
+
+type Step = { summary: string; changes: RecordChange[]; audited: boolean };
+
+type Stacks = { past: Step[]; future: Step[] };
+
+function readAuditLog(): AuditEntry[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  return parseAuditLog(window.localStorage.getItem(profileKey(AUDIT_KEY)), CURRENT_SCHEMA_VERSION);
+}
+
+/** Text fields keep the browser's own undo for what is being typed. */
+function isEditingText(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+/**
+ * Routes edits through `appReducer` and records what each one changed, giving
+ * undo/redo for this session (Ctrl+Z / Ctrl+Shift+Z) and a bounded audit log
+ * that survives reloads. Changes are applied record by record on top of the
+ * latest state, so undoing never discards edits that arrived through sync.
+ */
+export function useHistory(
+  state: AppState,
+  setState: (updater: (prev: AppState) => AppState) => void,
+) {
+  const [stacks, setStacks] = useState<Stacks>({ past: [], future: [] });
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(readAuditLog);
+  const latest = useRef(state);
+  const stacksRef = useRef(stacks);
+
+  useEffect(() => {
+    latest.current = state;
+  }, [state]);
+
+  useEffect(() => {
+    const key = profileKey(AUDIT_KEY);
+    try {
+      // A full quota only costs the oldest history; the app data itself is saved separately.
+      writeAuditLog(auditLog, CURRENT_SCHEMA_VERSION, (serialized) =>
+        window.localStorage.setItem(key, serialized),
+      );
+    } catch {
+      window.localStorage.removeItem(key);
+    }
+  }, [auditLog]);
+
+  /** `audited` false keeps the entry but not its records, for changes too large to store. */
+  const commit = useCallback(
+    (summary: string, changes: RecordChange[], audited = true) => {
+      latest.current = applyChanges(latest.current, changes);
+      setState((prev) => applyChanges(prev, changes));
+      setAuditLog((prev) =>
+        [
+          {
+            id: createId(),
+            at: new Date().toISOString(),
+            summary,
+            dates: audited ? changedDates(changes) : [],
+            changes: audited ? changes.map(compactChange) : [],
+          },
+          ...prev,
+        ].slice(0, MAX_AUDIT_ENTRIES),
+      );
+    },
+    [setState],
+  );
+
+  const updateStacks = useCallback((next: Stacks) => {
+    stacksRef.current = next;
+    setStacks(next);
+  }, []);
+
+  const record = useCallback(
+    (summary: string, changes: RecordChange[], audited = true) => {
+      commit(summary, changes, audited);
+      updateStacks({
+        past: [...stacksRef.current.past, { summary, changes, audited }].slice(-MAX_UNDO_STEPS),
+        future: [],
+      });
+    },
+    [commit, updateStacks],
+  );
+
+  const dispatch = useCallback(
+    (action: AppAction) => {
+      const before = latest.current;
+      const changes = diffStates(before, appReducer(before, action));
+      if (changes.length > 0) {
+        // An import can replace every record; undo covers it, the stored log does not.
+        record(describeAction(action, before), changes, action.type !== "state/import");
+      }
+    },
+    [record],
+  );
+
+  const undo = useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const step = past.at(-1);
+    if (!step) {
+      return;
+    }
+    commit(`Undid: ${step.summary}`, invertChanges(step.changes), step.audited);
+    updateStacks({ past: past.slice(0, -1), future: [...future, step] });
+  }, [commit, updateStacks]);
+
+  const redo = useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const step = future.at(-1);
+    if (!step) {
+      return;
+    }
+    commit(`Redid: ${step.summary}`, step.changes, step.audited);
+    updateStacks({ past: [...past, step], future: future.slice(0, -1) });
+  }, [commit, updateStacks]);
+
+  /** Puts back what an audit entry replaced; the revert itself can be undone. */
+  const revert = useCallback(
+    (entryId: string) => {
+      const entry = auditLog.find((item) => item.id === entryId);
+      const changes = entry ? revertEntry(entry, latest.current) : [];
+      if (entry && changes.length > 0) {
+        record(`Reverted: ${entry.summary}`, changes);
+      }
+    },
+    [auditLog, record],
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.key.toLowerCase() !== "z" ||
+        isEditingText(event.target)
+      ) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    dispatch,
+    undo,
+    redo,
+    undoLabel: stacks.past.at(-1)?.summary ?? null,
+    redoLabel: stacks.future.at(-1)?.summary ?? null,
+    auditLog,
+    revert,
+    clearAuditLog: () => setAuditLog([]),
+  };
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  generateRuleInsights,
+  getInsightProvider,
+  insightCacheKey,
+  type Insight,
+  type InsightContext,
+  type InsightProviderId,
+} from "../lib/insights";
+import { authHeaders } from "../lib/profiles";
+
+const PROVIDER_KEY = "habit-tracker-insight-provider";
+const MAX_CACHED_RANGES = 20;
+
+/** Insights per provider and data range, shared across renders and remounts. */
+const cache = new Map<string, Insight[]>();
+
+type Outcome = { key: string; insights?: Insight[]; error?: string };
+
+function readProvider(): InsightProviderId {
+  if (typeof window === "undefined") {
+    return "rules";
+  }
+  return window.localStorage.getItem(PROVIDER_KEY) === "llm" ? "llm" : "rules";
+}
+
+/**
+ * Runs the selected insight provider for `context`, caching results per data
+ * range. When the language model fails, the rule-based insights stand in.
+ */
+export function useInsights(context: InsightContext | null) {
+  const [providerId, setProviderId] = useState<InsightProviderId>(readProvider);
+  const [llmAvailable, setLlmAvailable] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const key = context ? insightCacheKey(providerId, context) : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/insights")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body) => {
+        if (!cancelled) setLlmAvailable(body?.available === true);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!context || !key || cache.has(key)) {
+      return;
+    }
+    let cancelled = false;
+    getInsightProvider(providerId, authHeaders())
+      .generate(context)
+      .then((insights) => {
+        if (cache.size >= MAX_CACHED_RANGES) {
+          cache.delete(cache.keys().next().value!);
+        }
+        cache.set(key, insights);
+        if (!cancelled) setOutcome({ key, insights });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setOutcome({
+          key,
+          error: error instanceof Error ? error.message : "Insights could not be generated.",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [context, key, providerId]);
+
+  const changeProvider = useCallback((next: InsightProviderId) => {
+    window.localStorage.setItem(PROVIDER_KEY, next);
+    setProviderId(next);
+  }, []);
+
+  const current = outcome?.key === key ? outcome : null;
+  const error = current?.error ?? null;
+  const insights =
+    (key ? cache.get(key) : undefined) ??
+    current?.insights ??
+    (error && context ? generateRuleInsights(context) : null);
+
+  return {
+    insights,
+    loading: Boolean(context) && !insights,
+    error,
+    providerId,
+    changeProvider,
+    llmAvailable,
+  };
+}
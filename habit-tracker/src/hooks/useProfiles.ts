@@ -0,0 +1,190 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  normalizeUsername,
+  type AccountInfo,
+  type Credentials,
+  type SessionInfo,
+} from "../lib/auth";
+import { assertOk, failureMessage } from "../lib/http";
+import {
+  addProfile,
+  authHeaders,
+  canSignIn,
+  DEFAULT_PROFILE_ID,
+  readProfiles,
+  updateProfile,
+  writeProfiles,
+  type ProfileOwner,
+  type ProfileRegistry,
+} from "../lib/profiles";
+import { deleteProfileData } from "../lib/storage";
+
+export type SignInMode = "login" | "register";
+
+function ownedProfileMessage(owner: ProfileOwner | null, username: string) {
+  return (
+    `This profile holds @${owner?.username}'s data. ` +
+    `Add a new profile to sign in as @${normalizeUsername(username)}.`
+  );
+}
+
+/**
+ * The profiles on this device and the account the active one is signed in to.
+ * Switching profiles reloads the page so every hook reads the new profile's data.
+ */
+export function useProfiles() {
+  const [registry, setRegistry] = useState<ProfileRegistry>(readProfiles);
+  const [account, setAccount] = useState<AccountInfo | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const profile = registry.profiles.find((item) => item.id === registry.activeId)!;
+  const token = profile.session?.token ?? null;
+
+  useEffect(() => {
+    writeProfiles(registry);
+  }, [registry]);
+
+  // Confirm the saved session is still good and pick up the account's current entitlement.
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    let cancelled = false;
+    fetch("/api/auth/session", { headers: { Authorization: `Bearer ${token}` } })
+      .then(async (response) => {
+        if (cancelled) return;
+        if (response.status === 401) {
+          setRegistry((prev) => updateProfile(prev, prev.activeId, { session: null }));
+          setError("Your session ended. Sign in again to keep syncing.");
+          return;
+        }
+        if (response.ok) {
+          const body = (await response.json()) as { account: AccountInfo };
+          if (cancelled) return;
+          setAccount(body.account);
+          // Profiles signed in before owners were recorded adopt the account they sync with.
+          const { id, username } = body.account;
+          setRegistry((prev) =>
+            prev.profiles.some((item) => item.id === prev.activeId && item.owner === null)
+              ? updateProfile(prev, prev.activeId, { owner: { id, username } })
+              : prev,
+          );
+        }
+      })
+      // Offline: keep the session and try again on the next load.
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const signIn = useCallback(
+    async (mode: SignInMode, credentials: Credentials): Promise<AccountInfo | null> => {
+      setBusy(true);
+      setError(null);
+      try {
+        const { owner } = profile;
+        if (
+          owner &&
+          (mode === "register" || normalizeUsername(credentials.username) !== owner.username)
+        ) {
+          throw new Error(ownedProfileMessage(owner, credentials.username));
+        }
+        const response = await fetch(`/api/auth/${mode}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(credentials),
+        });
+        await assertOk(
+          response,
+          mode === "login" ? "Could not sign in." : "Could not create the account.",
+        );
+        const session = (await response.json()) as SessionInfo;
+        const { id, username } = session.account;
+        if (!canSignIn(profile, { id, username })) {
+          // Syncing would merge this profile's data into the other account.
+          await fetch("/api/auth/logout", {
+            method: "POST",
+            headers: { Authorization: `Bearer ${session.token}` },
+          }).catch(() => undefined);
+          throw new Error(ownedProfileMessage(profile.owner, username));
+        }
+        setRegistry((prev) =>
+          updateProfile(prev, prev.activeId, {
+            session: { token: session.token, username },
+            owner: { id, username },
+          }),
+        );
+        setAccount(session.account);
+        return session.account;
+      } catch (signInError) {
+        setError(failureMessage(signInError, "The server could not be reached."));
+        return null;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [profile],
+  );
+
+  const signOut = useCallback(async () => {
+    setError(null);
+    // Forget the session here even when the server cannot be told.
+    await fetch("/api/auth/logout", { method: "POST", headers: authHeaders() }).catch(
+      () => undefined,
+    );
+    setRegistry((prev) => updateProfile(prev, prev.activeId, { session: null }));
+    setAccount(null);
+  }, []);
+
+  const switchProfile = useCallback(
+    (profileId: string) => {
+      writeProfiles({ ...registry, activeId: profileId });
+      window.location.reload();
+    },
+    [registry],
+  );
+
+  const createProfile = useCallback((name: string) => {
+    setRegistry((prev) => addProfile(prev, name));
+  }, []);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    const trimmed = name.trim();
+    if (trimmed) {
+      setRegistry((prev) => updateProfile(prev, profileId, { name: trimmed }));
+    }
+  }, []);
+
+  const removeProfile = useCallback(async (profileId: string) => {
+    if (profileId === DEFAULT_PROFILE_ID) {
+      return;
+    }
+    setError(null);
+    try {
+      await deleteProfileData(profileId);
+    } catch {
+      setError("Some of that profile's data could not be removed.");
+    }
+    setRegistry((prev) => ({
+      ...prev,
+      profiles: prev.profiles.filter((item) => item.id !== profileId),
+    }));
+  }, []);
+
+  return {
+    profiles: registry.profiles,
+    profile,
+    account,
+    busy,
+    error,
+    signIn,
+    signOut,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    removeProfile,
+  };
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { profileKey } from "../lib/profiles";
+import {
+  dueReminders,
+  emptyLedger,
+  markDelivered,
+  snoozeReminder,
+  type ReminderLedger,
+} from "../lib/reminders";
+import type { AppState } from "../lib/types";
+import { useServiceWorker } from "./useServiceWorker";
+
+const LEDGER_KEY = "habit-tracker-reminder-ledger";
+const CHECK_INTERVAL_MS = 30_000;
+
+export type ReminderPermission = NotificationPermission | "unsupported";
+
+function isSupported() {
+  return (
+    typeof window !== "undefined" && "Notification" in window && "serviceWorker" in navigator
+  );
+}
+
+function readLedger(todayKey: string): ReminderLedger {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(profileKey(LEDGER_KEY)) ?? "null");
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      "date" in parsed &&
+      parsed.date === todayKey
+    ) {
+      return parsed as ReminderLedger;
+    }
+  } catch {
+    // A corrupt ledger only means today's reminders may repeat once.
+  }
+  return emptyLedger(todayKey);
+}
+
+function writeLedger(ledger: ReminderLedger) {
+  window.localStorage.setItem(profileKey(LEDGER_KEY), JSON.stringify(ledger));
+}
+
+/**
+ * Delivers habit reminders and the end-of-day digest through the service
+ * worker while any tab is open, including background tabs. The check runs in
+ * the page, so nothing fires once every tab is closed; reminders missed then
+ * are shown the next time the app opens that day.
+ */
+export function useReminders(state: AppState, todayKey: string, ready: boolean) {
+  const [permission, setPermission] = useState<ReminderPermission>(() =>
+    isSupported() ? Notification.permission : "unsupported",
+  );
+  const registration = useServiceWorker();
+  const latest = useRef({ state, todayKey });
+
+  useEffect(() => {
+    latest.current = { state, todayKey };
+  }, [state, todayKey]);
+
+  useEffect(() => {
+    if (!registration || permission !== "granted" || !ready) {
+      return;
+    }
+    const check = () => {
+      const { state: current, todayKey: day } = latest.current;
+      const now = new Date();
+      const due = dueReminders({
+        habits: current.habits,
+        logs: current.logs,
+        settings: current.settings,
+        todayKey: day,
+        now,
+        ledger: readLedger(day),
+      });
+      if (due.length === 0) {
+        return;
+      }
+      writeLedger(
+        markDelivered(
+          readLedger(day),
+          day,
+          due.map((reminder) => reminder.id),
+        ),
+      );
+      for (const reminder of due) {
+        void registration.showNotification(reminder.title, {
+          body: reminder.body,
+          tag: reminder.id,
+          data: { reminderId: reminder.id },
+          actions: [{ action: "snooze", title: "Snooze 15 min" }],
+        } as NotificationOptions);
+      }
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "reminder-snooze" && typeof event.data.reminderId === "string") {
+        const day = latest.current.todayKey;
+        writeLedger(snoozeReminder(readLedger(day), day, event.data.reminderId, new Date()));
+      }
+    };
+
+    check();
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+    document.addEventListener("visibilitychange", check);
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener("visibilitychange", check);
+      navigator.serviceWorker.removeEventListener("message", handleMessage);
+    };
+  }, [registration, permission, ready]);
+
+  const requestPermission = useCallback(async () => {
+    if (!isSupported()) {
+      return;
+    }
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return { permission, requestPermission };
+}
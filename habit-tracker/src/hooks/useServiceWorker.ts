@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from "react";
+
+let registering: Promise<ServiceWorkerRegistration> | null = null;
+
+/**
+ * Registers the app's service worker once per page and resolves when it is
+ * active. Production builds pass their id, so a new deploy installs a new
+ * worker with its own cache; development builds switch caching off.
+ */
+function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  const url =
+    process.env.NODE_ENV === "production"
+      ? `/sw.js?build=${encodeURIComponent(process.env.NEXT_PUBLIC_BUILD_ID ?? "")}`
+      : "/sw.js?dev";
+  registering ??= navigator.serviceWorker.register(url).then(() => navigator.serviceWorker.ready);
+  return registering;
+}
+
+/** The active service worker registration, or null until it is ready or where unsupported. */
+export function useServiceWorker(): ServiceWorkerRegistration | null {
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) {
+      return;
+    }
+    let cancelled = false;
+    registerServiceWorker()
+      .then((ready) => {
+        if (!cancelled) setRegistration(ready);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return registration;
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import { assertOk, failureMessage } from "../lib/http";
+import { authHeaders } from "../lib/profiles";
+import type { ShareLinkInfo, ShareOptions } from "../lib/share";
+
+/** The signed-in account's share links, created and revoked through `/api/shares`. */
+export function useShareLinks() {
+  const [links, setLinks] = useState<ShareLinkInfo[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const headers = authHeaders();
+    if (!headers.Authorization) {
+      return;
+    }
+    let cancelled = false;
+    fetch("/api/shares", { headers })
+      .then(async (response) => {
+        await assertOk(response, "Your share links could not be loaded.");
+        const body = (await response.json()) as { shares: ShareLinkInfo[] };
+        if (!cancelled) setLinks(body.shares);
+      })
+      .catch((loadError: unknown) => {
+        if (cancelled) return;
+        setError(failureMessage(loadError, "The server could not be reached."));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const create = useCallback(async (options: ShareOptions) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/shares", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ options }),
+      });
+      await assertOk(response, "The share link could not be created.");
+      // The response also carries a revoke key, which a signed-in owner does not need.
+      const created = (await response.json()) as ShareLinkInfo;
+      setLinks((prev) => [created, ...prev]);
+    } catch (createError) {
+      setError(
+        failureMessage(createError, "The server could not be reached, so no link was made."),
+      );
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const revoke = useCallback(async (linkId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/shares/${encodeURIComponent(linkId)}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      if (response.status === 404) {
+        // A link the server no longer knows cannot be opened either.
+        setLinks((prev) => prev.filter((item) => item.id !== linkId));
+        return;
+      }
+      await assertOk(response, "The link could not be revoked.");
+      const revokedAt = new Date().toISOString();
+      setLinks((prev) => prev.map((item) => (item.id === linkId ? { ...item, revokedAt } : item)));
+    } catch (revokeError) {
+      setError(
+        failureMessage(revokeError, "The server could not be reached, so the link still works."),
+      );
+    }
+  }, []);
+
+  return { links, busy, error, create, revoke };
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from "react";
+import { dayKeyAt, nextDayBoundary, type DayBoundary } from "../lib/dates";
+
+/**
+ * The current day key, re-rendering when the day rolls over. Background tabs
+ * throttle timers, so the key is also re-read whenever the tab becomes visible.
+ */
+export function useTodayKey({ timeZone, dayStartHour }: DayBoundary): string {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const boundary = { timeZone, dayStartHour };
+      let timer: number | undefined;
+      const schedule = () => {
+        const now = new Date();
+        timer = window.setTimeout(
+          () => {
+            onChange();
+            schedule();
+          },
+          nextDayBoundary(now, boundary).getTime() - now.getTime(),
+        );
+      };
+      const handleVisibility = () => {
+        if (document.visibilityState === "visible") {
+          window.clearTimeout(timer);
+          onChange();
+          schedule();
+        }
+      };
+      schedule();
+      document.addEventListener("visibilitychange", handleVisibility);
+      return () => {
+        window.clearTimeout(timer);
+        document.removeEventListener("visibilitychange", handleVisibility);
+      };
+    },
+    [timeZone, dayStartHour],
+  );
+  const read = () => dayKeyAt(new Date(), { timeZone, dayStartHour });
+  return useSyncExternalStore(subscribe, read, read);
+}
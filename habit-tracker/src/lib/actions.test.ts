@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { entry, habit, minutesLog, routine } from "../test/fixtures";
+import { appReducer } from "./actions";
+import { defaultState } from "./persistence";
+import type { AppState } from "./types";
+
+const AT = "2024-02-01T00:00:00.000Z";
+
+function state(changes: Partial<AppState>): AppState {
+  return { ...defaultState, ...changes };
+}
+
+describe("appReducer", () => {
+  it("deletes a habit with or without its history", () => {
+    const before = state({
+      habits: [habit("run"), habit("read")],
+      logs: [minutesLog("run", "2024-01-01", 20), minutesLog("read", "2024-01-01", 10)],
+    });
+    const kept = appReducer(before, { type: "habit/delete", habitId: "run", deleteLogs: false });
+    expect(kept.habits.map((item) => item.id)).toEqual(["read"]);
+    expect(kept.logs).toEqual(before.logs);
+
+    const cleared = appReducer(before, { type: "habit/delete", habitId: "run", deleteLogs: true });
+    expect(cleared.habits.map((item) => item.id)).toEqual(["read"]);
+    expect(cleared.logs.map((log) => log.habitId)).toEqual(["read"]);
+  });
+
+  it("moves a deleted routine's habits to the end of the ungrouped list", () => {
+    const before = state({
+      routines: [routine("morning"), routine("evening")],
+      habits: [
+        habit("loose", { position: 0 }),
+        habit("stretch", { routineId: "morning", position: 1 }),
+        habit("water", { routineId: "morning", position: 0 }),
+        habit("read", { routineId: "evening", position: 0 }),
+      ],
+    });
+    const after = appReducer(before, { type: "routine/delete", routineId: "morning" });
+    expect(after.routines.map((item) => item.id)).toEqual(["evening"]);
+    expect(after.habits.map((item) => [item.id, item.routineId, item.position])).toEqual([
+      ["loose", null, 0],
+      ["stretch", null, 2],
+      ["water", null, 1],
+      ["read", "evening", 0],
+    ]);
+  });
+
+  it("drops a day's log once its last session is removed", () => {
+    const before = state({
+      habits: [habit("run")],
+      logs: [minutesLog("run", "2024-01-01", 20)],
+    });
+    const after = appReducer(before, {
+      type: "session/remove",
+      habitId: "run",
+      date: "2024-01-01",
+      sessionId: "run-2024-01-01",
+      at: AT,
+    });
+    expect(after.logs).toEqual([]);
+  });
+
+  it("updates a saved reflection in place", () => {
+    const before = state({
+      gratitude: [entry("a", "2024-01-01"), entry("b", "2024-01-02", { response: "Tea" })],
+    });
+    const edited = entry("b", "2024-01-02", {
+      response: "Tea with a friend",
+      updatedAt: AT,
+    });
+    const after = appReducer(before, { type: "gratitude/save", entry: edited });
+    expect(after.gratitude).toEqual([before.gratitude[0], edited]);
+  });
+
+  it("keeps the account's entitlement when importing a file", () => {
+    const before = state({ premium: true, habits: [habit("run")] });
+    const imported = state({ premium: false, habits: [habit("read")] });
+    const after = appReducer(before, { type: "state/import", state: imported });
+    expect(after.premium).toBe(true);
+    expect(after.habits.map((item) => item.id)).toEqual(["read"]);
+
+    const downgrade = appReducer(state({ premium: false }), {
+      type: "state/import",
+      state: state({ premium: true }),
+    });
+    expect(downgrade.premium).toBe(false);
+  });
+});
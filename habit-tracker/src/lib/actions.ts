@@ -0,0 +1,211 @@
+import { habitLabel } from "./habits";
+import { formatAmount, setLogValue } from "./kinds";
+import { completeRoutine, moveHabit } from "./routines";
+import { addSession, removeSession, replaceSessions, sumSessions } from "./sessions";
+import type {
+  AppState,
+  GratitudeEntry,
+  GratitudePrompt,
+  Habit,
+  HabitSession,
+  Routine,
+  Settings,
+} from "./types";
+
+export type HabitChanges = Partial<Omit<Habit, "id" | "createdOn" | "updatedAt">>;
+
+export type RoutineChanges = Partial<Omit<Routine, "id" | "updatedAt">>;
+
+/**
+ * Every user edit to the app state. Ids and timestamps travel in the action,
+ * so `appReducer` stays pure and replaying an action gives the same result.
+ */
+export type AppAction =
+  | { type: "habit/add"; habit: Habit }
+  | { type: "habit/update"; habitId: string; changes: HabitChanges }
+  | { type: "habit/delete"; habitId: string; deleteLogs: boolean }
+  | { type: "habit/move"; habitId: string; routineId: string | null; beforeHabitId: string | null }
+  | { type: "routine/add"; routine: Routine }
+  | { type: "routine/update"; routineId: string; changes: RoutineChanges }
+  | { type: "routine/delete"; routineId: string }
+  | { type: "routine/complete"; routineId: string; date: string; sessionId: string; at: string }
+  | { type: "session/add"; habitId: string; date: string; session: HabitSession; at: string }
+  | { type: "session/remove"; habitId: string; date: string; sessionId: string; at: string }
+  | { type: "log/set-value"; habitId: string; date: string; value: number; at: string }
+  | {
+      type: "log/replace-sessions";
+      habitId: string;
+      date: string;
+      sessions: HabitSession[];
+      at: string;
+    }
+  | { type: "gratitude/save"; entry: GratitudeEntry }
+  | { type: "gratitude/delete"; entryId: string }
+  | { type: "prompts/replace"; prompts: GratitudePrompt[] }
+  | { type: "settings/update"; settings: Partial<Omit<Settings, "updatedAt">> }
+  | { type: "state/import"; state: AppState };
+
+export function appReducer(state: AppState, action: AppAction): AppState {
+  switch (action.type) {
+    case "habit/add":
+      return { ...state, habits: [...state.habits, action.habit] };
+    case "habit/update":
+      return {
+        ...state,
+        habits: state.habits.map((habit) =>
+          habit.id === action.habitId ? { ...habit, ...action.changes } : habit,
+        ),
+      };
+    case "habit/delete":
+      return {
+        ...state,
+        habits: state.habits.filter((habit) => habit.id !== action.habitId),
+        logs: action.deleteLogs
+          ? state.logs.filter((log) => log.habitId !== action.habitId)
+          : state.logs,
+      };
+    case "habit/move":
+      return {
+        ...state,
+        habits: moveHabit(state.habits, action.habitId, action.routineId, action.beforeHabitId),
+      };
+    case "routine/add":
+      return { ...state, routines: [...state.routines, action.routine] };
+    case "routine/update":
+      return {
+        ...state,
+        routines: state.routines.map((routine) =>
+          routine.id === action.routineId ? { ...routine, ...action.changes } : routine,
+        ),
+      };
+    case "routine/delete":
+      // Its habits stay, moving to the end of the ungrouped list.
+      return state.habits
+        .filter((habit) => habit.routineId === action.routineId)
+        .sort((a, b) => a.position - b.position)
+        .reduce(
+          (next, habit) => ({ ...next, habits: moveHabit(next.habits, habit.id, null, null) }),
+          {
+            ...state,
+            routines: state.routines.filter((routine) => routine.id !== action.routineId),
+          },
+        );
+    case "routine/complete":
+      return {
+        ...state,
+        logs: completeRoutine({
+          habits: state.habits,
+          logs: state.logs,
+          routineId: action.routineId,
+          date: action.date,
+          sessionId: action.sessionId,
+          at: action.at,
+        }),
+      };
+    case "session/add":
+      return {
+        ...state,
+        logs: addSession(state.logs, action.habitId, action.date, action.session, action.at),
+      };
+    case "session/remove":
+      return {
+        ...state,
+        logs: removeSession(state.logs, action.habitId, action.date, action.sessionId, action.at),
+      };
+    case "log/set-value":
+      return {
+        ...state,
+        logs: setLogValue(state.logs, action.habitId, action.date, action.value, action.at),
+      };
+    case "log/replace-sessions":
+      return {
+        ...state,
+        logs: replaceSessions(state.logs, action.habitId, action.date, action.sessions, action.at),
+      };
+    case "gratitude/save":
+      return {
+        ...state,
+        gratitude: state.gratitude.some((entry) => entry.id === action.entry.id)
+          ? state.gratitude.map((entry) => (entry.id === action.entry.id ? action.entry : entry))
+          : [...state.gratitude, action.entry],
+      };
+    case "gratitude/delete":
+      return {
+        ...state,
+        gratitude: state.gratitude.filter((entry) => entry.id !== action.entryId),
+      };
+    case "prompts/replace":
+      return { ...state, prompts: action.prompts };
+    case "settings/update":
+      return { ...state, settings: { ...state.settings, ...action.settings } };
+    case "state/import":
+      // The entitlement belongs to the account, so an imported file cannot change it.
+      return { ...action.state, premium: state.premium };
+  }
+}
+
+/** A one-line description of `action` for the history, read against the state it applied to. */
+export function describeAction(action: AppAction, state: AppState): string {
+  const habitName = (habitId: string) => `"${habitLabel(state.habits, habitId)}"`;
+  const routineName = (routineId: string | null) =>
+    routineId === null
+      ? "no routine"
+      : `"${state.routines.find((routine) => routine.id === routineId)?.name ?? "Removed routine"}"`;
+
+  switch (action.type) {
+    case "habit/add":
+      return `Added habit "${action.habit.name}"`;
+    case "habit/update":
+      if (Object.keys(action.changes).length === 1 && action.changes.archived !== undefined) {
+        return `${action.changes.archived ? "Archived" : "Restored"} ${habitName(action.habitId)}`;
+      }
+      return `Edited ${habitName(action.habitId)}`;
+    case "habit/delete":
+      return `Deleted ${habitName(action.habitId)}${action.deleteLogs ? " and its history" : ""}`;
+    case "habit/move": {
+      const from = state.habits.find((habit) => habit.id === action.habitId)?.routineId;
+      if (from !== action.routineId) {
+        return `Moved ${habitName(action.habitId)} to ${routineName(action.routineId)}`;
+      }
+      return action.routineId === null
+        ? "Reordered ungrouped habits"
+        : `Reordered ${routineName(action.routineId)}`;
+    }
+    case "routine/add":
+      return `Added routine "${action.routine.name}"`;
+    case "routine/update":
+      return `Edited routine ${routineName(action.routineId)}`;
+    case "routine/delete":
+      return `Deleted routine ${routineName(action.routineId)}`;
+    case "routine/complete":
+      return `Completed routine ${routineName(action.routineId)}`;
+    case "session/add":
+      return `Logged ${action.session.minutes} min of ${habitName(action.habitId)}`;
+    case "session/remove":
+      return `Removed a session of ${habitName(action.habitId)}`;
+    case "log/set-value": {
+      const habit = state.habits.find((item) => item.id === action.habitId);
+      return action.value > 0 && habit
+        ? `Set ${habitName(action.habitId)} to ${formatAmount(habit, action.value)}`
+        : `Cleared ${habitName(action.habitId)}`;
+    }
+    case "log/replace-sessions": {
+      const minutes = sumSessions(action.sessions);
+      return minutes > 0
+        ? `Set ${habitName(action.habitId)} to ${minutes} min`
+        : `Cleared ${habitName(action.habitId)}`;
+    }
+    case "gratitude/save":
+      return state.gratitude.some((entry) => entry.id === action.entry.id)
+        ? "Edited a reflection"
+        : "Wrote a reflection";
+    case "gratitude/delete":
+      return "Deleted a reflection";
+    case "prompts/replace":
+      return "Updated the prompt library";
+    case "settings/update":
+      return "Changed settings";
+    case "state/import":
+      return "Imported data";
+  }
+}
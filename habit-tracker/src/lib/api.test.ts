@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { habit } from "../test/fixtures";
+import { parseGratitudeEntry, parseHabitChanges, parseLogUpsert, parseRange } from "./api";
+import { defaultState, MAX_NOTE_LENGTH } from "./persistence";
+
+const AT = "2024-01-02T09:00:00.000Z";
+
+const state = {
+  ...defaultState,
+  habits: [
+    habit("run", { name: "Run" }),
+    habit("floss", { name: "Floss", kind: "checkbox" }),
+    habit("water", { name: "Water", kind: "count", unit: "glasses", target: 8 }),
+  ],
+};
+
+describe("parseHabitChanges", () => {
+  it("refuses importance outside 1-5", () => {
+    for (const importance of [0, 6, 2.5, "3"]) {
+      expect(parseHabitChanges({ name: "Run", importance }, state, null)).toEqual({
+        ok: false,
+        error: "importance must be a whole number from 1 to 5.",
+      });
+    }
+    expect(parseHabitChanges({ name: "Run", importance: 5 }, state, null)).toEqual({
+      ok: true,
+      value: { name: "Run", importance: 5 },
+    });
+  });
+
+  it("refuses a unit or target the kind does not take", () => {
+    expect(parseHabitChanges({ name: "Run", unit: "km" }, state, null)).toEqual({
+      ok: false,
+      error: "unit only applies to count habits.",
+    });
+    expect(parseHabitChanges({ name: "Floss", kind: "checkbox", target: 1 }, state, null)).toEqual({
+      ok: false,
+      error: "target only applies to duration and count habits.",
+    });
+    expect(parseHabitChanges({ target: 3 }, state, state.habits[1]!)).toMatchObject({ ok: false });
+  });
+
+  it("clears the unit and target when the kind changes to one without them", () => {
+    const water = state.habits[2]!;
+    expect(parseHabitChanges({ kind: "avoid" }, state, water)).toEqual({
+      ok: true,
+      value: { kind: "avoid", unit: undefined, target: undefined },
+    });
+  });
+});
+
+describe("parseLogUpsert", () => {
+  it("refuses negative minutes", () => {
+    expect(
+      parseLogUpsert({ logs: [{ habitId: "run", minutes: -5 }] }, state, "2024-01-02", AT),
+    ).toEqual({ ok: false, error: "minutes must be zero or more." });
+  });
+
+  it("refuses a session note longer than the app allows instead of cutting it", () => {
+    const note = "x".repeat(MAX_NOTE_LENGTH + 1);
+    const body = { logs: [{ habitId: "run", sessions: [{ minutes: 20, note }] }] };
+    expect(parseLogUpsert(body, state, "2024-01-02", AT)).toEqual({
+      ok: false,
+      error: `note must be at most ${MAX_NOTE_LENGTH} characters.`,
+    });
+  });
+
+  it("refuses values that do not match the habit's kind", () => {
+    const parse = (log: Record<string, unknown>) =>
+      parseLogUpsert({ logs: [log] }, state, "2024-01-02", AT);
+    expect(parse({ habitId: "run", value: 1 })).toMatchObject({ ok: false });
+    expect(parse({ habitId: "water", minutes: 10 })).toMatchObject({ ok: false });
+    expect(parse({ habitId: "floss", value: 2 })).toEqual({
+      ok: false,
+      error: '"Floss" is a yes/no habit; send true, false, 1 or 0.',
+    });
+  });
+
+  it("turns each log into the edit that sets the day", () => {
+    const body = {
+      logs: [
+        { habitId: "floss", value: true },
+        { habitId: "water", value: 6 },
+      ],
+    };
+    expect(parseLogUpsert(body, state, "2024-01-02", AT)).toEqual({
+      ok: true,
+      value: [
+        { type: "log/set-value", habitId: "floss", date: "2024-01-02", value: 1, at: AT },
+        { type: "log/set-value", habitId: "water", date: "2024-01-02", value: 6, at: AT },
+      ],
+    });
+  });
+});
+
+describe("parseRange", () => {
+  const parse = (start: string, end: string) =>
+    parseRange(new URLSearchParams({ start, end }), "2024-06-01");
+
+  it("refuses impossible calendar days", () => {
+    expect(parse("2024-02-30", "2024-03-01")).toEqual({
+      ok: false,
+      error: 'start and end must be "YYYY-MM-DD" days.',
+    });
+    expect(parse("2024-02-29", "2024-03-01")).toMatchObject({ ok: true });
+  });
+
+  it("refuses a start after the end, or an end after today", () => {
+    expect(parse("2024-03-02", "2024-03-01")).toEqual({
+      ok: false,
+      error: "start must not come after end.",
+    });
+    expect(parse("2024-05-01", "2024-06-02")).toEqual({
+      ok: false,
+      error: "end must not be after today (2024-06-01).",
+    });
+  });
+});
+
+describe("parseGratitudeEntry", () => {
+  it("refuses impossible days and out-of-range ratings", () => {
+    expect(parseGratitudeEntry({ date: "2023-02-29", mood: 3 }, state, AT)).toEqual({
+      ok: false,
+      error: 'date must be a "YYYY-MM-DD" day.',
+    });
+    expect(parseGratitudeEntry({ date: "2024-01-02", energy: 0 }, state, AT)).toEqual({
+      ok: false,
+      error: "energy must be a whole number from 1 to 5.",
+    });
+  });
+
+  it("needs some text or a rating", () => {
+    expect(parseGratitudeEntry({ date: "2024-01-02", response: "  " }, state, AT)).toEqual({
+      ok: false,
+      error: "An entry needs a response, a mood or an energy rating.",
+    });
+  });
+});
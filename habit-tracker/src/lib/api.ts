@@ -0,0 +1,353 @@
+import type { AppAction, HabitChanges } from "./actions";
+import { addDays, daysBetween } from "./dates";
+import { createId } from "./ids";
+import { hasTarget } from "./kinds";
+import {
+  CLOCK_TIME_PATTERN,
+  DATE_KEY_PATTERN,
+  MAX_NOTE_LENGTH,
+  MAX_UNIT_LENGTH,
+} from "./persistence";
+import { BUILT_IN_PROMPTS, normalizeTags } from "./prompts";
+import type { DateRange } from "./reports";
+import { nextPosition } from "./routines";
+import { normalizeSchedule } from "./schedule";
+import type { AppState, GratitudeEntry, Habit, HabitKind, HabitSession } from "./types";
+
+export const MAX_SUMMARY_RANGE_DAYS = 1096;
+const MAX_HABIT_NAME_LENGTH = 120;
+const MAX_RESPONSE_LENGTH = 5000;
+const HABIT_KINDS: HabitKind[] = ["duration", "checkbox", "count", "avoid"];
+const HABIT_FIELDS = [
+  "name",
+  "importance",
+  "kind",
+  "unit",
+  "target",
+  "targetPeriod",
+  "archived",
+  "schedule",
+  "reminders",
+  "routineId",
+];
+
+/**
+ * Validation for `/api/v1`. Unlike the import path, which repairs what it can,
+ * these reject anything the UI would not let a person enter, with a reason.
+ */
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+function fail(error: string): { ok: false; error: string } {
+  return { ok: false, error };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** A real calendar day as `YYYY-MM-DD`, so `2024-02-30` is refused rather than rolled over. */
+export function isCalendarDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_KEY_PATTERN.test(value) && addDays(value, 0) === value;
+}
+
+function isScore(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5;
+}
+
+function isWholeNumber(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Checks the fields of a habit being created (`existing` null) or updated.
+ * Fields that stop applying when the kind changes are cleared, as in the UI.
+ */
+export function parseHabitChanges(
+  value: unknown,
+  state: AppState,
+  existing: Habit | null,
+): ApiResult<HabitChanges> {
+  if (!isObject(value)) {
+    return fail("Expected a JSON object.");
+  }
+  const unknown = Object.keys(value).find((field) => !HABIT_FIELDS.includes(field));
+  if (unknown) {
+    return fail(`Unknown field "${unknown}".`);
+  }
+  const changes: HabitChanges = {};
+
+  if (value.name !== undefined || !existing) {
+    if (typeof value.name !== "string" || !value.name.trim()) {
+      return fail("name must be a non-empty string.");
+    }
+    if (value.name.trim().length > MAX_HABIT_NAME_LENGTH) {
+      return fail(`name must be at most ${MAX_HABIT_NAME_LENGTH} characters.`);
+    }
+    changes.name = value.name.trim();
+  }
+  if (value.importance !== undefined) {
+    if (!isScore(value.importance)) {
+      return fail("importance must be a whole number from 1 to 5.");
+    }
+    changes.importance = value.importance;
+  }
+  if (value.kind !== undefined) {
+    if (!HABIT_KINDS.includes(value.kind as HabitKind)) {
+      return fail(`kind must be one of ${HABIT_KINDS.join(", ")}.`);
+    }
+    changes.kind = value.kind as HabitKind;
+  }
+  const kind = changes.kind ?? existing?.kind ?? "duration";
+
+  if (value.unit !== undefined) {
+    if (value.unit !== null && typeof value.unit !== "string") {
+      return fail("unit must be a string or null.");
+    }
+    if (kind !== "count" && value.unit) {
+      return fail("unit only applies to count habits.");
+    }
+    if (typeof value.unit === "string" && value.unit.trim().length > MAX_UNIT_LENGTH) {
+      return fail(`unit must be at most ${MAX_UNIT_LENGTH} characters.`);
+    }
+    changes.unit = value.unit?.trim() || undefined;
+  } else if (kind !== "count" && existing?.unit) {
+    changes.unit = undefined;
+  }
+  if (value.target !== undefined) {
+    if (value.target !== null && !(isWholeNumber(value.target) && value.target > 0)) {
+      return fail("target must be a positive whole number or null.");
+    }
+    if (!hasTarget(kind) && value.target !== null) {
+      return fail("target only applies to duration and count habits.");
+    }
+    changes.target = value.target ?? undefined;
+  } else if (!hasTarget(kind) && existing?.target) {
+    changes.target = undefined;
+  }
+  if (value.targetPeriod !== undefined) {
+    if (value.targetPeriod !== "day" && value.targetPeriod !== "week") {
+      return fail('targetPeriod must be "day" or "week".');
+    }
+    changes.targetPeriod = value.targetPeriod;
+  }
+  if (value.archived !== undefined) {
+    if (typeof value.archived !== "boolean") {
+      return fail("archived must be true or false.");
+    }
+    changes.archived = value.archived;
+  }
+  if (value.schedule !== undefined) {
+    const schedule = normalizeSchedule(value.schedule);
+    if (!schedule) {
+      return fail(
+        'schedule must be {"type":"daily"}, {"type":"weekdays","days":[...]} with days 0-6, ' +
+          'or {"type":"weekly","timesPerWeek":1-7}.',
+      );
+    }
+    changes.schedule = schedule;
+  }
+  if (value.reminders !== undefined) {
+    if (
+      !Array.isArray(value.reminders) ||
+      !value.reminders.every((time) => typeof time === "string" && CLOCK_TIME_PATTERN.test(time))
+    ) {
+      return fail('reminders must be a list of "HH:MM" times.');
+    }
+    changes.reminders = Array.from(new Set(value.reminders as string[])).sort();
+  }
+  if (value.routineId !== undefined) {
+    if (
+      value.routineId !== null &&
+      !state.routines.some((routine) => routine.id === value.routineId)
+    ) {
+      return fail("routineId must be the id of an existing routine or null.");
+    }
+    const routineId = value.routineId as string | null;
+    if (routineId !== existing?.routineId) {
+      changes.routineId = routineId;
+      changes.position = nextPosition(state.habits, routineId);
+    }
+  }
+  return { ok: true, value: changes };
+}
+
+function parseSessions(value: unknown): ApiResult<HabitSession[]> {
+  if (!Array.isArray(value)) {
+    return fail("sessions must be a list.");
+  }
+  const sessions: HabitSession[] = [];
+  for (const item of value) {
+    if (!isObject(item) || typeof item.minutes !== "number" || !Number.isFinite(item.minutes)) {
+      return fail("Each session needs a number of minutes.");
+    }
+    if (item.minutes < 0) {
+      return fail("minutes must be zero or more.");
+    }
+    if (item.startTime !== undefined && !CLOCK_TIME_PATTERN.test(String(item.startTime))) {
+      return fail('startTime must be an "HH:MM" time.');
+    }
+    if (item.note !== undefined && typeof item.note !== "string") {
+      return fail("note must be a string.");
+    }
+    const note = item.note?.trim();
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      return fail(`note must be at most ${MAX_NOTE_LENGTH} characters.`);
+    }
+    const minutes = Math.round(item.minutes);
+    if (minutes > 0) {
+      sessions.push({
+        id: createId(),
+        minutes,
+        startTime: item.startTime as string | undefined,
+        note: note || undefined,
+      });
+    }
+  }
+  return { ok: true, value: sessions };
+}
+
+/**
+ * Turns `{ logs: [...] }` into the edits that set each habit's log for `date`.
+ * Duration habits take `minutes` (one session) or `sessions`; the other kinds
+ * take `value`. Zero clears the day.
+ */
+export function parseLogUpsert(
+  value: unknown,
+  state: AppState,
+  date: string,
+  at: string,
+): ApiResult<AppAction[]> {
+  if (!isObject(value) || !Array.isArray(value.logs)) {
+    return fail('Expected {"logs": [...]}.');
+  }
+  const actions: AppAction[] = [];
+  const seen = new Set<string>();
+  for (const item of value.logs as unknown[]) {
+    if (!isObject(item) || typeof item.habitId !== "string") {
+      return fail("Each log needs a habitId.");
+    }
+    const habit = state.habits.find((candidate) => candidate.id === item.habitId);
+    if (!habit) {
+      return fail(`Unknown habit "${item.habitId}".`);
+    }
+    if (seen.has(habit.id)) {
+      return fail(`Habit "${habit.id}" appears more than once.`);
+    }
+    seen.add(habit.id);
+
+    if (habit.kind === "duration") {
+      if (item.value !== undefined) {
+        return fail(`"${habit.name}" is measured in minutes; send minutes or sessions.`);
+      }
+      if ((item.minutes === undefined) === (item.sessions === undefined)) {
+        return fail(`Send either minutes or sessions for "${habit.name}".`);
+      }
+      const sessions =
+        item.sessions !== undefined
+          ? parseSessions(item.sessions)
+          : parseSessions([{ minutes: item.minutes }]);
+      if (!sessions.ok) {
+        return sessions;
+      }
+      actions.push({
+        type: "log/replace-sessions",
+        habitId: habit.id,
+        date,
+        sessions: sessions.value,
+        at,
+      });
+      continue;
+    }
+
+    if (item.minutes !== undefined || item.sessions !== undefined) {
+      return fail(`"${habit.name}" is not timed; send value instead.`);
+    }
+    const amount = item.value === true ? 1 : item.value === false ? 0 : item.value;
+    if (!isWholeNumber(amount)) {
+      return fail("value must be a whole number of zero or more.");
+    }
+    if (habit.kind === "checkbox" && amount > 1) {
+      return fail(`"${habit.name}" is a yes/no habit; send true, false, 1 or 0.`);
+    }
+    actions.push({ type: "log/set-value", habitId: habit.id, date, value: amount, at });
+  }
+  return { ok: true, value: actions };
+}
+
+/** A new journal entry. Like the UI, it needs some text or a mood or energy rating. */
+export function parseGratitudeEntry(
+  value: unknown,
+  state: AppState,
+  at: string,
+): ApiResult<GratitudeEntry> {
+  if (!isObject(value)) {
+    return fail("Expected a JSON object.");
+  }
+  if (!isCalendarDate(value.date)) {
+    return fail('date must be a "YYYY-MM-DD" day.');
+  }
+  if (value.response !== undefined && typeof value.response !== "string") {
+    return fail("response must be a string.");
+  }
+  const response = (value.response ?? "").trim();
+  if (response.length > MAX_RESPONSE_LENGTH) {
+    return fail(`response must be at most ${MAX_RESPONSE_LENGTH} characters.`);
+  }
+  for (const field of ["mood", "energy"] as const) {
+    if (value[field] !== undefined && !isScore(value[field])) {
+      return fail(`${field} must be a whole number from 1 to 5.`);
+    }
+  }
+  const mood = value.mood as number | undefined;
+  const energy = value.energy as number | undefined;
+  if (!response && mood === undefined && energy === undefined) {
+    return fail("An entry needs a response, a mood or an energy rating.");
+  }
+  if (
+    value.tags !== undefined &&
+    !(Array.isArray(value.tags) && value.tags.every((tag) => typeof tag === "string"))
+  ) {
+    return fail("tags must be a list of strings.");
+  }
+  let prompt: { id: string; text: string } | undefined;
+  if (value.promptId !== undefined) {
+    prompt = [...state.prompts, ...BUILT_IN_PROMPTS].find((item) => item.id === value.promptId);
+    if (!prompt) {
+      return fail("promptId must be the id of a prompt in the library.");
+    }
+  }
+  return {
+    ok: true,
+    value: {
+      id: createId(),
+      date: value.date,
+      promptId: prompt?.id ?? "",
+      promptText: prompt?.text,
+      response,
+      mood,
+      energy,
+      tags: normalizeTags((value.tags as string[] | undefined) ?? []),
+      createdAt: at,
+      updatedAt: at,
+    },
+  };
+}
+
+/** Reads `start` and `end` from a query string; a range may not run past `todayKey`. */
+export function parseRange(params: URLSearchParams, todayKey: string): ApiResult<DateRange> {
+  const startKey = params.get("start");
+  const endKey = params.get("end");
+  if (!isCalendarDate(startKey) || !isCalendarDate(endKey)) {
+    return fail('start and end must be "YYYY-MM-DD" days.');
+  }
+  if (startKey > endKey) {
+    return fail("start must not come after end.");
+  }
+  if (endKey > todayKey) {
+    return fail(`end must not be after today (${todayKey}).`);
+  }
+  if (daysBetween(startKey, endKey) >= MAX_SUMMARY_RANGE_DAYS) {
+    return fail(`A range can span at most ${MAX_SUMMARY_RANGE_DAYS} days.`);
+  }
+  return { ok: true, value: { startKey, endKey } };
+}
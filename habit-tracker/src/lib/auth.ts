@@ -0,0 +1,59 @@
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/;
+
+/** What the server tells a device about the signed-in account. */
+export type AccountInfo = {
+  id: string;
+  username: string;
+  /** Decided by the server; the client only displays it. */
+  premium: boolean;
+};
+
+export type Credentials = { username: string; password: string };
+
+/** A signed-in session as returned by `/api/auth/login` and `/api/auth/register`. */
+export type SessionInfo = { token: string; expiresAt: string; account: AccountInfo };
+
+/** What an account can see about its API tokens; the token itself is shown once, when made. */
+export type ApiTokenInfo = { id: string; label: string; createdAt: string };
+
+export function normalizeUsername(username: string) {
+  return username.trim().toLowerCase();
+}
+
+/** Checks a login or sign-up body, returning the reason it is unusable or the credentials. */
+export function validateCredentials(
+  value: unknown,
+): { ok: true; credentials: Credentials } | { ok: false; error: string } {
+  if (typeof value !== "object" || value === null) {
+    return { ok: false, error: "Expected a username and password." };
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.username !== "string" || typeof item.password !== "string") {
+    return { ok: false, error: "Expected a username and password." };
+  }
+  const username = normalizeUsername(item.username);
+  if (!USERNAME_PATTERN.test(username)) {
+    return {
+      ok: false,
+      error: "Usernames are 3-32 letters, digits, dots, dashes or underscores.",
+    };
+  }
+  if (item.password.length < MIN_PASSWORD_LENGTH) {
+    return {
+      ok: false,
+      error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`,
+    };
+  }
+  if (item.password.length > MAX_PASSWORD_LENGTH) {
+    return { ok: false, error: "That password is too long." };
+  }
+  return { ok: true, credentials: { username, password: item.password } };
+}
+
+/** Reads the token from an `Authorization: Bearer …` header. */
+export function bearerToken(header: string | null): string | null {
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match ? match[1]! : null;
+}
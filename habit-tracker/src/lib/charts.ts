@@ -0,0 +1,118 @@
+import { addDays, parseDate, startOfWeek } from "./dates";
+import type { DateRange } from "./reports";
+import { scheduledDaysPerWeek } from "./schedule";
+import type { Habit, HabitLog } from "./types";
+
+/** SVG viewBox geometry shared by every chart. */
+export const CHART_WIDTH = 720;
+export const CHART_HEIGHT = 240;
+export const CHART_PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+
+/** Habit colours, as hex so they survive SVG export. */
+export const CHART_COLORS = [
+  "#34d399",
+  "#fbbf24",
+  "#38bdf8",
+  "#fb7185",
+  "#a78bfa",
+  "#a3e635",
+  "#fb923c",
+  "#2dd4bf",
+];
+
+export type ChartGranularity = "day" | "week";
+
+export type MinutesBucket = {
+  /** First day of the bucket, clipped to the range. */
+  startKey: string;
+  minutesByHabit: Record<string, number>;
+  total: number;
+};
+
+/** Rolling-average window, in buckets, for each granularity. */
+export const ROLLING_WINDOWS: Record<ChartGranularity, number> = {
+  day: 7,
+  week: 4,
+};
+
+/**
+ * Minutes per duration habit in each day or Monday-first week of `range`.
+ * Buckets with nothing logged are kept so gaps show on the chart.
+ */
+export function buildMinuteBuckets({
+  habits,
+  logs,
+  range,
+  granularity,
+}: {
+  habits: Habit[];
+  logs: HabitLog[];
+  range: DateRange;
+  granularity: ChartGranularity;
+}): MinutesBucket[] {
+  const tracked = new Set(
+    habits.filter((habit) => habit.kind === "duration").map((habit) => habit.id),
+  );
+  const bucketKey = (dateKey: string) => {
+    const key = granularity === "week" ? startOfWeek(dateKey) : dateKey;
+    return key < range.startKey ? range.startKey : key;
+  };
+
+  const buckets = new Map<string, MinutesBucket>();
+  for (
+    let key = range.startKey;
+    key <= range.endKey;
+    key = granularity === "week" ? addDays(startOfWeek(key), 7) : addDays(key, 1)
+  ) {
+    buckets.set(key, { startKey: key, minutesByHabit: {}, total: 0 });
+  }
+  for (const log of logs) {
+    if (log.date < range.startKey || log.date > range.endKey || !tracked.has(log.habitId)) {
+      continue;
+    }
+    const bucket = buckets.get(bucketKey(log.date));
+    if (bucket && log.minutes > 0) {
+      bucket.minutesByHabit[log.habitId] = (bucket.minutesByHabit[log.habitId] ?? 0) + log.minutes;
+      bucket.total += log.minutes;
+    }
+  }
+  return Array.from(buckets.values());
+}
+
+/** Trailing mean over up to `window` values, so the line starts with the first bucket. */
+export function rollingAverage(values: number[], window: number): number[] {
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+    return slice.reduce((acc, value) => acc + value, 0) / slice.length;
+  });
+}
+
+/**
+ * A duration habit's target expressed per bucket: daily targets scale up to
+ * the days scheduled in a week, weekly targets spread evenly over its days.
+ */
+export function bucketTarget(habit: Habit, granularity: ChartGranularity): number | null {
+  if (habit.kind !== "duration" || !habit.target) {
+    return null;
+  }
+  if (granularity === habit.targetPeriod) {
+    return habit.target;
+  }
+  return granularity === "week"
+    ? habit.target * scheduledDaysPerWeek(habit.schedule)
+    : habit.target / scheduledDaysPerWeek(habit.schedule);
+}
+
+export function formatBucketLabel(dateKey: string): string {
+  return parseDate(dateKey).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/** A round axis maximum at or above `value`. */
+export function niceCeiling(value: number): number {
+  if (value <= 0) {
+    return 10;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
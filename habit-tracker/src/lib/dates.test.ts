@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { addDays, dayKeyAt, daysBetween, formatClockTime, nextDayBoundary } from "./dates";
+
+const NEW_YORK = { timeZone: "America/New_York", dayStartHour: 0 };
+const TOKYO = { timeZone: "Asia/Tokyo", dayStartHour: 0 };
+const at = (iso: string) => new Date(iso);
+
+/** Asserts the bisection landed on `expected`, within its one-second precision. */
+function expectBoundary(found: Date, expected: string) {
+  const offset = found.getTime() - Date.parse(expected);
+  expect(offset).toBeGreaterThanOrEqual(0);
+  expect(offset).toBeLessThanOrEqual(1000);
+}
+
+describe("dayKeyAt", () => {
+  it("reads the date in the home zone, not the device zone", () => {
+    expect(dayKeyAt(at("2024-01-15T03:00:00Z"), NEW_YORK)).toBe("2024-01-14");
+    expect(dayKeyAt(at("2024-01-15T15:00:00Z"), TOKYO)).toBe("2024-01-16");
+    // The suite runs in UTC, which a null zone follows.
+    expect(dayKeyAt(at("2024-01-15T23:59:00Z"), { timeZone: null, dayStartHour: 0 })).toBe(
+      "2024-01-15",
+    );
+  });
+
+  it("changes key at local midnight", () => {
+    expect(dayKeyAt(at("2024-01-15T04:59:59Z"), NEW_YORK)).toBe("2024-01-14");
+    expect(dayKeyAt(at("2024-01-15T05:00:00Z"), NEW_YORK)).toBe("2024-01-15");
+    expect(dayKeyAt(at("2024-01-14T14:59:59Z"), TOKYO)).toBe("2024-01-14");
+    expect(dayKeyAt(at("2024-01-14T15:00:00Z"), TOKYO)).toBe("2024-01-15");
+  });
+
+  it("keeps hours before the day start on the previous day", () => {
+    const lateNights = { ...NEW_YORK, dayStartHour: 4 };
+    expect(dayKeyAt(at("2024-01-15T08:30:00Z"), lateNights)).toBe("2024-01-14");
+    expect(dayKeyAt(at("2024-01-15T09:00:00Z"), lateNights)).toBe("2024-01-15");
+  });
+
+  it("treats the repeated hour of a fall-back night as one day", () => {
+    // 01:30 EDT and, an hour later, 01:30 EST.
+    expect(dayKeyAt(at("2024-11-03T05:30:00Z"), NEW_YORK)).toBe("2024-11-03");
+    expect(dayKeyAt(at("2024-11-03T06:30:00Z"), NEW_YORK)).toBe("2024-11-03");
+    const startAtTwo = { ...NEW_YORK, dayStartHour: 2 };
+    expect(dayKeyAt(at("2024-11-03T05:30:00Z"), startAtTwo)).toBe("2024-11-02");
+    expect(dayKeyAt(at("2024-11-03T06:30:00Z"), startAtTwo)).toBe("2024-11-02");
+    expect(dayKeyAt(at("2024-11-03T07:00:00Z"), startAtTwo)).toBe("2024-11-03");
+  });
+});
+
+describe("nextDayBoundary", () => {
+  it("finds midnight in a zone without daylight saving", () => {
+    expectBoundary(nextDayBoundary(at("2024-03-10T12:00:00Z"), TOKYO), "2024-03-10T15:00:00Z");
+    expectBoundary(
+      nextDayBoundary(at("2024-03-10T12:00:00Z"), { ...TOKYO, dayStartHour: 5 }),
+      "2024-03-10T20:00:00Z",
+    );
+  });
+
+  it("ends a spring-forward day after 23 hours", () => {
+    // Midnight EST starts the day; midnight EDT ends it.
+    const start = at("2024-03-10T05:00:00Z");
+    const end = nextDayBoundary(start, NEW_YORK);
+    expectBoundary(end, "2024-03-11T04:00:00Z");
+    expect(Math.round((end.getTime() - start.getTime()) / 3_600_000)).toBe(23);
+  });
+
+  it("ends a fall-back day after 25 hours", () => {
+    const start = at("2024-11-03T04:00:00Z");
+    const end = nextDayBoundary(start, NEW_YORK);
+    expectBoundary(end, "2024-11-04T05:00:00Z");
+    expect(Math.round((end.getTime() - start.getTime()) / 3_600_000)).toBe(25);
+  });
+
+  it("starts the day when the clock skips past a day start hour that does not exist", () => {
+    // 02:00 never happens on 2024-03-10; the clock jumps from 01:59 EST to 03:00 EDT.
+    const startAtTwo = { ...NEW_YORK, dayStartHour: 2 };
+    expectBoundary(nextDayBoundary(at("2024-03-10T05:00:00Z"), startAtTwo), "2024-03-10T07:00:00Z");
+  });
+
+  it("lands on the instant the day key changes, as the today hook relies on", () => {
+    // The hook sleeps until the boundary and then re-reads the key.
+    let now = at("2024-03-09T18:00:00Z");
+    const keys = [dayKeyAt(now, NEW_YORK)];
+    for (let step = 0; step < 3; step += 1) {
+      now = nextDayBoundary(now, NEW_YORK);
+      expect(dayKeyAt(new Date(now.getTime() - 1000), NEW_YORK)).toBe(keys[keys.length - 1]);
+      keys.push(dayKeyAt(now, NEW_YORK));
+    }
+    expect(keys).toEqual(["2024-03-09", "2024-03-10", "2024-03-11", "2024-03-12"]);
+  });
+});
+
+describe("calendar arithmetic", () => {
+  it("steps over DST changes and leap days by whole days", () => {
+    expect(addDays("2024-03-09", 1)).toBe("2024-03-10");
+    expect(addDays("2024-03-10", 1)).toBe("2024-03-11");
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(daysBetween("2024-11-02", "2024-11-04")).toBe(2);
+    expect(daysBetween("2024-01-02", "2023-12-31")).toBe(-2);
+  });
+
+  it("formats the clock time in the home zone", () => {
+    expect(formatClockTime(at("2024-11-03T06:30:00Z"), "America/New_York")).toBe("01:30");
+    expect(formatClockTime(at("2024-11-03T06:30:00Z"), "Asia/Tokyo")).toBe("15:30");
+  });
+});
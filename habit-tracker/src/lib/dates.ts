@@ -0,0 +1,104 @@
+/** How instants map onto the user's days. */
+export type DayBoundary = {
+  /** IANA time zone; `null` follows the device. */
+  timeZone: string | null;
+  /** Hour (0-23) at which a new day starts; earlier hours still belong to the previous day. */
+  dayStartHour: number;
+};
+
+const MAX_DAY_LENGTH_MS = 27 * 3_600_000;
+
+export function formatDateKey(date: Date): string {
+  const utc = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return utc.toISOString().split("T")[0]!;
+}
+
+export function parseDate(dateString: string): Date {
+  const [year, month, day] = dateString.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Calendar arithmetic runs in UTC so DST changes never skip or repeat a day. */
+export function addDays(dateKey: string, amount: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + amount)).toISOString().slice(0, 10);
+}
+
+/** Whole days from `startKey` to `endKey`; negative when `endKey` comes first. */
+export function daysBetween(startKey: string, endKey: string): number {
+  const toUtc = (dateKey: string) => {
+    const [year, month, day] = dateKey.split("-").map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(endKey) - toUtc(startKey)) / 86_400_000);
+}
+
+/** Weeks start on Monday. */
+export function startOfWeek(dateKey: string): string {
+  const offset = (parseDate(dateKey).getDay() + 6) % 7;
+  return addDays(dateKey, -offset);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Wall-clock reading of `instant` in `timeZone` (the device zone when null). */
+function wallClock(instant: Date, timeZone: string | null) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone ?? undefined,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((entry) => entry.type === type)?.value ?? "00";
+  return {
+    dateKey: `${part("year")}-${part("month")}-${part("day")}`,
+    hour: Number(part("hour")),
+    minute: Number(part("minute")),
+  };
+}
+
+/** The day `instant` is logged against, honouring the home zone and day start hour. */
+export function dayKeyAt(instant: Date, boundary: DayBoundary): string {
+  const { dateKey, hour } = wallClock(instant, boundary.timeZone);
+  return hour < boundary.dayStartHour ? addDays(dateKey, -1) : dateKey;
+}
+
+/** `HH:MM` in the home zone. */
+export function formatClockTime(instant: Date, timeZone: string | null): string {
+  const { hour, minute } = wallClock(instant, timeZone);
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+/**
+ * The first instant after `instant` that belongs to a different day. Found by
+ * bisection rather than arithmetic so DST shifts in the zone are handled.
+ */
+export function nextDayBoundary(instant: Date, boundary: DayBoundary): Date {
+  const today = dayKeyAt(instant, boundary);
+  let low = instant.getTime();
+  let high = low + MAX_DAY_LENGTH_MS;
+  while (high - low > 1000) {
+    const middle = Math.floor((low + high) / 2);
+    if (dayKeyAt(new Date(middle), boundary) === today) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return new Date(high);
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../test/fixtures";
+import {
+  draftFromEntry,
+  emptyGratitudeDraft,
+  entriesForDay,
+  promptForDraft,
+  saveGratitudeDraft,
+} from "./gratitude";
+import { defaultState } from "./persistence";
+import { FREE_PROMPT_TEXT, promptForDate } from "./prompts";
+
+const PROMPT = { id: "p1", text: "What went well?" };
+const NOW = "2024-01-02T09:00:00.000Z";
+
+describe("saveGratitudeDraft", () => {
+  it("saves nothing from an empty new draft", () => {
+    expect(saveGratitudeDraft(emptyGratitudeDraft("2024-01-02"), PROMPT, [], NOW)).toBeNull();
+  });
+
+  it("accepts a mood rating on its own as a check-in", () => {
+    const action = saveGratitudeDraft(
+      { ...emptyGratitudeDraft("2024-01-02"), mood: 4, tags: "Family, walks" },
+      PROMPT,
+      [],
+      NOW,
+    );
+    expect(action).toMatchObject({
+      type: "gratitude/save",
+      entry: {
+        date: "2024-01-02",
+        promptId: "p1",
+        promptText: "What went well?",
+        response: "",
+        mood: 4,
+        tags: ["family", "walks"],
+        createdAt: NOW,
+      },
+    });
+  });
+
+  it("updates an edited entry in place and deletes one emptied of everything", () => {
+    const existing = entry("e1", "2024-01-01", { response: "Tea", mood: 3 });
+    const edit = saveGratitudeDraft(
+      { ...draftFromEntry(existing), text: " Coffee " },
+      PROMPT,
+      [existing],
+      NOW,
+    );
+    expect(edit).toMatchObject({
+      type: "gratitude/save",
+      entry: { id: "e1", response: "Coffee", createdAt: existing.createdAt, updatedAt: NOW },
+    });
+    const emptied = saveGratitudeDraft(
+      { ...draftFromEntry(existing), text: "", mood: undefined },
+      PROMPT,
+      [existing],
+      NOW,
+    );
+    expect(emptied).toEqual({ type: "gratitude/delete", entryId: "e1" });
+  });
+});
+
+describe("promptForDraft", () => {
+  const draft = emptyGratitudeDraft("2024-01-02");
+
+  it("suggests the day's prompt for a new entry", () => {
+    const suggested = promptForDate({ ...defaultState, dateKey: "2024-01-02" });
+    expect(promptForDraft(draft, null, defaultState)).toBe(suggested);
+  });
+
+  it("keeps the prompt an edited entry answered, as it read then", () => {
+    const answered = entry("e1", "2024-01-02", { promptId: "prompt-1", promptText: "Old words" });
+    const state = { ...defaultState, gratitude: [answered] };
+    expect(promptForDraft(draftFromEntry(answered), null, state)).toEqual({
+      id: "prompt-1",
+      text: "Old words",
+    });
+  });
+
+  it("prefers a prompt picked by hand, ignoring ones no longer in the library", () => {
+    expect(promptForDraft(draft, "prompt-4", defaultState).id).toBe("prompt-4");
+    const suggested = promptForDate({ ...defaultState, dateKey: "2024-01-02" });
+    expect(promptForDraft(draft, "gone", defaultState)).toBe(suggested);
+  });
+
+  it("falls back to a free prompt when none are enabled", () => {
+    const prompts = defaultState.prompts.map((prompt) => ({ ...prompt, enabled: false }));
+    expect(promptForDraft(draft, null, { ...defaultState, prompts })).toEqual({
+      id: "",
+      text: FREE_PROMPT_TEXT,
+    });
+  });
+});
+
+describe("entriesForDay", () => {
+  it("lists a day's entries in the order they were written", () => {
+    const gratitude = [
+      entry("late", "2024-01-02", { createdAt: "2024-01-02T20:00:00.000Z" }),
+      entry("other", "2024-01-03"),
+      entry("early", "2024-01-02", { createdAt: "2024-01-02T07:00:00.000Z" }),
+    ];
+    expect(entriesForDay(gratitude, "2024-01-02").map((item) => item.id)).toEqual([
+      "early",
+      "late",
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { AppAction } from "./actions";
+import { createId } from "./ids";
+import { FREE_PROMPT_TEXT, normalizeTags, promptForDate, resolvePromptText } from "./prompts";
+import type { AppState, GratitudeEntry, GratitudePrompt } from "./types";
+
+/** The reflection form as typed, for one day. */
+export type GratitudeDraft = {
+  date: string;
+  /** The entry being edited, or null while writing a new one. */
+  entryId: string | null;
+  text: string;
+  mood?: number;
+  energy?: number;
+  tags: string;
+};
+
+export function emptyGratitudeDraft(date: string): GratitudeDraft {
+  return { date, entryId: null, text: "", tags: "" };
+}
+
+export function draftFromEntry(entry: GratitudeEntry): GratitudeDraft {
+  return {
+    date: entry.date,
+    entryId: entry.id,
+    text: entry.response,
+    mood: entry.mood,
+    energy: entry.energy,
+    tags: entry.tags.join(", "),
+  };
+}
+
+/** A day's entries in the order they were written. */
+export function entriesForDay(gratitude: GratitudeEntry[], date: string): GratitudeEntry[] {
+  return gratitude
+    .filter((entry) => entry.date === date)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The prompt `draft` answers: one picked by hand for its day, else the prompt
+ * the edited entry answered, else the day's suggestion from the rotation.
+ */
+export function promptForDraft(
+  draft: Pick<GratitudeDraft, "date" | "entryId">,
+  pickedPromptId: string | null,
+  state: Pick<AppState, "prompts" | "gratitude" | "settings">,
+): Pick<GratitudePrompt, "id" | "text"> {
+  const picked = state.prompts.find((prompt) => prompt.id === pickedPromptId);
+  if (picked) {
+    return picked;
+  }
+  const editing = draft.entryId
+    ? state.gratitude.find((entry) => entry.id === draft.entryId)
+    : undefined;
+  if (editing) {
+    return { id: editing.promptId, text: resolvePromptText(editing, state.prompts) };
+  }
+  return (
+    promptForDate({ ...state, dateKey: draft.date }) ?? { id: "", text: FREE_PROMPT_TEXT }
+  );
+}
+
+/**
+ * The action that saves `draft` as an answer to `prompt`, or null when there is
+ * nothing to save. A mood or energy rating on its own is a valid check-in; an
+ * entry emptied of everything is deleted.
+ */
+export function saveGratitudeDraft(
+  draft: GratitudeDraft,
+  prompt: Pick<GratitudePrompt, "id" | "text">,
+  gratitude: GratitudeEntry[],
+  now: string,
+): AppAction | null {
+  const { entryId, mood, energy } = draft;
+  const response = draft.text.trim();
+  const isEmpty = !response && mood === undefined && energy === undefined;
+  const existing = entryId ? gratitude.find((entry) => entry.id === entryId) : undefined;
+  if (isEmpty) {
+    return existing ? { type: "gratitude/delete", entryId: existing.id } : null;
+  }
+  const content = {
+    promptId: prompt.id,
+    promptText: prompt.text,
+    response,
+    mood,
+    energy,
+    tags: normalizeTags(draft.tags),
+    updatedAt: now,
+  };
+  return {
+    type: "gratitude/save",
+    entry: existing
+      ? { ...existing, ...content }
+      : { id: createId(), date: draft.date, ...content, createdAt: now },
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { habit, minutesLog, routine } from "../test/fixtures";
+import {
+  changesFromDraft,
+  clampImportance,
+  countLogsByHabit,
+  createHabit,
+  draftFromHabit,
+  EMPTY_HABIT_DRAFT,
+  habitLabel,
+} from "./habits";
+
+const state = {
+  habits: [habit("run", { routineId: "am", position: 0 }), habit("read", { position: 0 })],
+  routines: [routine("am")],
+};
+
+describe("clampImportance", () => {
+  it("rounds into the 1-5 range", () => {
+    expect(clampImportance(0)).toBe(1);
+    expect(clampImportance(3.6)).toBe(4);
+    expect(clampImportance(9)).toBe(5);
+    expect(clampImportance(Number.NaN)).toBe(1);
+  });
+});
+
+describe("changesFromDraft", () => {
+  it("needs a name", () => {
+    expect(changesFromDraft({ ...EMPTY_HABIT_DRAFT, name: "  " }, state, null)).toBeNull();
+  });
+
+  it("trims text, parses the target and drops fields the kind does not use", () => {
+    const changes = changesFromDraft(
+      { ...EMPTY_HABIT_DRAFT, name: " Water ", kind: "count", unit: " glasses ", target: "8" },
+      state,
+      null,
+    );
+    expect(changes).toMatchObject({ name: "Water", unit: "glasses", target: 8 });
+    const checkbox = changesFromDraft(
+      { ...EMPTY_HABIT_DRAFT, name: "Floss", kind: "checkbox", unit: "x", target: "3" },
+      state,
+      null,
+    );
+    expect(checkbox).toMatchObject({ unit: undefined, target: undefined });
+  });
+
+  it("puts a habit last in a newly chosen routine", () => {
+    const read = state.habits[1]!;
+    const changes = changesFromDraft({ ...draftFromHabit(read), routineId: "am" }, state, read);
+    expect(changes).toMatchObject({ routineId: "am", position: 1 });
+  });
+
+  it("leaves the position alone when the routine is unchanged", () => {
+    const run = state.habits[0]!;
+    const changes = changesFromDraft(draftFromHabit(run), state, run);
+    expect(changes).not.toHaveProperty("routineId");
+    expect(changes).not.toHaveProperty("position");
+  });
+
+  it("treats a routine that no longer exists as no routine", () => {
+    const run = state.habits[0]!;
+    const changes = changesFromDraft({ ...draftFromHabit(run), routineId: "gone" }, state, run);
+    expect(changes).toMatchObject({ routineId: null, position: 1 });
+  });
+});
+
+describe("createHabit", () => {
+  it("lays changes over the defaults", () => {
+    const at = "2024-01-01T00:00:00.000Z";
+    const created = createHabit({ name: "Stretch", importance: 5 }, state.habits, at, "2023-12-31");
+    expect(created).toMatchObject({
+      name: "Stretch",
+      importance: 5,
+      kind: "duration",
+      archived: false,
+      routineId: null,
+      position: 1,
+      createdOn: "2023-12-31",
+      updatedAt: at,
+    });
+  });
+});
+
+describe("habitLabel and countLogsByHabit", () => {
+  it("name removed habits and count each habit's logged days", () => {
+    expect(habitLabel(state.habits, "gone")).toBe("Removed habit");
+    const logs = [minutesLog("run", "2024-01-01", 5), minutesLog("run", "2024-01-02", 5)];
+    expect(countLogsByHabit(logs).get("run")).toBe(2);
+  });
+});
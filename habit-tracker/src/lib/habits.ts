@@ -0,0 +1,129 @@
+import type { HabitChanges } from "./actions";
+import { createId } from "./ids";
+import { hasTarget } from "./kinds";
+import { nextPosition } from "./routines";
+import { DAILY_SCHEDULE } from "./schedule";
+import { asMinutes } from "./sessions";
+import type { AppState, Habit, HabitKind, HabitLog, HabitSchedule } from "./types";
+
+/** Routine selects use an empty value for "no routine". */
+export const NO_ROUTINE = "";
+
+/** The habit form as typed: numbers stay strings until the habit is saved. */
+export type HabitDraft = {
+  name: string;
+  importance: number;
+  kind: HabitKind;
+  unit: string;
+  target: string;
+  targetPeriod: Habit["targetPeriod"];
+  schedule: HabitSchedule;
+  reminders: string[];
+  routineId: string;
+};
+
+export const EMPTY_HABIT_DRAFT: HabitDraft = {
+  name: "",
+  importance: 3,
+  kind: "duration",
+  unit: "",
+  target: "",
+  targetPeriod: "day",
+  schedule: DAILY_SCHEDULE,
+  reminders: [],
+  routineId: NO_ROUTINE,
+};
+
+export function clampImportance(value: number): number {
+  if (Number.isNaN(value)) {
+    return 1;
+  }
+  return Math.max(1, Math.min(5, Math.round(value)));
+}
+
+/** The habit's name, or a placeholder for logs and insights that outlived it. */
+export function habitLabel(habits: Habit[], habitId: string): string {
+  return habits.find((habit) => habit.id === habitId)?.name ?? "Removed habit";
+}
+
+/** How many days each habit has a log for. */
+export function countLogsByHabit(logs: HabitLog[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const log of logs) {
+    counts.set(log.habitId, (counts.get(log.habitId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function draftFromHabit(habit: Habit): HabitDraft {
+  return {
+    name: habit.name,
+    importance: habit.importance,
+    kind: habit.kind,
+    unit: habit.unit ?? "",
+    target: habit.target ? String(habit.target) : "",
+    targetPeriod: habit.targetPeriod,
+    schedule: habit.schedule,
+    reminders: habit.reminders,
+    routineId: habit.routineId ?? NO_ROUTINE,
+  };
+}
+
+/**
+ * The changes a saved draft makes to `habit`, or to a new habit when it is null.
+ * Returns null while the draft has no name. A habit moved to another routine
+ * goes to the end of it; a routine that no longer exists means no routine.
+ */
+export function changesFromDraft(
+  draft: HabitDraft,
+  state: Pick<AppState, "habits" | "routines">,
+  habit: Habit | null,
+): HabitChanges | null {
+  const name = draft.name.trim();
+  if (!name) {
+    return null;
+  }
+  const changes: HabitChanges = {
+    name,
+    importance: clampImportance(draft.importance),
+    kind: draft.kind,
+    unit: draft.kind === "count" ? draft.unit.trim() || undefined : undefined,
+    target:
+      hasTarget(draft.kind) && draft.target ? asMinutes(draft.target) || undefined : undefined,
+    targetPeriod: draft.targetPeriod,
+    schedule: draft.schedule,
+    reminders: draft.reminders,
+  };
+  const routineId = state.routines.some((routine) => routine.id === draft.routineId)
+    ? draft.routineId
+    : null;
+  if (routineId !== habit?.routineId) {
+    changes.routineId = routineId;
+    changes.position = nextPosition(state.habits, routineId);
+  }
+  return changes;
+}
+
+/** A new habit with `changes` laid over the defaults, last in its routine, added on `today`. */
+export function createHabit(
+  changes: HabitChanges,
+  habits: Habit[],
+  at: string,
+  today: string,
+): Habit {
+  return {
+    id: createId(),
+    name: "",
+    importance: 3,
+    kind: "duration",
+    targetPeriod: "day",
+    archived: false,
+    schedule: DAILY_SCHEDULE,
+    reminders: [],
+    routineId: null,
+    position: nextPosition(habits, null),
+    ...changes,
+    createdOn: today,
+    updatedAt: at,
+  };
+}
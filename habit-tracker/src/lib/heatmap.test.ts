@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { habit, minutesLog } from "../test/fixtures";
+import { buildHeatmap } from "./heatmap";
+
+function cellsByDate(weeks: { date: string; value: number; level: number }[][]) {
+  return new Map(weeks.flat().map((cell) => [cell.date, cell]));
+}
+
+describe("buildHeatmap", () => {
+  it("pads the first and last weeks to whole Monday-first columns", () => {
+    const { weeks } = buildHeatmap({
+      habits: [habit("run")],
+      logs: [],
+      startKey: "2024-01-03",
+      endKey: "2024-01-09",
+      metric: "minutes",
+    });
+    expect(weeks.map((week) => week[0]!.date)).toEqual(["2024-01-01", "2024-01-08"]);
+    expect(weeks.flat().filter((cell) => cell.inRange)).toHaveLength(7);
+  });
+
+  it("leaves avoid habits out of completion before the day they were added", () => {
+    const { weeks } = buildHeatmap({
+      habits: [habit("sugar", { kind: "avoid", createdOn: "2024-01-05" })],
+      logs: [],
+      startKey: "2024-01-01",
+      endKey: "2024-01-07",
+      metric: "completion",
+    });
+    const cells = cellsByDate(weeks);
+    expect(cells.get("2024-01-04")).toMatchObject({ value: 0, level: 0 });
+    expect(cells.get("2024-01-05")).toMatchObject({ value: 1, level: 4 });
+  });
+
+  it("scores a day only against the habits tracked by then", () => {
+    const { weeks } = buildHeatmap({
+      habits: [habit("run"), habit("read", { createdOn: "2024-01-03" })],
+      logs: [minutesLog("run", "2024-01-02", 10), minutesLog("run", "2024-01-03", 10)],
+      startKey: "2024-01-01",
+      endKey: "2024-01-07",
+      metric: "completion",
+    });
+    const cells = cellsByDate(weeks);
+    expect(cells.get("2024-01-02")!.value).toBe(1);
+    expect(cells.get("2024-01-03")!.value).toBe(0.5);
+  });
+});
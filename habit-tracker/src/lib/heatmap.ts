@@ -0,0 +1,123 @@
+import { addDays, startOfWeek } from "./dates";
+import { logAmount, trackedSince } from "./kinds";
+import { isScheduledOn } from "./schedule";
+import { judgeHabitAmount } from "./targets";
+import type { Habit, HabitLog } from "./types";
+
+export type HeatmapMetric = "minutes" | "completion";
+
+export type HeatmapCell = {
+  date: string;
+  /** Minutes logged, or the 0-1 completion share, depending on the metric. */
+  value: number;
+  level: 0 | 1 | 2 | 3 | 4;
+  inRange: boolean;
+};
+
+function toLevel(ratio: number): HeatmapCell["level"] {
+  if (ratio <= 0) {
+    return 0;
+  }
+  return Math.min(4, Math.ceil(ratio * 4)) as HeatmapCell["level"];
+}
+
+/**
+ * Share of the day's expected effort delivered across `habits`. Weekly
+ * targets are spread evenly over the week; habits without a target count as
+ * complete on any day with something logged. Habits are left out before the
+ * day they were first tracked.
+ */
+function dayCompletion(
+  habits: Habit[],
+  sinceByHabit: Map<string, string>,
+  amountByHabit: Map<string, number>,
+  dateKey: string,
+) {
+  const scheduled = habits.filter(
+    (habit) =>
+      (sinceByHabit.get(habit.id) ?? dateKey) <= dateKey && isScheduledOn(habit.schedule, dateKey),
+  );
+  if (scheduled.length === 0) {
+    return 0;
+  }
+  const total = scheduled.reduce((acc, habit) => {
+    const amount = amountByHabit.get(habit.id) ?? 0;
+    const goal = habit.target && habit.targetPeriod === "week" ? habit.target / 7 : habit.target;
+    return acc + judgeHabitAmount(habit, amount, goal).percent / 100;
+  }, 0);
+  return total / scheduled.length;
+}
+
+/**
+ * Builds Monday-first week columns covering `startKey`..`endKey`. Cells
+ * outside the range pad the first and last weeks.
+ */
+export function buildHeatmap({
+  habits,
+  logs,
+  habitId,
+  startKey,
+  endKey,
+  metric,
+}: {
+  habits: Habit[];
+  logs: HabitLog[];
+  habitId?: string;
+  startKey: string;
+  endKey: string;
+  metric: HeatmapMetric;
+}): { weeks: HeatmapCell[][]; max: number } {
+  const tracked = habits.filter((habit) =>
+    habitId ? habit.id === habitId : !habit.archived,
+  );
+  const habitsById = new Map(habits.map((habit) => [habit.id, habit]));
+  const minutesByDate = new Map<string, number>();
+  const amountsByDate = new Map<string, Map<string, number>>();
+  for (const log of logs) {
+    if (log.date < startKey || log.date > endKey || (habitId && log.habitId !== habitId)) {
+      continue;
+    }
+    // Only duration habits log minutes; other kinds leave `minutes` at zero.
+    minutesByDate.set(log.date, (minutesByDate.get(log.date) ?? 0) + log.minutes);
+    const habit = habitsById.get(log.habitId);
+    if (habit) {
+      const byHabit = amountsByDate.get(log.date) ?? new Map<string, number>();
+      byHabit.set(log.habitId, (byHabit.get(log.habitId) ?? 0) + logAmount(habit, log));
+      amountsByDate.set(log.date, byHabit);
+    }
+  }
+
+  const sinceByHabit = new Map(tracked.map((habit) => [habit.id, trackedSince(habit, logs)]));
+  const values = new Map<string, number>();
+  for (let date = startKey; date <= endKey; date = addDays(date, 1)) {
+    values.set(
+      date,
+      metric === "minutes"
+        ? (minutesByDate.get(date) ?? 0)
+        : dayCompletion(
+            tracked,
+            sinceByHabit,
+            amountsByDate.get(date) ?? new Map<string, number>(),
+            date,
+          ),
+    );
+  }
+  const max = metric === "minutes" ? Math.max(0, ...values.values()) : 1;
+
+  const weeks: HeatmapCell[][] = [];
+  for (let week = startOfWeek(startKey); week <= endKey; week = addDays(week, 7)) {
+    const cells: HeatmapCell[] = [];
+    for (let offset = 0; offset < 7; offset += 1) {
+      const date = addDays(week, offset);
+      const value = values.get(date) ?? 0;
+      cells.push({
+        date,
+        value,
+        level: max > 0 ? toLevel(value / max) : 0,
+        inRange: date >= startKey && date <= endKey,
+      });
+    }
+    weeks.push(cells);
+  }
+  return { weeks, max };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { habit, minutesLog } from "../test/fixtures";
+import {
+  applyChanges,
+  compactChange,
+  diffStates,
+  isSuperseded,
+  parseAuditLog,
+  revertEntry,
+  serializeAuditLog,
+  writeAuditLog,
+  type AuditEntry,
+} from "./history";
+import { defaultState } from "./persistence";
+import type { AppState } from "./types";
+
+const base: AppState = {
+  ...defaultState,
+  habits: [habit("run", { target: 20 }), habit("read")],
+  logs: [minutesLog("run", "2024-01-01", 20)],
+};
+
+function entryFor(before: AppState, after: AppState): AuditEntry {
+  return {
+    id: "e1",
+    at: "2024-01-02T00:00:00.000Z",
+    summary: "Edit",
+    dates: [],
+    changes: diffStates(before, after).map(compactChange),
+  };
+}
+
+describe("compactChange", () => {
+  it("keeps only the changed fields of an edited record", () => {
+    const after = { ...base, habits: [habit("run", { target: 30, name: "Jog" }), habit("read")] };
+    expect(diffStates(base, after).map(compactChange)).toEqual([
+      {
+        collection: "habits",
+        key: "run",
+        op: "update",
+        fields: { name: { before: "run", after: "Jog" }, target: { before: 20, after: 30 } },
+      },
+    ]);
+  });
+
+  it("keeps the whole record only for the side that exists", () => {
+    const after = { ...base, habits: [habit("run", { target: 20 })], logs: [] };
+    const [removedHabit, removedLog] = diffStates(base, after).map(compactChange);
+    expect(removedHabit).toEqual({
+      collection: "habits",
+      key: "read",
+      op: "delete",
+      record: habit("read"),
+    });
+    expect(removedLog).toMatchObject({ op: "delete", key: "run|2024-01-01" });
+  });
+});
+
+describe("revertEntry", () => {
+  it("puts back edited fields without touching later edits to other fields", () => {
+    const edited = { ...base, habits: [habit("run", { target: 30 }), habit("read")] };
+    const entry = entryFor(base, edited);
+    const renamed = {
+      ...edited,
+      habits: [habit("run", { target: 30, name: "Jog" }), habit("read")],
+    };
+    const reverted = applyChanges(renamed, revertEntry(entry, renamed));
+    expect(reverted.habits[0]).toMatchObject({ name: "Jog", target: 20 });
+  });
+
+  it("removes created records and restores deleted ones", () => {
+    const after = {
+      ...base,
+      habits: [habit("run", { target: 20 }), habit("walk")],
+    };
+    const reverted = applyChanges(after, revertEntry(entryFor(base, after), after));
+    expect(reverted.habits.map((item) => item.id).sort()).toEqual(["read", "run"]);
+  });
+
+  it("has nothing to do once the change is already undone", () => {
+    const after = { ...base, habits: [habit("run", { target: 30 }), habit("read")] };
+    expect(revertEntry(entryFor(base, after), base)).toEqual([]);
+  });
+});
+
+describe("isSuperseded", () => {
+  it("notices records edited again after the entry", () => {
+    const after = { ...base, habits: [habit("run", { target: 30 }), habit("read")] };
+    const entry = entryFor(base, after);
+    expect(isSuperseded(entry, after)).toBe(false);
+    const later = { ...after, habits: [habit("run", { target: 40 }), habit("read")] };
+    expect(isSuperseded(entry, later)).toBe(true);
+    expect(isSuperseded(entry, { ...after, habits: [habit("read")] })).toBe(true);
+  });
+});
+
+describe("stored audit log", () => {
+  it("compacts entries stored with whole records", () => {
+    const after = { ...base, habits: [habit("run", { target: 30 }), habit("read")] };
+    const legacy = { ...entryFor(base, after), changes: diffStates(base, after) };
+    const [entry] = parseAuditLog(serializeAuditLog([legacy as never], 12), 12);
+    expect(entry?.changes).toEqual([
+      {
+        collection: "habits",
+        key: "run",
+        op: "update",
+        fields: { target: { before: 20, after: 30 } },
+      },
+    ]);
+    expect(parseAuditLog(serializeAuditLog([legacy as never], 11), 12)).toEqual([]);
+  });
+
+  it("drops the oldest entries until the log fits", () => {
+    const entries = Array.from({ length: 8 }, (_, index) => ({
+      ...entryFor(base, base),
+      id: `e${index}`,
+    }));
+    const written: string[] = [];
+    const kept = writeAuditLog(entries, 12, (serialized) => {
+      if (serialized.length > 500) {
+        throw new DOMException("Quota exceeded", "QuotaExceededError");
+      }
+      written.push(serialized);
+    });
+    const stored = parseAuditLog(written[0]!, 12);
+    expect(stored).toHaveLength(kept);
+    expect(kept).toBeGreaterThan(0);
+    expect(stored.map((entry) => entry.id)).toEqual(entries.slice(0, kept).map((item) => item.id));
+  });
+});
@@ -0,0 +1,306 @@
+import { gratitudeKey, habitKey, logKey, promptKey, routineKey } from "./sync";
+import type {
+  AppState,
+  GratitudeEntry,
+  GratitudePrompt,
+  Habit,
+  HabitLog,
+  Routine,
+  Settings,
+} from "./types";
+
+export const MAX_UNDO_STEPS = 50;
+export const MAX_AUDIT_ENTRIES = 100;
+
+type Collections = {
+  habits: Habit;
+  logs: HabitLog;
+  gratitude: GratitudeEntry;
+  prompts: GratitudePrompt;
+  routines: Routine;
+};
+
+/** One record before and after a change; null means it did not exist on that side. */
+export type RecordChange =
+  | {
+      [K in keyof Collections]: {
+        collection: K;
+        key: string;
+        before: Collections[K] | null;
+        after: Collections[K] | null;
+      };
+    }[keyof Collections]
+  | { collection: "settings"; key: "settings"; before: Settings; after: Settings };
+
+type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * One record change as the audit log keeps it. A record that existed on both
+ * sides keeps only the fields that changed, so edits stay small in storage.
+ */
+export type AuditChange = { collection: RecordChange["collection"]; key: string } & (
+  | { op: "create"; record: unknown }
+  | { op: "delete"; record: unknown }
+  | { op: "update"; fields: FieldChanges }
+);
+
+/** A change made on this device, as listed in the audit log. */
+export type AuditEntry = {
+  id: string;
+  at: string;
+  summary: string;
+  /** Day keys of the logs and reflections the change touched. */
+  dates: string[];
+  /** Empty for changes too large to keep, such as imports, which cannot be reverted. */
+  changes: AuditChange[];
+};
+
+const KEYS: { [K in keyof Collections]: (record: Collections[K]) => string } = {
+  habits: habitKey,
+  logs: logKey,
+  gratitude: gratitudeKey,
+  prompts: promptKey,
+  routines: routineKey,
+};
+
+/** Sync stamps `updatedAt` after the fact, so it never counts as a difference. */
+function sameRecord(a: unknown, b: unknown) {
+  const strip = (value: unknown) =>
+    typeof value === "object" && value !== null
+      ? JSON.stringify({ ...value, updatedAt: undefined })
+      : JSON.stringify(value);
+  return strip(a) === strip(b);
+}
+
+function diffCollection<K extends keyof Collections>(
+  collection: K,
+  before: Collections[K][],
+  after: Collections[K][],
+): RecordChange[] {
+  const keyOf = KEYS[collection] as (record: Collections[K]) => string;
+  const previous = new Map(before.map((record) => [keyOf(record), record]));
+  const changes: RecordChange[] = [];
+  for (const record of after) {
+    const key = keyOf(record);
+    const old = previous.get(key) ?? null;
+    previous.delete(key);
+    if (!old || !sameRecord(old, record)) {
+      changes.push({ collection, key, before: old, after: record } as RecordChange);
+    }
+  }
+  for (const [key, old] of previous) {
+    changes.push({ collection, key, before: old, after: null } as RecordChange);
+  }
+  return changes;
+}
+
+/** The records that differ between two states. Tombstones are left to sync stamping. */
+export function diffStates(before: AppState, after: AppState): RecordChange[] {
+  const changes = [
+    ...diffCollection("habits", before.habits, after.habits),
+    ...diffCollection("logs", before.logs, after.logs),
+    ...diffCollection("gratitude", before.gratitude, after.gratitude),
+    ...diffCollection("prompts", before.prompts, after.prompts),
+    ...diffCollection("routines", before.routines, after.routines),
+  ];
+  if (!sameRecord(before.settings, after.settings)) {
+    changes.push({
+      collection: "settings",
+      key: "settings",
+      before: before.settings,
+      after: after.settings,
+    });
+  }
+  return changes;
+}
+
+export function invertChanges(changes: RecordChange[]): RecordChange[] {
+  return changes.map(
+    (change) => ({ ...change, before: change.after, after: change.before }) as RecordChange,
+  );
+}
+
+function applyToCollection<K extends keyof Collections>(
+  collection: K,
+  records: Collections[K][],
+  changes: RecordChange[],
+): Collections[K][] {
+  const relevant = changes.filter((change) => change.collection === collection);
+  if (relevant.length === 0) {
+    return records;
+  }
+  const keyOf = KEYS[collection] as (record: Collections[K]) => string;
+  const byKey = new Map(records.map((record) => [keyOf(record), record]));
+  for (const change of relevant) {
+    const after = change.after as Collections[K] | null;
+    if (after) {
+      byKey.set(change.key, after);
+    } else {
+      byKey.delete(change.key);
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+/**
+ * Writes the `after` side of each change onto `state`, leaving every other
+ * record alone so edits merged in from sync in the meantime survive.
+ */
+export function applyChanges(state: AppState, changes: RecordChange[]): AppState {
+  const settings = changes.find((change) => change.collection === "settings");
+  return {
+    ...state,
+    habits: applyToCollection("habits", state.habits, changes),
+    logs: applyToCollection("logs", state.logs, changes),
+    gratitude: applyToCollection("gratitude", state.gratitude, changes),
+    prompts: applyToCollection("prompts", state.prompts, changes),
+    routines: applyToCollection("routines", state.routines, changes),
+    settings: settings ? settings.after : state.settings,
+  };
+}
+
+export function changedDates(changes: RecordChange[]): string[] {
+  const dates = new Set<string>();
+  for (const change of changes) {
+    if (change.collection === "logs" || change.collection === "gratitude") {
+      const record = change.after ?? change.before;
+      if (record) {
+        dates.add(record.date);
+      }
+    }
+  }
+  return Array.from(dates).sort();
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function compactChange(change: RecordChange): AuditChange {
+  const { collection, key, before, after } = change;
+  if (!before) {
+    return { collection, key, op: "create", record: after };
+  }
+  if (!after) {
+    return { collection, key, op: "delete", record: before };
+  }
+  const fields: FieldChanges = {};
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (field !== "updatedAt" && !sameValue(previous[field], next[field])) {
+      fields[field] = { before: previous[field], after: next[field] };
+    }
+  }
+  return { collection, key, op: "update", fields };
+}
+
+function currentRecord(state: AppState, change: AuditChange): unknown {
+  if (change.collection === "settings") {
+    return state.settings;
+  }
+  const keyOf = KEYS[change.collection] as (record: unknown) => string;
+  const records: unknown[] = state[change.collection];
+  return records.find((record) => keyOf(record) === change.key) ?? null;
+}
+
+/** Whether `current` still reads the way `change` left it. */
+function isUnchangedSince(change: AuditChange, current: unknown) {
+  if (change.op === "update") {
+    return (
+      current !== null &&
+      Object.entries(change.fields).every(([field, { after }]) =>
+        sameValue((current as Record<string, unknown>)[field], after),
+      )
+    );
+  }
+  return change.op === "create" ? current !== null && sameRecord(current, change.record) : !current;
+}
+
+/** Whether any record in `entry` was edited again afterwards, so reverting would undo more. */
+export function isSuperseded(entry: AuditEntry, state: AppState): boolean {
+  return entry.changes.some((change) => !isUnchangedSince(change, currentRecord(state, change)));
+}
+
+/**
+ * The changes that put back what `entry` replaced, read against the current
+ * state. Fields edited by an update go back on the record as it is now; a
+ * record deleted since has nothing to put them back on and is left alone.
+ */
+export function revertEntry(entry: AuditEntry, state: AppState): RecordChange[] {
+  const changes: RecordChange[] = [];
+  for (const change of entry.changes) {
+    const current = currentRecord(state, change);
+    let restored: unknown;
+    if (change.op === "create") {
+      restored = null;
+    } else if (change.op === "delete") {
+      restored = change.record;
+    } else if (current) {
+      const fields = Object.entries(change.fields).map(([field, { before }]) => [field, before]);
+      restored = { ...(current as object), ...Object.fromEntries(fields) };
+    } else {
+      continue;
+    }
+    if (!sameRecord(current, restored)) {
+      changes.push({
+        collection: change.collection,
+        key: change.key,
+        before: current,
+        after: restored,
+      } as RecordChange);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Reads a stored audit log, discarding it when it was written under another
+ * schema version. Entries from before compact changes are compacted on read.
+ */
+export function parseAuditLog(stored: string | null, schemaVersion: number): AuditEntry[] {
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(stored) as { version?: unknown; entries?: unknown };
+    if (parsed.version !== schemaVersion || !Array.isArray(parsed.entries)) {
+      return [];
+    }
+    return (parsed.entries as AuditEntry[]).map((entry) => ({
+      ...entry,
+      changes: (entry.changes as (AuditChange | RecordChange)[]).map((change) =>
+        "op" in change ? change : compactChange(change),
+      ),
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export function serializeAuditLog(entries: AuditEntry[], schemaVersion: number): string {
+  return JSON.stringify({ version: schemaVersion, entries });
+}
+
+/**
+ * Stores as much of the audit log as `write` accepts, dropping the oldest
+ * entries until it fits a full storage quota. Returns how many were kept.
+ */
+export function writeAuditLog(
+  entries: AuditEntry[],
+  schemaVersion: number,
+  write: (serialized: string) => void,
+): number {
+  let kept = entries.length;
+  for (;;) {
+    try {
+      write(serializeAuditLog(entries.slice(0, kept), schemaVersion));
+      return kept;
+    } catch (error) {
+      if (kept === 0) {
+        throw error;
+      }
+      kept -= Math.ceil(kept / 4);
+    }
+  }
+}
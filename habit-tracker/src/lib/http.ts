@@ -0,0 +1,16 @@
+/** Throws the `error` a route handler sent back with a failed response, or `fallback`. */
+export async function assertOk(response: Response, fallback: string): Promise<void> {
+  if (response.ok) {
+    return;
+  }
+  const body = (await response.json().catch(() => null)) as { error?: unknown } | null;
+  throw new Error(typeof body?.error === "string" ? body.error : fallback);
+}
+
+/**
+ * What to show for a failed request. `fetch` rejects with a TypeError when the
+ * server cannot be reached, which reads as `unreachable` instead of its own text.
+ */
+export function failureMessage(error: unknown, unreachable: string): string {
+  return error instanceof Error && !(error instanceof TypeError) ? error.message : unreachable;
+}
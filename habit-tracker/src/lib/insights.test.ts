@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLlmProvider, type InsightContext } from "./insights";
+
+const context: InsightContext = {
+  startKey: "2024-01-01",
+  endKey: "2024-01-07",
+  days: 7,
+  hasHistory: true,
+  habits: [],
+  daysLogged: 3,
+  gratitudeCount: 1,
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createLlmProvider", () => {
+  it("sends the headers it was given and keeps only valid insights", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({ insights: [{ message: " Keep going ", severity: "positive" }, { x: 1 }] }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createLlmProvider({ Authorization: "Bearer abc" });
+    expect(await provider.generate(context)).toEqual([
+      { type: "suggestion", severity: "positive", habitId: undefined, message: "Keep going" },
+    ]);
+    expect(fetchMock).toHaveBeenCalledWith("/api/insights", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer abc" },
+      body: JSON.stringify({ context }),
+    });
+  });
+
+  it("surfaces the server's error", async () => {
+    vi.stubGlobal("fetch", async () =>
+      Response.json({ error: "Premium required." }, { status: 403 }),
+    );
+    await expect(createLlmProvider().generate(context)).rejects.toThrow("Premium required.");
+    vi.stubGlobal("fetch", async () => new Response("oops", { status: 502 }));
+    await expect(createLlmProvider().generate(context)).rejects.toThrow("status 502");
+  });
+});
@@ -0,0 +1,241 @@
+import { addDays } from "./dates";
+import { assertOk } from "./http";
+import { formatAmount, isPractice } from "./kinds";
+import { computeStreaks, formatStreak, type Streak } from "./streaks";
+import { computeCompletion, type HabitCompletion } from "./targets";
+import type { AppState, HabitKind } from "./types";
+
+export type InsightType = "highlight" | "opportunity" | "consistency" | "gratitude" | "suggestion";
+
+export type InsightSeverity = "positive" | "info" | "warning";
+
+export type Insight = {
+  type: InsightType;
+  severity: InsightSeverity;
+  habitId?: string;
+  message: string;
+};
+
+export const INSIGHT_TYPES: InsightType[] = [
+  "highlight",
+  "opportunity",
+  "consistency",
+  "gratitude",
+  "suggestion",
+];
+
+export const INSIGHT_SEVERITIES: InsightSeverity[] = ["positive", "info", "warning"];
+
+/**
+ * Everything a provider may look at: per-habit aggregates for one date range
+ * rather than raw logs, so remote providers never see notes or reflections.
+ */
+export type InsightContext = {
+  startKey: string;
+  endKey: string;
+  days: number;
+  hasHistory: boolean;
+  habits: {
+    id: string;
+    name: string;
+    kind: HabitKind;
+    unit?: string;
+    importance: number;
+    practised: boolean;
+    completion: HabitCompletion;
+    streak: Streak;
+  }[];
+  daysLogged: number;
+  gratitudeCount: number;
+};
+
+export type InsightProviderId = "rules" | "llm";
+
+export interface InsightProvider {
+  readonly id: InsightProviderId;
+  readonly label: string;
+  generate(context: InsightContext): Promise<Insight[]>;
+}
+
+export function buildInsightContext(
+  state: Pick<AppState, "habits" | "logs" | "gratitude">,
+  todayKey: string,
+  days = 7,
+): InsightContext {
+  const startKey = addDays(todayKey, -(days - 1));
+  const activeHabits = state.habits.filter((habit) => !habit.archived);
+  const habitsById = new Map(state.habits.map((habit) => [habit.id, habit]));
+  const rangeLogs = state.logs.filter((log) => log.date >= startKey && log.date <= todayKey);
+  const streaks = computeStreaks(activeHabits, state.logs, todayKey);
+
+  const practised = new Set<string>();
+  const daysLogged = new Set<string>();
+  for (const log of rangeLogs) {
+    if (isPractice(habitsById.get(log.habitId), log)) {
+      practised.add(log.habitId);
+      daysLogged.add(log.date);
+    }
+  }
+
+  return {
+    startKey,
+    endKey: todayKey,
+    days,
+    hasHistory: state.logs.length > 0,
+    habits: activeHabits.map((habit) => ({
+      id: habit.id,
+      name: habit.name,
+      kind: habit.kind,
+      unit: habit.unit,
+      importance: habit.importance,
+      practised: practised.has(habit.id),
+      completion: computeCompletion(habit, state.logs, startKey, todayKey, todayKey),
+      streak: streaks.get(habit.id) ?? { current: 0, longest: 0, unit: "day" },
+    })),
+    daysLogged: daysLogged.size,
+    gratitudeCount: state.gratitude.filter(
+      (entry) =>
+        entry.date >= startKey && entry.date <= todayKey && entry.response.trim().length > 0,
+    ).length,
+  };
+}
+
+/** Identical contexts produce identical insights, so the context itself is the cache key. */
+export function insightCacheKey(providerId: InsightProviderId, context: InsightContext): string {
+  return `${providerId}:${JSON.stringify(context)}`;
+}
+
+export function validateInsight(value: unknown): Insight | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.message !== "string" || item.message.trim().length === 0) {
+    return null;
+  }
+  return {
+    type: INSIGHT_TYPES.includes(item.type as InsightType)
+      ? (item.type as InsightType)
+      : "suggestion",
+    severity: INSIGHT_SEVERITIES.includes(item.severity as InsightSeverity)
+      ? (item.severity as InsightSeverity)
+      : "info",
+    habitId: typeof item.habitId === "string" && item.habitId ? item.habitId : undefined,
+    message: item.message.trim(),
+  };
+}
+
+export function generateRuleInsights(context: InsightContext): Insight[] {
+  if (context.habits.length === 0 || !context.hasHistory) {
+    return [
+      {
+        type: "suggestion",
+        severity: "info",
+        message:
+          "Log a handful of habits and gratitude reflections to unlock a premium performance breakdown.",
+      },
+    ];
+  }
+
+  const strongest = context.habits
+    .filter((habit) => habit.kind !== "avoid" && habit.completion.amount > 0)
+    .sort(
+      (a, b) =>
+        b.completion.completionRate - a.completion.completionRate ||
+        b.completion.amount - a.completion.amount,
+    )[0];
+
+  const mostImportantUnmet = context.habits
+    .slice()
+    .sort((a, b) => b.importance - a.importance)
+    .filter((habit) => habit.kind !== "avoid" && !habit.practised)[0];
+
+  // Goals are set per week and scale with the range, so a year-end review asks for 52 weeks' worth.
+  const perWeek = (count: number) => Math.ceil((count * context.days) / 7);
+  const period = context.days === 7 ? "this week" : `over ${context.days} days`;
+
+  const reflectionTone =
+    context.gratitudeCount >= perWeek(5)
+      ? "Your gratitude practice is anchoring resilience—keep that momentum."
+      : context.gratitudeCount >= perWeek(3)
+        ? "Consider adding one more gratitude note to amplify your energy."
+        : "Sprinkle more gratitude check-ins to boost motivation.";
+
+  return [
+    strongest
+      ? {
+          type: "highlight",
+          severity: "positive",
+          habitId: strongest.id,
+          message: `"${strongest.name}" stands out with ${formatAmount(strongest, strongest.completion.amount)} logged, ${Math.round(strongest.completion.completionRate * 100)}% of its target, and a current streak of ${formatStreak(strongest.streak.current, strongest.streak.unit)}.`,
+        }
+      : {
+          type: "highlight",
+          severity: "info",
+          message: "Log your most important habits to surface highlights.",
+        },
+    mostImportantUnmet
+      ? {
+          type: "opportunity",
+          severity: "warning",
+          habitId: mostImportantUnmet.id,
+          message: `"${mostImportantUnmet.name}" ranks high in importance but needs fresh reps. Schedule micro-sessions to restart momentum.`,
+        }
+      : {
+          type: "opportunity",
+          severity: "positive",
+          message: "All high-importance habits saw activity—excellent alignment!",
+        },
+    {
+      type: "consistency",
+      severity: context.daysLogged >= perWeek(5) ? "positive" : "info",
+      message: `You recorded habits on ${context.daysLogged} of the last ${context.days} days. Aim for ${perWeek(5)}+ to reinforce identity-level change.`,
+    },
+    {
+      type: "gratitude",
+      severity: context.gratitudeCount >= perWeek(5) ? "positive" : "info",
+      message: `${context.gratitudeCount} reflections captured ${period}. ${reflectionTone}`,
+    },
+  ];
+}
+
+export const ruleBasedProvider: InsightProvider = {
+  id: "rules",
+  label: "Built-in rules",
+  generate: async (context) => generateRuleInsights(context),
+};
+
+/**
+ * Asks the server, which forwards the context to the configured chat model.
+ * `headers` carries the caller's credentials, such as the signed-in session.
+ */
+export function createLlmProvider(
+  headers: Record<string, string> = {},
+  endpoint = "/api/insights",
+): InsightProvider {
+  return {
+    id: "llm",
+    label: "Language model",
+    generate: async (context) => {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ context }),
+      });
+      await assertOk(response, `Insight request failed with status ${response.status}.`);
+      const body: unknown = await response.json().catch(() => null);
+      const items =
+        typeof body === "object" && body !== null && "insights" in body ? body.insights : null;
+      return Array.isArray(items)
+        ? items.map(validateInsight).filter((item): item is Insight => item !== null)
+        : [];
+    },
+  };
+}
+
+export function getInsightProvider(
+  id: InsightProviderId,
+  headers: Record<string, string> = {},
+): InsightProvider {
+  return id === "llm" ? createLlmProvider(headers) : ruleBasedProvider;
+}
@@ -0,0 +1,72 @@
+import type { Habit, HabitKind, HabitLog } from "./types";
+
+export const HABIT_KIND_LABELS: Record<HabitKind, string> = {
+  duration: "Duration (minutes)",
+  checkbox: "Yes / no",
+  count: "Count",
+  avoid: "Avoid",
+};
+
+type Measure = Pick<Habit, "kind" | "unit">;
+
+export function normalizeKind(value: unknown): HabitKind {
+  return value === "checkbox" || value === "count" || value === "avoid" ? value : "duration";
+}
+
+/** Only duration and count habits have a quantity worth setting a goal for. */
+export function hasTarget(kind: HabitKind): boolean {
+  return kind === "duration" || kind === "count";
+}
+
+/** The amount a log contributes for its habit's kind. */
+export function logAmount(habit: Measure, log: HabitLog): number {
+  return habit.kind === "duration" ? log.minutes : (log.value ?? 0);
+}
+
+export function formatAmount(habit: Measure, amount: number): string {
+  switch (habit.kind) {
+    case "duration":
+      return `${amount} min`;
+    case "count":
+      return `${amount} ${habit.unit || (amount === 1 ? "time" : "times")}`;
+    case "checkbox":
+      return `${amount} ${amount === 1 ? "check-in" : "check-ins"}`;
+    case "avoid":
+      return `${amount} ${amount === 1 ? "slip" : "slips"}`;
+  }
+}
+
+/** Sets the daily value of a non-duration habit, dropping the log when it returns to zero. */
+export function setLogValue(
+  logs: HabitLog[],
+  habitId: string,
+  date: string,
+  value: number,
+  updatedAt: string,
+): HabitLog[] {
+  const others = logs.filter((log) => !(log.habitId === habitId && log.date === date));
+  if (value <= 0) {
+    return others;
+  }
+  return [...others, { habitId, date, minutes: 0, sessions: [], value, updatedAt }];
+}
+
+/** Whether a log shows the habit being practised; slips of avoid habits do not count. */
+export function isPractice(habit: Measure | undefined, log: HabitLog): boolean {
+  if (!habit) {
+    return log.minutes > 0 || (log.value ?? 0) > 0;
+  }
+  return habit.kind !== "avoid" && logAmount(habit, log) > 0;
+}
+
+/**
+ * The first day a habit is judged on, and the first an avoid habit can count
+ * as clean: the day it was added, or an earlier log of its own, such as one
+ * entered for a past day.
+ */
+export function trackedSince(habit: Pick<Habit, "id" | "createdOn">, logs: HabitLog[]): string {
+  return logs.reduce(
+    (first, log) => (log.habitId === habit.id && log.date < first ? log.date : first),
+    habit.createdOn,
+  );
+}
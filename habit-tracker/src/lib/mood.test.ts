@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { entry, habit, minutesLog } from "../test/fixtures";
+import { correlateMood, formatMoodChange, summarizeMood } from "./mood";
+
+describe("summarizeMood", () => {
+  it("averages per day before averaging the range, and compares with the period before", () => {
+    const gratitude = [
+      entry("a", "2024-01-01", { mood: 2 }),
+      entry("b", "2024-01-08", { mood: 4 }),
+      entry("c", "2024-01-08", { mood: 2 }),
+      entry("d", "2024-01-09", { mood: 5, energy: 4 }),
+    ];
+    const summary = summarizeMood(gratitude, "2024-01-08", "2024-01-14");
+    expect(summary).toEqual({ averageMood: 4, averageEnergy: 4, ratedDays: 2, moodChange: 2 });
+  });
+
+  it("reports nothing for a range without ratings", () => {
+    expect(summarizeMood([entry("a", "2024-01-01")], "2024-01-01", "2024-01-07")).toEqual({
+      averageMood: null,
+      averageEnergy: null,
+      ratedDays: 0,
+      moodChange: null,
+    });
+  });
+});
+
+describe("correlateMood", () => {
+  const gratitude = [
+    entry("a", "2024-01-01", { mood: 1 }),
+    entry("b", "2024-01-02", { mood: 1 }),
+    entry("c", "2024-01-03", { mood: 4 }),
+    entry("d", "2024-01-04", { mood: 2 }),
+  ];
+
+  it("compares mood on done and skipped days", () => {
+    const logs = [minutesLog("run", "2024-01-03", 20)];
+    expect(correlateMood([habit("run")], logs, gratitude, "2024-01-01", "2024-01-07")).toEqual([
+      {
+        habitId: "run",
+        name: "run",
+        moodWhenDone: 4,
+        daysDone: 1,
+        moodWhenSkipped: 4 / 3,
+        daysSkipped: 3,
+        difference: 4 - 4 / 3,
+      },
+    ]);
+  });
+
+  it("does not judge days before a habit was added", () => {
+    const habits = [
+      habit("run", { createdOn: "2024-01-03" }),
+      habit("sugar", { kind: "avoid", createdOn: "2024-01-03" }),
+    ];
+    const logs = [minutesLog("run", "2024-01-03", 20)];
+    const [run, sugar] = correlateMood(habits, logs, gratitude, "2024-01-01", "2024-01-07");
+    expect(run).toMatchObject({ habitId: "run", daysDone: 1, daysSkipped: 1 });
+    expect(sugar).toMatchObject({ habitId: "sugar", daysDone: 2, moodWhenDone: 3 });
+  });
+});
+
+describe("formatMoodChange", () => {
+  it("shows the direction, or steady for small changes", () => {
+    expect(formatMoodChange(null)).toBe("");
+    expect(formatMoodChange(0.01)).toBe(" (steady)");
+    expect(formatMoodChange(0.44)).toBe(" (▲ 0.4)");
+    expect(formatMoodChange(-1)).toBe(" (▼ 1.0)");
+  });
+});
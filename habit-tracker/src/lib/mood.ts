@@ -0,0 +1,160 @@
+import { addDays, daysBetween } from "./dates";
+import { isPractice, logAmount, trackedSince } from "./kinds";
+import { isScheduledOn } from "./schedule";
+import type { GratitudeEntry, Habit, HabitLog } from "./types";
+
+export type Score = 1 | 2 | 3 | 4 | 5;
+
+export const SCORES: Score[] = [1, 2, 3, 4, 5];
+
+export const MOOD_LABELS: Record<Score, string> = {
+  1: "Rough",
+  2: "Low",
+  3: "Okay",
+  4: "Good",
+  5: "Great",
+};
+
+export const ENERGY_LABELS: Record<Score, string> = {
+  1: "Drained",
+  2: "Tired",
+  3: "Steady",
+  4: "Lively",
+  5: "Buzzing",
+};
+
+export type MoodSummary = {
+  averageMood: number | null;
+  averageEnergy: number | null;
+  /** Days with at least one mood rating. */
+  ratedDays: number;
+  /** Change in average mood against the period of equal length just before. */
+  moodChange: number | null;
+};
+
+export type HabitMoodCorrelation = {
+  habitId: string;
+  name: string;
+  /** Average mood on rated days the habit was done (kept clean, for avoid habits). */
+  moodWhenDone: number | null;
+  daysDone: number;
+  /** Average mood on other rated days the habit was scheduled. */
+  moodWhenSkipped: number | null;
+  daysSkipped: number;
+  difference: number | null;
+};
+
+/** A mood change as shown after an average, e.g. " (▲ 0.4)"; empty when unknown. */
+export function formatMoodChange(change: number | null): string {
+  if (change === null || Math.abs(change) < 0.05) {
+    return change === null ? "" : " (steady)";
+  }
+  return ` (${change > 0 ? "▲" : "▼"} ${Math.abs(change).toFixed(1)})`;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((acc, value) => acc + value, 0) / values.length : null;
+}
+
+/** Each day's average of `field` across its entries, for days where it was rated. */
+export function dailyScores(
+  gratitude: GratitudeEntry[],
+  field: "mood" | "energy",
+  startKey: string,
+  endKey: string,
+): Map<string, number> {
+  const byDate = new Map<string, number[]>();
+  for (const entry of gratitude) {
+    const score = entry[field];
+    if (score !== undefined && entry.date >= startKey && entry.date <= endKey) {
+      byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), score]);
+    }
+  }
+  return new Map(Array.from(byDate, ([date, scores]) => [date, average(scores)!]));
+}
+
+/** Days weigh equally, however many entries each has. */
+export function summarizeMood(
+  gratitude: GratitudeEntry[],
+  startKey: string,
+  endKey: string,
+): MoodSummary {
+  const mood = dailyScores(gratitude, "mood", startKey, endKey);
+  const energy = dailyScores(gratitude, "energy", startKey, endKey);
+  const averageMood = average(Array.from(mood.values()));
+
+  const length = daysBetween(startKey, endKey) + 1;
+  const previous = average(
+    Array.from(
+      dailyScores(gratitude, "mood", addDays(startKey, -length), addDays(startKey, -1)).values(),
+    ),
+  );
+
+  return {
+    averageMood,
+    averageEnergy: average(Array.from(energy.values())),
+    ratedDays: mood.size,
+    moodChange: averageMood !== null && previous !== null ? averageMood - previous : null,
+  };
+}
+
+function wasDone(habit: Habit, log: HabitLog | undefined): boolean {
+  if (habit.kind === "avoid") {
+    return !log || logAmount(habit, log) === 0;
+  }
+  return log !== undefined && isPractice(habit, log);
+}
+
+/**
+ * Compares average mood on days each habit was done against the other
+ * rated days it was scheduled, from the day it was first tracked. Habits with
+ * no rated days on either side are left out; the strongest positive
+ * association comes first.
+ */
+export function correlateMood(
+  habits: Habit[],
+  logs: HabitLog[],
+  gratitude: GratitudeEntry[],
+  startKey: string,
+  endKey: string,
+): HabitMoodCorrelation[] {
+  const mood = dailyScores(gratitude, "mood", startKey, endKey);
+  const logsByKey = new Map(logs.map((log) => [`${log.habitId}|${log.date}`, log]));
+
+  return habits
+    .filter((habit) => !habit.archived)
+    .map((habit) => {
+      const done: number[] = [];
+      const skipped: number[] = [];
+      const since = trackedSince(habit, logs);
+      for (const [date, score] of mood) {
+        if (date < since) {
+          continue;
+        }
+        const log = logsByKey.get(`${habit.id}|${date}`);
+        if (wasDone(habit, log) && (log || isScheduledOn(habit.schedule, date))) {
+          done.push(score);
+        } else if (isScheduledOn(habit.schedule, date)) {
+          skipped.push(score);
+        }
+      }
+      const moodWhenDone = average(done);
+      const moodWhenSkipped = average(skipped);
+      return {
+        habitId: habit.id,
+        name: habit.name,
+        moodWhenDone,
+        daysDone: done.length,
+        moodWhenSkipped,
+        daysSkipped: skipped.length,
+        difference:
+          moodWhenDone !== null && moodWhenSkipped !== null ? moodWhenDone - moodWhenSkipped : null,
+      };
+    })
+    .filter((entry) => entry.daysDone + entry.daysSkipped > 0)
+    .sort((a, b) =>
+      a.difference === null || b.difference === null
+        ? Number(a.difference === null) - Number(b.difference === null)
+        : b.difference - a.difference,
+    );
+}
@@ -0,0 +1,412 @@
+import { MAX_SUMMARY_RANGE_DAYS } from "./api";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const dateKey = { type: "string", format: "date", example: "2025-03-14" };
+const clockTime = { type: "string", pattern: "^([01]\\d|2[0-3]):[0-5]\\d$", example: "07:30" };
+const score = { type: "integer", minimum: 1, maximum: 5 };
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { "application/json": { schema: ref("Error") } },
+  };
+}
+
+function jsonResponse(description: string, properties: Record<string, unknown>) {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: { type: "object", required: Object.keys(properties), properties },
+      },
+    },
+  };
+}
+
+const unauthorized = errorResponse("No token was sent, or it is not valid.");
+const badRequest = errorResponse("The request failed validation; `error` says why.");
+
+/** Served from `/api/v1/openapi.json`. Keep it in step with `lib/api.ts` and the v1 routes. */
+export const OPENAPI_DOCUMENT = {
+  openapi: "3.1.0",
+  info: {
+    title: "Ritual Rhythm Habit Tracker API",
+    version: "1.0.0",
+    description:
+      "Read and write the habits, logs and reflections of one account on a self-hosted server. " +
+      "Changes made here reach the account's devices on their next sync. Create a token under " +
+      "Profiles & Account in the app and send it as `Authorization: Bearer <token>`.",
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    "/habits": {
+      get: {
+        summary: "List habits",
+        description: "Every habit, archived ones included, in routine order.",
+        responses: {
+          "200": jsonResponse("The habits.", { habits: { type: "array", items: ref("Habit") } }),
+          "401": unauthorized,
+        },
+      },
+      post: {
+        summary: "Create a habit",
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: ref("HabitInput") } },
+        },
+        responses: {
+          "201": jsonResponse("The new habit.", { habit: ref("Habit") }),
+          "400": badRequest,
+          "401": unauthorized,
+        },
+      },
+    },
+    "/habits/{habitId}": {
+      parameters: [{ name: "habitId", in: "path", required: true, schema: { type: "string" } }],
+      get: {
+        summary: "Get a habit",
+        responses: {
+          "200": jsonResponse("The habit.", { habit: ref("Habit") }),
+          "401": unauthorized,
+          "404": errorResponse("No habit has that id."),
+        },
+      },
+      patch: {
+        summary: "Update a habit",
+        description:
+          "Changes only the fields sent. Switching `kind` clears `unit` and `target` where " +
+          "they no longer apply.",
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: ref("HabitInput") } },
+        },
+        responses: {
+          "200": jsonResponse("The updated habit.", { habit: ref("Habit") }),
+          "400": badRequest,
+          "401": unauthorized,
+          "404": errorResponse("No habit has that id."),
+        },
+      },
+    },
+    "/logs/{date}": {
+      parameters: [{ name: "date", in: "path", required: true, schema: dateKey }],
+      get: {
+        summary: "Get the logs for a day",
+        responses: {
+          "200": jsonResponse("The day's logs.", {
+            date: dateKey,
+            logs: { type: "array", items: ref("HabitLog") },
+          }),
+          "400": badRequest,
+          "401": unauthorized,
+        },
+      },
+      put: {
+        summary: "Set the logs for a day",
+        description:
+          "Replaces the day's log of each habit sent, so repeating a request gives the same " +
+          "result. Habits left out are untouched; zero clears a habit's day.",
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: ref("LogUpsert") } },
+        },
+        responses: {
+          "200": jsonResponse("The day's logs after the change.", {
+            date: dateKey,
+            logs: { type: "array", items: ref("HabitLog") },
+          }),
+          "400": badRequest,
+          "401": unauthorized,
+        },
+      },
+    },
+    "/gratitude": {
+      post: {
+        summary: "Write a reflection",
+        description: "Adds a journal entry. A day can hold several.",
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: ref("GratitudeInput") } },
+        },
+        responses: {
+          "201": jsonResponse("The new entry.", { entry: ref("GratitudeEntry") }),
+          "400": badRequest,
+          "401": unauthorized,
+        },
+      },
+    },
+    "/summary": {
+      get: {
+        summary: "Summarize a date range",
+        description:
+          "The same figures as the report builder, for any range of whole days up to today.",
+        parameters: [
+          { name: "start", in: "query", required: true, schema: dateKey },
+          { name: "end", in: "query", required: true, schema: dateKey },
+          { name: "label", in: "query", schema: { type: "string", maxLength: 60 } },
+        ],
+        responses: {
+          "200": jsonResponse("The summary.", {
+            range: ref("DateRange"),
+            summary: ref("Summary"),
+          }),
+          "400": badRequest,
+          "401": unauthorized,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: "An API token, or the session token of a signed-in device.",
+      },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } },
+      },
+      DateRange: {
+        type: "object",
+        required: ["startKey", "endKey"],
+        properties: { startKey: dateKey, endKey: dateKey },
+      },
+      HabitSchedule: {
+        oneOf: [
+          {
+            type: "object",
+            required: ["type"],
+            properties: { type: { const: "daily" } },
+          },
+          {
+            type: "object",
+            required: ["type", "days"],
+            properties: {
+              type: { const: "weekdays" },
+              days: {
+                type: "array",
+                minItems: 1,
+                items: { type: "integer", minimum: 0, maximum: 6 },
+                description: "0 is Sunday.",
+              },
+            },
+          },
+          {
+            type: "object",
+            required: ["type", "timesPerWeek"],
+            properties: {
+              type: { const: "weekly" },
+              timesPerWeek: { type: "integer", minimum: 1, maximum: 7 },
+            },
+          },
+        ],
+      },
+      HabitInput: {
+        type: "object",
+        additionalProperties: false,
+        description:
+          "`name` is required when creating a habit; every field is optional when updating.",
+        properties: {
+          name: { type: "string", minLength: 1, maxLength: 120 },
+          importance: { ...score, default: 3 },
+          kind: { enum: ["duration", "checkbox", "count", "avoid"], default: "duration" },
+          unit: {
+            type: ["string", "null"],
+            maxLength: 24,
+            description: "What a count habit counts.",
+          },
+          target: {
+            type: ["integer", "null"],
+            minimum: 1,
+            description:
+              "Goal per targetPeriod: minutes for duration habits, units for count habits.",
+          },
+          targetPeriod: { enum: ["day", "week"], default: "day" },
+          archived: { type: "boolean", default: false },
+          schedule: ref("HabitSchedule"),
+          reminders: { type: "array", items: clockTime },
+          routineId: { type: ["string", "null"] },
+        },
+      },
+      Habit: {
+        type: "object",
+        required: [
+          "id",
+          "name",
+          "importance",
+          "kind",
+          "targetPeriod",
+          "archived",
+          "schedule",
+          "reminders",
+          "routineId",
+          "position",
+          "createdOn",
+          "updatedAt",
+        ],
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          importance: score,
+          kind: { enum: ["duration", "checkbox", "count", "avoid"] },
+          unit: { type: "string" },
+          target: { type: "integer", minimum: 1 },
+          targetPeriod: { enum: ["day", "week"] },
+          archived: { type: "boolean" },
+          schedule: ref("HabitSchedule"),
+          reminders: { type: "array", items: clockTime },
+          routineId: { type: ["string", "null"] },
+          position: { type: "integer", minimum: 0 },
+          createdOn: { ...dateKey, readOnly: true },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      HabitSession: {
+        type: "object",
+        required: ["minutes"],
+        properties: {
+          id: { type: "string", readOnly: true },
+          minutes: { type: "number", minimum: 0 },
+          startTime: clockTime,
+          note: { type: "string", maxLength: 500 },
+        },
+      },
+      HabitLog: {
+        type: "object",
+        required: ["habitId", "date", "minutes", "sessions", "updatedAt"],
+        properties: {
+          habitId: { type: "string" },
+          date: dateKey,
+          minutes: { type: "integer", minimum: 0 },
+          sessions: { type: "array", items: ref("HabitSession") },
+          value: {
+            type: "integer",
+            minimum: 1,
+            description: "The count, 1 for a ticked checkbox, or the slips of an avoid habit.",
+          },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      LogUpsert: {
+        type: "object",
+        required: ["logs"],
+        properties: {
+          logs: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["habitId"],
+              description:
+                "Duration habits take either `minutes` (logged as one session) or `sessions`. " +
+                "Checkbox, count and avoid habits take `value`.",
+              properties: {
+                habitId: { type: "string" },
+                minutes: { type: "number", minimum: 0 },
+                sessions: { type: "array", items: ref("HabitSession") },
+                value: {
+                  oneOf: [{ type: "integer", minimum: 0 }, { type: "boolean" }],
+                },
+              },
+            },
+          },
+        },
+      },
+      GratitudeInput: {
+        type: "object",
+        required: ["date"],
+        description: "Needs a response, a mood or an energy rating.",
+        properties: {
+          date: dateKey,
+          response: { type: "string", maxLength: 5000 },
+          mood: score,
+          energy: score,
+          tags: { type: "array", items: { type: "string" } },
+          promptId: { type: "string", description: "A prompt from the account's library." },
+        },
+      },
+      GratitudeEntry: {
+        type: "object",
+        required: ["id", "date", "promptId", "response", "tags", "createdAt", "updatedAt"],
+        properties: {
+          id: { type: "string" },
+          date: dateKey,
+          promptId: { type: "string" },
+          promptText: { type: "string" },
+          response: { type: "string" },
+          mood: score,
+          energy: score,
+          tags: { type: "array", items: { type: "string" } },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      Summary: {
+        type: "object",
+        description: `Ranges span at most ${MAX_SUMMARY_RANGE_DAYS} days. Rates run from 0 to 1.`,
+        properties: {
+          label: { type: "string" },
+          dateLabel: { type: "string" },
+          totalMinutes: { type: "number" },
+          averageMinutesPerHabit: { type: "number" },
+          completionRate: { type: "number" },
+          activeDays: { type: "integer" },
+          topHabit: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              amountLabel: { type: "string" },
+              completionRate: { type: "number" },
+            },
+          },
+          habitBreakdown: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                habitId: { type: "string" },
+                name: { type: "string" },
+                kind: { enum: ["duration", "checkbox", "count", "avoid"] },
+                unit: { type: "string" },
+                amount: { type: "number" },
+                completionRate: { type: "number" },
+                hitCount: { type: "integer" },
+                hitUnit: { enum: ["day", "week"] },
+                periods: { type: "integer" },
+              },
+            },
+          },
+          routineBreakdown: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                routineId: { type: "string" },
+                name: { type: "string" },
+                slot: { enum: ["morning", "midday", "afternoon", "evening", "anytime"] },
+                habitCount: { type: "integer" },
+                completionRate: { type: "number" },
+                totalMinutes: { type: "number" },
+              },
+            },
+          },
+          mood: {
+            type: "object",
+            properties: {
+              averageMood: { type: ["number", "null"] },
+              averageEnergy: { type: ["number", "null"] },
+              ratedDays: { type: "integer" },
+              moodChange: { type: ["number", "null"] },
+            },
+          },
+          suggestedFocus: { type: "string" },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,356 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  defaultSettings,
+  defaultState,
+  loadSerializedState,
+  migrateState,
+  readQuarantine,
+  serializeState,
+} from "./persistence";
+import { BUILT_IN_PROMPTS } from "./prompts";
+
+/** The unversioned format the app first shipped with. */
+const V1 = {
+  habits: [
+    { id: "run", name: "Run", importance: 4, targetMinutes: 30 },
+    { id: "read", name: "Read", importance: 2, archived: true },
+  ],
+  logs: [{ habitId: "run", date: "2024-01-01", minutes: 25 }],
+  gratitude: [{ date: "2024-01-01", promptId: "small-win", response: "Finished early" }],
+};
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+}
+
+describe("migrateState", () => {
+  it("v1 to v2 makes the archived flag explicit", () => {
+    const { state, rejected } = migrateState(V1);
+    expect(rejected).toEqual([]);
+    expect(state.habits.map((habit) => [habit.id, habit.archived])).toEqual([
+      ["run", false],
+      ["read", true],
+    ]);
+  });
+
+  it("v2 to v3 gives existing habits a daily schedule", () => {
+    const { state } = migrateState({
+      ...V1,
+      schemaVersion: 2,
+      habits: [
+        { id: "run", name: "Run", importance: 4, archived: false },
+        {
+          id: "gym",
+          name: "Gym",
+          importance: 3,
+          archived: false,
+          schedule: { type: "weekly", timesPerWeek: 2 },
+        },
+      ],
+    });
+    expect(state.habits.map((habit) => habit.schedule)).toEqual([
+      { type: "daily" },
+      { type: "weekly", timesPerWeek: 2 },
+    ]);
+  });
+
+  it("v3 to v4 keeps existing targets per day", () => {
+    const { state } = migrateState({
+      ...V1,
+      schemaVersion: 3,
+      habits: [
+        {
+          id: "run",
+          name: "Run",
+          importance: 4,
+          archived: false,
+          schedule: { type: "daily" },
+          targetMinutes: 30,
+        },
+      ],
+    });
+    expect(state.habits[0]).toMatchObject({ target: 30, targetPeriod: "day" });
+  });
+
+  it("v4 to v5 starts sync metadata with no tombstones and epoch timestamps", () => {
+    const { state, rejected } = migrateState({
+      ...V1,
+      schemaVersion: 4,
+      habits: [
+        {
+          id: "run",
+          name: "Run",
+          importance: 4,
+          archived: false,
+          schedule: { type: "daily" },
+          targetMinutes: 30,
+          targetPeriod: "day",
+        },
+      ],
+      tombstones: "none",
+    });
+    expect(rejected).toEqual([]);
+    expect(state.tombstones).toEqual([]);
+    expect(state.habits[0]?.updatedAt).toBe(new Date(0).toISOString());
+    expect(state.logs[0]?.updatedAt).toBe(new Date(0).toISOString());
+  });
+
+  it("v5 to v6 turns each day's total into one untimed session", () => {
+    const { state } = migrateState({
+      schemaVersion: 5,
+      logs: [
+        { habitId: "run", date: "2024-01-01", minutes: 25, updatedAt: "2024-01-02T00:00:00Z" },
+        { habitId: "run", date: "2024-01-02", minutes: 0 },
+      ],
+    });
+    expect(state.logs.map((log) => [log.minutes, log.sessions])).toEqual([
+      [25, [{ id: "run-2024-01-01", minutes: 25 }]],
+      [0, []],
+    ]);
+    expect(state.logs[0]?.updatedAt).toBe("2024-01-02T00:00:00Z");
+  });
+
+  it("v6 to v7 makes existing habits duration habits with a target", () => {
+    const { state } = migrateState({
+      schemaVersion: 6,
+      habits: [
+        {
+          id: "run",
+          name: "Run",
+          importance: 4,
+          archived: false,
+          schedule: { type: "daily" },
+          targetMinutes: 30,
+          targetPeriod: "week",
+        },
+      ],
+    });
+    expect(state.habits[0]).toMatchObject({ kind: "duration", target: 30, targetPeriod: "week" });
+    expect(state.habits[0]).not.toHaveProperty("targetMinutes");
+  });
+
+  it("v7 to v8 keeps days on the device zone starting at midnight", () => {
+    const { state } = migrateState({
+      schemaVersion: 7,
+      settings: { timeZone: "Asia/Tokyo", dayStartHour: 4 },
+    });
+    expect(state.settings).toEqual(defaultSettings);
+    expect(state.settings).toMatchObject({ timeZone: null, dayStartHour: 0 });
+  });
+
+  it("v8 to v9 turns reminders, the digest and quiet hours off", () => {
+    const { state } = migrateState({
+      schemaVersion: 8,
+      habits: [
+        {
+          id: "run",
+          name: "Run",
+          importance: 4,
+          kind: "duration",
+          archived: false,
+          schedule: { type: "daily" },
+        },
+      ],
+      settings: { timeZone: "Asia/Tokyo", dayStartHour: 4, updatedAt: "2024-01-02T00:00:00Z" },
+    });
+    expect(state.habits[0]?.reminders).toEqual([]);
+    expect(state.settings).toMatchObject({
+      timeZone: "Asia/Tokyo",
+      dayStartHour: 4,
+      digestTime: null,
+      quietHours: null,
+      updatedAt: "2024-01-02T00:00:00Z",
+    });
+  });
+
+  it("v9 to v10 seeds the prompt library and copies prompt text onto entries", () => {
+    const { state } = migrateState({
+      schemaVersion: 9,
+      gratitude: [
+        { date: "2024-01-01", promptId: "prompt-4", response: "Ran before work" },
+        { date: "2024-01-02", promptId: "retired", response: "Slept well" },
+      ],
+      settings: { timeZone: null, dayStartHour: 0 },
+    });
+    expect(state.prompts).toEqual(BUILT_IN_PROMPTS);
+    expect(state.gratitude.map((entry) => entry.promptText)).toEqual([
+      "Write one tiny win you celebrated today.",
+      undefined,
+    ]);
+    expect(state.settings).toMatchObject({ promptRotation: "date", promptTag: null });
+  });
+
+  it("v10 to v11 gives entries and their tombstones ids derived from the date", () => {
+    const { state } = migrateState({
+      schemaVersion: 10,
+      gratitude: [{ date: "2024-01-01", promptId: "prompt-4", response: "Ran", tags: ["x"] }],
+      tombstones: [
+        { kind: "gratitude", key: "2023-12-31", deletedAt: "2024-01-01T00:00:00Z" },
+        { kind: "habit", key: "old", deletedAt: "2024-01-01T00:00:00Z" },
+      ],
+    });
+    expect(state.gratitude[0]).toMatchObject({ id: "gratitude-2024-01-01", tags: [] });
+    expect(state.tombstones.map((tombstone) => tombstone.key)).toEqual([
+      "gratitude-2023-12-31",
+      "old",
+    ]);
+  });
+
+  it("v11 to v12 leaves habits ungrouped, positioned in their old listing order", () => {
+    const daily = { archived: false, schedule: { type: "daily" } };
+    const { state } = migrateState({
+      schemaVersion: 11,
+      habits: [
+        { ...daily, id: "walk", name: "Walk", importance: 2 },
+        { ...daily, id: "run", name: "Run", importance: 4 },
+        { ...daily, id: "floss", name: "Floss", importance: 2, routineId: "stale" },
+      ],
+      routines: [{ id: "stale", name: "Stale" }],
+    });
+    expect(state.routines).toEqual([]);
+    expect(state.habits.map((habit) => [habit.id, habit.routineId, habit.position])).toEqual([
+      ["walk", null, 2],
+      ["run", null, 0],
+      ["floss", null, 1],
+    ]);
+  });
+
+  it("v12 to v13 dates each habit from its own earliest log", () => {
+    vi.useFakeTimers({ now: new Date("2024-05-01T12:00:00Z") });
+    const daily = { archived: false, schedule: { type: "daily" } };
+    const { state } = migrateState({
+      schemaVersion: 12,
+      habits: [
+        { ...daily, id: "run", name: "Run", importance: 3 },
+        { ...daily, id: "sugar", name: "Sugar", importance: 3, kind: "avoid" },
+      ],
+      logs: [
+        { habitId: "run", date: "2024-02-10", minutes: 20, sessions: [] },
+        { habitId: "run", date: "2024-01-15", minutes: 20, sessions: [] },
+      ],
+    });
+    vi.useRealTimers();
+    expect(state.habits.map((habit) => [habit.id, habit.createdOn])).toEqual([
+      ["run", "2024-01-15"],
+      ["sugar", "2024-05-01"],
+    ]);
+  });
+
+  it("dates habits without any logs by the home zone's day, after the day start hour", () => {
+    vi.useFakeTimers({ now: new Date("2024-05-01T03:00:00Z") });
+    const habits = [{ id: "sugar", name: "Sugar", importance: 3, schedule: { type: "daily" } }];
+    const newYork = migrateState({
+      schemaVersion: 12,
+      habits,
+      settings: { timeZone: "America/New_York", dayStartHour: 0 },
+    });
+    const lateStart = migrateState({
+      schemaVersion: 12,
+      habits,
+      settings: { timeZone: "UTC", dayStartHour: 7 },
+    });
+    vi.useRealTimers();
+    expect(newYork.state.habits[0]!.createdOn).toBe("2024-04-30");
+    expect(lateStart.state.habits[0]!.createdOn).toBe("2024-04-30");
+  });
+
+  it("brings an unversioned payload all the way to the current schema", () => {
+    const { state } = migrateState(V1);
+    expect(state.habits).toHaveLength(2);
+    expect(state.logs).toHaveLength(1);
+    expect(state.gratitude).toHaveLength(1);
+    expect(migrateState(JSON.parse(serializeState(state)))).toEqual({ state, rejected: [] });
+  });
+
+  it("refuses versions it does not know", () => {
+    expect(() => migrateState({ ...V1, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(
+      /newer than supported/,
+    );
+    expect(() => migrateState({ ...V1, schemaVersion: 0 })).toThrow(/Unrecognised/);
+    expect(() => migrateState({ ...V1, schemaVersion: "2" })).toThrow(/Unrecognised/);
+    expect(() => migrateState([])).toThrow(/not an object/);
+  });
+
+  it("drops invalid records and hands them back", () => {
+    const { state, rejected } = migrateState({
+      ...V1,
+      habits: [...V1.habits, { id: "", name: "No id", importance: 1 }],
+      logs: [...V1.logs, { habitId: "run", date: "yesterday", minutes: 5 }],
+    });
+    expect(state.habits).toHaveLength(2);
+    expect(state.logs).toHaveLength(1);
+    expect(rejected).toEqual([
+      expect.objectContaining({ id: "", name: "No id" }),
+      expect.objectContaining({ habitId: "run", date: "yesterday" }),
+    ]);
+  });
+});
+
+describe("loadSerializedState", () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = memoryStorage();
+    vi.stubGlobal("window", { localStorage: storage });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("starts fresh when nothing is stored", () => {
+    expect(loadSerializedState(null)).toEqual({ state: defaultState, warnings: [] });
+    expect(readQuarantine(storage)).toEqual([]);
+  });
+
+  it("quarantines a payload that is not JSON", () => {
+    const result = loadSerializedState("{not json");
+    expect(result.state).toBe(defaultState);
+    expect(result.warnings).toHaveLength(1);
+    expect(readQuarantine(storage)).toEqual([
+      expect.objectContaining({ reason: "Stored state is not valid JSON.", payload: "{not json" }),
+    ]);
+  });
+
+  it("quarantines the whole payload when it cannot be migrated", () => {
+    const stored = JSON.stringify({ ...V1, schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+    const result = loadSerializedState(stored);
+    expect(result.state).toBe(defaultState);
+    expect(readQuarantine(storage)[0]).toMatchObject({ payload: stored });
+    expect(readQuarantine(storage)[0]?.reason).toMatch(/newer than supported/);
+  });
+
+  it("keeps the valid records and quarantines only the invalid ones", () => {
+    const bad = { habitId: "run", date: "yesterday", minutes: 5 };
+    const result = loadSerializedState(JSON.stringify({ ...V1, logs: [...V1.logs, bad] }));
+    expect(result.state.habits).toHaveLength(2);
+    expect(result.warnings).toEqual(["1 saved record was invalid and moved to a backup slot."]);
+    const [entry] = readQuarantine(storage);
+    expect(entry?.reason).toBe("1 invalid records dropped.");
+    expect(JSON.parse(entry!.payload)).toEqual([expect.objectContaining(bad)]);
+  });
+
+  it("keeps only the most recent quarantined payloads", () => {
+    for (let attempt = 0; attempt < 7; attempt += 1) {
+      loadSerializedState(`broken ${attempt}`);
+    }
+    expect(readQuarantine(storage).map((entry) => entry.payload)).toEqual([
+      "broken 2",
+      "broken 3",
+      "broken 4",
+      "broken 5",
+      "broken 6",
+    ]);
+  });
+});
@@ -0,0 +1,595 @@
+import { dayKeyAt, isValidTimeZone } from "./dates";
+import { clampImportance } from "./habits";
+import { hasTarget, normalizeKind } from "./kinds";
+import { profileKey } from "./profiles";
+import { BUILT_IN_PROMPTS, normalizeTags } from "./prompts";
+import { ROUTINE_SLOTS } from "./routines";
+import { DAILY_SCHEDULE, normalizeSchedule } from "./schedule";
+import { sumSessions } from "./sessions";
+import type {
+  AppState,
+  GratitudeEntry,
+  GratitudePrompt,
+  Habit,
+  HabitLog,
+  HabitSession,
+  QuietHours,
+  Routine,
+  RoutineSlot,
+  Settings,
+  Tombstone,
+} from "./types";
+
+export const STORAGE_KEY = "habit-tracker-state-v1";
+export const QUARANTINE_KEY = "habit-tracker-state-quarantine";
+export const CURRENT_SCHEMA_VERSION = 13;
+/** Field formats and limits shared with the API validators. */
+export const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const CLOCK_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const MAX_NOTE_LENGTH = 500;
+export const MAX_UNIT_LENGTH = 24;
+
+const MAX_QUARANTINED_PAYLOADS = 5;
+const EPOCH = new Date(0).toISOString();
+const MAX_PROMPT_LENGTH = 200;
+const MAX_ROUTINE_NAME_LENGTH = 40;
+
+export type PersistedState = AppState & { schemaVersion: number };
+
+export type QuarantinedPayload = {
+  quarantinedAt: string;
+  reason: string;
+  payload: string;
+};
+
+export type LoadResult = {
+  state: AppState;
+  warnings: string[];
+};
+
+type UnknownRecord = Record<string, unknown>;
+type Migration = (state: UnknownRecord) => UnknownRecord;
+
+export const defaultSettings: Settings = {
+  timeZone: null,
+  dayStartHour: 0,
+  digestTime: null,
+  quietHours: null,
+  promptRotation: "date",
+  promptTag: null,
+  updatedAt: EPOCH,
+};
+
+export const defaultState: AppState = {
+  habits: [],
+  logs: [],
+  gratitude: [],
+  prompts: BUILT_IN_PROMPTS,
+  routines: [],
+  tombstones: [],
+  settings: defaultSettings,
+  premium: false,
+};
+
+/**
+ * Ordered migration chain. The entry keyed `n` upgrades a payload from schema
+ * version `n` to `n + 1`; every change to the persisted model adds one here.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v2 makes the archived flag explicit on every habit.
+  1: (state) => ({
+    ...state,
+    habits: asArray(state.habits).map((habit) =>
+      isRecord(habit) ? { ...habit, archived: habit.archived === true } : habit,
+    ),
+  }),
+  // v3 adds a schedule to every habit; existing habits were implicitly daily.
+  2: (state) => ({
+    ...state,
+    habits: asArray(state.habits).map((habit) =>
+      isRecord(habit) ? { ...habit, schedule: habit.schedule ?? DAILY_SCHEDULE } : habit,
+    ),
+  }),
+  // v4 adds weekly targets; existing targets were per day.
+  3: (state) => ({
+    ...state,
+    habits: asArray(state.habits).map((habit) =>
+      isRecord(habit) ? { ...habit, targetPeriod: habit.targetPeriod ?? "day" } : habit,
+    ),
+  }),
+  // v5 adds sync metadata: per-record timestamps (filled in on validation) and tombstones.
+  4: (state) => ({ ...state, tombstones: [] }),
+  // v6 splits each day's log into sessions; the old total becomes a single untimed session.
+  5: (state) => ({
+    ...state,
+    logs: asArray(state.logs).map((log) =>
+      isRecord(log) ? { ...log, sessions: legacySessions(log) } : log,
+    ),
+  }),
+  // v7 adds habit kinds; every existing habit measured minutes, and its target moves to `target`.
+  6: (state) => ({
+    ...state,
+    habits: asArray(state.habits).map((habit) => {
+      if (!isRecord(habit)) {
+        return habit;
+      }
+      const { targetMinutes, ...rest } = habit;
+      return { ...rest, kind: "duration", target: targetMinutes };
+    }),
+  }),
+  // v8 adds day settings; days used to follow the device zone and start at midnight.
+  7: (state) => ({ ...state, settings: defaultSettings }),
+  // v9 adds per-habit reminders plus digest and quiet-hours settings, all off by default.
+  8: (state) => ({
+    ...state,
+    habits: asArray(state.habits).map((habit) =>
+      isRecord(habit) ? { ...habit, reminders: [] } : habit,
+    ),
+    settings: isRecord(state.settings)
+      ? { ...state.settings, digestTime: null, quietHours: null }
+      : state.settings,
+  }),
+  // v10 moves gratitude prompts into an editable library seeded with the old fixed list, and
+  // copies each prompt's text onto the entries that answered it.
+  9: (state) => ({
+    ...state,
+    prompts: BUILT_IN_PROMPTS,
+    gratitude: asArray(state.gratitude).map((entry) =>
+      isRecord(entry)
+        ? {
+            ...entry,
+            promptText: BUILT_IN_PROMPTS.find((prompt) => prompt.id === entry.promptId)?.text,
+          }
+        : entry,
+    ),
+    settings: isRecord(state.settings)
+      ? { ...state.settings, promptRotation: "date", promptTag: null }
+      : state.settings,
+  }),
+  // v11 allows several gratitude entries per day, so entries gain ids and are no longer keyed
+  // by date. Existing entries and their tombstones take the id the validator derives from the date.
+  10: (state) => ({
+    ...state,
+    gratitude: asArray(state.gratitude).map((entry) =>
+      isRecord(entry) ? { ...entry, id: legacyGratitudeId(entry.date), tags: [] } : entry,
+    ),
+    tombstones: asArray(state.tombstones).map((tombstone) =>
+      isRecord(tombstone) && tombstone.kind === "gratitude"
+        ? { ...tombstone, key: legacyGratitudeId(tombstone.key) }
+        : tombstone,
+    ),
+  }),
+  // v12 adds routines. Habits start ungrouped, positioned in the importance-then-name order
+  // they used to be listed in.
+  11: (state) => {
+    const habits = asArray(state.habits);
+    const ordered = habits
+      .filter(isRecord)
+      .slice()
+      .sort(
+        (a, b) =>
+          Number(b.importance) - Number(a.importance) ||
+          String(a.name).localeCompare(String(b.name)),
+      );
+    return {
+      ...state,
+      routines: [],
+      habits: habits.map((habit) =>
+        isRecord(habit) ? { ...habit, routineId: null, position: ordered.indexOf(habit) } : habit,
+      ),
+    };
+  },
+  // v13 records the day each habit was added. Existing habits take their earliest log; the
+  // validator dates those never logged from the day they are loaded.
+  12: (state) => {
+    const firstLogs = new Map<unknown, string>();
+    for (const log of asArray(state.logs)) {
+      if (isRecord(log) && isDateKey(log.date)) {
+        const first = firstLogs.get(log.habitId);
+        if (!first || log.date < first) {
+          firstLogs.set(log.habitId, log.date);
+        }
+      }
+    }
+    return {
+      ...state,
+      habits: asArray(state.habits).map((habit) =>
+        isRecord(habit) && firstLogs.has(habit.id)
+          ? { ...habit, createdOn: firstLogs.get(habit.id) }
+          : habit,
+      ),
+    };
+  },
+};
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isDateKey(value: unknown): value is string {
+  return typeof value === "string" && DATE_KEY_PATTERN.test(value);
+}
+
+function isClockTime(value: unknown): value is string {
+  return typeof value === "string" && CLOCK_TIME_PATTERN.test(value);
+}
+
+function timestampOf(value: unknown): string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value)) ? value : EPOCH;
+}
+
+/** `today` stands in for `createdOn` on habits saved before it was recorded. */
+export function validateHabit(value: unknown, today: string): Habit | null {
+  if (!isRecord(value) || typeof value.id !== "string" || value.id.length === 0) {
+    return null;
+  }
+  if (typeof value.name !== "string" || value.name.trim().length === 0) {
+    return null;
+  }
+  const importance = Number(value.importance);
+  if (!Number.isFinite(importance)) {
+    return null;
+  }
+  const schedule = normalizeSchedule(value.schedule);
+  if (!schedule) {
+    return null;
+  }
+  const kind = normalizeKind(value.kind);
+  const target =
+    hasTarget(kind) && typeof value.target === "number" && value.target > 0
+      ? Math.round(value.target)
+      : undefined;
+  const unit =
+    kind === "count" && typeof value.unit === "string"
+      ? value.unit.trim().slice(0, MAX_UNIT_LENGTH)
+      : "";
+  return {
+    id: value.id,
+    name: value.name.trim(),
+    importance: clampImportance(importance),
+    kind,
+    unit: unit || undefined,
+    target,
+    targetPeriod: value.targetPeriod === "week" ? "week" : "day",
+    archived: value.archived === true,
+    schedule,
+    reminders: Array.from(new Set(asArray(value.reminders).filter(isClockTime))).sort(),
+    routineId:
+      typeof value.routineId === "string" && value.routineId.length > 0 ? value.routineId : null,
+    position:
+      typeof value.position === "number" && Number.isInteger(value.position) && value.position >= 0
+        ? value.position
+        : 0,
+    createdOn: isDateKey(value.createdOn) ? value.createdOn : today,
+    updatedAt: timestampOf(value.updatedAt),
+  };
+}
+
+/** A log stored as a bare total becomes one session without a start time. */
+function legacySessions(log: UnknownRecord): HabitSession[] {
+  const minutes = typeof log.minutes === "number" && log.minutes > 0 ? Math.round(log.minutes) : 0;
+  return minutes > 0 ? [{ id: `${String(log.habitId)}-${String(log.date)}`, minutes }] : [];
+}
+
+export function validateSession(value: unknown): HabitSession | null {
+  if (!isRecord(value) || typeof value.id !== "string" || value.id.length === 0) {
+    return null;
+  }
+  if (typeof value.minutes !== "number" || !Number.isFinite(value.minutes) || value.minutes < 0) {
+    return null;
+  }
+  const note = typeof value.note === "string" ? value.note.trim().slice(0, MAX_NOTE_LENGTH) : "";
+  return {
+    id: value.id,
+    minutes: Math.round(value.minutes),
+    startTime: isClockTime(value.startTime) ? value.startTime : undefined,
+    note: note || undefined,
+  };
+}
+
+export function validateHabitLog(value: unknown): HabitLog | null {
+  if (!isRecord(value) || typeof value.habitId !== "string" || !isDateKey(value.date)) {
+    return null;
+  }
+  let sessions: HabitSession[];
+  if (Array.isArray(value.sessions)) {
+    sessions = value.sessions
+      .map(validateSession)
+      .filter((session): session is HabitSession => session !== null);
+  } else if (
+    typeof value.minutes === "number" &&
+    Number.isFinite(value.minutes) &&
+    value.minutes >= 0
+  ) {
+    // Flat imports (CSV) carry only the day's total.
+    sessions = legacySessions(value);
+  } else if (typeof value.value !== "number") {
+    return null;
+  } else {
+    sessions = [];
+  }
+  const amount =
+    typeof value.value === "number" && Number.isFinite(value.value) && value.value > 0
+      ? Math.round(value.value)
+      : undefined;
+  return {
+    habitId: value.habitId,
+    date: value.date,
+    minutes: sumSessions(sessions),
+    sessions,
+    value: amount,
+    updatedAt: timestampOf(value.updatedAt),
+  };
+}
+
+/** Entries from when a day held a single reflection are identified by their date. */
+function legacyGratitudeId(date: unknown): string {
+  return `gratitude-${String(date)}`;
+}
+
+function scoreOf(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5
+    ? value
+    : undefined;
+}
+
+export function validateGratitudeEntry(value: unknown): GratitudeEntry | null {
+  if (!isRecord(value) || !isDateKey(value.date) || typeof value.response !== "string") {
+    return null;
+  }
+  const promptText = typeof value.promptText === "string" ? value.promptText.trim() : "";
+  return {
+    id:
+      typeof value.id === "string" && value.id.length > 0 ? value.id : legacyGratitudeId(value.date),
+    date: value.date,
+    promptId: typeof value.promptId === "string" ? value.promptId : "",
+    promptText: promptText || undefined,
+    response: value.response,
+    mood: scoreOf(value.mood),
+    energy: scoreOf(value.energy),
+    tags: normalizeTags(asArray(value.tags)),
+    createdAt: timestampOf(value.createdAt ?? value.updatedAt),
+    updatedAt: timestampOf(value.updatedAt),
+  };
+}
+
+export function validatePrompt(value: unknown): GratitudePrompt | null {
+  if (!isRecord(value) || typeof value.id !== "string" || value.id.length === 0) {
+    return null;
+  }
+  if (typeof value.text !== "string" || value.text.trim().length === 0) {
+    return null;
+  }
+  return {
+    id: value.id,
+    text: value.text.trim().slice(0, MAX_PROMPT_LENGTH),
+    tags: normalizeTags(asArray(value.tags)),
+    enabled: value.enabled !== false,
+    updatedAt: timestampOf(value.updatedAt),
+  };
+}
+
+export function validateRoutine(value: unknown): Routine | null {
+  if (!isRecord(value) || typeof value.id !== "string" || value.id.length === 0) {
+    return null;
+  }
+  if (typeof value.name !== "string" || value.name.trim().length === 0) {
+    return null;
+  }
+  return {
+    id: value.id,
+    name: value.name.trim().slice(0, MAX_ROUTINE_NAME_LENGTH),
+    slot: ROUTINE_SLOTS.includes(value.slot as RoutineSlot)
+      ? (value.slot as RoutineSlot)
+      : "anytime",
+    updatedAt: timestampOf(value.updatedAt),
+  };
+}
+
+function validateQuietHours(value: unknown): QuietHours | null {
+  if (!isRecord(value) || !isClockTime(value.start) || !isClockTime(value.end)) {
+    return null;
+  }
+  return value.start === value.end ? null : { start: value.start, end: value.end };
+}
+
+/** Invalid fields fall back to their defaults rather than rejecting the whole record. */
+export function validateSettings(value: unknown): Settings {
+  if (!isRecord(value)) {
+    return defaultSettings;
+  }
+  const hour = Number(value.dayStartHour);
+  return {
+    timeZone:
+      typeof value.timeZone === "string" && isValidTimeZone(value.timeZone)
+        ? value.timeZone
+        : null,
+    dayStartHour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 0,
+    digestTime: isClockTime(value.digestTime) ? value.digestTime : null,
+    quietHours: validateQuietHours(value.quietHours),
+    promptRotation:
+      value.promptRotation === "shuffle" || value.promptRotation === "manual"
+        ? value.promptRotation
+        : "date",
+    promptTag: typeof value.promptTag === "string" ? (normalizeTags([value.promptTag])[0] ?? null) : null,
+    updatedAt: timestampOf(value.updatedAt),
+  };
+}
+
+export function validateTombstone(value: unknown): Tombstone | null {
+  if (
+    !isRecord(value) ||
+    (value.kind !== "habit" &&
+      value.kind !== "log" &&
+      value.kind !== "gratitude" &&
+      value.kind !== "prompt" &&
+      value.kind !== "routine") ||
+    typeof value.key !== "string" ||
+    typeof value.deletedAt !== "string" ||
+    Number.isNaN(Date.parse(value.deletedAt))
+  ) {
+    return null;
+  }
+  return { kind: value.kind, key: value.key, deletedAt: value.deletedAt };
+}
+
+function validateAll<T>(values: unknown[], validate: (value: unknown) => T | null) {
+  const valid: T[] = [];
+  const rejected: unknown[] = [];
+  for (const value of values) {
+    const record = validate(value);
+    if (record) {
+      valid.push(record);
+    } else {
+      rejected.push(value);
+    }
+  }
+  return { valid, rejected };
+}
+
+/**
+ * Brings a parsed payload of any known schema version up to the current one.
+ * Payloads without a version are the original unversioned v1 format.
+ */
+export function migrateState(payload: unknown): { state: AppState; rejected: unknown[] } {
+  if (!isRecord(payload)) {
+    throw new Error("Stored state is not an object.");
+  }
+  const storedVersion = payload.schemaVersion ?? 1;
+  if (typeof storedVersion !== "number" || !Number.isInteger(storedVersion) || storedVersion < 1) {
+    throw new Error(`Unrecognised schema version: ${String(storedVersion)}.`);
+  }
+  if (storedVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored state uses schema v${storedVersion}, newer than supported v${CURRENT_SCHEMA_VERSION}.`,
+    );
+  }
+
+  let migrated = payload;
+  for (let version = storedVersion; version < CURRENT_SCHEMA_VERSION; version += 1) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`Missing migration from schema v${version}.`);
+    }
+    migrated = migration(migrated);
+  }
+
+  const settings = validateSettings(migrated.settings);
+  const today = dayKeyAt(new Date(), settings);
+  const habits = validateAll(asArray(migrated.habits), (value) => validateHabit(value, today));
+  const logs = validateAll(asArray(migrated.logs), validateHabitLog);
+  const gratitude = validateAll(asArray(migrated.gratitude), validateGratitudeEntry);
+  const prompts = validateAll(asArray(migrated.prompts), validatePrompt);
+  const routines = validateAll(asArray(migrated.routines), validateRoutine);
+  const tombstones = validateAll(asArray(migrated.tombstones), validateTombstone);
+
+  return {
+    state: {
+      habits: habits.valid,
+      logs: logs.valid,
+      gratitude: gratitude.valid,
+      prompts: prompts.valid,
+      routines: routines.valid,
+      tombstones: tombstones.valid,
+      settings,
+      premium: typeof migrated.premium === "boolean" ? migrated.premium : false,
+    },
+    rejected: [
+      ...habits.rejected,
+      ...logs.rejected,
+      ...gratitude.rejected,
+      ...prompts.rejected,
+      ...routines.rejected,
+      ...tombstones.rejected,
+    ],
+  };
+}
+
+export function serializeState(state: AppState): string {
+  const persisted: PersistedState = { schemaVersion: CURRENT_SCHEMA_VERSION, ...state };
+  return JSON.stringify(persisted);
+}
+
+export function readQuarantine(storage: Storage): QuarantinedPayload[] {
+  try {
+    const parsed: unknown = JSON.parse(storage.getItem(QUARANTINE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? (parsed as QuarantinedPayload[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function quarantine(storage: Storage | null, reason: string, payload: string) {
+  if (!storage) {
+    return;
+  }
+  const entries = [
+    ...readQuarantine(storage),
+    { quarantinedAt: new Date().toISOString(), reason, payload },
+  ].slice(-MAX_QUARANTINED_PAYLOADS);
+  try {
+    storage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage is full; the original payload is still in place until the next write.
+  }
+}
+
+/**
+ * Parses and migrates a serialized state from any backend. Anything that
+ * cannot be used is copied to the localStorage quarantine slot first.
+ */
+export function loadSerializedState(stored: string | null | undefined): LoadResult {
+  if (!stored) {
+    return { state: defaultState, warnings: [] };
+  }
+  const storage = typeof window === "undefined" ? null : window.localStorage;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    quarantine(storage, "Stored state is not valid JSON.", stored);
+    return {
+      state: defaultState,
+      warnings: ["Saved data could not be read and was moved to a backup slot."],
+    };
+  }
+
+  try {
+    const { state, rejected } = migrateState(parsed);
+    if (rejected.length === 0) {
+      return { state, warnings: [] };
+    }
+    quarantine(storage, `${rejected.length} invalid records dropped.`, JSON.stringify(rejected));
+    return {
+      state,
+      warnings: [
+        `${rejected.length} saved ${rejected.length === 1 ? "record was" : "records were"} invalid and moved to a backup slot.`,
+      ],
+    };
+  } catch (error) {
+    quarantine(storage, error instanceof Error ? error.message : "Migration failed.", stored);
+    return {
+      state: defaultState,
+      warnings: ["Saved data could not be upgraded and was moved to a backup slot."],
+    };
+  }
+}
+
+export function readStateFromStorage(): LoadResult {
+  if (typeof window === "undefined") {
+    return { state: defaultState, warnings: [] };
+  }
+  return loadSerializedState(window.localStorage.getItem(profileKey(STORAGE_KEY)));
+}
+
+export function writeStateToStorage(state: AppState) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.setItem(profileKey(STORAGE_KEY), serializeState(state));
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { addProfile, canSignIn, profileKey, readProfiles, type Profile } from "./profiles";
+
+const profile = (owner: Profile["owner"]): Profile => ({
+  id: "p1",
+  name: "Sam",
+  session: null,
+  owner,
+});
+
+describe("canSignIn", () => {
+  it("lets any account claim a new profile", () => {
+    expect(canSignIn(profile(null), { id: "a", username: "amy" })).toBe(true);
+  });
+
+  it("keeps a signed-out profile for the account whose data it holds", () => {
+    const owned = profile({ id: "a", username: "amy" });
+    expect(canSignIn(owned, { id: "a", username: "amy" })).toBe(true);
+    expect(canSignIn(owned, { id: "b", username: "bob" })).toBe(false);
+  });
+});
+
+describe("profile registry", () => {
+  it("adds unowned profiles with scoped storage keys", () => {
+    const registry = addProfile(readProfiles(), "  Guest  ");
+    const guest = registry.profiles[1]!;
+    expect(guest).toMatchObject({ name: "Guest", session: null, owner: null });
+    expect(profileKey("habit-tracker-timers", guest.id)).toBe(`habit-tracker-timers:${guest.id}`);
+    expect(profileKey("habit-tracker-timers", "default")).toBe("habit-tracker-timers");
+  });
+});
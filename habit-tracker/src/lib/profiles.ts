@@ -0,0 +1,137 @@
+import type { AccountInfo } from "./auth";
+import { createId } from "./ids";
+
+export const DEFAULT_PROFILE_ID = "default";
+const PROFILES_KEY = "habit-tracker-profiles";
+const MAX_PROFILE_NAME_LENGTH = 30;
+
+/** A server account a profile is signed in to. */
+export type ProfileSession = { token: string; username: string };
+
+/** The account a profile's data belongs to. */
+export type ProfileOwner = Pick<AccountInfo, "id" | "username">;
+
+/** One person using this device. Each profile keeps its own data, history and preferences. */
+export type Profile = {
+  id: string;
+  name: string;
+  session: ProfileSession | null;
+  /**
+   * Set by the first sign-in and kept after signing out, so the profile's data
+   * never syncs into a different account.
+   */
+  owner: ProfileOwner | null;
+};
+
+export type ProfileRegistry = { activeId: string; profiles: Profile[] };
+
+const DEFAULT_REGISTRY: ProfileRegistry = {
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: "Me", session: null, owner: null }],
+};
+
+function isProfile(value: unknown): value is Profile {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const item = value as Record<string, unknown>;
+  const session = item.session as Record<string, unknown> | null | undefined;
+  // Profiles saved before owners were recorded have none.
+  const owner = item.owner as Record<string, unknown> | null | undefined;
+  return (
+    typeof item.id === "string" &&
+    typeof item.name === "string" &&
+    (session === null ||
+      (typeof session?.token === "string" && typeof session.username === "string")) &&
+    (owner === undefined ||
+      owner === null ||
+      (typeof owner.id === "string" && typeof owner.username === "string"))
+  );
+}
+
+export function readProfiles(): ProfileRegistry {
+  if (typeof window === "undefined") {
+    return DEFAULT_REGISTRY;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(PROFILES_KEY) ?? "null") as {
+      activeId?: unknown;
+      profiles?: unknown;
+    } | null;
+    const profiles = Array.isArray(parsed?.profiles)
+      ? parsed.profiles
+          .filter(isProfile)
+          .map((profile) => ({ ...profile, owner: profile.owner ?? null }))
+      : [];
+    if (!profiles.some((profile) => profile.id === DEFAULT_PROFILE_ID)) {
+      profiles.unshift(DEFAULT_REGISTRY.profiles[0]!);
+    }
+    const activeId = profiles.some((profile) => profile.id === parsed?.activeId)
+      ? (parsed?.activeId as string)
+      : DEFAULT_PROFILE_ID;
+    return { activeId, profiles };
+  } catch {
+    return DEFAULT_REGISTRY;
+  }
+}
+
+export function writeProfiles(registry: ProfileRegistry) {
+  window.localStorage.setItem(PROFILES_KEY, JSON.stringify(registry));
+}
+
+export function activeProfile(): Profile {
+  const registry = readProfiles();
+  return registry.profiles.find((profile) => profile.id === registry.activeId)!;
+}
+
+/**
+ * The storage key `key` uses for a profile, the active one by default. The
+ * first profile keeps the unscoped keys, so data saved before profiles
+ * existed stays where it was.
+ */
+export function profileKey(key: string, profileId = readProfiles().activeId) {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+}
+
+/** True for storage keys that belong to `profileId` (never the first profile's unscoped ones). */
+export function isProfileKey(key: string, profileId: string) {
+  return profileId !== DEFAULT_PROFILE_ID && key.endsWith(`:${profileId}`);
+}
+
+export function addProfile(registry: ProfileRegistry, name: string): ProfileRegistry {
+  const trimmed = name.trim().slice(0, MAX_PROFILE_NAME_LENGTH);
+  if (!trimmed) {
+    return registry;
+  }
+  return {
+    ...registry,
+    profiles: [
+      ...registry.profiles,
+      { id: createId(), name: trimmed, session: null, owner: null },
+    ],
+  };
+}
+
+export function updateProfile(
+  registry: ProfileRegistry,
+  profileId: string,
+  changes: Partial<Omit<Profile, "id">>,
+): ProfileRegistry {
+  return {
+    ...registry,
+    profiles: registry.profiles.map((profile) =>
+      profile.id === profileId ? { ...profile, ...changes } : profile,
+    ),
+  };
+}
+
+/** True when `account` may sign in to `profile`: the profile is new or already holds its data. */
+export function canSignIn(profile: Profile, account: ProfileOwner): boolean {
+  return profile.owner === null || profile.owner.id === account.id;
+}
+
+/** Headers that sign a request in as the active profile's account, if it has one. */
+export function authHeaders(): Record<string, string> {
+  const session = activeProfile().session;
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
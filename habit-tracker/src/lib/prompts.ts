@@ -0,0 +1,132 @@
+import type { GratitudeEntry, GratitudePrompt, PromptRotation, Settings } from "./types";
+
+const EPOCH = new Date(0).toISOString();
+const MAX_TAGS = 8;
+const MAX_TAG_LENGTH = 24;
+
+export const PROMPT_ROTATION_LABELS: Record<PromptRotation, string> = {
+  date: "A fixed prompt for each date",
+  shuffle: "Shuffle without repeats",
+  manual: "Pick my own each day",
+};
+
+/** Shown when every prompt is disabled; entries written against it have an empty prompt id. */
+export const FREE_PROMPT_TEXT = "What are you grateful for today?";
+
+function starter(id: string, text: string, tag: string): GratitudePrompt {
+  return { id, text, tags: [tag], enabled: true, updatedAt: EPOCH };
+}
+
+/** The starter library. Ids match the prompts that used to be hardcoded, so old entries still resolve. */
+export const BUILT_IN_PROMPTS: GratitudePrompt[] = [
+  starter("prompt-1", "Name one habit that made you proud today.", "habits"),
+  starter("prompt-2", "Recall a moment someone made you smile today.", "people"),
+  starter("prompt-3", "What are you grateful for that helped you stay consistent?", "habits"),
+  starter("prompt-4", "Write one tiny win you celebrated today.", "wins"),
+  starter("prompt-5", "Who encouraged you recently? Capture their words.", "people"),
+  starter("prompt-6", "Describe a habit that felt effortless today.", "habits"),
+  starter("prompt-7", "Share one improvement you noticed in yourself this week.", "growth"),
+  starter("prompt-8", "What energized you most while working on your habits?", "habits"),
+  starter("prompt-9", "Write one positive surprise from your day.", "wins"),
+  starter("prompt-10", "Which habit moved you closer to your goals today?", "growth"),
+];
+
+/** Splits comma-separated input (or cleans a stored list) into short, unique, lowercase tags. */
+export function normalizeTags(input: string | unknown[]): string[] {
+  const raw = typeof input === "string" ? input.split(",") : input;
+  const tags = raw
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter((tag) => tag.length > 0);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+export function promptTags(prompts: GratitudePrompt[]): string[] {
+  return Array.from(new Set(prompts.flatMap((prompt) => prompt.tags))).sort();
+}
+
+/** Enabled prompts, narrowed to `tag` unless nothing enabled carries it. */
+export function rotationPool(prompts: GratitudePrompt[], tag: string | null): GratitudePrompt[] {
+  const enabled = prompts.filter((prompt) => prompt.enabled);
+  const tagged = tag ? enabled.filter((prompt) => prompt.tags.includes(tag)) : [];
+  return tagged.length > 0 ? tagged : enabled;
+}
+
+function dayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / 86_400_000);
+}
+
+/** FNV-1a, so neighbouring dates land far apart. */
+function hashDateKey(dateKey: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of dateKey) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Walks earlier answers in date order, starting a new cycle whenever the
+ * pool has been used up, and draws today's prompt from what this cycle has
+ * not answered yet.
+ */
+function shuffledPrompt(
+  pool: GratitudePrompt[],
+  gratitude: GratitudeEntry[],
+  dateKey: string,
+): GratitudePrompt {
+  const poolIds = new Set(pool.map((prompt) => prompt.id));
+  const used = new Set<string>();
+  const answered = gratitude
+    .filter((entry) => entry.date < dateKey && poolIds.has(entry.promptId))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (const entry of answered) {
+    used.add(entry.promptId);
+    if (used.size === pool.length) {
+      used.clear();
+    }
+  }
+  const remaining = pool.filter((prompt) => !used.has(prompt.id));
+  return remaining[hashDateKey(dateKey) % remaining.length]!;
+}
+
+/**
+ * The prompt offered for `dateKey` under the chosen rotation. "Pick my own"
+ * suggests the date's prompt until the user chooses another. Null when no
+ * prompt is enabled.
+ */
+export function promptForDate({
+  prompts,
+  gratitude,
+  settings,
+  dateKey,
+}: {
+  prompts: GratitudePrompt[];
+  gratitude: GratitudeEntry[];
+  settings: Pick<Settings, "promptRotation" | "promptTag">;
+  dateKey: string;
+}): GratitudePrompt | null {
+  const pool = rotationPool(prompts, settings.promptTag);
+  if (pool.length === 0) {
+    return null;
+  }
+  if (settings.promptRotation === "shuffle") {
+    return shuffledPrompt(pool, gratitude, dateKey);
+  }
+  return pool[dayNumber(dateKey) % pool.length]!;
+}
+
+/**
+ * The prompt an entry answered. Entries keep the text they were written
+ * against, so edited or deleted prompts still read as they did at the time.
+ */
+export function resolvePromptText(entry: GratitudeEntry, prompts: GratitudePrompt[]): string {
+  return (
+    entry.promptText ??
+    prompts.find((prompt) => prompt.id === entry.promptId)?.text ??
+    BUILT_IN_PROMPTS.find((prompt) => prompt.id === entry.promptId)?.text ??
+    FREE_PROMPT_TEXT
+  );
+}
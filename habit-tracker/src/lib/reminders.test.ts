@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { habit, minutesLog } from "../test/fixtures";
+import { defaultSettings } from "./persistence";
+import {
+  DIGEST_REMINDER_ID,
+  dueReminders,
+  emptyLedger,
+  isQuietAt,
+  markDelivered,
+  snoozeReminder,
+} from "./reminders";
+import type { Settings } from "./types";
+
+const TODAY = "2024-01-03";
+
+function due(time: string, changes: Partial<Parameters<typeof dueReminders>[0]> = {}) {
+  return dueReminders({
+    habits: [habit("run", { reminders: ["07:00"] })],
+    logs: [],
+    settings: { ...defaultSettings, timeZone: "UTC" },
+    todayKey: TODAY,
+    now: new Date(`${TODAY}T${time}:00.000Z`),
+    ledger: emptyLedger(TODAY),
+    ...changes,
+  }).map((reminder) => reminder.id);
+}
+
+describe("isQuietAt", () => {
+  it("handles quiet hours that wrap past midnight", () => {
+    const overnight = { start: "22:00", end: "07:00" };
+    expect(isQuietAt("23:30", overnight)).toBe(true);
+    expect(isQuietAt("00:00", overnight)).toBe(true);
+    expect(isQuietAt("06:59", overnight)).toBe(true);
+    expect(isQuietAt("07:00", overnight)).toBe(false);
+    expect(isQuietAt("21:59", overnight)).toBe(false);
+  });
+
+  it("handles quiet hours within one day, and none at all", () => {
+    const lunch = { start: "12:00", end: "13:00" };
+    expect(isQuietAt("12:30", lunch)).toBe(true);
+    expect(isQuietAt("13:00", lunch)).toBe(false);
+    expect(isQuietAt("03:00", null)).toBe(false);
+  });
+});
+
+describe("dueReminders", () => {
+  it("holds reminders during overnight quiet hours and delivers them after", () => {
+    const settings: Settings = {
+      ...defaultSettings,
+      timeZone: "UTC",
+      quietHours: { start: "22:00", end: "08:00" },
+    };
+    expect(due("07:30", { settings })).toEqual([]);
+    expect(due("08:00", { settings })).toEqual(["habit:run:07:00"]);
+  });
+
+  it("delivers each reminder once, and again when a snooze runs out", () => {
+    const delivered = markDelivered(emptyLedger(TODAY), TODAY, ["habit:run:07:00"]);
+    expect(due("07:05", { ledger: delivered })).toEqual([]);
+
+    const snoozed = snoozeReminder(
+      delivered,
+      TODAY,
+      "habit:run:07:00",
+      new Date(`${TODAY}T07:05:00.000Z`),
+    );
+    expect(snoozed.snoozed["habit:run:07:00"]).toBe(`${TODAY}T07:20:00.000Z`);
+    expect(due("07:19", { ledger: snoozed })).toEqual([]);
+    expect(due("07:20", { ledger: snoozed })).toEqual(["habit:run:07:00"]);
+
+    const again = markDelivered(snoozed, TODAY, ["habit:run:07:00"]);
+    expect(again.snoozed).toEqual({});
+    expect(due("07:30", { ledger: again })).toEqual([]);
+  });
+
+  it("starts a new ledger on a new day", () => {
+    const yesterday = markDelivered(emptyLedger("2024-01-02"), "2024-01-02", ["habit:run:07:00"]);
+    expect(due("07:05", { ledger: yesterday })).toEqual(["habit:run:07:00"]);
+  });
+
+  it("groups every habit still to log into one digest", () => {
+    const habits = [
+      habit("run", { name: "Run" }),
+      habit("read", { name: "Read" }),
+      habit("floss", { name: "Floss" }),
+    ];
+    const reminders = dueReminders({
+      habits,
+      logs: [minutesLog("read", TODAY, 10)],
+      settings: { ...defaultSettings, timeZone: "UTC", digestTime: "21:00" },
+      todayKey: TODAY,
+      now: new Date(`${TODAY}T21:00:00.000Z`),
+      ledger: emptyLedger(TODAY),
+    });
+    expect(reminders).toEqual([
+      {
+        id: DIGEST_REMINDER_ID,
+        title: "Still to log today",
+        body: 'You haven\'t logged "Run", "Floss" yet.',
+      },
+    ]);
+  });
+
+  it("skips the digest before its time and when everything is logged", () => {
+    const settings = { ...defaultSettings, timeZone: "UTC", digestTime: "21:00" };
+    const habits = [habit("run")];
+    expect(due("20:59", { habits, settings })).toEqual([]);
+    expect(due("21:00", { habits, settings, logs: [minutesLog("run", TODAY, 20)] })).toEqual([]);
+  });
+});
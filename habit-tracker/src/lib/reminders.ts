@@ -0,0 +1,149 @@
+import { formatClockTime, startOfWeek } from "./dates";
+import { isPractice } from "./kinds";
+import { isScheduledOn } from "./schedule";
+import type { Habit, HabitLog, QuietHours, Settings } from "./types";
+
+export const SNOOZE_MINUTES = 15;
+
+export const DIGEST_REMINDER_ID = "digest";
+
+export type DueReminder = {
+  /** Stable within a day, so a reminder is only ever delivered once. */
+  id: string;
+  habitId?: string;
+  title: string;
+  body: string;
+};
+
+/** What this device has already shown or snoozed today. Never synced. */
+export type ReminderLedger = {
+  date: string;
+  delivered: string[];
+  /** Snoozed reminder ids and when they may fire again, as ISO timestamps. */
+  snoozed: Record<string, string>;
+};
+
+export function emptyLedger(date: string): ReminderLedger {
+  return { date, delivered: [], snoozed: {} };
+}
+
+export function isQuietAt(clock: string, quietHours: QuietHours | null): boolean {
+  if (!quietHours) {
+    return false;
+  }
+  const { start, end } = quietHours;
+  return start < end ? clock >= start && clock < end : clock >= start || clock < end;
+}
+
+/**
+ * Active habits scheduled for `dateKey` with nothing practised yet. "N times
+ * per week" habits drop out once the week's quota is reached; avoid habits
+ * never need logging.
+ */
+export function unloggedHabits(habits: Habit[], logs: HabitLog[], dateKey: string): Habit[] {
+  const weekStart = startOfWeek(dateKey);
+  return habits.filter((habit) => {
+    if (habit.archived || habit.kind === "avoid" || !isScheduledOn(habit.schedule, dateKey)) {
+      return false;
+    }
+    const practisedDates = new Set(
+      logs
+        .filter(
+          (log) =>
+            log.habitId === habit.id &&
+            log.date >= weekStart &&
+            log.date <= dateKey &&
+            isPractice(habit, log),
+        )
+        .map((log) => log.date),
+    );
+    if (practisedDates.has(dateKey)) {
+      return false;
+    }
+    return habit.schedule.type !== "weekly" || practisedDates.size < habit.schedule.timesPerWeek;
+  });
+}
+
+/**
+ * Reminders that should fire at `now`. Nothing fires during quiet hours;
+ * reminders that came due then are delivered once the quiet window ends.
+ */
+export function dueReminders({
+  habits,
+  logs,
+  settings,
+  todayKey,
+  now,
+  ledger,
+}: {
+  habits: Habit[];
+  logs: HabitLog[];
+  settings: Settings;
+  todayKey: string;
+  now: Date;
+  ledger: ReminderLedger;
+}): DueReminder[] {
+  const clock = formatClockTime(now, settings.timeZone);
+  if (isQuietAt(clock, settings.quietHours)) {
+    return [];
+  }
+  const today = ledger.date === todayKey ? ledger : emptyLedger(todayKey);
+  const isPending = (id: string) => {
+    const snoozedUntil = today.snoozed[id];
+    return snoozedUntil ? snoozedUntil <= now.toISOString() : !today.delivered.includes(id);
+  };
+
+  const pending = unloggedHabits(habits, logs, todayKey);
+  const due: DueReminder[] = [];
+  for (const habit of pending) {
+    // Only the latest passed time matters; earlier ones were missed or already shown.
+    const latest = habit.reminders.filter((time) => time <= clock).pop();
+    const id = latest && `habit:${habit.id}:${latest}`;
+    if (id && isPending(id)) {
+      due.push({
+        id,
+        habitId: habit.id,
+        title: habit.name,
+        body: `Time for "${habit.name}". You haven't logged it yet today.`,
+      });
+    }
+  }
+
+  if (
+    settings.digestTime &&
+    settings.digestTime <= clock &&
+    pending.length > 0 &&
+    isPending(DIGEST_REMINDER_ID)
+  ) {
+    due.push({
+      id: DIGEST_REMINDER_ID,
+      title: "Still to log today",
+      body: `You haven't logged ${pending.map((habit) => `"${habit.name}"`).join(", ")} yet.`,
+    });
+  }
+  return due;
+}
+
+export function markDelivered(
+  ledger: ReminderLedger,
+  todayKey: string,
+  ids: string[],
+): ReminderLedger {
+  const today = ledger.date === todayKey ? ledger : emptyLedger(todayKey);
+  const snoozed = { ...today.snoozed };
+  for (const id of ids) {
+    delete snoozed[id];
+  }
+  return { date: todayKey, delivered: Array.from(new Set([...today.delivered, ...ids])), snoozed };
+}
+
+export function snoozeReminder(
+  ledger: ReminderLedger,
+  todayKey: string,
+  id: string,
+  now: Date,
+): ReminderLedger {
+  const today = ledger.date === todayKey ? ledger : emptyLedger(todayKey);
+  const until = new Date(now.getTime() + SNOOZE_MINUTES * 60_000).toISOString();
+  return { ...today, date: todayKey, snoozed: { ...today.snoozed, [id]: until } };
+}
@@ -0,0 +1,274 @@
+import { describe, expect, it } from "vitest";
+import { entry, habit, minutesLog, routine, valueLog } from "../test/fixtures";
+import {
+  dashboardSummaries,
+  resolvePreset,
+  summarizeRange,
+  type ReportPreset,
+} from "./reports";
+
+const WEEK = { startKey: "2024-01-01", endKey: "2024-01-07" };
+
+function summarize(overrides: Partial<Parameters<typeof summarizeRange>[0]>) {
+  return summarizeRange({
+    logs: [],
+    habits: [],
+    routines: [],
+    gratitude: [],
+    label: "Week",
+    ...WEEK,
+    todayKey: WEEK.endKey,
+    ...overrides,
+  });
+}
+
+describe("summarizeRange", () => {
+  it("adds up minutes, active days and completion for the range only", () => {
+    const summary = summarize({
+      habits: [habit("run", { target: 30 }), habit("read", { target: 10 })],
+      logs: [
+        minutesLog("run", "2023-12-31", 60),
+        minutesLog("run", "2024-01-01", 30),
+        minutesLog("run", "2024-01-02", 30),
+        minutesLog("read", "2024-01-02", 10),
+        minutesLog("read", "2024-01-08", 10),
+      ],
+    });
+    expect(summary.totalMinutes).toBe(70);
+    expect(summary.activeDays).toBe(2);
+    expect(summary.averageMinutesPerHabit).toBe(35);
+    expect(summary.completionRate).toBeCloseTo((2 / 7 + 1 / 7) / 2);
+    expect(summary.topHabit).toEqual({
+      name: "run",
+      amountLabel: "60 min",
+      completionRate: 2 / 7,
+    });
+  });
+
+  it("counts logs of deleted habits in the totals but not the breakdown", () => {
+    const summary = summarize({
+      habits: [habit("run")],
+      logs: [minutesLog("run", "2024-01-01", 20), minutesLog("gone", "2024-01-03", 40)],
+    });
+    expect(summary.totalMinutes).toBe(60);
+    expect(summary.activeDays).toBe(2);
+    expect(summary.habitBreakdown.map((row) => row.habitId)).toEqual(["run"]);
+    expect(summary.completionRate).toBeCloseTo(1 / 7);
+  });
+
+  it("shows archived habits only when they have history, and leaves them out of coaching", () => {
+    const habits = [
+      habit("run"),
+      habit("old", { archived: true }),
+      habit("older", { archived: true }),
+    ];
+    const summary = summarize({
+      habits,
+      logs: [minutesLog("run", "2024-01-01", 20), minutesLog("old", "2024-01-02", 20)],
+    });
+    expect(summary.habitBreakdown.map((row) => row.habitId).sort()).toEqual(["old", "run"]);
+    expect(summary.completionRate).toBeCloseTo(1 / 7);
+    expect(summary.suggestedFocus).toBe('Great consistency! Keep sharpening "run".');
+  });
+
+  it("leaves habits added after the range out of the average", () => {
+    const summary = summarize({
+      habits: [habit("run"), habit("new", { createdOn: "2024-02-01" })],
+      logs: [minutesLog("run", "2024-01-01", 20)],
+    });
+    expect(summary.completionRate).toBeCloseTo(1 / 7);
+  });
+
+  it("does not count avoid habits or clean days as active practice", () => {
+    const summary = summarize({
+      habits: [habit("sugar", { kind: "avoid" })],
+      logs: [valueLog("sugar", "2024-01-02", 1)],
+    });
+    expect(summary.activeDays).toBe(0);
+    expect(summary.topHabit).toBeUndefined();
+    expect(summary.completionRate).toBeCloseTo(6 / 7);
+  });
+
+  it("rolls habits up into their routines", () => {
+    const summary = summarize({
+      routines: [routine("am", { slot: "morning" })],
+      habits: [
+        habit("run", { routineId: "am" }),
+        habit("read", { routineId: "am" }),
+        habit("tv"),
+      ],
+      logs: [minutesLog("run", "2024-01-01", 20), minutesLog("tv", "2024-01-01", 50)],
+    });
+    expect(summary.routineBreakdown).toEqual([
+      {
+        routineId: "am",
+        name: "am",
+        slot: "morning",
+        habitCount: 2,
+        completionRate: 1 / 14,
+        totalMinutes: 20,
+      },
+    ]);
+  });
+
+  it("averages mood ratings from the range", () => {
+    const summary = summarize({
+      gratitude: [
+        entry("a", "2024-01-02", { mood: 4 }),
+        entry("b", "2024-01-03", { mood: 2, energy: 3 }),
+        entry("c", "2024-01-09", { mood: 5 }),
+      ],
+    });
+    expect(summary.mood.averageMood).toBe(3);
+    expect(summary.mood.averageEnergy).toBe(3);
+    expect(summary.mood.ratedDays).toBe(2);
+  });
+
+  it("summarizes a range with no logs as empty", () => {
+    const summary = summarize({ habits: [habit("run")] });
+    expect(summary).toMatchObject({
+      totalMinutes: 0,
+      averageMinutesPerHabit: 0,
+      completionRate: 0,
+      activeDays: 0,
+      topHabit: undefined,
+      routineBreakdown: [],
+      suggestedFocus: "Log habits consistently to unlock personalized coaching.",
+    });
+  });
+
+  it("summarizes no habits at all without dividing by zero", () => {
+    const summary = summarize({ logs: [minutesLog("gone", "2024-01-01", 10)] });
+    expect(summary.completionRate).toBe(0);
+    expect(summary.habitBreakdown).toEqual([]);
+    expect(summary.totalMinutes).toBe(10);
+  });
+});
+
+describe("dashboardSummaries", () => {
+  it("summarizes the last seven days, the month and the year to date", () => {
+    const state = {
+      habits: [habit("run")],
+      routines: [],
+      gratitude: [],
+      logs: [
+        minutesLog("run", "2023-12-30", 10),
+        minutesLog("run", "2024-01-01", 20),
+        minutesLog("run", "2024-01-02", 30),
+      ],
+    };
+    const summaries = dashboardSummaries(state, "2024-01-02");
+    expect(summaries.map((summary) => [summary.label, summary.totalMinutes])).toEqual([
+      ["Weekly Pulse", 60],
+      ["Monthly Momentum", 50],
+      ["Year-End Spotlight", 50],
+    ]);
+  });
+});
+
+describe("resolvePreset", () => {
+  const resolve = (preset: ReportPreset, todayKey: string) => {
+    const { range, previous } = resolvePreset(preset, todayKey);
+    return [range.startKey, range.endKey, previous.startKey, previous.endKey];
+  };
+
+  it("reaches back into the previous year from January", () => {
+    expect(resolve("this-month", "2024-01-15")).toEqual([
+      "2024-01-01",
+      "2024-01-15",
+      "2023-12-01",
+      "2023-12-15",
+    ]);
+    expect(resolve("last-month", "2024-01-15")).toEqual([
+      "2023-12-01",
+      "2023-12-31",
+      "2023-11-01",
+      "2023-11-30",
+    ]);
+    expect(resolve("this-quarter", "2024-01-15")).toEqual([
+      "2024-01-01",
+      "2024-01-15",
+      "2023-10-01",
+      "2023-10-15",
+    ]);
+    expect(resolve("last-quarter", "2024-02-10")).toEqual([
+      "2023-10-01",
+      "2023-12-31",
+      "2023-07-01",
+      "2023-09-30",
+    ]);
+  });
+
+  it("finds last week's Monday to Sunday across the new year", () => {
+    expect(resolve("last-week", "2024-01-03")).toEqual([
+      "2023-12-25",
+      "2023-12-31",
+      "2023-12-18",
+      "2023-12-24",
+    ]);
+    // A Sunday still belongs to the week that began six days earlier.
+    expect(resolve("last-week", "2024-01-07")).toEqual([
+      "2023-12-25",
+      "2023-12-31",
+      "2023-12-18",
+      "2023-12-24",
+    ]);
+  });
+
+  it("rolls the last seven days over the year boundary", () => {
+    expect(resolve("last-7-days", "2024-01-01")).toEqual([
+      "2023-12-26",
+      "2024-01-01",
+      "2023-12-19",
+      "2023-12-25",
+    ]);
+  });
+
+  it("compares the year to date against as many days of last year", () => {
+    expect(resolve("year-to-date", "2024-01-01")).toEqual([
+      "2024-01-01",
+      "2024-01-01",
+      "2023-01-01",
+      "2023-01-01",
+    ]);
+    expect(resolve("year-to-date", "2024-03-01")).toEqual([
+      "2024-01-01",
+      "2024-03-01",
+      "2023-01-01",
+      "2023-03-02",
+    ]);
+  });
+
+  it("covers whole picked months, leap days included", () => {
+    const { range, previous } = resolvePreset("month", "2024-06-10", { month: "2024-02" });
+    expect(range).toEqual({ startKey: "2024-02-01", endKey: "2024-02-29" });
+    expect(previous).toEqual({ startKey: "2024-01-01", endKey: "2024-01-31" });
+    const january = resolvePreset("month", "2024-06-10", { month: "2024-01" });
+    expect(january.previous).toEqual({ startKey: "2023-12-01", endKey: "2023-12-31" });
+  });
+
+  it("stops the current or a future month at today", () => {
+    const current = resolvePreset("month", "2024-02-10", { month: "2024-02" });
+    expect(current).toEqual({
+      range: { startKey: "2024-02-01", endKey: "2024-02-10" },
+      previous: { startKey: "2024-01-01", endKey: "2024-01-10" },
+    });
+    expect(resolvePreset("month", "2024-02-10", { month: "2024-05" })).toEqual(current);
+  });
+
+  it("cuts a custom range off at today", () => {
+    const custom = { startKey: "2024-02-05", endKey: "2024-03-31" };
+    expect(resolvePreset("custom", "2024-02-10", { custom }).range).toEqual({
+      startKey: "2024-02-05",
+      endKey: "2024-02-10",
+    });
+  });
+
+  it("compares a custom range with the window just before it", () => {
+    const custom = { startKey: "2023-12-30", endKey: "2024-01-02" };
+    expect(resolvePreset("custom", "2024-06-10", { custom })).toEqual({
+      range: custom,
+      previous: { startKey: "2023-12-26", endKey: "2023-12-29" },
+    });
+  });
+});
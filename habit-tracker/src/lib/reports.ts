@@ -0,0 +1,366 @@
+import { addDays, daysBetween, parseDate } from "./dates";
+import { formatAmount, isPractice } from "./kinds";
+import { summarizeMood, type MoodSummary } from "./mood";
+import { orderRoutines } from "./routines";
+import { computeCompletion, type HabitCompletion } from "./targets";
+import type {
+  AppState,
+  GratitudeEntry,
+  Habit,
+  HabitLog,
+  Routine,
+  RoutineSlot,
+} from "./types";
+
+/** A routine's habits taken together, for reviewing a stack rather than single habits. */
+export type RoutineRollup = {
+  routineId: string;
+  name: string;
+  slot: RoutineSlot;
+  habitCount: number;
+  /** The average completion of the routine's active habits. */
+  completionRate: number;
+  totalMinutes: number;
+};
+
+export type Summary = {
+  label: string;
+  dateLabel: string;
+  totalMinutes: number;
+  averageMinutesPerHabit: number;
+  completionRate: number;
+  topHabit?: {
+    name: string;
+    amountLabel: string;
+    completionRate: number;
+  };
+  habitBreakdown: HabitCompletion[];
+  routineBreakdown: RoutineRollup[];
+  activeDays: number;
+  mood: MoodSummary;
+  suggestedFocus: string;
+};
+
+function rollUpRoutines(
+  routines: Routine[],
+  habits: Habit[],
+  breakdown: HabitCompletion[],
+  minutesByHabit: Map<string, number>,
+): RoutineRollup[] {
+  return orderRoutines(routines).flatMap((routine) => {
+    const members = breakdown.filter((entry) =>
+      habits.some((habit) => habit.id === entry.habitId && habit.routineId === routine.id),
+    );
+    if (members.length === 0) {
+      return [];
+    }
+    return [
+      {
+        routineId: routine.id,
+        name: routine.name,
+        slot: routine.slot,
+        habitCount: members.length,
+        completionRate:
+          members.reduce((acc, entry) => acc + entry.completionRate, 0) / members.length,
+        totalMinutes: members.reduce(
+          (acc, entry) => acc + (minutesByHabit.get(entry.habitId) ?? 0),
+          0,
+        ),
+      },
+    ];
+  });
+}
+
+/** Habits are judged up to `todayKey` at most, so days still to come are never expected. */
+export function summarizeRange({
+  logs,
+  habits,
+  routines,
+  gratitude,
+  label,
+  startKey,
+  endKey,
+  todayKey,
+}: {
+  logs: HabitLog[];
+  habits: Habit[];
+  routines: Routine[];
+  gratitude: GratitudeEntry[];
+  label: string;
+  startKey: string;
+  endKey: string;
+  todayKey: string;
+}): Summary {
+  const activeLogs = logs.filter((log) => log.date >= startKey && log.date <= endKey);
+  const habitsById = new Map(habits.map((habit) => [habit.id, habit]));
+  const minutesByHabit = new Map<string, number>();
+  const loggedHabits = new Set<string>();
+  const activeDays = new Set<string>();
+
+  for (const log of activeLogs) {
+    loggedHabits.add(log.habitId);
+    // Only duration habits carry minutes, so other kinds never skew the minute totals.
+    if (log.minutes > 0) {
+      minutesByHabit.set(log.habitId, (minutesByHabit.get(log.habitId) ?? 0) + log.minutes);
+    }
+    if (isPractice(habitsById.get(log.habitId), log)) {
+      activeDays.add(log.date);
+    }
+  }
+
+  const totalMinutes = Array.from(minutesByHabit.values()).reduce((acc, curr) => acc + curr, 0);
+  const averageMinutesPerHabit =
+    minutesByHabit.size > 0 ? totalMinutes / minutesByHabit.size : 0;
+
+  // Archived habits only appear when they have history in the range; coaching only targets active ones.
+  const habitBreakdown = habits
+    .filter((habit) => !habit.archived || loggedHabits.has(habit.id))
+    .map((habit) => computeCompletion(habit, logs, startKey, endKey, todayKey))
+    .sort((a, b) => b.completionRate - a.completionRate || b.amount - a.amount);
+  // Habits with nothing to judge, such as ones added after the range, leave the average alone.
+  const activeBreakdown = habitBreakdown.filter(
+    (entry) =>
+      entry.periods > 0 && habits.some((habit) => habit.id === entry.habitId && !habit.archived),
+  );
+  const loggedActive = activeBreakdown.filter(
+    (entry) => entry.kind !== "avoid" && entry.amount > 0,
+  );
+
+  const best = habitBreakdown.find((entry) => entry.kind !== "avoid" && entry.amount > 0);
+  const topHabit: Summary["topHabit"] = best
+    ? {
+        name: best.name,
+        amountLabel: formatAmount(best, best.amount),
+        completionRate: best.completionRate,
+      }
+    : undefined;
+
+  const completionRate =
+    activeBreakdown.length > 0
+      ? activeBreakdown.reduce((acc, entry) => acc + entry.completionRate, 0) /
+        activeBreakdown.length
+      : 0;
+
+  const focusHabit = activeBreakdown[activeBreakdown.length - 1];
+
+  const suggestedFocus =
+    loggedActive.length > 0 && activeBreakdown.length > 1 && focusHabit
+      ? `Consider investing more energy into "${focusHabit.name}" for a balanced routine.`
+      : loggedActive.length === 1
+        ? `Great consistency! Keep sharpening "${loggedActive[0]!.name}".`
+        : "Log habits consistently to unlock personalized coaching.";
+
+  return {
+    label,
+    dateLabel: `${parseDate(startKey).toLocaleDateString()} → ${parseDate(endKey).toLocaleDateString()}`,
+    totalMinutes,
+    averageMinutesPerHabit: Number(averageMinutesPerHabit.toFixed(1)),
+    completionRate,
+    topHabit,
+    habitBreakdown,
+    routineBreakdown: rollUpRoutines(routines, habits, activeBreakdown, minutesByHabit),
+    activeDays: activeDays.size,
+    mood: summarizeMood(gratitude, startKey, endKey),
+    suggestedFocus,
+  };
+}
+
+/** The week, month and year to date that the dashboard shows side by side. */
+export function dashboardSummaries(
+  state: Pick<AppState, "logs" | "habits" | "routines" | "gratitude">,
+  todayKey: string,
+): Summary[] {
+  const periods = [
+    { label: "Weekly Pulse", startKey: addDays(todayKey, -6) },
+    { label: "Monthly Momentum", startKey: `${todayKey.slice(0, 7)}-01` },
+    { label: "Year-End Spotlight", startKey: `${todayKey.slice(0, 4)}-01-01` },
+  ];
+  return periods.map(({ label, startKey }) =>
+    summarizeRange({
+      logs: state.logs,
+      habits: state.habits,
+      routines: state.routines,
+      gratitude: state.gratitude,
+      label,
+      startKey,
+      endKey: todayKey,
+      todayKey,
+    }),
+  );
+}
+
+export type DateRange = {
+  startKey: string;
+  endKey: string;
+};
+
+export type ReportPreset =
+  | "last-7-days"
+  | "last-week"
+  | "this-month"
+  | "last-month"
+  | "month"
+  | "this-quarter"
+  | "last-quarter"
+  | "year-to-date"
+  | "custom";
+
+export const REPORT_PRESET_LABELS: Record<ReportPreset, string> = {
+  "last-7-days": "Last 7 days",
+  "last-week": "Last week",
+  "this-month": "This month",
+  "last-month": "Last month",
+  month: "A specific month",
+  "this-quarter": "This quarter",
+  "last-quarter": "Last quarter",
+  "year-to-date": "Year to date",
+  custom: "Custom range",
+};
+
+/** The period chosen in the report builder, which the charts follow too. */
+export type ReportSelection = {
+  preset: ReportPreset;
+  /** `YYYY-MM`, used by the "month" preset. */
+  month: string;
+  custom: DateRange;
+  compare: boolean;
+};
+
+export type ResolvedReport = {
+  range: DateRange;
+  /** The period the report is compared against. */
+  previous: DateRange;
+};
+
+export type HabitComparison = {
+  habitId: string;
+  name: string;
+  current?: HabitCompletion;
+  previous?: HabitCompletion;
+};
+
+function monthStart(year: number, month: number): string {
+  const date = new Date(Date.UTC(year, month, 1));
+  return date.toISOString().slice(0, 10);
+}
+
+/** A whole calendar month; `month` counts from 0 and may overflow into other years. */
+function monthRange(year: number, month: number): DateRange {
+  return { startKey: monthStart(year, month), endKey: addDays(monthStart(year, month + 1), -1) };
+}
+
+function quarterRange(year: number, quarter: number): DateRange {
+  return {
+    startKey: monthStart(year, quarter * 3),
+    endKey: addDays(monthStart(year, quarter * 3 + 3), -1),
+  };
+}
+
+/** The first days of `period` matching the length of `range`, so partial periods compare like for like. */
+function sameSpan(range: DateRange, period: DateRange): DateRange {
+  const endKey = addDays(period.startKey, daysBetween(range.startKey, range.endKey));
+  return { startKey: period.startKey, endKey: endKey < period.endKey ? endKey : period.endKey };
+}
+
+/** `range` cut off at `todayKey`, or just that day when it lies wholly in the future. */
+function clampToToday(range: DateRange, todayKey: string): DateRange {
+  return {
+    startKey: range.startKey < todayKey ? range.startKey : todayKey,
+    endKey: range.endKey < todayKey ? range.endKey : todayKey,
+  };
+}
+
+/** The window of equal length that ends the day before `range` starts. */
+export function precedingRange(range: DateRange): DateRange {
+  const length = daysBetween(range.startKey, range.endKey) + 1;
+  return { startKey: addDays(range.startKey, -length), endKey: addDays(range.startKey, -1) };
+}
+
+/**
+ * The dates a preset covers as of `todayKey` and what it is compared with:
+ * calendar periods against the one before (partial ones over the same number
+ * of days), rolling and custom windows against the window just before. No
+ * range runs past `todayKey`.
+ */
+export function resolvePreset(
+  preset: ReportPreset,
+  todayKey: string,
+  { month, custom }: { month?: string; custom?: DateRange } = {},
+): ResolvedReport {
+  const [year, monthNumber] = todayKey.split("-").map(Number);
+  const thisMonth = monthNumber - 1;
+  const quarter = Math.floor(thisMonth / 3);
+
+  switch (preset) {
+    case "last-7-days":
+    case "custom": {
+      const range =
+        preset === "custom" && custom
+          ? clampToToday(custom, todayKey)
+          : { startKey: addDays(todayKey, -6), endKey: todayKey };
+      return { range, previous: precedingRange(range) };
+    }
+    case "last-week": {
+      const monday = addDays(todayKey, -((parseDate(todayKey).getDay() + 6) % 7) - 7);
+      const range = { startKey: monday, endKey: addDays(monday, 6) };
+      return { range, previous: precedingRange(range) };
+    }
+    case "this-month": {
+      const range = { startKey: monthStart(year, thisMonth), endKey: todayKey };
+      return { range, previous: sameSpan(range, monthRange(year, thisMonth - 1)) };
+    }
+    case "last-month":
+      return { range: monthRange(year, thisMonth - 1), previous: monthRange(year, thisMonth - 2) };
+    case "month": {
+      const thisMonthKey = todayKey.slice(0, 7);
+      const picked = month && month < thisMonthKey ? month : thisMonthKey;
+      const [pickedYear, pickedMonth] = picked.split("-").map(Number);
+      const whole = monthRange(pickedYear, pickedMonth - 1);
+      const range = clampToToday(whole, todayKey);
+      const before = monthRange(pickedYear, pickedMonth - 2);
+      return { range, previous: range.endKey < whole.endKey ? sameSpan(range, before) : before };
+    }
+    case "this-quarter": {
+      const range = { startKey: quarterRange(year, quarter).startKey, endKey: todayKey };
+      return { range, previous: sameSpan(range, quarterRange(year, quarter - 1)) };
+    }
+    case "last-quarter":
+      return {
+        range: quarterRange(year, quarter - 1),
+        previous: quarterRange(year, quarter - 2),
+      };
+    case "year-to-date": {
+      const range = { startKey: `${year}-01-01`, endKey: todayKey };
+      return {
+        range,
+        previous: sameSpan(range, { startKey: `${year - 1}-01-01`, endKey: `${year - 1}-12-31` }),
+      };
+    }
+  }
+}
+
+export function defaultReportSelection(todayKey: string): ReportSelection {
+  return {
+    preset: "this-month",
+    month: todayKey.slice(0, 7),
+    custom: { startKey: addDays(todayKey, -29), endKey: todayKey },
+    compare: true,
+  };
+}
+
+/** Pairs each habit's figures across two summaries; habits in only one of them keep one side. */
+export function compareHabits(current: Summary, previous: Summary): HabitComparison[] {
+  const before = new Map(previous.habitBreakdown.map((entry) => [entry.habitId, entry]));
+  const rows: HabitComparison[] = current.habitBreakdown.map((entry) => ({
+    habitId: entry.habitId,
+    name: entry.name,
+    current: entry,
+    previous: before.get(entry.habitId),
+  }));
+  for (const entry of previous.habitBreakdown) {
+    if (!rows.some((row) => row.habitId === entry.habitId)) {
+      rows.push({ habitId: entry.habitId, name: entry.name, previous: entry });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { days, entry, habit, minutesLog } from "../test/fixtures";
+import { buildYearReview, parseReviewYear, pickGratitudeHighlights } from "./review";
+
+const review = (overrides: Partial<Parameters<typeof buildYearReview>[0]>) =>
+  buildYearReview({
+    habits: [habit("run", { target: 20 })],
+    routines: [],
+    logs: [],
+    gratitude: [],
+    year: 2023,
+    todayKey: "2024-06-01",
+    ...overrides,
+  });
+
+describe("buildYearReview", () => {
+  it("returns null for a year that has not started", () => {
+    expect(review({ year: 2025 })).toBeNull();
+  });
+
+  it("covers the whole of a past year and stops at today in the current one", () => {
+    expect(review({})?.range).toEqual({ startKey: "2023-01-01", endKey: "2023-12-31" });
+    const current = review({ year: 2024 });
+    expect(current?.range).toEqual({ startKey: "2024-01-01", endKey: "2024-06-01" });
+    expect(current?.months.map((month) => month.month)).toEqual([
+      "2024-01",
+      "2024-02",
+      "2024-03",
+      "2024-04",
+      "2024-05",
+      "2024-06",
+    ]);
+  });
+
+  it("leaves out logs from either side of the year", () => {
+    const logs = [
+      minutesLog("run", "2022-12-31", 100),
+      minutesLog("run", "2023-01-01", 20),
+      minutesLog("run", "2023-12-31", 20),
+      minutesLog("run", "2024-01-01", 100),
+    ];
+    const result = review({ logs });
+    expect(result?.summary.totalMinutes).toBe(40);
+    expect(result?.months[0]?.totalMinutes).toBe(20);
+    expect(result?.months[11]?.totalMinutes).toBe(20);
+  });
+
+  it("measures streaks inside the year only", () => {
+    const logs = days("2023-12-28", "2024-01-03").map((date) => minutesLog("run", date, 20));
+    expect(review({ logs })?.habits[0]?.longestStreak.longest).toBe(4);
+    expect(review({ logs, year: 2024 })?.habits[0]?.longestStreak.longest).toBe(3);
+  });
+
+  it("picks the most complete month, with minutes breaking ties", () => {
+    const logs = [
+      ...days("2023-03-01", "2023-03-31").map((date) => minutesLog("run", date, 20)),
+      ...days("2023-07-01", "2023-07-31").map((date) => minutesLog("run", date, 40)),
+      ...days("2023-09-01", "2023-09-10").map((date) => minutesLog("run", date, 90)),
+    ];
+    expect(review({ logs })?.bestMonth?.month).toBe("2023-07");
+  });
+
+  it("has no best month or highlights in a year without activity", () => {
+    const result = review({});
+    expect(result?.bestMonth).toBeNull();
+    expect(result?.highlights).toEqual([]);
+    expect(result?.months).toHaveLength(12);
+    expect(result?.summary.totalMinutes).toBe(0);
+  });
+
+  it("still counts minutes logged for habits deleted since", () => {
+    const result = review({ logs: [minutesLog("gone", "2023-05-05", 30)] });
+    expect(result?.summary.totalMinutes).toBe(30);
+    expect(result?.habits.map((row) => row.habitId)).toEqual(["run"]);
+    expect(result?.bestMonth?.month).toBe("2023-05");
+  });
+});
+
+describe("pickGratitudeHighlights", () => {
+  it("keeps one answered entry per month, preferring mood then length", () => {
+    const gratitude = [
+      entry("short", "2023-02-01", { response: "Tea", mood: 4 }),
+      entry("long", "2023-02-02", { response: "A long walk by the sea", mood: 4 }),
+      entry("low", "2023-02-03", { response: "A very long but rough day overall", mood: 2 }),
+      entry("blank", "2023-03-01", { response: "   ", mood: 5 }),
+      entry("outside", "2024-01-01", { response: "New year" }),
+    ];
+    const range = { startKey: "2023-01-01", endKey: "2023-12-31" };
+    expect(pickGratitudeHighlights(gratitude, range).map((item) => item.id)).toEqual(["long"]);
+  });
+});
+
+describe("parseReviewYear", () => {
+  it("accepts four-digit years from 1970", () => {
+    expect(parseReviewYear("2023")).toBe(2023);
+    expect(parseReviewYear("1969")).toBeNull();
+    expect(parseReviewYear("23")).toBeNull();
+    expect(parseReviewYear("2023a")).toBeNull();
+  });
+});
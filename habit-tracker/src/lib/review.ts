@@ -0,0 +1,166 @@
+import { addDays, parseDate } from "./dates";
+import { summarizeRange, type DateRange, type Summary } from "./reports";
+import { computeStreaks, type Streak } from "./streaks";
+import type { HabitCompletion } from "./targets";
+import type { GratitudeEntry, Habit, HabitLog, Routine } from "./types";
+
+export type MonthReview = {
+  /** `YYYY-MM`. */
+  month: string;
+  label: string;
+  totalMinutes: number;
+  completionRate: number;
+  activeDays: number;
+};
+
+export type HabitReview = HabitCompletion & {
+  /** Longest run within the year, not across all history. */
+  longestStreak: Streak;
+};
+
+export type YearReview = {
+  year: number;
+  range: DateRange;
+  summary: Summary;
+  habits: HabitReview[];
+  months: MonthReview[];
+  bestMonth: MonthReview | null;
+  highlights: GratitudeEntry[];
+};
+
+/** A four-digit year from a route segment, or null when it is not one. */
+export function parseReviewYear(value: string): number | null {
+  if (!/^\d{4}$/.test(value)) {
+    return null;
+  }
+  const year = Number(value);
+  return year >= 1970 ? year : null;
+}
+
+function monthLabel(month: string) {
+  return parseDate(`${month}-01`).toLocaleDateString(undefined, { month: "long" });
+}
+
+/**
+ * One reflection per month for the review: the highest mood rating wins, and
+ * the longer response breaks ties. Unanswered entries never qualify.
+ */
+export function pickGratitudeHighlights(
+  gratitude: GratitudeEntry[],
+  { startKey, endKey }: DateRange,
+): GratitudeEntry[] {
+  const byMonth = new Map<string, GratitudeEntry>();
+  for (const entry of gratitude) {
+    const response = entry.response.trim();
+    if (entry.date < startKey || entry.date > endKey || response.length === 0) {
+      continue;
+    }
+    const month = entry.date.slice(0, 7);
+    const current = byMonth.get(month);
+    if (
+      !current ||
+      (entry.mood ?? 0) > (current.mood ?? 0) ||
+      ((entry.mood ?? 0) === (current.mood ?? 0) &&
+        response.length > current.response.trim().length)
+    ) {
+      byMonth.set(month, entry);
+    }
+  }
+  return Array.from(byMonth.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Everything the year-end review shows for `year`, up to `todayKey` for the
+ * current year. Returns null for years that have not started yet.
+ */
+export function buildYearReview({
+  habits,
+  routines,
+  logs,
+  gratitude,
+  year,
+  todayKey,
+}: {
+  habits: Habit[];
+  routines: Routine[];
+  logs: HabitLog[];
+  gratitude: GratitudeEntry[];
+  year: number;
+  todayKey: string;
+}): YearReview | null {
+  const startKey = `${year}-01-01`;
+  if (startKey > todayKey) {
+    return null;
+  }
+  const yearEnd = `${year}-12-31`;
+  const range = { startKey, endKey: yearEnd < todayKey ? yearEnd : todayKey };
+  const yearLogs = logs.filter((log) => log.date >= range.startKey && log.date <= range.endKey);
+
+  const summary = summarizeRange({
+    logs,
+    habits,
+    routines,
+    gratitude,
+    label: `${year} in review`,
+    ...range,
+    todayKey,
+  });
+
+  const streaks = computeStreaks(habits, yearLogs, range.endKey);
+  const reviewed = summary.habitBreakdown.map((entry) => ({
+    ...entry,
+    longestStreak: streaks.get(entry.habitId) ?? { current: 0, longest: 0, unit: "day" as const },
+  }));
+
+  const months: MonthReview[] = [];
+  for (let month = 1; month <= 12; month += 1) {
+    const monthStart = `${year}-${String(month).padStart(2, "0")}-01`;
+    if (monthStart > range.endKey) {
+      break;
+    }
+    const monthEnd = addDays(
+      month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, "0")}-01`,
+      -1,
+    );
+    const monthSummary = summarizeRange({
+      logs,
+      habits,
+      routines,
+      gratitude,
+      label: monthStart.slice(0, 7),
+      startKey: monthStart,
+      endKey: monthEnd < range.endKey ? monthEnd : range.endKey,
+      todayKey,
+    });
+    months.push({
+      month: monthStart.slice(0, 7),
+      label: monthLabel(monthStart.slice(0, 7)),
+      totalMinutes: monthSummary.totalMinutes,
+      completionRate: monthSummary.completionRate,
+      activeDays: monthSummary.activeDays,
+    });
+  }
+
+  // Completion decides the best month; minutes break ties between equally complete ones.
+  const bestMonth = months
+    .filter((month) => month.activeDays > 0)
+    .reduce<MonthReview | null>(
+      (best, month) =>
+        !best ||
+        month.completionRate > best.completionRate ||
+        (month.completionRate === best.completionRate && month.totalMinutes > best.totalMinutes)
+          ? month
+          : best,
+      null,
+    );
+
+  return {
+    year,
+    range,
+    summary,
+    habits: reviewed,
+    months,
+    bestMonth,
+    highlights: pickGratitudeHighlights(gratitude, range),
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { habit, minutesLog, valueLog } from "../test/fixtures";
+import { completeRoutine, moveHabit } from "./routines";
+import type { Habit, HabitLog } from "./types";
+
+const AT = "2024-01-03T08:00:00.000Z";
+
+function layout(habits: Habit[]) {
+  return habits
+    .slice()
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((item) => `${item.id}:${item.routineId ?? "-"}:${item.position}`);
+}
+
+describe("moveHabit", () => {
+  const habits = [
+    habit("a", { routineId: "morning", position: 0 }),
+    habit("b", { routineId: "morning", position: 1 }),
+    habit("c", { routineId: "morning", position: 2 }),
+    habit("x", { routineId: "evening", position: 0 }),
+    habit("y", { routineId: "evening", position: 1 }),
+  ];
+
+  it("reorders habits within a routine", () => {
+    expect(layout(moveHabit(habits, "c", "morning", "a"))).toEqual([
+      "a:morning:1",
+      "b:morning:2",
+      "c:morning:0",
+      "x:evening:0",
+      "y:evening:1",
+    ]);
+    expect(layout(moveHabit(habits, "a", "morning", null))).toEqual([
+      "a:morning:2",
+      "b:morning:0",
+      "c:morning:1",
+      "x:evening:0",
+      "y:evening:1",
+    ]);
+  });
+
+  it("moves a habit to another routine and renumbers where it lands", () => {
+    expect(layout(moveHabit(habits, "b", "evening", "y"))).toEqual([
+      "a:morning:0",
+      "b:evening:1",
+      "c:morning:2",
+      "x:evening:0",
+      "y:evening:2",
+    ]);
+  });
+
+  it("does nothing when a habit is dropped before itself or is unknown", () => {
+    expect(moveHabit(habits, "b", "morning", "b")).toBe(habits);
+    expect(moveHabit(habits, "gone", "morning", null)).toBe(habits);
+  });
+});
+
+describe("completeRoutine", () => {
+  // 2024-01-03 is a Wednesday.
+  const complete = (habits: Habit[], logs: HabitLog[]) =>
+    completeRoutine({
+      habits,
+      logs,
+      routineId: "morning",
+      date: "2024-01-03",
+      sessionId: "done",
+      at: AT,
+    });
+
+  it("logs what each habit still needs for the day", () => {
+    const habits = [
+      habit("run", { routineId: "morning", target: 30 }),
+      habit("water", { routineId: "morning", kind: "count", target: 8 }),
+      habit("floss", { routineId: "morning", kind: "checkbox" }),
+      habit("read", { routineId: "evening", target: 10 }),
+    ];
+    const logs = complete(habits, [minutesLog("run", "2024-01-03", 10)]);
+    expect(logs.map((log) => [log.habitId, log.minutes, log.value])).toEqual([
+      ["run", 30, undefined],
+      ["water", 0, 8],
+      ["floss", 0, 1],
+    ]);
+    expect(logs[0]!.sessions.map((session) => session.id)).toEqual(["run-2024-01-03", "done-run"]);
+  });
+
+  it("logs one scheduled day's share of a weekly target", () => {
+    const swim = habit("swim", {
+      routineId: "morning",
+      target: 140,
+      targetPeriod: "week",
+      schedule: { type: "weekdays", days: [1, 2, 3, 4, 5] },
+    });
+    const logs = complete([swim], [minutesLog("swim", "2024-01-01", 60)]);
+    expect(logs.find((log) => log.date === "2024-01-03")).toMatchObject({ minutes: 28 });
+  });
+
+  it("leaves met, avoid, unscheduled and archived habits alone", () => {
+    const habits = [
+      habit("run", { routineId: "morning", target: 30 }),
+      habit("sugar", { routineId: "morning", kind: "avoid" }),
+      habit("gym", { routineId: "morning", schedule: { type: "weekdays", days: [1] } }),
+      habit("old", { routineId: "morning", kind: "checkbox", archived: true }),
+      habit("swim", { routineId: "morning", target: 60, targetPeriod: "week" }),
+    ];
+    const logs = [minutesLog("run", "2024-01-03", 30), minutesLog("swim", "2024-01-02", 60)];
+    expect(complete(habits, logs)).toBe(logs);
+  });
+
+  it("does not log a timed habit without a target", () => {
+    const logs = [valueLog("other", "2024-01-03", 1)];
+    expect(complete([habit("stretch", { routineId: "morning" })], logs)).toBe(logs);
+  });
+});
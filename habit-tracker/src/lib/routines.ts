@@ -0,0 +1,164 @@
+import { logAmount, setLogValue } from "./kinds";
+import { isScheduledOn, scheduledDaysPerWeek } from "./schedule";
+import { addSession } from "./sessions";
+import { judgeDay } from "./targets";
+import type { Habit, HabitLog, Routine, RoutineSlot } from "./types";
+
+export const ROUTINE_SLOTS: RoutineSlot[] = ["morning", "midday", "afternoon", "evening", "anytime"];
+
+export const ROUTINE_SLOT_LABELS: Record<RoutineSlot, string> = {
+  morning: "Morning",
+  midday: "Midday",
+  afternoon: "Afternoon",
+  evening: "Evening",
+  anytime: "Any time",
+};
+
+export type RoutineGroup = {
+  /** Null collects the habits that are not in any routine. */
+  routine: Routine | null;
+  habits: Habit[];
+};
+
+/** Routines by time of day, then name. */
+export function orderRoutines(routines: Routine[]): Routine[] {
+  return routines
+    .slice()
+    .sort(
+      (a, b) =>
+        ROUTINE_SLOTS.indexOf(a.slot) - ROUTINE_SLOTS.indexOf(b.slot) ||
+        a.name.localeCompare(b.name),
+    );
+}
+
+function compareInRoutine(a: Habit, b: Habit) {
+  return a.position - b.position || b.importance - a.importance || a.name.localeCompare(b.name);
+}
+
+/**
+ * Habits in stack order: routine by routine, then each routine's own order.
+ * Ungrouped habits, and ones whose routine was deleted elsewhere, come last.
+ */
+export function orderHabits(habits: Habit[], routines: Routine[]): Habit[] {
+  const rank = new Map(orderRoutines(routines).map((routine, index) => [routine.id, index]));
+  const rankOf = (habit: Habit) =>
+    habit.routineId !== null && rank.has(habit.routineId) ? rank.get(habit.routineId)! : rank.size;
+  return habits.slice().sort((a, b) => rankOf(a) - rankOf(b) || compareInRoutine(a, b));
+}
+
+/** Splits ordered habits into routine sections; every routine gets one, even when empty. */
+export function groupByRoutine(habits: Habit[], routines: Routine[]): RoutineGroup[] {
+  const ordered = orderHabits(habits, routines);
+  const groups: RoutineGroup[] = orderRoutines(routines).map((routine) => ({
+    routine,
+    habits: ordered.filter((habit) => habit.routineId === routine.id),
+  }));
+  const grouped = new Set(routines.map((routine) => routine.id));
+  const ungrouped = ordered.filter(
+    (habit) => habit.routineId === null || !grouped.has(habit.routineId),
+  );
+  return ungrouped.length > 0 ? [...groups, { routine: null, habits: ungrouped }] : groups;
+}
+
+/** The position that puts a new habit at the end of `routineId`. */
+export function nextPosition(habits: Habit[], routineId: string | null): number {
+  return (
+    Math.max(
+      -1,
+      ...habits.filter((habit) => habit.routineId === routineId).map((habit) => habit.position),
+    ) + 1
+  );
+}
+
+/** Where a dragged habit lands: before a habit, or at the end of the routine. */
+export type DropTarget = { routineId: string | null; beforeHabitId: string | null };
+
+/**
+ * Moves a habit into `routineId`, just before `beforeHabitId` or at the end,
+ * and renumbers that routine so positions stay consecutive.
+ */
+export function moveHabit(
+  habits: Habit[],
+  habitId: string,
+  routineId: string | null,
+  beforeHabitId: string | null,
+): Habit[] {
+  const moving = habits.find((habit) => habit.id === habitId);
+  if (!moving || habitId === beforeHabitId) {
+    return habits;
+  }
+  const siblings = habits
+    .filter((habit) => habit.routineId === routineId && habit.id !== habitId)
+    .sort(compareInRoutine);
+  const index = siblings.findIndex((habit) => habit.id === beforeHabitId);
+  siblings.splice(index === -1 ? siblings.length : index, 0, { ...moving, routineId });
+  const placed = new Map(siblings.map((habit, position) => [habit.id, { ...habit, position }]));
+  return habits.map((habit) => placed.get(habit.id) ?? habit);
+}
+
+/** How many of a group's habits are due on `dateKey`, and how many of those are met. */
+export function groupProgress(
+  habits: Habit[],
+  logs: HabitLog[],
+  dateKey: string,
+): { scheduled: number; met: number } {
+  const scheduled = habits.filter((habit) => isScheduledOn(habit.schedule, dateKey));
+  return {
+    scheduled: scheduled.length,
+    met: scheduled.filter((habit) => judgeDay(habit, logs, dateKey).status === "met").length,
+  };
+}
+
+/**
+ * Logs what each habit in a routine still needs on `date` to meet its target:
+ * the remaining minutes as one session, or the remaining count. Weekly
+ * targets log one scheduled day's share. Habits that are already met, not
+ * scheduled, avoid habits and timed habits without a target are left alone.
+ */
+export function completeRoutine({
+  habits,
+  logs,
+  routineId,
+  date,
+  sessionId,
+  at,
+}: {
+  habits: Habit[];
+  logs: HabitLog[];
+  routineId: string;
+  date: string;
+  /** Prefix for the ids of the sessions this adds, one per habit. */
+  sessionId: string;
+  at: string;
+}): HabitLog[] {
+  let next = logs;
+  for (const habit of habits) {
+    if (
+      habit.routineId !== routineId ||
+      habit.archived ||
+      habit.kind === "avoid" ||
+      !isScheduledOn(habit.schedule, date) ||
+      judgeDay(habit, next, date).status === "met"
+    ) {
+      continue;
+    }
+    const existing = next.find((log) => log.habitId === habit.id && log.date === date);
+    const done = existing ? logAmount(habit, existing) : 0;
+    const goal = habit.target
+      ? Math.ceil(
+          habit.targetPeriod === "week"
+            ? habit.target / scheduledDaysPerWeek(habit.schedule)
+            : habit.target,
+        )
+      : null;
+    if (habit.kind === "duration") {
+      if (goal !== null && goal > done) {
+        const session = { id: `${sessionId}-${habit.id}`, minutes: goal - done };
+        next = addSession(next, habit.id, date, session, at);
+      }
+    } else {
+      next = setLogValue(next, habit.id, date, Math.max(done, goal ?? 1), at);
+    }
+  }
+  return next;
+}
@@ -0,0 +1,61 @@
+import { parseDate } from "./dates";
+import type { HabitSchedule } from "./types";
+
+export const DAILY_SCHEDULE: HabitSchedule = { type: "daily" };
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function normalizeSchedule(value: unknown): HabitSchedule | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const schedule = value as Record<string, unknown>;
+  if (schedule.type === "daily") {
+    return DAILY_SCHEDULE;
+  }
+  if (schedule.type === "weekdays" && Array.isArray(schedule.days)) {
+    const days = Array.from(
+      new Set(
+        schedule.days.filter(
+          (day): day is number => Number.isInteger(day) && day >= 0 && day <= 6,
+        ),
+      ),
+    ).sort((a, b) => a - b);
+    return days.length > 0 ? { type: "weekdays", days } : null;
+  }
+  if (schedule.type === "weekly" && typeof schedule.timesPerWeek === "number") {
+    const timesPerWeek = Math.round(schedule.timesPerWeek);
+    return timesPerWeek >= 1 && timesPerWeek <= 7 ? { type: "weekly", timesPerWeek } : null;
+  }
+  return null;
+}
+
+export function isScheduledOn(schedule: HabitSchedule, dateKey: string): boolean {
+  if (schedule.type === "weekdays") {
+    return schedule.days.includes(parseDate(dateKey).getDay());
+  }
+  return true;
+}
+
+/** Days a week the schedule expects the habit, used to spread weekly targets over them. */
+export function scheduledDaysPerWeek(schedule: HabitSchedule): number {
+  switch (schedule.type) {
+    case "daily":
+      return 7;
+    case "weekdays":
+      return schedule.days.length;
+    case "weekly":
+      return schedule.timesPerWeek;
+  }
+}
+
+export function describeSchedule(schedule: HabitSchedule): string {
+  switch (schedule.type) {
+    case "daily":
+      return "Every day";
+    case "weekdays":
+      return schedule.days.map((day) => WEEKDAY_LABELS[day]).join(", ");
+    case "weekly":
+      return `${schedule.timesPerWeek}× per week`;
+  }
+}
@@ -0,0 +1,60 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+let dataDir: string;
+let accounts: typeof import("./accounts");
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "habit-accounts-"));
+  // The stores read their directory when first imported.
+  vi.stubEnv("HABIT_TRACKER_DATA_DIR", dataDir);
+  accounts = await import("./accounts");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const request = (token: string) =>
+  new Request("http://localhost/api", { headers: { Authorization: `Bearer ${token}` } });
+
+describe("accounts", () => {
+  it("registers once per username and signs the account in", async () => {
+    const session = await accounts.registerUser({ username: "ada", password: "correct horse" });
+    expect(session).toMatchObject({ account: { username: "ada", premium: false } });
+    if (typeof session === "string") {
+      throw new Error("expected a session");
+    }
+    expect(await accounts.authenticate(request(session.token))).toMatchObject({ username: "ada" });
+    expect(await accounts.registerUser({ username: "ada", password: "other" })).toBe("taken");
+  });
+
+  it("rejects a wrong password and an unknown username alike", async () => {
+    expect(await accounts.login({ username: "ada", password: "wrong" })).toBeNull();
+    expect(await accounts.login({ username: "nobody", password: "correct horse" })).toBeNull();
+    const session = await accounts.login({ username: "ada", password: "correct horse" });
+    expect(session?.account.username).toBe("ada");
+  });
+
+  it("keeps other requests moving while passwords are checked", async () => {
+    const session = await accounts.login({ username: "ada", password: "correct horse" });
+    const token = session!.token;
+    const order: string[] = [];
+    await Promise.all([
+      accounts
+        .login({ username: "ada", password: "correct horse" })
+        .then(() => order.push("login")),
+      accounts.authenticate(request(token)).then(() => order.push("authenticate")),
+    ]);
+    expect(order).toEqual(["authenticate", "login"]);
+  });
+
+  it("signs out a session", async () => {
+    const session = await accounts.login({ username: "ada", password: "correct horse" });
+    await accounts.logout(session!.token);
+    expect(await accounts.authenticate(request(session!.token))).toBeNull();
+  });
+});
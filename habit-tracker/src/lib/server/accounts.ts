@@ -0,0 +1,255 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import { promisify } from "node:util";
+import {
+  bearerToken,
+  type AccountInfo,
+  type ApiTokenInfo,
+  type Credentials,
+  type SessionInfo,
+} from "../auth";
+import { createId } from "../ids";
+import { createLock, readJsonFile, writeJsonFile } from "./jsonStore";
+import { adoptLegacyState, DATA_DIR } from "./stateStore";
+
+const USERS_FILE = path.join(DATA_DIR, "users.json");
+const SESSIONS_FILE = path.join(DATA_DIR, "sessions.json");
+const API_TOKENS_FILE = path.join(DATA_DIR, "api-tokens.json");
+const API_TOKEN_PREFIX = "htk_";
+const MAX_TOKEN_LABEL_LENGTH = 60;
+const SESSION_TTL_MS = 30 * 86_400_000;
+const KEY_LENGTH = 64;
+
+const deriveKey = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number,
+) => Promise<Buffer>;
+
+type UserRecord = {
+  id: string;
+  username: string;
+  /** `scrypt$<salt>$<key>`, both base64url. */
+  passwordHash: string;
+  /** Granted by whoever runs the server, by editing this file or `HABIT_TRACKER_PREMIUM_USERS`. */
+  premium: boolean;
+  createdAt: string;
+};
+
+type SessionRecord = {
+  /** Only a hash is kept, so a copy of the store cannot be used to sign in. */
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+/** A long-lived token for scripts; unlike sessions it lasts until revoked. */
+type ApiTokenRecord = {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  label: string;
+  createdAt: string;
+};
+
+const withAccountLock = createLock();
+
+async function readList<T>(file: string, field: string): Promise<T[]> {
+  const items = await readJsonFile(file, (value) => (value as Record<string, unknown>)[field]);
+  return Array.isArray(items) ? (items as T[]) : [];
+}
+
+function writeList<T>(file: string, field: string, items: T[]): Promise<void> {
+  return writeJsonFile(file, JSON.stringify({ version: 1, [field]: items }), 0o600);
+}
+
+const readUsers = () => readList<UserRecord>(USERS_FILE, "users");
+const readSessions = () => readList<SessionRecord>(SESSIONS_FILE, "sessions");
+const readApiTokens = () => readList<ApiTokenRecord>(API_TOKENS_FILE, "tokens");
+
+function hash(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("base64url");
+  const key = await deriveKey(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${key.toString("base64url")}`;
+}
+
+/**
+ * Checked when the username is unknown, so that case costs the same scrypt
+ * work as a wrong password and response times do not reveal which names exist.
+ */
+const UNKNOWN_USER_HASH = `scrypt$${randomBytes(16).toString("base64url")}$${randomBytes(
+  KEY_LENGTH,
+).toString("base64url")}`;
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, expected] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !expected) {
+    return false;
+  }
+  const key = await deriveKey(password, salt, KEY_LENGTH);
+  const expectedKey = Buffer.from(expected, "base64url");
+  return expectedKey.length === key.length && timingSafeEqual(expectedKey, key);
+}
+
+/** Usernames listed in `HABIT_TRACKER_PREMIUM_USERS` (comma separated) get premium too. */
+function premiumUsernames(): Set<string> {
+  return new Set(
+    (process.env.HABIT_TRACKER_PREMIUM_USERS ?? "")
+      .split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean),
+  );
+}
+
+function accountInfo(user: UserRecord): AccountInfo {
+  return {
+    id: user.id,
+    username: user.username,
+    premium: user.premium || premiumUsernames().has(user.username),
+  };
+}
+
+export function isRegistrationOpen() {
+  return process.env.HABIT_TRACKER_REGISTRATION !== "closed";
+}
+
+/** Must run under the account lock. */
+async function startSession(user: UserRecord): Promise<SessionInfo> {
+  const now = Date.now();
+  const token = randomBytes(32).toString("base64url");
+  const session: SessionRecord = {
+    tokenHash: hash(token),
+    userId: user.id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+  const sessions = (await readSessions()).filter((item) => Date.parse(item.expiresAt) > now);
+  await writeList(SESSIONS_FILE, "sessions", [...sessions, session]);
+  return { token, expiresAt: session.expiresAt, account: accountInfo(user) };
+}
+
+/**
+ * Creates an account and signs it in. The first account on a server that was
+ * used before accounts existed takes over the shared state file.
+ */
+export async function registerUser(
+  credentials: Credentials,
+): Promise<SessionInfo | "taken" | "closed"> {
+  // Hashing is slow, so it happens before taking the lock every request waits on.
+  const passwordHash = await hashPassword(credentials.password);
+  return withAccountLock(async () => {
+    if (!isRegistrationOpen()) {
+      return "closed";
+    }
+    const users = await readUsers();
+    if (users.some((user) => user.username === credentials.username)) {
+      return "taken";
+    }
+    const user: UserRecord = {
+      id: createId(),
+      username: credentials.username,
+      passwordHash,
+      premium: false,
+      createdAt: new Date().toISOString(),
+    };
+    await writeList(USERS_FILE, "users", [...users, user]);
+    if (users.length === 0) {
+      await adoptLegacyState(user.id);
+    }
+    return startSession(user);
+  });
+}
+
+/** Null for an unknown username and a wrong password alike. */
+export async function login(credentials: Credentials): Promise<SessionInfo | null> {
+  const user = await withAccountLock(async () =>
+    (await readUsers()).find((item) => item.username === credentials.username),
+  );
+  const valid = await verifyPassword(
+    credentials.password,
+    user?.passwordHash ?? UNKNOWN_USER_HASH,
+  );
+  if (!user || !valid) {
+    return null;
+  }
+  return withAccountLock(() => startSession(user));
+}
+
+export function logout(token: string): Promise<void> {
+  return withAccountLock(async () => {
+    const sessions = await readSessions();
+    const remaining = sessions.filter((item) => item.tokenHash !== hash(token));
+    if (remaining.length !== sessions.length) {
+      await writeList(SESSIONS_FILE, "sessions", remaining);
+    }
+  });
+}
+
+function toTokenInfo(record: ApiTokenRecord): ApiTokenInfo {
+  return { id: record.id, label: record.label, createdAt: record.createdAt };
+}
+
+export function listApiTokens(userId: string): Promise<ApiTokenInfo[]> {
+  return withAccountLock(async () =>
+    (await readApiTokens()).filter((item) => item.userId === userId).map(toTokenInfo),
+  );
+}
+
+export function createApiToken(
+  userId: string,
+  label: string,
+): Promise<ApiTokenInfo & { token: string }> {
+  return withAccountLock(async () => {
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const record: ApiTokenRecord = {
+      id: createId(),
+      tokenHash: hash(token),
+      userId,
+      label: label.trim().slice(0, MAX_TOKEN_LABEL_LENGTH) || "API token",
+      createdAt: new Date().toISOString(),
+    };
+    await writeList(API_TOKENS_FILE, "tokens", [...(await readApiTokens()), record]);
+    return { ...toTokenInfo(record), token };
+  });
+}
+
+/** False when the account has no token with that id. */
+export function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  return withAccountLock(async () => {
+    const tokens = await readApiTokens();
+    const remaining = tokens.filter((item) => !(item.id === tokenId && item.userId === userId));
+    if (remaining.length === tokens.length) {
+      return false;
+    }
+    await writeList(API_TOKENS_FILE, "tokens", remaining);
+    return true;
+  });
+}
+
+/**
+ * The account behind the request's bearer token, which may be a session or
+ * an API token, or null when it has none or it expired.
+ */
+export async function authenticate(request: Request): Promise<AccountInfo | null> {
+  const token = bearerToken(request.headers.get("Authorization"));
+  if (!token) {
+    return null;
+  }
+  return withAccountLock(async () => {
+    const tokenHash = hash(token);
+    let userId: string | undefined;
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+      userId = (await readApiTokens()).find((item) => item.tokenHash === tokenHash)?.userId;
+    } else {
+      const session = (await readSessions()).find((item) => item.tokenHash === tokenHash);
+      userId = session && Date.parse(session.expiresAt) > Date.now() ? session.userId : undefined;
+    }
+    const user = userId ? (await readUsers()).find((item) => item.id === userId) : undefined;
+    return user ? accountInfo(user) : null;
+  });
+}
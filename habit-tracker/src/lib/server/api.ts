@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import type { AccountInfo } from "../auth";
+import { authenticate } from "./accounts";
+
+export function apiError(status: number, error: string) {
+  return NextResponse.json({ error }, { status });
+}
+
+/** Runs `handle` for the account behind the request's bearer token, or answers 401. */
+export async function withAccount(
+  request: Request,
+  handle: (account: AccountInfo) => Promise<Response>,
+): Promise<Response> {
+  const account = await authenticate(request);
+  if (!account) {
+    return NextResponse.json(
+      { error: "Send an API token as \"Authorization: Bearer <token>\"." },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    );
+  }
+  return handle(account);
+}
+
+export async function readJson(request: Request): Promise<unknown> {
+  return request.json().catch(() => null);
+}
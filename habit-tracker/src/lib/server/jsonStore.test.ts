@@ -0,0 +1,62 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createLock, readJsonFile, writeJsonFile } from "./jsonStore";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "habit-json-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("json store files", () => {
+  it("writes through a temporary file into missing directories", async () => {
+    const file = path.join(dir, "users", "a", "state.json");
+    await writeJsonFile(file, JSON.stringify({ ok: true }));
+    expect(await readJsonFile(file, (value) => value)).toEqual({ ok: true });
+    expect(await readdir(path.dirname(file))).toEqual(["state.json"]);
+  });
+
+  it("reads a missing file as null", async () => {
+    expect(await readJsonFile(path.join(dir, "none.json"), (value) => value)).toBeNull();
+  });
+
+  it("moves an unreadable file aside instead of letting it be overwritten", async () => {
+    const file = path.join(dir, "shares.json");
+    await writeFile(file, "{broken", "utf8");
+    expect(await readJsonFile(file, (value) => value)).toBeNull();
+    const [corrupt] = (await readdir(dir)).filter((name) => name.includes(".corrupt-"));
+    expect(await readFile(path.join(dir, corrupt!), "utf8")).toBe("{broken");
+
+    await writeFile(file, "[]", "utf8");
+    const rejecting = () => {
+      throw new Error("Not a store file.");
+    };
+    expect(await readJsonFile(file, rejecting)).toBeNull();
+    expect(await readdir(dir)).not.toContain("shares.json");
+  });
+});
+
+describe("createLock", () => {
+  it("runs tasks one at a time and keeps going after a failure", async () => {
+    const lock = createLock();
+    const order: string[] = [];
+    const slow = lock(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      order.push("slow");
+      throw new Error("failed");
+    });
+    const fast = lock(async () => {
+      order.push("fast");
+      return "done";
+    });
+    await expect(slow).rejects.toThrow("failed");
+    expect(await fast).toBe("done");
+    expect(order).toEqual(["slow", "fast"]);
+  });
+});
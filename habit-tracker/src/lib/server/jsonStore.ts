@@ -0,0 +1,49 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * A queue that runs tasks one at a time, so concurrent requests cannot
+ * interleave their reads and writes of the same files. Each store has its own.
+ */
+export function createLock() {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task, task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+}
+
+/**
+ * Reads and parses a JSON file, or null when it does not exist. A file that
+ * is not JSON, or that `parse` throws on, is renamed aside for inspection
+ * instead of being overwritten by the next write, and also reads as null.
+ */
+export async function readJsonFile<T>(
+  file: string,
+  parse: (value: unknown) => T,
+): Promise<T | null> {
+  let stored: string;
+  try {
+    stored = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+  try {
+    return parse(JSON.parse(stored));
+  } catch {
+    await rename(file, `${file}.corrupt-${Date.now()}`);
+    return null;
+  }
+}
+
+/** Replaces `file` in one step, so a crash mid-write never leaves it half written. */
+export async function writeJsonFile(file: string, contents: string, mode?: number): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await writeFile(tempFile, contents, { encoding: "utf8", mode });
+  await rename(tempFile, file);
+}
@@ -0,0 +1,108 @@
+import {
+  insightCacheKey,
+  validateInsight,
+  type Insight,
+  type InsightContext,
+} from "../insights";
+
+/** Base URL of an OpenAI-compatible API, e.g. `http://localhost:11434/v1`. */
+const LLM_URL = process.env.HABIT_TRACKER_LLM_URL;
+const LLM_MODEL = process.env.HABIT_TRACKER_LLM_MODEL ?? "llama3.1";
+const LLM_API_KEY = process.env.HABIT_TRACKER_LLM_API_KEY;
+const REQUEST_TIMEOUT_MS = 60_000;
+const MAX_CACHED_RANGES = 50;
+
+const SYSTEM_PROMPT = `You are a supportive habit coach. You receive a JSON summary of one person's habits over a date range.
+Reply with JSON only, shaped as {"insights": [{"type", "severity", "habitId", "message"}]}.
+- type: one of "highlight", "opportunity", "consistency", "gratitude", "suggestion".
+- severity: one of "positive", "info", "warning".
+- habitId: the id of the habit the insight is about, or null.
+- message: one or two plain sentences addressed to the person.
+Give between three and six insights grounded in the numbers you were given.`;
+
+const cache = new Map<string, Insight[]>();
+
+export class LlmError extends Error {}
+
+export function isLlmConfigured(): boolean {
+  return Boolean(LLM_URL);
+}
+
+function completionsUrl(base: string) {
+  const trimmed = base.replace(/\/+$/, "");
+  return trimmed.endsWith("/chat/completions") ? trimmed : `${trimmed}/chat/completions`;
+}
+
+/** Models often wrap JSON in prose or code fences; take the outermost object. */
+function parseReply(content: string): Insight[] {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new LlmError("The model did not reply with JSON.");
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    throw new LlmError("The model replied with malformed JSON.");
+  }
+  const items =
+    typeof parsed === "object" && parsed !== null && "insights" in parsed
+      ? parsed.insights
+      : null;
+  if (!Array.isArray(items)) {
+    throw new LlmError("The model reply had no insights list.");
+  }
+  return items.map(validateInsight).filter((item): item is Insight => item !== null);
+}
+
+export async function requestLlmInsights(context: InsightContext): Promise<Insight[]> {
+  if (!LLM_URL) {
+    throw new LlmError("No language model is configured on the server.");
+  }
+  const key = insightCacheKey("llm", context);
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(completionsUrl(LLM_URL), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(LLM_API_KEY ? { Authorization: `Bearer ${LLM_API_KEY}` } : {}),
+      },
+      body: JSON.stringify({
+        model: LLM_MODEL,
+        temperature: 0.4,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: JSON.stringify(context) },
+        ],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch {
+    throw new LlmError("The language model server could not be reached.");
+  }
+  if (!response.ok) {
+    throw new LlmError(`The language model server answered with status ${response.status}.`);
+  }
+
+  const body = (await response.json().catch(() => null)) as {
+    choices?: { message?: { content?: unknown } }[];
+  } | null;
+  const content = body?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") {
+    throw new LlmError("The language model reply had no message.");
+  }
+  const insights = parseReply(content);
+
+  if (cache.size >= MAX_CACHED_RANGES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, insights);
+  return insights;
+}
@@ -0,0 +1,65 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { habit, minutesLog } from "../../test/fixtures";
+import { defaultState } from "../persistence";
+import { buildShareSnapshot, type ShareOptions } from "../share";
+
+let dataDir: string;
+let store: typeof import("./shareStore");
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "habit-shares-"));
+  // The stores read their directory when first imported.
+  vi.stubEnv("HABIT_TRACKER_DATA_DIR", dataDir);
+  vi.stubEnv("HABIT_TRACKER_SHARE_SECRET", "test secret");
+  store = await import("./shareStore");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const options: ShareOptions = {
+  label: "January",
+  habitIds: ["run"],
+  range: { startKey: "2024-01-01", endKey: "2024-01-31" },
+  gratitude: "none",
+  expiresInDays: 7,
+};
+
+const snapshot = buildShareSnapshot(
+  { ...defaultState, habits: [habit("run")], logs: [minutesLog("run", "2024-01-02", 20)] },
+  options,
+  "2024-02-01T00:00:00.000Z",
+);
+
+describe("share store", () => {
+  it("lists links only to the account that made them", async () => {
+    const created = await store.createShare(snapshot, 7, "ada");
+    const [listed] = await store.listShares("ada");
+    expect(listed).toMatchObject({ id: created.id, token: created.token, label: "January" });
+    expect(listed?.range).toEqual(options.range);
+    expect(await store.listShares("bob")).toEqual([]);
+    expect(await store.lookupShare(listed!.token)).toMatchObject({ status: "active" });
+  });
+
+  it("lets the owner revoke a link without its key, and nobody else", async () => {
+    const created = await store.createShare(snapshot, 7, "ada");
+    expect(await store.revokeShare(created.id, { ownerId: "bob" })).toBe("forbidden");
+    expect(await store.lookupShare(created.token)).toMatchObject({ status: "active" });
+    expect(await store.revokeShare(created.id, { ownerId: "ada" })).toBe("revoked");
+    expect(await store.lookupShare(created.token)).toEqual({ status: "revoked" });
+    const listed = (await store.listShares("ada")).find((link) => link.id === created.id);
+    expect(listed?.revokedAt).not.toBeNull();
+  });
+
+  it("still accepts the revoke key handed out at creation", async () => {
+    const created = await store.createShare(snapshot, 7, "ada");
+    expect(await store.revokeShare(created.id, { revokeKey: "wrong" })).toBe("forbidden");
+    expect(await store.revokeShare(created.id, { revokeKey: created.revokeKey })).toBe("revoked");
+    expect(await store.revokeShare("missing", { ownerId: "ada" })).toBe("missing");
+  });
+});
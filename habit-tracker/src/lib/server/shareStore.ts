@@ -0,0 +1,194 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createId } from "../ids";
+import { parseShareToken, type ShareLinkInfo, type ShareSnapshot } from "../share";
+import { createLock, readJsonFile, writeJsonFile } from "./jsonStore";
+import { DATA_DIR } from "./stateStore";
+
+const SHARES_FILE = path.join(DATA_DIR, "shares.json");
+const SECRET_FILE = path.join(DATA_DIR, "share-secret");
+/** Expired and revoked links linger this long so their pages can say why they stopped working. */
+const RETENTION_MS = 30 * 86_400_000;
+
+type ShareRecord = {
+  id: string;
+  /** The account that made the link. */
+  ownerId: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  /** Only a hash is kept, so the store alone cannot revoke links. */
+  revokeKeyHash: string;
+  snapshot: ShareSnapshot;
+};
+
+export type CreatedShare = ShareLinkInfo & {
+  /** Handed to the creator once; revokes the link without signing in. */
+  revokeKey: string;
+};
+
+/** Who is asking to revoke a link: its owner, or anyone holding its revoke key. */
+export type RevokeAccess = { ownerId: string } | { revokeKey: string };
+
+export type ShareLookup =
+  | { status: "active"; snapshot: ShareSnapshot; expiresAt: string }
+  | { status: "expired" | "revoked" | "missing" };
+
+const withShareLock = createLock();
+let secret: Promise<Buffer> | null = null;
+
+async function readOrCreateSecret(): Promise<Buffer> {
+  try {
+    return Buffer.from(await readFile(SECRET_FILE, "utf8"), "base64");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+  const created = randomBytes(32);
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(SECRET_FILE, created.toString("base64"), { mode: 0o600 });
+  return created;
+}
+
+/**
+ * The signing key: `HABIT_TRACKER_SHARE_SECRET` when set, otherwise one made
+ * on first use and kept beside the store. Changing it invalidates every link.
+ */
+function shareSecret(): Promise<Buffer> {
+  const configured = process.env.HABIT_TRACKER_SHARE_SECRET;
+  if (configured) {
+    return Promise.resolve(Buffer.from(configured));
+  }
+  secret ??= readOrCreateSecret().catch((error: unknown) => {
+    secret = null;
+    throw error;
+  });
+  return secret;
+}
+
+function hash(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** Covers the expiry and content too, so editing the store file breaks the link. */
+async function sign(record: ShareRecord): Promise<string> {
+  return createHmac("sha256", await shareSecret())
+    .update(`${record.id}\n${record.expiresAt}\n${hash(JSON.stringify(record.snapshot))}`)
+    .digest("base64url");
+}
+
+async function readShares(): Promise<ShareRecord[]> {
+  const shares = await readJsonFile(SHARES_FILE, (value) => (value as { shares?: unknown }).shares);
+  return Array.isArray(shares) ? (shares as ShareRecord[]) : [];
+}
+
+function writeShares(shares: ShareRecord[]): Promise<void> {
+  return writeJsonFile(SHARES_FILE, JSON.stringify({ version: 1, shares }));
+}
+
+function isStale(record: ShareRecord, now: number) {
+  const endedAt = record.revokedAt ?? record.expiresAt;
+  return Date.parse(endedAt) + RETENTION_MS < now;
+}
+
+async function linkInfo(record: ShareRecord): Promise<ShareLinkInfo> {
+  return {
+    id: record.id,
+    token: `${record.id}.${await sign(record)}`,
+    label: record.snapshot.label,
+    range: record.snapshot.range,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+    revokedAt: record.revokedAt,
+  };
+}
+
+function mayRevoke(record: ShareRecord, access: RevokeAccess) {
+  if ("ownerId" in access) {
+    return record.ownerId === access.ownerId;
+  }
+  const expected = Buffer.from(record.revokeKeyHash);
+  const given = Buffer.from(hash(access.revokeKey));
+  return timingSafeEqual(expected, given);
+}
+
+export function createShare(
+  snapshot: ShareSnapshot,
+  expiresInDays: number,
+  ownerId: string,
+): Promise<CreatedShare> {
+  return withShareLock(async () => {
+    const now = Date.now();
+    const revokeKey = randomBytes(24).toString("base64url");
+    const record: ShareRecord = {
+      id: createId(),
+      ownerId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + expiresInDays * 86_400_000).toISOString(),
+      revokedAt: null,
+      revokeKeyHash: hash(revokeKey),
+      snapshot,
+    };
+    const shares = (await readShares()).filter((share) => !isStale(share, now));
+    await writeShares([...shares, record]);
+    return { ...(await linkInfo(record)), revokeKey };
+  });
+}
+
+/** The links `ownerId` made, newest first, until they are dropped after ending. */
+export function listShares(ownerId: string): Promise<ShareLinkInfo[]> {
+  return withShareLock(async () => {
+    const now = Date.now();
+    const owned = (await readShares())
+      .filter((share) => share.ownerId === ownerId && !isStale(share, now))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return Promise.all(owned.map(linkInfo));
+  });
+}
+
+export function revokeShare(
+  id: string,
+  access: RevokeAccess,
+): Promise<"revoked" | "missing" | "forbidden"> {
+  return withShareLock(async () => {
+    const shares = await readShares();
+    const record = shares.find((share) => share.id === id);
+    if (!record) {
+      return "missing";
+    }
+    if (!mayRevoke(record, access)) {
+      return "forbidden";
+    }
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      await writeShares(shares);
+    }
+    return "revoked";
+  });
+}
+
+/** Resolves a token from a share URL; a bad signature reads the same as an unknown link. */
+export async function lookupShare(token: string): Promise<ShareLookup> {
+  const parsed = parseShareToken(token);
+  if (!parsed) {
+    return { status: "missing" };
+  }
+  const record = (await withShareLock(readShares)).find((share) => share.id === parsed.id);
+  if (!record) {
+    return { status: "missing" };
+  }
+  const expected = Buffer.from(await sign(record));
+  const given = Buffer.from(parsed.signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { status: "missing" };
+  }
+  if (record.revokedAt) {
+    return { status: "revoked" };
+  }
+  if (Date.parse(record.expiresAt) <= Date.now()) {
+    return { status: "expired" };
+  }
+  return { status: "active", snapshot: record.snapshot, expiresAt: record.expiresAt };
+}
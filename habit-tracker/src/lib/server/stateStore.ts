@@ -0,0 +1,60 @@
+import { mkdir, rename } from "node:fs/promises";
+import path from "node:path";
+import { defaultState, migrateState, serializeState } from "../persistence";
+import { stampChanges } from "../sync";
+import type { AppState } from "../types";
+import { createLock, readJsonFile, writeJsonFile } from "./jsonStore";
+
+export const DATA_DIR = process.env.HABIT_TRACKER_DATA_DIR ?? path.join(process.cwd(), "data");
+/** Where the single shared state lived before accounts. */
+const LEGACY_STATE_FILE = path.join(DATA_DIR, "state.json");
+
+function stateFile(userId: string) {
+  return path.join(DATA_DIR, "users", userId, "state.json");
+}
+
+/** Runs store operations one at a time so concurrent syncs cannot interleave writes. */
+export const withStateLock = createLock();
+
+export function readServerState(userId: string): Promise<AppState | null> {
+  return readJsonFile(stateFile(userId), (value) => migrateState(value).state);
+}
+
+export function writeServerState(userId: string, state: AppState): Promise<void> {
+  return writeJsonFile(stateFile(userId), serializeState(state));
+}
+
+/**
+ * Applies an edit to a user's stored state, stamping changed records with
+ * `at` the way a device does so the edit syncs out. `edit` returns the next
+ * state, the same object when nothing changed, and a result for the caller.
+ */
+export function updateServerState<T>(
+  userId: string,
+  edit: (state: AppState, at: string) => { state: AppState; result: T },
+): Promise<T> {
+  return withStateLock(async () => {
+    const current = (await readServerState(userId)) ?? defaultState;
+    const at = new Date().toISOString();
+    const { state, result } = edit(current, at);
+    if (state !== current) {
+      await writeServerState(userId, stampChanges(current, state, at));
+    }
+    return result;
+  });
+}
+
+/** Moves the pre-accounts shared state, if there is one, to `userId`. */
+export function adoptLegacyState(userId: string): Promise<void> {
+  return withStateLock(async () => {
+    const file = stateFile(userId);
+    await mkdir(path.dirname(file), { recursive: true });
+    try {
+      await rename(LEGACY_STATE_FILE, file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  });
+}
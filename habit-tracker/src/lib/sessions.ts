@@ -0,0 +1,71 @@
+import type { HabitLog, HabitSession } from "./types";
+
+export function asMinutes(value: string): number {
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    return 0;
+  }
+  return Math.round(parsed);
+}
+
+export function sumSessions(sessions: HabitSession[]): number {
+  return sessions.reduce((acc, session) => acc + session.minutes, 0);
+}
+
+function compareSessions(a: HabitSession, b: HabitSession) {
+  return (a.startTime ?? "99:99").localeCompare(b.startTime ?? "99:99");
+}
+
+/** Replaces the sessions of one habit/day, dropping the log once none remain. */
+function withSessions(
+  logs: HabitLog[],
+  habitId: string,
+  date: string,
+  update: (sessions: HabitSession[]) => HabitSession[],
+  updatedAt: string,
+): HabitLog[] {
+  const existing = logs.find((log) => log.habitId === habitId && log.date === date);
+  const others = logs.filter((log) => log !== existing);
+  const sessions = update(existing?.sessions ?? []).slice().sort(compareSessions);
+  if (sessions.length === 0) {
+    return others;
+  }
+  return [...others, { habitId, date, minutes: sumSessions(sessions), sessions, updatedAt }];
+}
+
+export function addSession(
+  logs: HabitLog[],
+  habitId: string,
+  date: string,
+  session: HabitSession,
+  updatedAt: string,
+): HabitLog[] {
+  return withSessions(logs, habitId, date, (sessions) => [...sessions, session], updatedAt);
+}
+
+export function removeSession(
+  logs: HabitLog[],
+  habitId: string,
+  date: string,
+  sessionId: string,
+  updatedAt: string,
+): HabitLog[] {
+  return withSessions(
+    logs,
+    habitId,
+    date,
+    (sessions) => sessions.filter((session) => session.id !== sessionId),
+    updatedAt,
+  );
+}
+
+/** Sets a day's sessions outright, as when another tool reports the day's total. */
+export function replaceSessions(
+  logs: HabitLog[],
+  habitId: string,
+  date: string,
+  sessions: HabitSession[],
+  updatedAt: string,
+): HabitLog[] {
+  return withSessions(logs, habitId, date, () => sessions, updatedAt);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { entry, habit, minutesLog } from "../test/fixtures";
+import { defaultState } from "./persistence";
+import { buildShareSnapshot, validateShareOptions } from "./share";
+import type { AppState } from "./types";
+
+const AT = "2024-01-01T00:00:00.000Z";
+
+const state: AppState = {
+  ...defaultState,
+  habits: [habit("run"), habit("private")],
+  logs: [minutesLog("run", "2024-01-02", 20), minutesLog("private", "2024-01-02", 30)],
+  prompts: [{ id: "p1", text: "Who did you miss today?", tags: [], enabled: true, updatedAt: AT }],
+  gratitude: [
+    entry("a", "2024-01-02", { promptId: "p1", response: "My sister", mood: 4, energy: 3 }),
+  ],
+};
+
+function snapshotWith(extra: Record<string, unknown>) {
+  const options = validateShareOptions({
+    habitIds: ["run"],
+    range: { startKey: "2024-01-01", endKey: "2024-01-07" },
+    expiresInDays: 7,
+    ...extra,
+  });
+  return buildShareSnapshot(state, options!, "2024-01-08T00:00:00.000Z");
+}
+
+describe("buildShareSnapshot", () => {
+  it("leaves reflections out unless asked to share them", () => {
+    const snapshot = snapshotWith({});
+    expect(snapshot.gratitude).toBe("none");
+    expect(snapshot.reflections).toEqual([]);
+    expect(JSON.stringify(snapshot)).not.toContain("My sister");
+    expect(JSON.stringify(snapshot)).not.toContain("Who did you miss today?");
+  });
+
+  it("shares only mood and energy at the scores level", () => {
+    const snapshot = snapshotWith({ gratitude: "scores" });
+    expect(snapshot.reflections).toEqual([{ date: "2024-01-02", mood: 4, energy: 3 }]);
+    expect(JSON.stringify(snapshot)).not.toContain("My sister");
+    expect(JSON.stringify(snapshot)).not.toContain("Who did you miss today?");
+  });
+
+  it("shares the prompt and response only when chosen", () => {
+    const snapshot = snapshotWith({ gratitude: "full" });
+    expect(snapshot.reflections).toEqual([
+      {
+        date: "2024-01-02",
+        mood: 4,
+        energy: 3,
+        prompt: "Who did you miss today?",
+        response: "My sister",
+      },
+    ]);
+  });
+
+  it("includes only the chosen habits", () => {
+    const snapshot = snapshotWith({});
+    expect(snapshot.habits.map((item) => item.habitId)).toEqual(["run"]);
+    expect(snapshot.summary.totalMinutes).toBe(20);
+  });
+});
@@ -0,0 +1,187 @@
+import { dayKeyAt, daysBetween } from "./dates";
+import { DATE_KEY_PATTERN, defaultState } from "./persistence";
+import { resolvePromptText } from "./prompts";
+import { precedingRange, summarizeRange, type DateRange, type Summary } from "./reports";
+import { orderHabits } from "./routines";
+import { computeStreaks, type Streak } from "./streaks";
+import type { AppState, Habit } from "./types";
+
+export const SHARE_EXPIRY_DAYS = [1, 7, 30, 90];
+export const MAX_SHARE_RANGE_DAYS = 366;
+const MAX_LABEL_LENGTH = 60;
+const TOKEN_PATTERN = /^([A-Za-z0-9-]+)\.([A-Za-z0-9_-]+)$/;
+
+/** How much of the gratitude journal a share link shows. */
+export type ShareGratitude = "none" | "scores" | "full";
+
+export const SHARE_GRATITUDE_LABELS: Record<ShareGratitude, string> = {
+  none: "Leave out reflections",
+  scores: "Mood and energy only",
+  full: "Mood, energy and what I wrote",
+};
+
+export type ShareOptions = {
+  label: string;
+  habitIds: string[];
+  range: DateRange;
+  gratitude: ShareGratitude;
+  expiresInDays: number;
+};
+
+export type SharedHabit = Pick<Habit, "name" | "kind" | "unit" | "target" | "targetPeriod"> & {
+  habitId: string;
+  /** As of the last day of the shared range. */
+  streak: Streak;
+};
+
+export type SharedReflection = {
+  date: string;
+  mood?: number;
+  energy?: number;
+  /** Only present when the reflection text was shared. */
+  prompt?: string;
+  response?: string;
+};
+
+/** What a share link shows; built once when the link is created and never updated. */
+export type ShareSnapshot = {
+  label: string;
+  createdAt: string;
+  range: DateRange;
+  gratitude: ShareGratitude;
+  summary: Summary;
+  habits: SharedHabit[];
+  reflections: SharedReflection[];
+};
+
+/** What the account that made a link can see about it through `/api/shares`. */
+export type ShareLinkInfo = {
+  id: string;
+  token: string;
+  label: string;
+  range: DateRange;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+};
+
+export function validateShareOptions(value: unknown): ShareOptions | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  const range = item.range as Record<string, unknown> | null | undefined;
+  if (
+    typeof range?.startKey !== "string" ||
+    typeof range.endKey !== "string" ||
+    !DATE_KEY_PATTERN.test(range.startKey) ||
+    !DATE_KEY_PATTERN.test(range.endKey) ||
+    range.startKey > range.endKey ||
+    daysBetween(range.startKey, range.endKey) >= MAX_SHARE_RANGE_DAYS
+  ) {
+    return null;
+  }
+  if (
+    !Array.isArray(item.habitIds) ||
+    item.habitIds.length === 0 ||
+    !item.habitIds.every((id) => typeof id === "string" && id.length > 0)
+  ) {
+    return null;
+  }
+  if (!SHARE_EXPIRY_DAYS.includes(item.expiresInDays as number)) {
+    return null;
+  }
+  const label = typeof item.label === "string" ? item.label.trim() : "";
+  return {
+    label: label.slice(0, MAX_LABEL_LENGTH) || "Progress snapshot",
+    habitIds: Array.from(new Set(item.habitIds as string[])),
+    range: { startKey: range.startKey, endKey: range.endKey },
+    gratitude: item.gratitude === "scores" || item.gratitude === "full" ? item.gratitude : "none",
+    expiresInDays: item.expiresInDays as number,
+  };
+}
+
+/**
+ * The part of `state` a share needs, and nothing else: the chosen habits with
+ * their logs up to the end of the range (streaks look back past its start),
+ * and reflections only as far as `options.gratitude` allows, so the snapshot
+ * cannot pick up text the person did not choose to share.
+ */
+function shareableState(state: AppState, options: ShareOptions): AppState {
+  const { range, gratitude } = options;
+  const habits = state.habits.filter((habit) => options.habitIds.includes(habit.id));
+  const routineIds = new Set(habits.map((habit) => habit.routineId));
+  // Mood change compares against the window of equal length just before the range.
+  const moodStart = precedingRange(range).startKey;
+  return {
+    ...defaultState,
+    habits,
+    routines: state.routines.filter((routine) => routineIds.has(routine.id)),
+    logs: state.logs.filter(
+      (log) => log.date <= range.endKey && habits.some((habit) => habit.id === log.habitId),
+    ),
+    prompts: gratitude === "full" ? state.prompts : [],
+    gratitude:
+      gratitude === "none"
+        ? []
+        : state.gratitude
+            .filter((entry) => entry.date >= moodStart && entry.date <= range.endKey)
+            .map((entry) =>
+              gratitude === "full"
+                ? { ...entry, promptText: resolvePromptText(entry, state.prompts) }
+                : { ...entry, promptId: "", promptText: undefined, response: "", tags: [] },
+            ),
+  };
+}
+
+export function buildShareSnapshot(
+  state: AppState,
+  options: ShareOptions,
+  createdAt: string,
+): ShareSnapshot {
+  const { range, gratitude } = options;
+  const shared = shareableState(state, options);
+  const streaks = computeStreaks(shared.habits, shared.logs, range.endKey);
+  return {
+    label: options.label,
+    createdAt,
+    range,
+    gratitude,
+    summary: summarizeRange({
+      logs: shared.logs,
+      habits: shared.habits,
+      routines: shared.routines,
+      gratitude: shared.gratitude,
+      label: options.label,
+      ...range,
+      todayKey: dayKeyAt(new Date(createdAt), state.settings),
+    }),
+    habits: orderHabits(shared.habits, shared.routines).map((habit) => ({
+      habitId: habit.id,
+      name: habit.name,
+      kind: habit.kind,
+      unit: habit.unit,
+      target: habit.target,
+      targetPeriod: habit.targetPeriod,
+      streak: streaks.get(habit.id) ?? { current: 0, longest: 0, unit: "day" },
+    })),
+    reflections: shared.gratitude
+      .filter((entry) => entry.date >= range.startKey)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((entry) => ({
+        date: entry.date,
+        mood: entry.mood,
+        energy: entry.energy,
+        ...(gratitude === "full"
+          ? { prompt: resolvePromptText(entry, shared.prompts), response: entry.response }
+          : {}),
+      }))
+      .filter((entry) => entry.response || entry.mood !== undefined || entry.energy !== undefined),
+  };
+}
+
+/** Splits a share token into the link id and its signature. */
+export function parseShareToken(token: string): { id: string; signature: string } | null {
+  const match = TOKEN_PATTERN.exec(token);
+  return match ? { id: match[1]!, signature: match[2]! } : null;
+}
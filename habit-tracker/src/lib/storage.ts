@@ -0,0 +1,119 @@
+import {
+  loadSerializedState,
+  migrateState,
+  readStateFromStorage,
+  serializeState,
+  writeStateToStorage,
+  type LoadResult,
+} from "./persistence";
+import { authHeaders, isProfileKey, profileKey } from "./profiles";
+import type { AppState } from "./types";
+
+export type StorageBackend = "localStorage" | "indexedDB";
+
+/** Where the device keeps its own copy of the state. */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  load(): Promise<LoadResult>;
+  save(state: AppState): Promise<void>;
+}
+
+/** A server replica the device copy is reconciled with. */
+export interface RemoteAdapter {
+  /** Sends the local state and returns the server's merged result. */
+  sync(state: AppState): Promise<AppState>;
+}
+
+const IDB_NAME = "habit-tracker";
+const IDB_STORE = "state";
+const IDB_RECORD_KEY = "app";
+
+export const localStorageAdapter: StorageAdapter = {
+  backend: "localStorage",
+  load: async () => readStateFromStorage(),
+  save: async (state) => writeStateToStorage(state),
+};
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export const indexedDbAdapter: StorageAdapter = {
+  backend: "indexedDB",
+  load: async () => {
+    const stored = await withStore<unknown>("readonly", (store) => store.get(profileKey(IDB_RECORD_KEY)));
+    return loadSerializedState(typeof stored === "string" ? stored : null);
+  },
+  save: async (state) => {
+    await withStore("readwrite", (store) => store.put(serializeState(state), profileKey(IDB_RECORD_KEY)));
+  },
+};
+
+/** Removes everything a profile saved on this device, in both backends. */
+export async function deleteProfileData(profileId: string): Promise<void> {
+  const keys = Array.from({ length: window.localStorage.length }, (_, index) =>
+    window.localStorage.key(index),
+  );
+  for (const key of keys) {
+    if (key && isProfileKey(key, profileId)) {
+      window.localStorage.removeItem(key);
+    }
+  }
+  if (isIndexedDbAvailable()) {
+    await withStore("readwrite", (store) =>
+      store.delete(profileKey(IDB_RECORD_KEY, profileId)),
+    );
+  }
+}
+
+export function getStorageAdapter(backend: StorageBackend): StorageAdapter {
+  return backend === "indexedDB" ? indexedDbAdapter : localStorageAdapter;
+}
+
+export function isIndexedDbAvailable() {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+/** The server turned the sync down because the profile is not signed in, or its session ended. */
+export class SyncAuthError extends Error {}
+
+/** Signs requests in as whichever profile is active when they are sent. */
+export function createRestAdapter(endpoint = "/api/state"): RemoteAdapter {
+  return {
+    sync: async (state) => {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: serializeState(state),
+      });
+      if (response.status === 401) {
+        throw new SyncAuthError("Sign in to sync.");
+      }
+      if (!response.ok) {
+        throw new Error(`Sync failed with status ${response.status}.`);
+      }
+      return migrateState(await response.json()).state;
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { days, habit, minutesLog, valueLog } from "../test/fixtures";
+import { computeStreaks, formatStreak } from "./streaks";
+
+describe("computeStreaks", () => {
+  it("counts consecutive logged days up to today", () => {
+    const logs = days("2024-03-01", "2024-03-05").map((date) => minutesLog("run", date, 20));
+    const streak = computeStreaks([habit("run")], logs, "2024-03-05").get("run");
+    expect(streak).toEqual({ current: 5, longest: 5, unit: "day" });
+  });
+
+  it("does not break the streak on a today that is still unlogged", () => {
+    const logs = days("2024-03-01", "2024-03-04").map((date) => minutesLog("run", date, 20));
+    const streak = computeStreaks([habit("run")], logs, "2024-03-05").get("run");
+    expect(streak?.current).toBe(4);
+  });
+
+  it("resets on a missed day but remembers the longest run", () => {
+    const logs = [
+      ...days("2024-03-01", "2024-03-04").map((date) => minutesLog("run", date, 20)),
+      ...days("2024-03-06", "2024-03-07").map((date) => minutesLog("run", date, 20)),
+    ];
+    const streak = computeStreaks([habit("run")], logs, "2024-03-07").get("run");
+    expect(streak).toEqual({ current: 2, longest: 4, unit: "day" });
+  });
+
+  it("ignores zero-minute logs and logs after today", () => {
+    const logs = [
+      minutesLog("run", "2024-03-01", 20),
+      minutesLog("run", "2024-03-02", 0),
+      minutesLog("run", "2024-03-09", 20),
+    ];
+    const streak = computeStreaks([habit("run")], logs, "2024-03-03").get("run");
+    expect(streak).toEqual({ current: 0, longest: 1, unit: "day" });
+  });
+
+  it("skips unscheduled days instead of breaking on them", () => {
+    const work = habit("work", { schedule: { type: "weekdays", days: [1, 2, 3, 4, 5] } });
+    // Friday 2024-03-01, then Monday and Tuesday.
+    const logs = ["2024-03-01", "2024-03-04", "2024-03-05"].map((date) =>
+      minutesLog("work", date, 30),
+    );
+    const streak = computeStreaks([work], logs, "2024-03-05").get("work");
+    expect(streak?.current).toBe(3);
+  });
+
+  it("counts weeks that reached their quota for weekly schedules", () => {
+    const gym = habit("gym", { schedule: { type: "weekly", timesPerWeek: 2 } });
+    const logs = ["2024-03-04", "2024-03-06", "2024-03-11", "2024-03-13", "2024-03-18"].map(
+      (date) => minutesLog("gym", date, 45),
+    );
+    // The week of the 18th is still in progress, so it does not break the run.
+    const streak = computeStreaks([gym], logs, "2024-03-19").get("gym");
+    expect(streak).toEqual({ current: 2, longest: 2, unit: "week" });
+  });
+
+  it("runs across the new year", () => {
+    const logs = days("2023-12-29", "2024-01-02").map((date) => minutesLog("run", date, 20));
+    const streak = computeStreaks([habit("run")], logs, "2024-01-02").get("run");
+    expect(streak).toEqual({ current: 5, longest: 5, unit: "day" });
+  });
+
+  it("counts clean days for avoid habits and resets on a slip", () => {
+    const sugar = habit("sugar", { kind: "avoid", createdOn: "2024-03-01" });
+    const logs = [valueLog("sugar", "2024-03-01", 1), valueLog("sugar", "2024-03-04", 1)];
+    const streak = computeStreaks([sugar], logs, "2024-03-07").get("sugar");
+    expect(streak).toEqual({ current: 3, longest: 3, unit: "day" });
+  });
+
+  it("counts an avoid habit's clean days from when it was added, not other habits' logs", () => {
+    const sugar = habit("sugar", { kind: "avoid", createdOn: "2024-03-05" });
+    const logs = [minutesLog("run", "2024-01-01", 20)];
+    const streak = computeStreaks([habit("run"), sugar], logs, "2024-03-07").get("sugar");
+    expect(streak).toEqual({ current: 3, longest: 3, unit: "day" });
+  });
+
+  it("counts from an avoid habit's own slip logged before it was added", () => {
+    const sugar = habit("sugar", { kind: "avoid", createdOn: "2024-03-05" });
+    const logs = [valueLog("sugar", "2024-03-02", 1)];
+    const streak = computeStreaks([sugar], logs, "2024-03-07").get("sugar");
+    expect(streak).toEqual({ current: 5, longest: 5, unit: "day" });
+  });
+
+  it("reports only known habits when logs outlive a deleted habit", () => {
+    const logs = [minutesLog("gone", "2024-03-01", 20), minutesLog("run", "2024-03-02", 20)];
+    const streaks = computeStreaks([habit("run")], logs, "2024-03-02");
+    expect(Array.from(streaks.keys())).toEqual(["run"]);
+    expect(streaks.get("run")?.current).toBe(1);
+  });
+
+  it("starts empty without logs", () => {
+    const gym = habit("gym", { schedule: { type: "weekly", timesPerWeek: 2 } });
+    const streaks = computeStreaks([habit("run"), gym], [], "2024-03-02");
+    expect(streaks.get("run")).toEqual({ current: 0, longest: 0, unit: "day" });
+    expect(streaks.get("gym")).toEqual({ current: 0, longest: 0, unit: "week" });
+  });
+});
+
+describe("formatStreak", () => {
+  it("pluralizes the unit", () => {
+    expect(formatStreak(1, "day")).toBe("1 day");
+    expect(formatStreak(3, "week")).toBe("3 weeks");
+  });
+});
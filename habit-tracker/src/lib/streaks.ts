@@ -0,0 +1,124 @@
+import { addDays, startOfWeek } from "./dates";
+import { logAmount, trackedSince } from "./kinds";
+import { isScheduledOn } from "./schedule";
+import type { Habit, HabitLog } from "./types";
+
+export type Streak = {
+  current: number;
+  longest: number;
+  unit: "day" | "week";
+};
+
+const EMPTY_DAY_STREAK: Streak = { current: 0, longest: 0, unit: "day" };
+
+/**
+ * Walks the full history of one habit up to `todayKey`. Daily and weekday
+ * habits count consecutive scheduled days; "N times per week" habits count
+ * consecutive weeks that reached N active days. Today (or the current week)
+ * never breaks a streak while it is still in progress.
+ *
+ * Avoid habits instead count consecutive scheduled days without a slip,
+ * starting from the day each was added (see `trackedSince`).
+ */
+export function computeStreak(habit: Habit, logs: HabitLog[], todayKey: string): Streak {
+  const activeDates = new Set(
+    logs
+      .filter(
+        (log) =>
+          log.habitId === habit.id && logAmount(habit, log) > 0 && log.date <= todayKey,
+      )
+      .map((log) => log.date),
+  );
+  if (habit.kind === "avoid") {
+    return computeAvoidStreak(habit, activeDates, todayKey, trackedSince(habit, logs));
+  }
+  if (activeDates.size === 0) {
+    return habit.schedule.type === "weekly"
+      ? { ...EMPTY_DAY_STREAK, unit: "week" }
+      : EMPTY_DAY_STREAK;
+  }
+  const firstDate = Array.from(activeDates).sort()[0]!;
+
+  if (habit.schedule.type === "weekly") {
+    const activeDaysByWeek = new Map<string, number>();
+    for (const date of activeDates) {
+      const week = startOfWeek(date);
+      activeDaysByWeek.set(week, (activeDaysByWeek.get(week) ?? 0) + 1);
+    }
+    const currentWeek = startOfWeek(todayKey);
+    let run = 0;
+    let longest = 0;
+    for (let week = startOfWeek(firstDate); week <= currentWeek; week = addDays(week, 7)) {
+      if ((activeDaysByWeek.get(week) ?? 0) >= habit.schedule.timesPerWeek) {
+        run += 1;
+        longest = Math.max(longest, run);
+      } else if (week !== currentWeek) {
+        run = 0;
+      }
+    }
+    return { current: run, longest, unit: "week" };
+  }
+
+  let run = 0;
+  let longest = 0;
+  for (let date = firstDate; date <= todayKey; date = addDays(date, 1)) {
+    if (!isScheduledOn(habit.schedule, date)) {
+      continue;
+    }
+    if (activeDates.has(date)) {
+      run += 1;
+      longest = Math.max(longest, run);
+    } else if (date !== todayKey) {
+      run = 0;
+    }
+  }
+  return { current: run, longest, unit: "day" };
+}
+
+function computeAvoidStreak(
+  habit: Habit,
+  slipDates: Set<string>,
+  todayKey: string,
+  start: string,
+): Streak {
+  let run = 0;
+  let longest = 0;
+  for (let date = start; date <= todayKey; date = addDays(date, 1)) {
+    if (!isScheduledOn(habit.schedule, date)) {
+      continue;
+    }
+    if (slipDates.has(date)) {
+      run = 0;
+    } else {
+      run += 1;
+      longest = Math.max(longest, run);
+    }
+  }
+  return { current: run, longest, unit: "day" };
+}
+
+export function computeStreaks(
+  habits: Habit[],
+  logs: HabitLog[],
+  todayKey: string,
+): Map<string, Streak> {
+  const logsByHabit = new Map<string, HabitLog[]>();
+  for (const log of logs) {
+    const habitLogs = logsByHabit.get(log.habitId);
+    if (habitLogs) {
+      habitLogs.push(log);
+    } else {
+      logsByHabit.set(log.habitId, [log]);
+    }
+  }
+  return new Map(
+    habits.map((habit) => [
+      habit.id,
+      computeStreak(habit, logsByHabit.get(habit.id) ?? [], todayKey),
+    ]),
+  );
+}
+
+export function formatStreak(count: number, unit: Streak["unit"]): string {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { habit, minutesLog } from "../test/fixtures";
+import { defaultState } from "./persistence";
+import { mergeStates, stampChanges } from "./sync";
+import type { AppState } from "./types";
+
+const NOW = new Date("2024-06-01T00:00:00.000Z");
+
+function state(changes: Partial<AppState>): AppState {
+  return { ...defaultState, ...changes };
+}
+
+describe("mergeStates", () => {
+  it("keeps the newer side of each record", () => {
+    const local = state({
+      habits: [
+        habit("run", { name: "Run", updatedAt: "2024-05-01T00:00:00.000Z" }),
+        habit("read", { name: "Read", updatedAt: "2024-05-03T00:00:00.000Z" }),
+      ],
+    });
+    const remote = state({
+      habits: [
+        habit("run", { name: "Run 5k", updatedAt: "2024-05-02T00:00:00.000Z" }),
+        habit("read", { name: "Read less", updatedAt: "2024-05-02T00:00:00.000Z" }),
+        habit("swim", { updatedAt: "2024-05-02T00:00:00.000Z" }),
+      ],
+    });
+    const merged = mergeStates(local, remote, NOW);
+    expect(merged.habits.map((item) => [item.id, item.name])).toEqual([
+      ["run", "Run 5k"],
+      ["read", "Read"],
+      ["swim", "swim"],
+    ]);
+  });
+
+  it("deletes a record older than its tombstone", () => {
+    const local = state({ logs: [minutesLog("run", "2024-01-01", 20)] });
+    const remote = state({
+      tombstones: [{ kind: "log", key: "run|2024-01-01", deletedAt: "2024-05-01T00:00:00.000Z" }],
+    });
+    const merged = mergeStates(local, remote, NOW);
+    expect(merged.logs).toEqual([]);
+    expect(merged.tombstones).toEqual(remote.tombstones);
+  });
+
+  it("keeps a record edited after its tombstone, and drops the tombstone", () => {
+    const edited = habit("run", { updatedAt: "2024-05-02T00:00:00.000Z" });
+    const local = state({
+      tombstones: [{ kind: "habit", key: "run", deletedAt: "2024-05-01T00:00:00.000Z" }],
+    });
+    const merged = mergeStates(local, state({ habits: [edited] }), NOW);
+    expect(merged.habits).toEqual([edited]);
+    expect(merged.tombstones).toEqual([]);
+  });
+
+  it("prunes tombstones past the retention window", () => {
+    const fresh = { kind: "habit" as const, key: "a", deletedAt: "2024-05-01T00:00:00.000Z" };
+    const stale = { kind: "habit" as const, key: "b", deletedAt: "2023-11-01T00:00:00.000Z" };
+    const merged = mergeStates(state({ tombstones: [fresh] }), state({ tombstones: [stale] }), NOW);
+    expect(merged.tombstones).toEqual([fresh]);
+  });
+});
+
+describe("stampChanges", () => {
+  const AT = "2024-06-01T12:00:00.000Z";
+
+  it("re-stamps only the records that changed", () => {
+    const previous = state({
+      habits: [habit("run"), habit("read")],
+      logs: [minutesLog("run", "2024-01-01", 20)],
+    });
+    const next = state({
+      habits: [habit("run", { name: "Run 5k" }), habit("read")],
+      logs: previous.logs,
+    });
+    const stamped = stampChanges(previous, next, AT);
+    expect(stamped.habits[0]).toEqual({ ...next.habits[0], updatedAt: AT });
+    expect(stamped.habits[1]).toBe(next.habits[1]);
+    expect(stamped.logs[0]).toBe(previous.logs[0]);
+    expect(stamped.settings).toBe(next.settings);
+    expect(stamped.tombstones).toEqual([]);
+  });
+
+  it("leaves a tombstone for each removed record and clears it when the record returns", () => {
+    const previous = state({ habits: [habit("run")], logs: [minutesLog("run", "2024-01-01", 20)] });
+    const removed = stampChanges(previous, state({ habits: [habit("run")] }), AT);
+    expect(removed.tombstones).toEqual([{ kind: "log", key: "run|2024-01-01", deletedAt: AT }]);
+
+    const restored = stampChanges(removed, { ...removed, logs: previous.logs }, AT);
+    expect(restored.tombstones).toEqual([]);
+  });
+});
@@ -0,0 +1,184 @@
+import type {
+  AppState,
+  GratitudeEntry,
+  GratitudePrompt,
+  Habit,
+  HabitLog,
+  Routine,
+  Tombstone,
+} from "./types";
+
+const TOMBSTONE_RETENTION_DAYS = 180;
+
+type SyncedRecord = { updatedAt: string };
+
+export function habitKey(habit: Habit) {
+  return habit.id;
+}
+
+export function logKey(log: HabitLog) {
+  return `${log.habitId}|${log.date}`;
+}
+
+export function gratitudeKey(entry: GratitudeEntry) {
+  return entry.id;
+}
+
+export function promptKey(prompt: GratitudePrompt) {
+  return prompt.id;
+}
+
+export function routineKey(routine: Routine) {
+  return routine.id;
+}
+
+function withoutTimestamp<T extends SyncedRecord>(record: T) {
+  return JSON.stringify({ ...record, updatedAt: undefined });
+}
+
+function stampRecords<T extends SyncedRecord>(
+  kind: Tombstone["kind"],
+  previous: T[],
+  next: T[],
+  keyOf: (record: T) => string,
+  now: string,
+  tombstones: Map<string, Tombstone>,
+): T[] {
+  const before = new Map(previous.map((record) => [keyOf(record), record]));
+  const after = new Set<string>();
+  const stamped = next.map((record) => {
+    const key = keyOf(record);
+    after.add(key);
+    tombstones.delete(`${kind}:${key}`);
+    const old = before.get(key);
+    return old && withoutTimestamp(old) === withoutTimestamp(record)
+      ? record
+      : { ...record, updatedAt: now };
+  });
+  for (const key of before.keys()) {
+    if (!after.has(key)) {
+      tombstones.set(`${kind}:${key}`, { kind, key, deletedAt: now });
+    }
+  }
+  return stamped;
+}
+
+/**
+ * Stamps records that changed between two local states with `now` and
+ * records tombstones for the ones that disappeared.
+ */
+export function stampChanges(
+  previous: AppState,
+  next: AppState,
+  now = new Date().toISOString(),
+): AppState {
+  const tombstones = new Map(
+    next.tombstones.map((tombstone) => [`${tombstone.kind}:${tombstone.key}`, tombstone]),
+  );
+  const habits = stampRecords("habit", previous.habits, next.habits, habitKey, now, tombstones);
+  const logs = stampRecords("log", previous.logs, next.logs, logKey, now, tombstones);
+  const gratitude = stampRecords(
+    "gratitude",
+    previous.gratitude,
+    next.gratitude,
+    gratitudeKey,
+    now,
+    tombstones,
+  );
+  const prompts = stampRecords("prompt", previous.prompts, next.prompts, promptKey, now, tombstones);
+  const routines = stampRecords(
+    "routine",
+    previous.routines,
+    next.routines,
+    routineKey,
+    now,
+    tombstones,
+  );
+  const settings =
+    withoutTimestamp(previous.settings) === withoutTimestamp(next.settings)
+      ? next.settings
+      : { ...next.settings, updatedAt: now };
+  return {
+    ...next,
+    habits,
+    logs,
+    gratitude,
+    prompts,
+    routines,
+    settings,
+    tombstones: Array.from(tombstones.values()),
+  };
+}
+
+function mergeRecords<T extends SyncedRecord>(
+  kind: Tombstone["kind"],
+  local: T[],
+  remote: T[],
+  keyOf: (record: T) => string,
+  tombstones: Map<string, Tombstone>,
+): T[] {
+  const merged = new Map(local.map((record) => [keyOf(record), record]));
+  for (const record of remote) {
+    const key = keyOf(record);
+    const current = merged.get(key);
+    if (!current || record.updatedAt > current.updatedAt) {
+      merged.set(key, record);
+    }
+  }
+  return Array.from(merged.entries())
+    .filter(([key, record]) => {
+      const tombstone = tombstones.get(`${kind}:${key}`);
+      return !tombstone || tombstone.deletedAt < record.updatedAt;
+    })
+    .map(([, record]) => record);
+}
+
+/**
+ * Last-writer-wins merge of two replicas, decided per record by `updatedAt`.
+ * A tombstone newer than a record deletes it; a newer record outlives it.
+ */
+export function mergeStates(local: AppState, remote: AppState, now = new Date()): AppState {
+  const cutoff = new Date(now.getTime() - TOMBSTONE_RETENTION_DAYS * 86_400_000).toISOString();
+  const tombstones = new Map<string, Tombstone>();
+  for (const tombstone of [...local.tombstones, ...remote.tombstones]) {
+    const id = `${tombstone.kind}:${tombstone.key}`;
+    const existing = tombstones.get(id);
+    if (tombstone.deletedAt >= cutoff && (!existing || tombstone.deletedAt > existing.deletedAt)) {
+      tombstones.set(id, tombstone);
+    }
+  }
+
+  const habits = mergeRecords("habit", local.habits, remote.habits, habitKey, tombstones);
+  const logs = mergeRecords("log", local.logs, remote.logs, logKey, tombstones);
+  const gratitude = mergeRecords(
+    "gratitude",
+    local.gratitude,
+    remote.gratitude,
+    gratitudeKey,
+    tombstones,
+  );
+  const prompts = mergeRecords("prompt", local.prompts, remote.prompts, promptKey, tombstones);
+  const routines = mergeRecords("routine", local.routines, remote.routines, routineKey, tombstones);
+
+  // Drop tombstones that a newer record has superseded.
+  const live = new Set([
+    ...habits.map((habit) => `habit:${habitKey(habit)}`),
+    ...logs.map((log) => `log:${logKey(log)}`),
+    ...gratitude.map((entry) => `gratitude:${gratitudeKey(entry)}`),
+    ...prompts.map((prompt) => `prompt:${promptKey(prompt)}`),
+    ...routines.map((routine) => `routine:${routineKey(routine)}`),
+  ]);
+
+  return {
+    ...local,
+    habits,
+    logs,
+    gratitude,
+    prompts,
+    routines,
+    settings: remote.settings.updatedAt > local.settings.updatedAt ? remote.settings : local.settings,
+    tombstones: Array.from(tombstones.entries())
+      .filter(([id]) => !live.has(id))
+      .map(([, tombstone]) => tombstone),
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { days, habit, minutesLog, valueLog } from "../test/fixtures";
+import { computeCompletion } from "./targets";
+
+// 2024-01-01 is a Monday.
+const WEEK = { startKey: "2024-01-01", endKey: "2024-01-07" };
+const TODAY = "2024-06-01";
+
+describe("computeCompletion", () => {
+  it("judges a daily target on each scheduled day, crediting partial days", () => {
+    const run = habit("run", { target: 30 });
+    const logs = [
+      minutesLog("run", "2024-01-01", 30),
+      minutesLog("run", "2024-01-02", 45),
+      minutesLog("run", "2024-01-03", 15),
+    ];
+    const result = computeCompletion(run, logs, WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result.amount).toBe(90);
+    expect(result.hitCount).toBe(2);
+    expect(result.periods).toBe(7);
+    expect(result.completionRate).toBeCloseTo(2.5 / 7);
+  });
+
+  it("counts any amount as met when there is no target", () => {
+    const read = habit("read");
+    const logs = [minutesLog("read", "2024-01-04", 5)];
+    const result = computeCompletion(read, logs, WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result.hitCount).toBe(1);
+    expect(result.completionRate).toBeCloseTo(1 / 7);
+  });
+
+  it("ignores logs on unscheduled days and other habits' logs", () => {
+    const work = habit("work", { schedule: { type: "weekdays", days: [1, 2, 3, 4, 5] } });
+    const logs = [
+      ...days("2024-01-01", "2024-01-07").map((date) => minutesLog("work", date, 20)),
+      minutesLog("other", "2024-01-02", 60),
+    ];
+    const result = computeCompletion(work, logs, WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result.periods).toBe(5);
+    expect(result.hitCount).toBe(5);
+    expect(result.completionRate).toBe(1);
+    expect(result.amount).toBe(140);
+  });
+
+  it("pro-rates weekly targets for weeks the range only partly covers", () => {
+    const swim = habit("swim", { target: 140, targetPeriod: "week" });
+    // Wednesday to the next Tuesday: five days of one week, two of the next.
+    const logs = [minutesLog("swim", "2024-01-04", 100), minutesLog("swim", "2024-01-09", 20)];
+    const result = computeCompletion(swim, logs, "2024-01-03", "2024-01-09", TODAY);
+    expect(result.hitUnit).toBe("week");
+    expect(result.periods).toBe(2);
+    expect(result.hitCount).toBe(1);
+    expect(result.completionRate).toBeCloseTo((1 + 20 / 40) / 2);
+  });
+
+  it("scores avoid habits on every scheduled day without a slip", () => {
+    const sugar = habit("sugar", { kind: "avoid" });
+    const logs = [valueLog("sugar", "2024-01-02", 1), valueLog("sugar", "2024-01-05", 2)];
+    const result = computeCompletion(sugar, logs, WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result.amount).toBe(3);
+    expect(result.hitCount).toBe(5);
+    expect(result.completionRate).toBeCloseTo(5 / 7);
+  });
+
+  it("scores avoid habits only from the day they were added", () => {
+    const sugar = habit("sugar", { kind: "avoid", createdOn: "2024-01-04" });
+    const logs = [valueLog("sugar", "2024-01-05", 1)];
+    const result = computeCompletion(sugar, logs, WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result.hitCount).toBe(3);
+    expect(result.completionRate).toBeCloseTo(3 / 4);
+  });
+
+  it("does not count days after today as clean for avoid habits", () => {
+    const sugar = habit("sugar", { kind: "avoid", createdOn: "2024-01-15" });
+    const result = computeCompletion(sugar, [], "2024-01-01", "2024-01-31", "2024-01-19");
+    expect(result).toMatchObject({ periods: 5, hitCount: 5, completionRate: 1 });
+  });
+
+  it("expects N days a week from weekly schedules and caps at full marks", () => {
+    const gym = habit("gym", { schedule: { type: "weekly", timesPerWeek: 3 } });
+    const logs = days("2024-01-01", "2024-01-14").map((date) => minutesLog("gym", date, 45));
+    const result = computeCompletion(gym, logs, "2024-01-01", "2024-01-14", TODAY);
+    expect(result.periods).toBe(6);
+    expect(result.hitCount).toBe(6);
+    expect(result.completionRate).toBe(1);
+  });
+
+  it("spans the new year without dropping or repeating a day", () => {
+    const run = habit("run", { target: 10 });
+    const logs = days("2023-12-29", "2024-01-02").map((date) => minutesLog("run", date, 10));
+    const result = computeCompletion(run, logs, "2023-12-29", "2024-01-02", TODAY);
+    expect(result.periods).toBe(5);
+    expect(result.hitCount).toBe(5);
+    expect(result.completionRate).toBe(1);
+  });
+
+  it("judges a habit only from the day it was added", () => {
+    const run = habit("run", { target: 10, createdOn: "2024-01-06" });
+    const logs = [minutesLog("run", "2024-01-06", 10), minutesLog("run", "2024-01-07", 10)];
+    const result = computeCompletion(run, logs, WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result.periods).toBe(2);
+    expect(result.completionRate).toBe(1);
+  });
+
+  it("counts a log entered for a day before the habit was added", () => {
+    const run = habit("run", { target: 10, createdOn: "2024-01-06" });
+    const logs = [minutesLog("run", "2024-01-05", 10)];
+    const result = computeCompletion(run, logs, WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result.periods).toBe(3);
+    expect(result.hitCount).toBe(1);
+  });
+
+  it("expects nothing of days after today", () => {
+    const run = habit("run", { target: 10 });
+    const logs = days("2024-01-01", "2024-01-03").map((date) => minutesLog("run", date, 10));
+    const daily = computeCompletion(run, logs, "2024-01-01", "2024-01-31", "2024-01-03");
+    expect(daily).toMatchObject({ periods: 3, hitCount: 3, completionRate: 1 });
+
+    // Monday to Wednesday of a 140-minute week is a 60-minute goal.
+    const swim = habit("swim", { target: 140, targetPeriod: "week" });
+    const swims = [minutesLog("swim", "2024-01-02", 60)];
+    const weekly = computeCompletion(swim, swims, "2024-01-01", "2024-01-31", "2024-01-03");
+    expect(weekly).toMatchObject({ periods: 1, hitCount: 1, completionRate: 1 });
+
+    const gym = habit("gym", { schedule: { type: "weekly", timesPerWeek: 7 } });
+    const gyms = [minutesLog("gym", "2024-01-01", 45)];
+    const scheduled = computeCompletion(gym, gyms, "2024-01-01", "2024-01-31", "2024-01-03");
+    expect(scheduled.periods).toBe(3);
+  });
+
+  it("scores nothing over a range with no logs", () => {
+    const run = habit("run", { target: 30 });
+    const result = computeCompletion(run, [], WEEK.startKey, WEEK.endKey, TODAY);
+    expect(result).toMatchObject({ amount: 0, hitCount: 0, completionRate: 0, periods: 7 });
+  });
+
+  it("scores nothing over an empty range", () => {
+    const daily = computeCompletion(habit("run"), [], "2024-01-10", "2024-01-09", TODAY);
+    expect(daily).toMatchObject({ amount: 0, hitCount: 0, completionRate: 0, periods: 0 });
+    const weekly = computeCompletion(
+      habit("swim", { target: 140, targetPeriod: "week" }),
+      [],
+      "2024-01-10",
+      "2024-01-09",
+      TODAY,
+    );
+    expect(weekly).toMatchObject({ amount: 0, hitCount: 0, completionRate: 0, periods: 0 });
+  });
+});
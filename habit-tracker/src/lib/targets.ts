@@ -0,0 +1,189 @@
+import { addDays, startOfWeek } from "./dates";
+import { formatAmount, logAmount, trackedSince } from "./kinds";
+import { isScheduledOn } from "./schedule";
+import type { Habit, HabitKind, HabitLog } from "./types";
+
+export type TargetStatus = "met" | "partial" | "missed";
+
+export type TargetProgress = {
+  status: TargetStatus;
+  percent: number;
+  amount: number;
+  goal?: number;
+};
+
+export type HabitCompletion = {
+  habitId: string;
+  name: string;
+  kind: HabitKind;
+  unit?: string;
+  /** Minutes, units, check-ins or slips logged in the range, depending on `kind`. */
+  amount: number;
+  /** Share of the expected effort delivered in the range, from 0 to 1. */
+  completionRate: number;
+  hitCount: number;
+  hitUnit: "day" | "week";
+  periods: number;
+};
+
+/** Habits without a target count any logged amount as meeting it. */
+export function judgeAmount(amount: number, goal: number | undefined): TargetProgress {
+  if (!goal) {
+    return amount > 0
+      ? { status: "met", percent: 100, amount }
+      : { status: "missed", percent: 0, amount };
+  }
+  const percent = Math.round(Math.min(1, amount / goal) * 100);
+  const status: TargetStatus = amount >= goal ? "met" : amount > 0 ? "partial" : "missed";
+  return { status, percent, amount, goal };
+}
+
+/** Like `judgeAmount`, except that avoid habits are met exactly when nothing was logged. */
+export function judgeHabitAmount(
+  habit: Habit,
+  amount: number,
+  goal: number | undefined = habit.target,
+): TargetProgress {
+  if (habit.kind === "avoid") {
+    return amount > 0
+      ? { status: "missed", percent: 0, amount }
+      : { status: "met", percent: 100, amount };
+  }
+  return judgeAmount(amount, goal);
+}
+
+function amountOn(habit: Habit, logs: HabitLog[], startKey: string, endKey: string) {
+  return logs
+    .filter((log) => log.habitId === habit.id && log.date >= startKey && log.date <= endKey)
+    .reduce((acc, log) => acc + logAmount(habit, log), 0);
+}
+
+/**
+ * Progress for one habit on `dateKey`. Weekly targets report the week-to-date
+ * total against the full weekly goal.
+ */
+export function judgeDay(habit: Habit, logs: HabitLog[], dateKey: string): TargetProgress {
+  if (habit.targetPeriod === "week" && habit.target) {
+    return judgeHabitAmount(habit, amountOn(habit, logs, startOfWeek(dateKey), dateKey));
+  }
+  return judgeHabitAmount(habit, amountOn(habit, logs, dateKey, dateKey));
+}
+
+function countDays(startKey: string, endKey: string, include: (dateKey: string) => boolean) {
+  let count = 0;
+  for (let date = startKey; date <= endKey; date = addDays(date, 1)) {
+    if (include(date)) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Scores a habit over an inclusive date range, from the day it was added (see
+ * `trackedSince`) up to `todayKey` at most. Daily targets are judged on each
+ * scheduled day; weekly targets on each calendar week, with the goal pro-rated
+ * for weeks the range only partly covers. Avoid habits score every scheduled
+ * day without a slip.
+ */
+export function computeCompletion(
+  habit: Habit,
+  logs: HabitLog[],
+  startKey: string,
+  endKey: string,
+  todayKey: string,
+): HabitCompletion {
+  const amountByDate = new Map<string, number>();
+  for (const log of logs) {
+    if (log.habitId === habit.id && log.date >= startKey && log.date <= endKey) {
+      amountByDate.set(log.date, (amountByDate.get(log.date) ?? 0) + logAmount(habit, log));
+    }
+  }
+  const amount = Array.from(amountByDate.values()).reduce((acc, curr) => acc + curr, 0);
+  // Days before the habit existed, or still to come, are neither hits nor misses.
+  const since = trackedSince(habit, logs);
+  const fromKey = since > startKey ? since : startKey;
+  const toKey = todayKey < endKey ? todayKey : endKey;
+  const identity = {
+    habitId: habit.id,
+    name: habit.name,
+    kind: habit.kind,
+    unit: habit.unit,
+    amount,
+  };
+
+  if (habit.targetPeriod === "week" && habit.target) {
+    let periods = 0;
+    let hitCount = 0;
+    let progressSum = 0;
+    for (let week = startOfWeek(fromKey); week <= toKey; week = addDays(week, 7)) {
+      const weekEnd = addDays(week, 6);
+      const from = week < fromKey ? fromKey : week;
+      const to = weekEnd > toKey ? toKey : weekEnd;
+      if (from > to) {
+        continue;
+      }
+      const goal = (habit.target * countDays(from, to, () => true)) / 7;
+      const weekAmount = Array.from(amountByDate.entries())
+        .filter(([date]) => date >= from && date <= to)
+        .reduce((acc, [, value]) => acc + value, 0);
+      periods += 1;
+      progressSum += Math.min(1, weekAmount / goal);
+      if (weekAmount >= goal) {
+        hitCount += 1;
+      }
+    }
+    return {
+      ...identity,
+      completionRate: periods > 0 ? progressSum / periods : 0,
+      hitCount,
+      hitUnit: "week",
+      periods,
+    };
+  }
+
+  const schedule = habit.schedule;
+  const days = countDays(fromKey, toKey, () => true);
+  const expected =
+    schedule.type === "weekly" && habit.kind !== "avoid"
+      ? days > 0
+        ? Math.max(1, Math.round((schedule.timesPerWeek * days) / 7))
+        : 0
+      : countDays(fromKey, toKey, (date) => isScheduledOn(schedule, date));
+  // Unlogged days only count for avoid habits, where they are the successes.
+  const judgedDates: string[] = [];
+  if (habit.kind === "avoid") {
+    for (let date = fromKey; date <= toKey; date = addDays(date, 1)) {
+      judgedDates.push(date);
+    }
+  } else {
+    judgedDates.push(...amountByDate.keys());
+  }
+  let hitCount = 0;
+  let progressSum = 0;
+  for (const date of judgedDates) {
+    if (!isScheduledOn(schedule, date)) {
+      continue;
+    }
+    const progress = judgeHabitAmount(habit, amountByDate.get(date) ?? 0);
+    progressSum += progress.percent / 100;
+    if (progress.status === "met") {
+      hitCount += 1;
+    }
+  }
+
+  return {
+    ...identity,
+    completionRate: expected > 0 ? Math.min(1, progressSum / expected) : 0,
+    hitCount: Math.min(hitCount, expected),
+    hitUnit: "day",
+    periods: expected,
+  };
+}
+
+export function formatTarget(habit: Habit): string {
+  if (!habit.target) {
+    return "";
+  }
+  return `${formatAmount(habit, habit.target)}/${habit.targetPeriod === "week" ? "week" : "day"}`;
+}
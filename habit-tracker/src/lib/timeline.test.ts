@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { TIMELINE_PAGE_SIZE, timelinePage, type TimelineGroup } from "./timeline";
+
+function groups(count: number): TimelineGroup[] {
+  return Array.from({ length: count }, (_, index) => ({
+    date: `day-${index}`,
+    habits: [],
+    gratitude: [],
+  }));
+}
+
+describe("timelinePage", () => {
+  it("shows one empty page when nothing matches", () => {
+    expect(timelinePage([], 3)).toEqual({ groups: [], page: 0, pageCount: 1 });
+  });
+
+  it("slices the requested page", () => {
+    const result = timelinePage(groups(TIMELINE_PAGE_SIZE + 5), 1);
+    expect(result.pageCount).toBe(2);
+    expect(result.groups.map((group) => group.date)).toEqual(
+      groups(TIMELINE_PAGE_SIZE + 5)
+        .slice(TIMELINE_PAGE_SIZE)
+        .map((group) => group.date),
+    );
+  });
+
+  it("clamps to the last page once filters leave fewer days", () => {
+    const result = timelinePage(groups(3), 4);
+    expect(result.page).toBe(0);
+    expect(result.groups).toHaveLength(3);
+  });
+});
@@ -0,0 +1,127 @@
+import type { GratitudeEntry, Habit, HabitLog } from "./types";
+
+export const TIMELINE_PAGE_SIZE = 20;
+
+export type TimelineGroup = {
+  date: string;
+  habits: HabitLog[];
+  gratitude: GratitudeEntry[];
+};
+
+export type TimelineFilters = {
+  query: string;
+  /** Inclusive date keys; empty leaves that end open. */
+  startKey: string;
+  endKey: string;
+  habitId: string | null;
+  /** Only logs of habits at least this important; 1 keeps every habit. */
+  minImportance: number;
+  gratitudeOnly: boolean;
+};
+
+export const EMPTY_TIMELINE_FILTERS: TimelineFilters = {
+  query: "",
+  startKey: "",
+  endKey: "",
+  habitId: null,
+  minImportance: 1,
+  gratitudeOnly: false,
+};
+
+/** One page of `groups`, with `page` clamped to the pages there are. */
+export function timelinePage(groups: TimelineGroup[], page: number) {
+  const pageCount = Math.max(1, Math.ceil(groups.length / TIMELINE_PAGE_SIZE));
+  const current = Math.min(page, pageCount - 1);
+  return {
+    groups: groups.slice(current * TIMELINE_PAGE_SIZE, (current + 1) * TIMELINE_PAGE_SIZE),
+    page: current,
+    pageCount,
+  };
+}
+
+export function hasActiveFilters(filters: TimelineFilters): boolean {
+  return JSON.stringify(filters) !== JSON.stringify(EMPTY_TIMELINE_FILTERS);
+}
+
+/** Logs and gratitude grouped by day, newest day first, most important habits first. */
+export function groupTimeline(
+  logs: HabitLog[],
+  gratitude: GratitudeEntry[],
+  habits: Habit[],
+): TimelineGroup[] {
+  const importance = new Map(habits.map((habit) => [habit.id, habit.importance]));
+  const byDate = new Map<string, TimelineGroup>();
+  const groupFor = (date: string) => {
+    let group = byDate.get(date);
+    if (!group) {
+      group = { date, habits: [], gratitude: [] };
+      byDate.set(date, group);
+    }
+    return group;
+  };
+
+  for (const log of logs) {
+    groupFor(log.date).habits.push(log);
+  }
+  for (const entry of gratitude) {
+    groupFor(entry.date).gratitude.push(entry);
+  }
+
+  return Array.from(byDate.values())
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map((group) => ({
+      ...group,
+      habits: group.habits.sort(
+        (a, b) => (importance.get(b.habitId) ?? 0) - (importance.get(a.habitId) ?? 0),
+      ),
+      gratitude: group.gratitude.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    }));
+}
+
+/**
+ * Applies the archive filters. Habit and importance filters narrow each day
+ * to the matching logs and drop days left without any; the search keeps days
+ * where a habit name, session note, reflection or entry tag contains the query.
+ */
+export function filterTimeline(
+  groups: TimelineGroup[],
+  filters: TimelineFilters,
+  habits: Habit[],
+): TimelineGroup[] {
+  const habitsById = new Map(habits.map((habit) => [habit.id, habit]));
+  const query = filters.query.trim().toLowerCase();
+  const matches = (text: string | undefined) => !!text && text.toLowerCase().includes(query);
+  const narrowsLogs = filters.habitId !== null || filters.minImportance > 1;
+
+  return groups.flatMap((group) => {
+    if (
+      (filters.startKey && group.date < filters.startKey) ||
+      (filters.endKey && group.date > filters.endKey) ||
+      (filters.gratitudeOnly && group.gratitude.length === 0)
+    ) {
+      return [];
+    }
+    const logs = narrowsLogs
+      ? group.habits.filter(
+          (log) =>
+            (filters.habitId === null || log.habitId === filters.habitId) &&
+            (habitsById.get(log.habitId)?.importance ?? 0) >= filters.minImportance,
+        )
+      : group.habits;
+    if (narrowsLogs && logs.length === 0) {
+      return [];
+    }
+    if (
+      query &&
+      !logs.some(
+        (log) =>
+          matches(habitsById.get(log.habitId)?.name) ||
+          log.sessions.some((session) => matches(session.note)),
+      ) &&
+      !group.gratitude.some((entry) => matches(entry.response) || entry.tags.some(matches))
+    ) {
+      return [];
+    }
+    return [{ ...group, habits: logs }];
+  });
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { entry, habit, minutesLog, valueLog } from "../test/fixtures";
+import { logAmount } from "./kinds";
+import { defaultState } from "./persistence";
+import {
+  exportGratitudeAsCsv,
+  exportLogsAsCsv,
+  parseCsv,
+  parseImportFile,
+  planImport,
+} from "./transfer";
+
+describe("CSV export", () => {
+  it("keeps cells that a spreadsheet would run as formulas as text", () => {
+    const csv = exportGratitudeAsCsv({
+      ...defaultState,
+      gratitude: [
+        entry("a", "2024-01-01", { response: "=HYPERLINK(\"http://x\")" }),
+        entry("b", "2024-01-02", { response: "+1 for sleep" }),
+        entry("c", "2024-01-03", { response: "-tired", tags: ["@home"] }),
+        entry("d", "2024-01-04", { response: "\tindented" }),
+      ],
+    });
+    const responses = parseCsv(csv)
+      .slice(1)
+      .map((row) => [row[3], row[6]]);
+    expect(responses).toEqual([
+      ["'=HYPERLINK(\"http://x\")", ""],
+      ["'+1 for sleep", ""],
+      ["'-tired", "'@home"],
+      ["'\tindented", ""],
+    ]);
+  });
+
+  it("leaves numbers and plain text alone", () => {
+    const csv = exportLogsAsCsv({
+      ...defaultState,
+      habits: [habit("h1", { name: "Read" })],
+      logs: [minutesLog("h1", "2024-01-01", 20)],
+    });
+    expect(csv.split("\r\n")[1]).toBe("2024-01-01,h1,Read,20,");
+  });
+
+  it("imports guarded cells as they were written", () => {
+    const csv = exportGratitudeAsCsv({
+      ...defaultState,
+      gratitude: [entry("a", "2024-01-01", { promptId: "p1", response: "=1+1", tags: ["-x"] })],
+    });
+    expect(parseImportFile(csv).gratitude).toEqual([
+      expect.objectContaining({ id: "a", response: "=1+1", tags: ["-x"] }),
+    ]);
+  });
+});
+
+describe("CSV import", () => {
+  it("brings back each habit's kind and amounts in a fresh app", () => {
+    const csv = exportLogsAsCsv({
+      ...defaultState,
+      habits: [
+        habit("run", { name: "Run" }),
+        habit("floss", { name: "Floss", kind: "checkbox" }),
+        habit("water", { name: "Water", kind: "count" }),
+      ],
+      logs: [
+        minutesLog("run", "2024-01-02", 20),
+        valueLog("floss", "2024-01-01", 1),
+        valueLog("floss", "2024-01-02", 1),
+        valueLog("water", "2024-01-02", 1),
+        valueLog("water", "2024-01-03", 6),
+      ],
+    });
+    const { next } = planImport(defaultState, parseImportFile(csv), "merge", "use-imported");
+    expect(next.habits.map((item) => [item.id, item.kind, item.createdOn])).toEqual([
+      ["floss", "checkbox", "2024-01-01"],
+      ["run", "duration", "2024-01-02"],
+      ["water", "count", "2024-01-02"],
+    ]);
+    const amounts = next.logs.map((log) => {
+      const owner = next.habits.find((item) => item.id === log.habitId)!;
+      return [log.habitId, log.date, logAmount(owner, log)];
+    });
+    expect(amounts).toEqual([
+      ["floss", "2024-01-01", 1],
+      ["floss", "2024-01-02", 1],
+      ["run", "2024-01-02", 20],
+      ["water", "2024-01-02", 1],
+      ["water", "2024-01-03", 6],
+    ]);
+  });
+});
@@ -0,0 +1,534 @@
+import { formatAmount, logAmount } from "./kinds";
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateState,
+  validateGratitudeEntry,
+  validateHabit,
+  validateHabitLog,
+  type PersistedState,
+} from "./persistence";
+import { normalizeTags } from "./prompts";
+import { DAILY_SCHEDULE } from "./schedule";
+import type {
+  AppState,
+  GratitudeEntry,
+  GratitudePrompt,
+  Habit,
+  HabitKind,
+  HabitLog,
+  Routine,
+} from "./types";
+
+export const EXPORT_FORMAT = "ritual-rhythm-export";
+
+const LOG_CSV_HEADER = ["date", "habit_id", "habit_name", "minutes", "value"];
+/** Log exports from before habit kinds had no value column. */
+const LEGACY_LOG_CSV_HEADER = ["date", "habit_id", "habit_name", "minutes"];
+const GRATITUDE_CSV_HEADER = [
+  "date",
+  "entry_id",
+  "prompt_id",
+  "response",
+  "mood",
+  "energy",
+  "tags",
+];
+/** Gratitude exports from when each day held a single reflection. */
+const LEGACY_GRATITUDE_CSV_HEADER = ["date", "prompt_id", "response"];
+
+export type ExportFile = PersistedState & {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+};
+
+export type ImportData = {
+  source: "json" | "csv";
+  habits: Habit[];
+  logs: HabitLog[];
+  gratitude: GratitudeEntry[];
+  /** The prompt library, which only JSON exports carry. */
+  prompts: GratitudePrompt[];
+  /** Routines, which likewise only JSON exports carry. */
+  routines: Routine[];
+  rejected: number;
+};
+
+export type ImportMode = "merge" | "replace";
+export type ConflictResolution = "keep-existing" | "use-imported";
+
+export type ImportConflict = {
+  kind: "habit" | "log" | "gratitude";
+  key: string;
+  message: string;
+};
+
+type RecordCounts = { added: number; updated: number; unchanged: number };
+
+export type ImportPreview = {
+  mode: ImportMode;
+  next: AppState;
+  habits: RecordCounts;
+  logs: RecordCounts;
+  gratitude: RecordCounts;
+  conflicts: ImportConflict[];
+  rejected: number;
+};
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export function exportStateAsJson(state: AppState, now = new Date()): string {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    exportedAt: now.toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    ...state,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Spreadsheets run text starting with these as a formula; a leading `'` keeps it text. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvField(value: string | number): string {
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Undoes the formula guard `escapeCsvField` adds, so exported text imports unchanged. */
+function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+}
+
+export function exportLogsAsCsv(state: AppState): string {
+  const names = new Map(state.habits.map((habit) => [habit.id, habit.name]));
+  const rows = state.logs
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date) || a.habitId.localeCompare(b.habitId))
+    .map((log) => [
+      log.date,
+      log.habitId,
+      names.get(log.habitId) ?? "",
+      log.minutes,
+      log.value ?? "",
+    ]);
+  return toCsv([LOG_CSV_HEADER, ...rows]);
+}
+
+export function exportGratitudeAsCsv(state: AppState): string {
+  const rows = state.gratitude
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+    .map((entry) => [
+      entry.date,
+      entry.id,
+      entry.promptId,
+      entry.response,
+      entry.mood ?? "",
+      entry.energy ?? "",
+      entry.tags.join(", "),
+    ]);
+  return toCsv([GRATITUDE_CSV_HEADER, ...rows]);
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]!;
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ImportError("CSV file has an unterminated quoted field.");
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.length > 0));
+}
+
+function sameHeader(row: string[] | undefined, header: string[]) {
+  return (
+    row !== undefined &&
+    row.length === header.length &&
+    row.every((cell, index) => cell.trim().toLowerCase() === header[index])
+  );
+}
+
+/**
+ * A habit for logs found in a CSV file, which only names it. Values mean the
+ * habit was not timed: a checkbox when every value is 1, otherwise a count
+ * (avoid habits come back as counts of slips). It counts as added on the
+ * earliest of its logs.
+ */
+function habitFromLogs(id: string, name: string, logs: HabitLog[]): Habit | null {
+  const values = logs.flatMap((log) => (log.value === undefined ? [] : [log.value]));
+  const kind: HabitKind =
+    values.length === 0 ? "duration" : values.every((value) => value === 1) ? "checkbox" : "count";
+  const createdOn = logs.reduce(
+    (earliest, log) => (log.date < earliest ? log.date : earliest),
+    logs[0]!.date,
+  );
+  return validateHabit(
+    { id, name, importance: 3, kind, schedule: DAILY_SCHEDULE, createdOn },
+    createdOn,
+  );
+}
+
+function parseCsvImport(text: string): ImportData {
+  const [header, ...cells] = parseCsv(text);
+  const rows = cells.map((row) => row.map(unescapeFormula));
+  let rejected = 0;
+
+  if (sameHeader(header, LOG_CSV_HEADER) || sameHeader(header, LEGACY_LOG_CSV_HEADER)) {
+    const names = new Map<string, string>();
+    const logs: HabitLog[] = [];
+    for (const [date, habitId, habitName, minutes, value] of rows) {
+      const log = validateHabitLog({
+        date,
+        habitId,
+        minutes: Number(minutes),
+        value: value ? Number(value) : undefined,
+      });
+      if (!log) {
+        rejected += 1;
+        continue;
+      }
+      logs.push(log);
+      if (!names.has(log.habitId)) {
+        names.set(log.habitId, habitName);
+      }
+    }
+    const habits = Array.from(names, ([habitId, name]) =>
+      habitFromLogs(
+        habitId,
+        name,
+        logs.filter((log) => log.habitId === habitId),
+      ),
+    ).filter((habit): habit is Habit => habit !== null);
+    return {
+      source: "csv",
+      habits,
+      logs,
+      gratitude: [],
+      prompts: [],
+      routines: [],
+      rejected,
+    };
+  }
+
+  if (sameHeader(header, GRATITUDE_CSV_HEADER) || sameHeader(header, LEGACY_GRATITUDE_CSV_HEADER)) {
+    const legacy = sameHeader(header, LEGACY_GRATITUDE_CSV_HEADER);
+    const gratitude: GratitudeEntry[] = [];
+    for (const row of rows) {
+      const [date, id, promptId, response, mood, energy, tags] = legacy
+        ? [row[0], "", row[1], row[2], "", "", ""]
+        : row;
+      const entry = validateGratitudeEntry({
+        id,
+        date,
+        promptId,
+        response,
+        mood: mood ? Number(mood) : undefined,
+        energy: energy ? Number(energy) : undefined,
+        tags: normalizeTags(tags ?? ""),
+      });
+      if (entry) {
+        gratitude.push(entry);
+      } else {
+        rejected += 1;
+      }
+    }
+    return { source: "csv", habits: [], logs: [], gratitude, prompts: [], routines: [], rejected };
+  }
+
+  throw new ImportError(
+    `Unrecognised CSV header. Expected "${LOG_CSV_HEADER.join(",")}" or "${GRATITUDE_CSV_HEADER.join(",")}".`,
+  );
+}
+
+export function parseImportFile(text: string): ImportData {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) {
+    throw new ImportError("The selected file is empty.");
+  }
+  if (!trimmed.startsWith("{")) {
+    return parseCsvImport(trimmed);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(trimmed);
+  } catch {
+    throw new ImportError("The selected file is not valid JSON.");
+  }
+  try {
+    const { state, rejected } = migrateState(payload);
+    return {
+      source: "json",
+      habits: state.habits,
+      logs: state.logs,
+      gratitude: state.gratitude,
+      prompts: state.prompts,
+      routines: state.routines,
+      rejected: rejected.length,
+    };
+  } catch (error) {
+    throw new ImportError(error instanceof Error ? error.message : "Unsupported export file.");
+  }
+}
+
+function logKey(log: HabitLog) {
+  return `${log.habitId}|${log.date}`;
+}
+
+function sameHabit(a: Habit, b: Habit) {
+  return (
+    a.name === b.name &&
+    a.importance === b.importance &&
+    a.kind === b.kind &&
+    a.unit === b.unit &&
+    a.target === b.target &&
+    a.targetPeriod === b.targetPeriod &&
+    a.archived === b.archived &&
+    a.routineId === b.routineId &&
+    a.reminders.join() === b.reminders.join() &&
+    JSON.stringify(a.schedule) === JSON.stringify(b.schedule)
+  );
+}
+
+/**
+ * Merges incoming records into existing ones keyed by `keyOf`. Differing
+ * records are reported as conflicts and resolved according to `resolution`.
+ */
+function mergeRecords<T>({
+  existing,
+  incoming,
+  keyOf,
+  isSame,
+  describe,
+  kind,
+  resolution,
+  conflicts,
+}: {
+  existing: T[];
+  incoming: T[];
+  keyOf: (record: T) => string;
+  isSame: (a: T, b: T) => boolean;
+  describe: (existing: T, incoming: T) => string;
+  kind: ImportConflict["kind"];
+  resolution: ConflictResolution;
+  conflicts: ImportConflict[];
+}): { merged: T[]; counts: RecordCounts } {
+  const merged = new Map(existing.map((record) => [keyOf(record), record]));
+  const counts: RecordCounts = { added: 0, updated: 0, unchanged: 0 };
+
+  for (const record of incoming) {
+    const key = keyOf(record);
+    const current = merged.get(key);
+    if (!current) {
+      merged.set(key, record);
+      counts.added += 1;
+    } else if (isSame(current, record)) {
+      counts.unchanged += 1;
+    } else {
+      conflicts.push({ kind, key, message: describe(current, record) });
+      if (resolution === "use-imported") {
+        merged.set(key, record);
+        counts.updated += 1;
+      } else {
+        counts.unchanged += 1;
+      }
+    }
+  }
+
+  return { merged: Array.from(merged.values()), counts };
+}
+
+/** Drops repeated keys within the imported file, keeping the first occurrence. */
+function dedupeIncoming<T>(
+  records: T[],
+  keyOf: (record: T) => string,
+  describe: (record: T) => string,
+  kind: ImportConflict["kind"],
+  conflicts: ImportConflict[],
+): T[] {
+  const seen = new Set<string>();
+  const unique: T[] = [];
+  for (const record of records) {
+    const key = keyOf(record);
+    if (seen.has(key)) {
+      conflicts.push({ kind, key, message: `File contains more than one ${describe(record)}.` });
+      continue;
+    }
+    seen.add(key);
+    unique.push(record);
+  }
+  return unique;
+}
+
+export function planImport(
+  current: AppState,
+  incoming: ImportData,
+  mode: ImportMode,
+  resolution: ConflictResolution,
+): ImportPreview {
+  if (mode === "replace" && incoming.source === "csv") {
+    throw new ImportError("CSV files only hold part of your data, so they can only be merged.");
+  }
+  const conflicts: ImportConflict[] = [];
+  const findHabit = (habitId: string) =>
+    incoming.habits.find((habit) => habit.id === habitId) ??
+    current.habits.find((habit) => habit.id === habitId);
+  const habitName = (habitId: string) => findHabit(habitId)?.name ?? habitId;
+  const describeLog = (log: HabitLog) => {
+    const habit = findHabit(log.habitId);
+    return habit ? formatAmount(habit, logAmount(habit, log)) : `${log.minutes} min`;
+  };
+
+  const habits = dedupeIncoming(
+    incoming.habits,
+    (habit) => habit.id,
+    (habit) => `habit with id "${habit.id}"`,
+    "habit",
+    conflicts,
+  );
+  const logs = dedupeIncoming(
+    incoming.logs,
+    logKey,
+    (log) => `log for "${habitName(log.habitId)}" on ${log.date}`,
+    "log",
+    conflicts,
+  );
+  const gratitude = dedupeIncoming(
+    incoming.gratitude,
+    (entry) => entry.id,
+    (entry) => `gratitude entry with id "${entry.id}"`,
+    "gratitude",
+    conflicts,
+  );
+
+  if (mode === "replace") {
+    return {
+      mode,
+      next: {
+        ...current,
+        habits,
+        logs,
+        gratitude,
+        prompts: incoming.prompts,
+        routines: incoming.routines,
+      },
+      habits: { added: habits.length, updated: 0, unchanged: 0 },
+      logs: { added: logs.length, updated: 0, unchanged: 0 },
+      gratitude: { added: gratitude.length, updated: 0, unchanged: 0 },
+      conflicts,
+      rejected: incoming.rejected,
+    };
+  }
+
+  const mergedHabits = mergeRecords({
+    existing: current.habits,
+    incoming: habits,
+    keyOf: (habit) => habit.id,
+    // CSV rows only carry habit names, so existing habits are never overwritten by them.
+    isSame: incoming.source === "csv" ? () => true : sameHabit,
+    describe: (existing, imported) =>
+      `Habit "${existing.name}" differs from the imported "${imported.name}".`,
+    kind: "habit",
+    resolution,
+    conflicts,
+  });
+  const mergedLogs = mergeRecords({
+    existing: current.logs,
+    incoming: logs,
+    keyOf: logKey,
+    isSame: (a, b) => a.minutes === b.minutes && a.value === b.value,
+    describe: (existing, imported) =>
+      `"${habitName(existing.habitId)}" on ${existing.date}: ${describeLog(existing)} saved, ${describeLog(imported)} in file.`,
+    kind: "log",
+    resolution,
+    conflicts,
+  });
+  const mergedGratitude = mergeRecords({
+    existing: current.gratitude,
+    incoming: gratitude,
+    keyOf: (entry) => entry.id,
+    isSame: (a, b) =>
+      a.response === b.response &&
+      a.mood === b.mood &&
+      a.energy === b.energy &&
+      a.tags.join() === b.tags.join(),
+    describe: (existing) => `Gratitude reflection on ${existing.date} differs.`,
+    kind: "gratitude",
+    resolution,
+    conflicts,
+  });
+
+  return {
+    mode,
+    next: {
+      ...current,
+      habits: mergedHabits.merged,
+      logs: mergedLogs.merged,
+      gratitude: mergedGratitude.merged,
+      // Prompts are never in conflict: the library only gains the ones it lacks.
+      prompts: [
+        ...current.prompts,
+        ...incoming.prompts.filter(
+          (prompt) => !current.prompts.some((existing) => existing.id === prompt.id),
+        ),
+      ],
+      // Routines merge the same way, so imported habits keep the routine they belong to.
+      routines: [
+        ...current.routines,
+        ...incoming.routines.filter(
+          (routine) => !current.routines.some((existing) => existing.id === routine.id),
+        ),
+      ],
+    },
+    habits: mergedHabits.counts,
+    logs: mergedLogs.counts,
+    gratitude: mergedGratitude.counts,
+    conflicts,
+    rejected: incoming.rejected,
+  };
+}
@@ -0,0 +1,129 @@
+import type { DayBoundary } from "./dates";
+
+/** Days are numbered like `Date.getDay()`: 0 is Sunday. */
+export type HabitSchedule =
+  | { type: "daily" }
+  | { type: "weekdays"; days: number[] }
+  | { type: "weekly"; timesPerWeek: number };
+
+/**
+ * How a habit is measured. Duration habits log timed sessions; the others log
+ * a single value per day. "avoid" habits succeed on days nothing is logged.
+ */
+export type HabitKind = "duration" | "checkbox" | "count" | "avoid";
+
+export type Habit = {
+  id: string;
+  name: string;
+  importance: number;
+  kind: HabitKind;
+  /** What a count habit counts, e.g. "glasses" or "pages". */
+  unit?: string;
+  /** Goal per `targetPeriod`, in minutes for duration habits or units for count habits. */
+  target?: number;
+  targetPeriod: "day" | "week";
+  archived: boolean;
+  schedule: HabitSchedule;
+  /** Local `HH:MM` times to be reminded on scheduled days. */
+  reminders: string[];
+  /** The routine the habit is stacked in; null leaves it ungrouped. */
+  routineId: string | null;
+  /** Order within its routine, lowest first. */
+  position: number;
+  /** The day the habit was added, from which avoid habits count clean days. */
+  createdOn: string;
+  updatedAt: string;
+};
+
+/** When in the day a routine is meant to run, which also orders routines. */
+export type RoutineSlot = "morning" | "midday" | "afternoon" | "evening" | "anytime";
+
+/** A named group of habits done together, such as "Morning" or "Workday". */
+export type Routine = {
+  id: string;
+  name: string;
+  slot: RoutineSlot;
+  updatedAt: string;
+};
+
+export type HabitSession = {
+  id: string;
+  minutes: number;
+  /** Local wall-clock start as `HH:MM`, when known. */
+  startTime?: string;
+  note?: string;
+};
+
+export type HabitLog = {
+  habitId: string;
+  date: string;
+  /** Total of `sessions`, kept alongside them so aggregations stay simple. */
+  minutes: number;
+  sessions: HabitSession[];
+  /** Amount for non-duration kinds: the count, 1 for a ticked checkbox, or slips of an avoid habit. */
+  value?: number;
+  updatedAt: string;
+};
+
+/** A journal entry; a day can hold several. */
+export type GratitudeEntry = {
+  id: string;
+  date: string;
+  promptId: string;
+  /** The prompt as it read when answered; later edits to the prompt leave it untouched. */
+  promptText?: string;
+  response: string;
+  /** Self-rated from 1 (low) to 5 (high). */
+  mood?: number;
+  energy?: number;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type GratitudePrompt = {
+  id: string;
+  text: string;
+  tags: string[];
+  /** Disabled prompts stay in the library but drop out of the rotation. */
+  enabled: boolean;
+  updatedAt: string;
+};
+
+/** How the daily gratitude prompt is chosen. */
+export type PromptRotation = "date" | "shuffle" | "manual";
+
+/** Marks a deleted record so the deletion wins over older copies during sync. */
+export type Tombstone = {
+  kind: "habit" | "log" | "gratitude" | "prompt" | "routine";
+  key: string;
+  deletedAt: string;
+};
+
+/** A daily window, as `HH:MM` times, that may wrap past midnight. */
+export type QuietHours = {
+  start: string;
+  end: string;
+};
+
+/** Device-independent preferences that sync like any other record. */
+export type Settings = DayBoundary & {
+  /** When to list today's unlogged habits; null turns the digest off. */
+  digestTime: string | null;
+  quietHours: QuietHours | null;
+  promptRotation: PromptRotation;
+  /** Limits the rotation to prompts with this tag. */
+  promptTag: string | null;
+  updatedAt: string;
+};
+
+export type AppState = {
+  habits: Habit[];
+  logs: HabitLog[];
+  gratitude: GratitudeEntry[];
+  prompts: GratitudePrompt[];
+  routines: Routine[];
+  tombstones: Tombstone[];
+  settings: Settings;
+  premium: boolean;
+};
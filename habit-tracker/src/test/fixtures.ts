@@ -0,0 +1,69 @@
+import { addDays } from "../lib/dates";
+import type { GratitudeEntry, Habit, HabitLog, Routine } from "../lib/types";
+
+const AT = "2024-01-01T00:00:00.000Z";
+
+/** A daily duration habit without a target, with `changes` laid over it. */
+export function habit(id: string, changes: Partial<Habit> = {}): Habit {
+  return {
+    id,
+    name: id,
+    importance: 3,
+    kind: "duration",
+    targetPeriod: "day",
+    archived: false,
+    schedule: { type: "daily" },
+    reminders: [],
+    routineId: null,
+    position: 0,
+    createdOn: AT.slice(0, 10),
+    updatedAt: AT,
+    ...changes,
+  };
+}
+
+/** A day's log of `minutes` as one session. */
+export function minutesLog(habitId: string, date: string, minutes: number): HabitLog {
+  return {
+    habitId,
+    date,
+    minutes,
+    sessions: minutes > 0 ? [{ id: `${habitId}-${date}`, minutes }] : [],
+    updatedAt: AT,
+  };
+}
+
+/** A day's log for a checkbox, count or avoid habit. */
+export function valueLog(habitId: string, date: string, value: number): HabitLog {
+  return { habitId, date, minutes: 0, sessions: [], value, updatedAt: AT };
+}
+
+export function routine(id: string, changes: Partial<Routine> = {}): Routine {
+  return { id, name: id, slot: "anytime", updatedAt: AT, ...changes };
+}
+
+export function entry(
+  id: string,
+  date: string,
+  changes: Partial<GratitudeEntry> = {},
+): GratitudeEntry {
+  return {
+    id,
+    date,
+    promptId: "",
+    response: "",
+    tags: [],
+    createdAt: `${date}T08:00:00.000Z`,
+    updatedAt: `${date}T08:00:00.000Z`,
+    ...changes,
+  };
+}
+
+/** Every date key from `startKey` to `endKey`, inclusive. */
+export function days(startKey: string, endKey: string): string[] {
+  const dates: string[] = [];
+  for (let date = startKey; date <= endKey; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
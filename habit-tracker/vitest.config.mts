@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Date keys are parsed as local dates, so pin the zone the suite runs in.
+process.env.TZ = "UTC";
+
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+});